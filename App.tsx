@@ -4,9 +4,17 @@ import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { AppNavigator } from './src/navigation';
 import { OnboardingProvider } from './src/contexts/OnboardingContext';
 import { AppProvider } from './src/contexts/AppContext';
+import { AppLockProvider } from './src/contexts/AppLockContext';
+import { ThemeProvider, useThemeContext } from './src/contexts/ThemeContext';
 import { OfflineIndicator } from './src/components/common/OfflineIndicator';
 import { globalErrorHandler } from './src/utils/GlobalErrorHandler';
 
+// Light status bar text over the dark palette, dark text over the light one
+const ThemedStatusBar: React.FC = () => {
+  const { isDark } = useThemeContext();
+  return <StatusBar style={isDark ? 'light' : 'dark'} />;
+};
+
 export default function App() {
   useEffect(() => {
     // Initialize global error handler
@@ -24,13 +32,17 @@ export default function App() {
 
   return (
     <SafeAreaProvider>
-      <OnboardingProvider>
-        <AppProvider>
-          <StatusBar style="auto" />
-          <AppNavigator />
-          <OfflineIndicator />
-        </AppProvider>
-      </OnboardingProvider>
+      <ThemeProvider>
+        <OnboardingProvider>
+          <AppProvider>
+            <AppLockProvider>
+              <ThemedStatusBar />
+              <AppNavigator />
+              <OfflineIndicator />
+            </AppLockProvider>
+          </AppProvider>
+        </OnboardingProvider>
+      </ThemeProvider>
     </SafeAreaProvider>
   );
 }
@@ -0,0 +1,168 @@
+#!/usr/bin/env node
+
+// Activity Import Check - parses CSV and .xlsx files for the import wizard
+// Usage: node scripts/check-activity-import.js
+//
+// activityImport.ts and xlsxReader.ts are plain TypeScript with no React Native imports,
+// so they are transpiled here and run directly in Node. The workbook is built with JSZip
+// the way spreadsheet apps write one: shared strings, inline strings and serial dates.
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+const JSZip = require('jszip');
+
+const ROOT = path.join(__dirname, '..');
+const IMPORT_PATH = path.join(ROOT, 'src/utils/activityImport.ts');
+const XLSX_READER_PATH = path.join(ROOT, 'src/utils/xlsxReader.ts');
+const ALLOWED_IMPORTS = ['pako', '@noble/ciphers/utils'];
+
+const CATEGORIES = [
+  'Conference', 'Workshop', 'Online Course', 'Webinar', 'Journal Reading', 'Research', 'Teaching',
+  'Committee Work', 'Quality Improvement', 'Patient Safety', 'Ethics', 'Opioid Prescribing', 'Other',
+];
+
+function loadTypeScriptModule(filePath) {
+  const source = fs.readFileSync(filePath, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+    },
+    fileName: filePath,
+  });
+
+  const module = { exports: {} };
+  const localRequire = (request) => {
+    if (request.startsWith('./')) {
+      return loadTypeScriptModule(path.join(path.dirname(filePath), `${request}.ts`));
+    }
+    if (!ALLOWED_IMPORTS.includes(request)) {
+      throw new Error(`${path.basename(filePath)} must not import "${request}" at runtime`);
+    }
+    return require(request);
+  };
+  new Function('require', 'module', 'exports', outputText)(localRequire, module, module.exports);
+  return module.exports;
+}
+
+async function buildWorkbook() {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', '<?xml version="1.0" encoding="UTF-8"?><Types/>');
+  zip.file('xl/workbook.xml',
+    '<workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    '<sheets><sheet name="Activities" sheetId="1" r:id="rId3"/></sheets></workbook>');
+  zip.file('xl/_rels/workbook.xml.rels',
+    '<Relationships><Relationship Id="rId1" Target="styles.xml"/>' +
+    '<Relationship Id="rId3" Target="worksheets/activities.xml"/></Relationships>');
+  zip.file('xl/sharedStrings.xml',
+    '<sst><si><t>Activity</t></si><si><t>Date</t></si><si><t>CME Credits</t></si>' +
+    '<si><r><t>Heart </t></r><r><t>&amp; Lungs</t></r></si></sst>');
+  zip.file('xl/worksheets/activities.xml',
+    '<worksheet><sheetData>' +
+    '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c></row>' +
+    '<row r="2"><c r="A2" t="s"><v>3</v></c><c r="B2"><v>45352</v></c><c r="C2"><v>1.5</v></c></row>' +
+    '<row r="4"><c r="A4" t="inlineStr"><is><t>Ethics &lt;Online&gt;</t></is></c><c r="C4"><v>2</v></c></row>' +
+    '<row r="5"/>' +
+    '</sheetData></worksheet>');
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
+
+async function main() {
+  const {
+    parseCsv,
+    guessColumnMapping,
+    detectDateFormat,
+    parseImportDate,
+    parseCredits,
+    guessCategory,
+    buildImportCandidates,
+    findDuplicates,
+  } = loadTypeScriptModule(IMPORT_PATH);
+  const { readXlsxRows } = loadTypeScriptModule(XLSX_READER_PATH);
+
+  let failures = 0;
+
+  const check = (name, actual, expected) => {
+    if (JSON.stringify(actual) === JSON.stringify(expected)) {
+      console.log(`ok   ${name}`);
+    } else {
+      failures++;
+      console.log(`FAIL ${name}`);
+      console.log(`     got      ${JSON.stringify(actual)}`);
+      console.log(`     expected ${JSON.stringify(expected)}`);
+    }
+  };
+
+  check('csv with quotes, embedded line breaks and a BOM',
+    parseCsv('\uFEFFTitle,Notes\r\n"Grand Rounds, May","Said ""hi""\nthen left"\r\n\r\n'),
+    [['Title', 'Notes'], ['Grand Rounds, May', 'Said "hi"\nthen left']]);
+  check('semicolon delimiter', parseCsv('Title;Credits\nA;1,5'), [['Title', 'Credits'], ['A', '1,5']]);
+
+  const headers = ['Course Title', 'Organizer', 'Date Completed', 'CME Hours', 'Activity Type', 'Comments', 'Created Date'];
+  check('columns are guessed from header words', guessColumnMapping(headers), {
+    title: 0, provider: 1, dateAttended: 2, creditsEarned: 3, category: 4, notes: 5,
+  });
+  check('exported files prefer the attended date over the created date',
+    guessColumnMapping(['Created Date', 'Title', 'Date Attended', 'Credits']).dateAttended, 2);
+
+  check('a day above 12 decides day-first dates', detectDateFormat(['03/04/2025', '25/04/2025']), { format: 'dmy', ambiguous: false });
+  check('month-first and day-first alike are ambiguous', detectDateFormat(['03/04/2025', '05/06/2025']), { format: 'mdy', ambiguous: true });
+  check('spreadsheet serials are detected', detectDateFormat(['45352', '45400']), { format: 'serial', ambiguous: false });
+  check('dates read as YYYY-MM-DD', [
+    parseImportDate('2025-3-7', 'dmy'),
+    parseImportDate('03/07/25', 'mdy'),
+    parseImportDate('03/07/25', 'dmy'),
+    parseImportDate('31/02/2025', 'dmy'),
+    parseImportDate('45352', 'serial'),
+    parseImportDate('12', 'serial'),
+  ], ['2025-03-07', '2025-03-07', '2025-07-03', null, '2024-03-01', null]);
+  check('credits accept decimal commas and units', [parseCredits('1,5 h'), parseCredits('2'), parseCredits('n/a')], [1.5, 2, null]);
+
+  check('categories match by name, then keyword, then Other', [
+    guessCategory('webinar', CATEGORIES),
+    guessCategory('Annual Cardiology Congress', CATEGORIES),
+    guessCategory('Self-study module', CATEGORIES),
+    guessCategory('Something else', CATEGORIES),
+  ], ['Webinar', 'Conference', 'Online Course', 'Other']);
+
+  const mapping = { title: 0, provider: null, dateAttended: 1, creditsEarned: 2, category: 3, notes: null };
+  const candidates = buildImportCandidates([
+    ['Cardiology Update', '2025-03-01', '2', 'congress'],
+    ['Ethics', 'yesterday', '', ''],
+  ], mapping, 'ymd', { congress: 'Conference' }, 'Other');
+  check('rows become entries with row numbers and cell errors', candidates.map(c => [c.rowNumber, c.entry, c.errors]), [
+    [2, { title: 'Cardiology Update', provider: 'Unknown provider', dateAttended: '2025-03-01', creditsEarned: 2, category: 'Conference' }, []],
+    [3, { title: 'Ethics', provider: 'Unknown provider', dateAttended: 'yesterday', creditsEarned: 0, category: 'Other' }, ['Unreadable date "yesterday"', 'Missing credits']],
+  ]);
+
+  const entry = (title, dateAttended) => ({ title, provider: 'ACME', dateAttended, creditsEarned: 1, category: 'Other' });
+  check('duplicates match existing entries and earlier rows', findDuplicates(
+    [entry('Grand Rounds', '2025-01-01'), entry('grand rounds ', '2025-01-02'), entry('New', '2025-01-03'), entry('New', '2025-01-03')],
+    [{ ...entry('Grand Rounds', '2025-01-01T00:00:00'), id: 1 }]
+  ), [true, false, false, true]);
+
+  const rows = readXlsxRows(await buildWorkbook());
+  check('xlsx first sheet with shared, rich and inline strings', rows, [
+    ['Activity', 'Date', 'CME Credits'],
+    ['Heart & Lungs', '45352', '1.5'],
+    [],
+    ['Ethics <Online>', '', '2'],
+  ]);
+
+  let notWorkbook = null;
+  try {
+    readXlsxRows(await new JSZip().file('hello.txt', 'hi').generateAsync({ type: 'uint8array' }));
+  } catch (error) {
+    notWorkbook = error.message;
+  }
+  check('other ZIP files are rejected', notWorkbook, 'Not an Excel workbook (.xlsx)');
+
+  console.log(failures > 0 ? `\n${failures} activity import check(s) failed` : '\nAll activity import checks passed');
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,256 @@
+#!/usr/bin/env node
+
+// Backup Encryption Check - round trips and tamper cases for encrypted backups
+// Usage: node scripts/check-backup-encryption.js
+//
+// backupEncryption.ts only works through byte sources and sinks, so it is transpiled here
+// and run in Node with the real @noble packages. expo-crypto is replaced by Node's random bytes.
+// scripts/check-zip-stream.js checks that large files stream with bounded memory.
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const ts = require('typescript');
+
+const ROOT = path.join(__dirname, '..');
+const ENCRYPTION_PATH = path.join(ROOT, 'src/services/backupEncryption.ts');
+
+// Runtime imports backupEncryption.ts is allowed to make
+const ALLOWED_IMPORTS = {
+  '@noble/ciphers/aes': () => require('@noble/ciphers/aes'),
+  '@noble/ciphers/utils': () => require('@noble/ciphers/utils'),
+  '@noble/hashes/scrypt': () => require('@noble/hashes/scrypt'),
+  'expo-crypto': () => ({ getRandomBytes: (length) => new Uint8Array(crypto.randomBytes(length)) }),
+};
+
+function loadTypeScriptModule(filePath) {
+  const source = fs.readFileSync(filePath, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+    },
+    fileName: filePath,
+  });
+
+  const module = { exports: {} };
+  const localRequire = (request) => {
+    if (!ALLOWED_IMPORTS[request]) {
+      throw new Error(`${path.basename(filePath)} must not import "${request}" at runtime`);
+    }
+    return ALLOWED_IMPORTS[request]();
+  };
+  new Function('require', 'module', 'exports', outputText)(localRequire, module, module.exports);
+  return module.exports;
+}
+
+// Rewrites the header JSON in place, keeping the length prefix correct
+function withHeader(bytes, edit) {
+  const headerLength = Buffer.from(bytes).readUInt32BE(8);
+  const header = JSON.parse(Buffer.from(bytes.subarray(12, 12 + headerLength)).toString('utf8'));
+  const newHeader = Buffer.from(JSON.stringify(edit(header)), 'utf8');
+  const prefix = Buffer.from(bytes.subarray(0, 12));
+  prefix.writeUInt32BE(newHeader.length, 8);
+  return new Uint8Array(Buffer.concat([prefix, newHeader, Buffer.from(bytes.subarray(12 + headerLength))]));
+}
+
+async function main() {
+  const {
+    encryptBackup,
+    decryptBackup,
+    bytesBackupSource,
+    hasEncryptedBackupMagic,
+    readEncryptedBackupHeader,
+    ENCRYPTED_BACKUP_HEADER_PEEK_LENGTH,
+  } = loadTypeScriptModule(ENCRYPTION_PATH);
+
+  const encryptBytes = async (bytes, passphrase) => {
+    const chunks = [];
+    await encryptBackup(bytesBackupSource(bytes), { write: chunk => chunks.push(Buffer.from(chunk)) }, passphrase);
+    return new Uint8Array(Buffer.concat(chunks));
+  };
+
+  // The decrypted bytes, or null when decryptBackup refused them
+  const decryptBytes = async (bytes, passphrase) => {
+    const chunks = [];
+    const opened = await decryptBackup(bytesBackupSource(bytes), { write: chunk => chunks.push(Buffer.from(chunk)) }, passphrase);
+    return opened ? new Uint8Array(Buffer.concat(chunks)) : null;
+  };
+
+  let failures = 0;
+
+  const check = async (name, run) => {
+    const problems = [];
+    try {
+      await run(problems);
+    } catch (error) {
+      problems.push(error instanceof Error ? error.message : String(error));
+    }
+
+    if (problems.length > 0) {
+      failures++;
+      console.log(`FAIL ${name}`);
+      problems.forEach(problem => console.log(`     ${problem}`));
+    } else {
+      console.log(`ok   ${name}`);
+    }
+  };
+
+  const expectThrows = async (run, pattern, problems) => {
+    try {
+      await run();
+      problems.push(`expected an error matching ${pattern}`);
+    } catch (error) {
+      if (!pattern.test(error.message)) {
+        problems.push(`unexpected error: ${error.message}`);
+      }
+    }
+  };
+
+  const passphrase = 'correct horse battery staple';
+  const json = new Uint8Array(Buffer.from(JSON.stringify({ version: '1.0.0', note: 'Grüße, 日本語 ✓' }), 'utf8'));
+  const zipLike = new Uint8Array(crypto.randomBytes(600 * 1024)); // Spans several chunks
+  zipLike.set([0x50, 0x4b, 0x03, 0x04]);
+
+  const encrypted = await encryptBytes(json, passphrase);
+
+  await check('JSON backup round trips byte for byte', async (problems) => {
+    const decrypted = await decryptBytes(encrypted, passphrase);
+    if (!decrypted || !Buffer.from(decrypted).equals(Buffer.from(json))) {
+      problems.push('decrypted bytes differ from the original');
+    }
+  });
+
+  const encryptedZip = await encryptBytes(zipLike, passphrase);
+
+  await check('binary ZIP backup round trips byte for byte across chunks', async (problems) => {
+    const decrypted = await decryptBytes(encryptedZip, passphrase);
+    if (!decrypted || !Buffer.from(decrypted).equals(Buffer.from(zipLike))) {
+      problems.push('decrypted bytes differ from the original');
+    }
+  });
+
+  await check('an empty file round trips', async (problems) => {
+    const decrypted = await decryptBytes(await encryptBytes(new Uint8Array(0), passphrase), passphrase);
+    if (!decrypted || decrypted.length !== 0) {
+      problems.push('empty file did not decrypt to nothing');
+    }
+  });
+
+  await check('header records the algorithm and KDF parameters', async (problems) => {
+    const parsed = readEncryptedBackupHeader(encrypted.subarray(0, ENCRYPTED_BACKUP_HEADER_PEEK_LENGTH));
+    if (!parsed) {
+      problems.push('header not found in the leading bytes');
+      return;
+    }
+
+    const { header } = parsed;
+    if (header.cipher !== 'AES-256-GCM' || header.kdf.name !== 'scrypt' || header.kdf.N < 2 ** 15) {
+      problems.push(`unexpected header: ${JSON.stringify(header)}`);
+    }
+    if (Buffer.from(encrypted).includes(Buffer.from('Grüße', 'utf8'))) {
+      problems.push('plaintext is visible in the encrypted file');
+    }
+  });
+
+  await check('each encryption uses a fresh salt and nonce prefix', async (problems) => {
+    const again = readEncryptedBackupHeader(await encryptBytes(json, passphrase)).header;
+    const first = readEncryptedBackupHeader(encrypted).header;
+    if (again.kdf.salt === first.kdf.salt || again.noncePrefix === first.noncePrefix) {
+      problems.push('salt or nonce prefix was reused');
+    }
+  });
+
+  await check('plain backups are not detected as encrypted', async (problems) => {
+    if (hasEncryptedBackupMagic(json) || hasEncryptedBackupMagic(zipLike) || readEncryptedBackupHeader(json) !== null) {
+      problems.push('plain backup detected as encrypted');
+    }
+    if (!hasEncryptedBackupMagic(encrypted)) {
+      problems.push('encrypted backup not detected');
+    }
+  });
+
+  await check('wrong passphrase returns null', async (problems) => {
+    if (await decryptBytes(encrypted, 'not the passphrase') !== null) {
+      problems.push('decrypted with the wrong passphrase');
+    }
+  });
+
+  await check('modified ciphertext fails authentication', async (problems) => {
+    const tampered = new Uint8Array(encrypted);
+    tampered[tampered.length - 20] ^= 0x01;
+    if (await decryptBytes(tampered, passphrase) !== null) {
+      problems.push('tampered ciphertext decrypted');
+    }
+  });
+
+  await check('modified header fails authentication', async (problems) => {
+    const tampered = withHeader(encrypted, header => ({ ...header, noncePrefix: header.noncePrefix.replace(/^./, c => (c === '0' ? '1' : '0')) }));
+    if (await decryptBytes(tampered, passphrase) !== null) {
+      problems.push('tampered header decrypted');
+    }
+  });
+
+  await check('dropped, reordered or appended chunks fail authentication', async (problems) => {
+    const { header, headerEnd } = readEncryptedBackupHeader(encryptedZip);
+    const sealedChunkSize = header.chunkSize + 16;
+    const head = Buffer.from(encryptedZip.subarray(0, headerEnd));
+    const chunk = index => Buffer.from(encryptedZip.subarray(headerEnd + index * sealedChunkSize, headerEnd + (index + 1) * sealedChunkSize));
+
+    const variants = {
+      'last chunk dropped': Buffer.concat([head, chunk(0), chunk(1)]),
+      'chunks swapped': Buffer.concat([head, chunk(1), chunk(0), chunk(2)]),
+      'chunk appended': Buffer.concat([Buffer.from(encryptedZip), chunk(0)]),
+      'cut mid-chunk': Buffer.from(encryptedZip.subarray(0, encryptedZip.length - 100)),
+    };
+    for (const [name, bytes] of Object.entries(variants)) {
+      if (await decryptBytes(new Uint8Array(bytes), passphrase) !== null) {
+        problems.push(`${name} decrypted`);
+      }
+    }
+  });
+
+  await check('format 1 backups, sealed in one piece, still decrypt', async (problems) => {
+    const { gcm } = require('@noble/ciphers/aes');
+    const { scryptAsync } = require('@noble/hashes/scrypt');
+    const kdf = { name: 'scrypt', N: 2 ** 15, r: 8, p: 1, dkLen: 32, salt: crypto.randomBytes(16).toString('hex') };
+    const header = Buffer.from(JSON.stringify({ format: 1, cipher: 'AES-256-GCM', kdf, iv: crypto.randomBytes(12).toString('hex') }), 'utf8');
+    const prefix = Buffer.alloc(12);
+    Buffer.from('CMEBKENC').copy(prefix);
+    prefix.writeUInt32BE(header.length, 8);
+    const associatedData = new Uint8Array(Buffer.concat([prefix, header]));
+    const key = await scryptAsync(Buffer.from(passphrase, 'utf8'), Buffer.from(kdf.salt, 'hex'), { N: kdf.N, r: kdf.r, p: kdf.p, dkLen: 32 });
+    const sealed = gcm(key, Buffer.from(JSON.parse(header).iv, 'hex'), associatedData).encrypt(json);
+
+    const decrypted = await decryptBytes(new Uint8Array(Buffer.concat([associatedData, sealed])), passphrase);
+    if (!decrypted || !Buffer.from(decrypted).equals(Buffer.from(json))) {
+      problems.push('format 1 backup did not decrypt');
+    }
+  });
+
+  await check('newer formats and unsupported parameters are rejected', async (problems) => {
+    await expectThrows(() => decryptBytes(withHeader(encrypted, header => ({ ...header, format: 99 })), passphrase), /newer version/, problems);
+    await expectThrows(() => decryptBytes(withHeader(encrypted, header => ({ ...header, cipher: 'AES-128-CBC' })), passphrase), /unsupported/, problems);
+    await expectThrows(
+      () => decryptBytes(withHeader(encrypted, header => ({ ...header, kdf: { ...header.kdf, N: 2 ** 30 } })), passphrase),
+      /unsupported/,
+      problems
+    );
+    // 1 GB of scrypt memory - under @noble's own default limit, but more than a phone can spare
+    await expectThrows(
+      () => decryptBytes(withHeader(encrypted, header => ({ ...header, kdf: { ...header.kdf, N: 2 ** 20, r: 8 } })), passphrase),
+      /unsupported/,
+      problems
+    );
+    await expectThrows(() => decryptBytes(encrypted.subarray(0, 10), passphrase), /truncated/, problems);
+  });
+
+  await check('short passphrases are refused', async (problems) => {
+    await expectThrows(() => encryptBytes(json, 'short'), /at least/, problems);
+  });
+
+  console.log(failures > 0 ? `\n${failures} encryption check(s) failed` : '\nAll encryption checks passed');
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,121 @@
+#!/usr/bin/env node
+
+// Backup Integrity Check - compares integrity manifests against tampered backup contents
+// Usage: node scripts/check-backup-integrity.js
+//
+// backupIntegrity.ts is plain TypeScript with no React Native imports,
+// so it is transpiled here and run directly in Node.
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const ROOT = path.join(__dirname, '..');
+const INTEGRITY_PATH = path.join(ROOT, 'src/utils/backupIntegrity.ts');
+const ALLOWED_IMPORTS = ['@noble/hashes/sha2', '@noble/hashes/utils'];
+
+function loadTypeScriptModule(filePath) {
+  const source = fs.readFileSync(filePath, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+    },
+    fileName: filePath,
+  });
+
+  const module = { exports: {} };
+  const localRequire = (request) => {
+    if (!ALLOWED_IMPORTS.includes(request)) {
+      throw new Error(`${path.basename(filePath)} must not import "${request}" at runtime`);
+    }
+    return require(request);
+  };
+  new Function('require', 'module', 'exports', outputText)(localRequire, module, module.exports);
+  return module.exports;
+}
+
+const backupData = {
+  cmeEntries: [
+    { id: 1, title: 'Cardiology Update', creditsEarned: 5, dateAttended: '2025-03-01' },
+    { id: 2, title: 'Ethics Workshop', creditsEarned: 2, dateAttended: '2025-04-12', notes: 'Online' },
+  ],
+  licenses: [{ id: 7, licenseType: 'Medical License', expirationDate: '2026-12-31' }],
+};
+
+function main() {
+  const {
+    buildIntegrityManifest,
+    compareIntegrity,
+    createSha256,
+    describeIntegrityReport,
+    hashRecord,
+    sha256Hex,
+  } = loadTypeScriptModule(INTEGRITY_PATH);
+
+  let failures = 0;
+
+  const check = (name, actual, expected) => {
+    if (JSON.stringify(actual) === JSON.stringify(expected)) {
+      console.log(`ok   ${name}`);
+    } else {
+      failures++;
+      console.log(`FAIL ${name}`);
+      console.log(`     got      ${JSON.stringify(actual)}`);
+      console.log(`     expected ${JSON.stringify(expected)}`);
+    }
+  };
+
+  const scan = Buffer.from('certificate scan bytes');
+  const files = {
+    'backup.json': { sha256: sha256Hex(Buffer.from(JSON.stringify(backupData))), size: 100 },
+    'certificates/scan.jpg': { sha256: sha256Hex(scan), size: scan.length },
+  };
+  const expected = buildIntegrityManifest(backupData, files);
+  const problems = report => ({ missing: report.missing, extra: report.extra, corrupt: report.corrupt });
+
+  check('counts cover entries, licenses and certificates', expected.counts, { entries: 2, licenses: 1, certificates: 1 });
+  check('SHA-256 matches a known digest', sha256Hex(Buffer.from('abc')), 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+
+  const hasher = createSha256();
+  hasher.update(scan.subarray(0, 5));
+  hasher.update(scan.subarray(5));
+  check('chunked hashing matches hashing in one go', hasher.digest(), sha256Hex(scan));
+
+  // A backup read back unchanged, after a JSON round trip
+  const reread = JSON.parse(JSON.stringify(backupData));
+  check('an unchanged backup verifies', compareIntegrity(expected, buildIntegrityManifest(reread, files)).isValid, true);
+
+  check('property order does not change a record hash',
+    hashRecord({ id: 1, title: 'A', credits: 2 }),
+    hashRecord({ credits: 2, title: 'A', id: 1 }));
+
+  const edited = JSON.parse(JSON.stringify(backupData));
+  edited.cmeEntries[0].creditsEarned = 50;
+  check('an edited entry is corrupt',
+    problems(compareIntegrity(expected, buildIntegrityManifest(edited, files))),
+    { missing: [], extra: [], corrupt: ['CME entry #1'] });
+
+  const trimmed = { ...backupData, licenses: [] };
+  check('a removed license is missing',
+    problems(compareIntegrity(expected, buildIntegrityManifest(trimmed, files))),
+    { missing: ['License #7'], extra: [], corrupt: [] });
+
+  const withExtraFile = { ...files, 'certificates/unknown.pdf': { sha256: sha256Hex(Buffer.from('x')), size: 1 } };
+  check('an unlisted file is extra',
+    problems(compareIntegrity(expected, buildIntegrityManifest(backupData, withExtraFile))),
+    { missing: [], extra: ['certificates/unknown.pdf'], corrupt: [] });
+
+  const damagedScan = { ...files, 'certificates/scan.jpg': { sha256: sha256Hex(Buffer.from('certificate scan bytez')), size: scan.length } };
+  const damagedReport = compareIntegrity(expected, buildIntegrityManifest(backupData, damagedScan));
+  check('a changed certificate is corrupt', problems(damagedReport), { missing: [], extra: [], corrupt: ['certificates/scan.jpg'] });
+  check('reports list each problem', describeIntegrityReport(damagedReport), 'Corrupt (1):\n• certificates/scan.jpg');
+
+  const manyMissing = compareIntegrity(expected, buildIntegrityManifest({ cmeEntries: [], licenses: [] }, {}));
+  check('long reports are shortened', describeIntegrityReport(manyMissing, 2).split('\n').length, 4);
+
+  console.log(failures > 0 ? `\n${failures} integrity check(s) failed` : '\nAll integrity checks passed');
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main();
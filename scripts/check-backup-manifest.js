@@ -0,0 +1,104 @@
+#!/usr/bin/env node
+
+// Backup Manifest Check - runs the blob store bookkeeping over simulated snapshot histories
+// Usage: node scripts/check-backup-manifest.js
+//
+// backupManifest.ts is plain TypeScript with no React Native imports,
+// so it is transpiled here and run directly in Node.
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const ROOT = path.join(__dirname, '..');
+const MANIFEST_PATH = path.join(ROOT, 'src/utils/backupManifest.ts');
+
+function loadTypeScriptModule(filePath) {
+  const source = fs.readFileSync(filePath, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+    },
+    fileName: filePath,
+  });
+
+  const module = { exports: {} };
+  const localRequire = (request) => {
+    throw new Error(`${path.basename(filePath)} must not import at runtime (found "${request}")`);
+  };
+  new Function('require', 'module', 'exports', outputText)(localRequire, module, module.exports);
+  return module.exports;
+}
+
+// A 64-character hex hash made from a short label, e.g. hash('a')
+const hash = (label) => Buffer.from(label).toString('hex').padEnd(64, '0').slice(0, 64);
+
+const manifest = (blobs) => ({
+  manifestVersion: 1,
+  createdAt: '2025-10-19T09:00:00.000Z',
+  backupData: { version: '1.0.0', exportDate: '2025-10-19T09:00:00.000Z', cmeEntries: [], licenses: [] },
+  blobs,
+});
+
+function main() {
+  const {
+    isBlobHash,
+    isSnapshotManifest,
+    findUnreferencedBlobs,
+    findMissingBlobs,
+    getSnapshotSize,
+  } = loadTypeScriptModule(MANIFEST_PATH);
+
+  let failures = 0;
+
+  const check = (name, actual, expected) => {
+    if (JSON.stringify(actual) === JSON.stringify(expected)) {
+      console.log(`ok   ${name}`);
+    } else {
+      failures++;
+      console.log(`FAIL ${name}`);
+      console.log(`     got      ${JSON.stringify(actual)}`);
+      console.log(`     expected ${JSON.stringify(expected)}`);
+    }
+  };
+
+  // Monday's snapshot has two certificates; Tuesday's changed one of them and added a third
+  const monday = manifest({
+    'cert-a.jpg': { hash: hash('a'), size: 100 },
+    'cert-b.pdf': { hash: hash('b'), size: 200 },
+  });
+  const tuesday = manifest({
+    'cert-a.jpg': { hash: hash('a2'), size: 120 },
+    'cert-b.pdf': { hash: hash('b'), size: 200 },
+    'cert-c.png': { hash: hash('c'), size: 50 },
+  });
+  const stored = [hash('a'), hash('a2'), hash('b'), hash('c')];
+
+  check('every blob is referenced while both snapshots are kept', findUnreferencedBlobs([monday, tuesday], stored), []);
+  check('dropping the older snapshot frees only its changed file', findUnreferencedBlobs([tuesday], stored), [hash('a')]);
+  check('dropping every snapshot frees every blob', findUnreferencedBlobs([], stored).length, stored.length);
+
+  check('nothing is missing from a complete store', findMissingBlobs(tuesday, stored), []);
+  check('missing blobs are reported by archive file name', findMissingBlobs(tuesday, [hash('b')]), ['cert-a.jpg', 'cert-c.png']);
+
+  check('snapshot size adds its files', getSnapshotSize(tuesday), 370);
+  const duplicates = manifest({
+    'scan.jpg': { hash: hash('d'), size: 80 },
+    '12_scan.jpg': { hash: hash('d'), size: 80 },
+  });
+  check('identical files are counted once', getSnapshotSize(duplicates), 80);
+
+  check('hex hashes are blob names', isBlobHash(hash('a')), true);
+  check('interrupted copies are not blob names', isBlobHash(`${hash('a')}.partial`), false);
+  check('the hash index is not a blob name', isBlobHash('hash-index.json'), false);
+
+  check('manifests are recognised', isSnapshotManifest(tuesday), true);
+  check('plain backups are not manifests', isSnapshotManifest(monday.backupData), false);
+  check('manifests with malformed hashes are rejected', isSnapshotManifest(manifest({ 'x.jpg': { hash: 'abc', size: 1 } })), false);
+
+  console.log(failures > 0 ? `\n${failures} manifest check(s) failed` : '\nAll manifest checks passed');
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,104 @@
+#!/usr/bin/env node
+
+// Backup Retention Check - runs the rotation rules over simulated backup histories
+// Usage: node scripts/check-backup-retention.js
+//
+// backupRetention.ts is plain TypeScript with no React Native imports,
+// so it is transpiled here and run directly in Node.
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const ROOT = path.join(__dirname, '..');
+const RETENTION_PATH = path.join(ROOT, 'src/utils/backupRetention.ts');
+const POLICY = { daily: 7, weekly: 4 }; // Keep in step with AUTO_BACKUP_CONFIG.RETENTION
+
+function loadTypeScriptModule(filePath) {
+  const source = fs.readFileSync(filePath, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+    },
+    fileName: filePath,
+  });
+
+  const module = { exports: {} };
+  const localRequire = (request) => {
+    throw new Error(`${path.basename(filePath)} must not import at runtime (found "${request}")`);
+  };
+  new Function('require', 'module', 'exports', outputText)(localRequire, module, module.exports);
+  return module.exports;
+}
+
+// Backups at the given local times, e.g. at(2025, 10, 19, 9) for 19 Oct 2025 09:00
+const at = (year, month, day, hour = 9) => ({ createdAt: new Date(year, month - 1, day, hour).toISOString() });
+
+function main() {
+  const { selectBackupsToKeep } = loadTypeScriptModule(RETENTION_PATH);
+
+  let failures = 0;
+
+  const check = (name, backups, expectedKept) => {
+    const { keep, remove } = selectBackupsToKeep(backups, POLICY);
+    const kept = keep.map(backup => backup.createdAt).sort();
+    const expected = expectedKept.map(backup => backup.createdAt).sort();
+    const problems = [];
+
+    if (JSON.stringify(kept) !== JSON.stringify(expected)) {
+      problems.push(`kept     ${kept.join(', ')}`);
+      problems.push(`expected ${expected.join(', ')}`);
+    }
+    if (keep.length + remove.length !== backups.length) {
+      problems.push('keep and remove do not cover every backup');
+    }
+
+    if (problems.length > 0) {
+      failures++;
+      console.log(`FAIL ${name}`);
+      problems.forEach(problem => console.log(`     ${problem}`));
+    } else {
+      console.log(`ok   ${name}`);
+    }
+  };
+
+  // Daily backups for 60 days ending Sunday 19 Oct 2025
+  const daily = Array.from({ length: 60 }, (_, index) => at(2025, 10, 19 - index));
+  check('60 daily backups keep 7 days plus the newest of 3 older weeks', daily, [
+    ...daily.slice(0, 7), // 13-19 Oct, the week starting Monday 13 Oct
+    at(2025, 10, 12), // Sunday ending the week of 6 Oct
+    at(2025, 10, 5), // Week of 29 Sep
+    at(2025, 9, 28), // Week of 22 Sep
+  ]);
+
+  const sameDay = [at(2025, 10, 19, 8), at(2025, 10, 19, 12), at(2025, 10, 19, 18), at(2025, 10, 18)];
+  check('several backups in one day collapse to the last', sameDay, [at(2025, 10, 19, 18), at(2025, 10, 18)]);
+
+  // Gaps: a backup every 10 days
+  const sparse = Array.from({ length: 10 }, (_, index) => at(2025, 10, 19 - index * 10));
+  check('sparse backups keep one per day for the 7 newest days', sparse, sparse.slice(0, 7));
+
+  // A restore that morning: the backup taken before it is the only copy of the replaced data
+  const beforeRestore = { ...at(2025, 10, 19, 10), reason: 'pre-change' };
+  const restoreDay = [at(2025, 10, 19, 8), beforeRestore, at(2025, 10, 19, 11)];
+  check('a backup taken before a bulk change does not collapse into its day', restoreDay, [beforeRestore, at(2025, 10, 19, 11)]);
+
+  check('a single backup is always kept', [at(2025, 1, 1)], [at(2025, 1, 1)]);
+  check('no backups keeps nothing', [], []);
+
+  // Weeks start on Monday: Sunday 12 Oct and Monday 13 Oct are different weeks
+  const weekly = [at(2025, 10, 13), at(2025, 10, 12)];
+  const { keep } = selectBackupsToKeep(weekly, { daily: 1, weekly: 2 });
+  if (keep.length !== 2) {
+    failures++;
+    console.log('FAIL weeks start on Monday');
+  } else {
+    console.log('ok   weeks start on Monday');
+  }
+
+  console.log(failures > 0 ? `\n${failures} retention check(s) failed` : '\nAll retention checks passed');
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,79 @@
+#!/usr/bin/env node
+
+// Certificate Parser Check - runs the parser over the fixture corpus
+// Usage: node scripts/check-certificate-parser.js
+//
+// The parser and fixtures are plain TypeScript with no React Native imports,
+// so they are transpiled here and run directly in Node.
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const ROOT = path.join(__dirname, '..');
+const PARSER_PATH = path.join(ROOT, 'src/utils/certificateParser.ts');
+const FIXTURES_PATH = path.join(ROOT, 'src/utils/__fixtures__/certificateTexts.ts');
+const CONFIDENCE_THRESHOLD = 0.7; // Keep in step with OCR_CONFIG.CONFIDENCE_THRESHOLD
+
+function loadTypeScriptModule(filePath) {
+  const source = fs.readFileSync(filePath, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+    },
+    fileName: filePath,
+  });
+
+  const module = { exports: {} };
+  const localRequire = (request) => {
+    throw new Error(`${path.basename(filePath)} must not import at runtime (found "${request}")`);
+  };
+  new Function('require', 'module', 'exports', outputText)(localRequire, module, module.exports);
+  return module.exports;
+}
+
+function main() {
+  const { parseCertificateText } = loadTypeScriptModule(PARSER_PATH);
+  const { CERTIFICATE_FIXTURES } = loadTypeScriptModule(FIXTURES_PATH);
+
+  let failures = 0;
+
+  for (const fixture of CERTIFICATE_FIXTURES) {
+    const result = parseCertificateText(fixture.text);
+    const problems = [];
+    const lowConfidence = fixture.lowConfidence || [];
+
+    for (const [field, expected] of Object.entries(fixture.expected)) {
+      const actual = field === 'accreditor'
+        ? result.accreditor && result.accreditor.id
+        : result.extractedData[field];
+
+      if (actual !== expected) {
+        problems.push(`${field}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+      } else if (field !== 'accreditor' && !lowConfidence.includes(field)
+        && (result.fieldConfidence[field] || 0) < CONFIDENCE_THRESHOLD) {
+        problems.push(`${field}: confidence ${result.fieldConfidence[field]} is below the prefill threshold`);
+      }
+    }
+
+    for (const field of lowConfidence) {
+      if ((result.fieldConfidence[field] || 0) >= CONFIDENCE_THRESHOLD) {
+        problems.push(`${field}: should stay below the prefill threshold, got ${result.fieldConfidence[field]}`);
+      }
+    }
+
+    if (problems.length > 0) {
+      failures++;
+      console.log(`FAIL ${fixture.name}`);
+      problems.forEach(problem => console.log(`     ${problem}`));
+    } else {
+      console.log(`ok   ${fixture.name}`);
+    }
+  }
+
+  console.log(`\n${CERTIFICATE_FIXTURES.length - failures}/${CERTIFICATE_FIXTURES.length} fixtures passed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main();
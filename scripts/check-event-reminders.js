@@ -0,0 +1,161 @@
+#!/usr/bin/env node
+
+// Event Reminder Check - per-event reminder offsets, deadlines and attendance follow-ups
+// Usage: node scripts/check-event-reminders.js
+//
+// NotificationScheduler.ts and utils/eventReminders.ts have no React Native imports at
+// runtime, so they are transpiled here and run in Node.
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const ROOT = path.join(__dirname, '..');
+const SCHEDULER_PATH = path.join(ROOT, 'src/services/notifications/NotificationScheduler.ts');
+const TYPES_PATH = path.join(ROOT, 'src/services/notifications/NotificationTypes.ts');
+const EVENTS_PATH = path.join(ROOT, 'src/utils/eventReminders.ts');
+
+function loadTypeScriptModule(filePath) {
+  const source = fs.readFileSync(filePath, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+    },
+    fileName: filePath,
+  });
+
+  const module = { exports: {} };
+  const localRequire = (request) => {
+    if (request.startsWith('.')) {
+      return loadTypeScriptModule(path.join(path.dirname(filePath), `${request}.ts`));
+    }
+    throw new Error(`${path.basename(filePath)} must not import "${request}" at runtime`);
+  };
+  new Function('require', 'module', 'exports', '__DEV__', outputText)(localRequire, module, module.exports, false);
+  return module.exports;
+}
+
+const event = (fields = {}) => ({
+  id: 3,
+  eventName: 'Cardiology Update',
+  eventDate: '2030-03-10',
+  deadlines: [],
+  reminderOffsets: [7, 0],
+  attendanceStatus: 'pending',
+  createdAt: '2030-01-01 00:00:00',
+  updatedAt: '2030-01-01 00:00:00',
+  ...fields,
+});
+
+const localDay = date =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+function main() {
+  const { NotificationScheduler } = loadTypeScriptModule(SCHEDULER_PATH);
+  const { DEFAULT_NOTIFICATION_SETTINGS } = loadTypeScriptModule(TYPES_PATH);
+  const { getEventEntryPrefill, getNextDeadline, isAwaitingAttendance, parseEventDate } = loadTypeScriptModule(EVENTS_PATH);
+
+  let failures = 0;
+
+  const check = (name, actual, expected) => {
+    if (JSON.stringify(actual) === JSON.stringify(expected)) {
+      console.log(`ok   ${name}`);
+    } else {
+      failures++;
+      console.log(`FAIL ${name}`);
+      console.log(`     got      ${JSON.stringify(actual)}`);
+      console.log(`     expected ${JSON.stringify(expected)}`);
+    }
+  };
+
+  // Quiet hours would move day-of reminders in some time zones; these checks are about dates
+  const settings = {
+    ...DEFAULT_NOTIFICATION_SETTINGS,
+    quietHours: { ...DEFAULT_NOTIFICATION_SETTINGS.quietHours, enabled: false },
+  };
+  const now = new Date(2030, 0, 15, 12);
+  const schedule = (events, overrides = settings, at = now) => NotificationScheduler.calculateEventReminders(events, overrides, at)
+    .map(notification => [notification.id, localDay(notification.scheduledFor)]);
+
+  check('one reminder per offset and an attendance follow-up', schedule([event()]), [
+    ['cme_event_reminder_3_7days', '2030-03-03'],
+    ['cme_event_reminder_3_0days', '2030-03-10'],
+    ['event_attendance_3', '2030-03-11'],
+  ]);
+
+  check('events without offsets use the settings default', schedule([event({ reminderOffsets: [] })]).map(([id]) => id),
+    ['cme_event_reminder_3_1days', 'event_attendance_3']);
+
+  check('multi-day events follow up after the last day',
+    schedule([event({ endDate: '2030-03-12', reminderOffsets: [] })]).pop(), ['event_attendance_3', '2030-03-13']);
+
+  const deadlines = [
+    { id: 1, type: 'abstract', date: '2030-01-16' },
+    { id: 2, type: 'early_bird', date: '2030-02-01' },
+    { id: 3, type: 'other', date: '2030-02-20', label: 'Hotel booking' },
+  ];
+  check('each deadline is reminded the day before, past ones skipped',
+    schedule([event({ reminderOffsets: [], deadlines: [{ id: 9, type: 'registration', date: '2030-01-15' }, ...deadlines] })])
+      .filter(([id]) => id.startsWith('event_deadline')), [
+      ['event_deadline_3_early_bird_2030-02-01', '2030-01-31'],
+      ['event_deadline_3_other_2030-02-20', '2030-02-19'],
+    ]);
+
+  const hotel = NotificationScheduler.calculateEventReminders([event({ deadlines })], settings, now)
+    .find(notification => notification.data.deadlineType === 'other');
+  check('deadline content names the deadline', [hotel.title, hotel.body],
+    ['Event Deadline Tomorrow', 'Hotel booking for "Cardiology Update" is due tomorrow.']);
+
+  check('past reminders and answered attendance are skipped', [
+    schedule([event()], settings, new Date(2030, 2, 5)).map(([id]) => id),
+    schedule([event({ attendanceStatus: 'logged' })]).map(([id]) => id),
+  ], [
+    ['cme_event_reminder_3_0days', 'event_attendance_3'],
+    ['cme_event_reminder_3_7days', 'cme_event_reminder_3_0days'],
+  ]);
+
+  check('nothing when event reminders are off or the date is invalid', [
+    schedule([event()], { ...settings, eventReminders: { ...settings.eventReminders, enabled: false } }),
+    schedule([event({ eventDate: 'soon' })]),
+  ], [[], []]);
+
+  const dayOf = NotificationScheduler.calculateEventReminders([event({ location: 'Boston' })], settings, now)[1];
+  check('day-of reminder names the location', [dayOf.title, dayOf.body], ['CME Event Today', '"Cardiology Update" starts today at Boston.']);
+
+  check('stored dates read as local days', localDay(parseEventDate('2030-03-10')), '2030-03-10');
+  check('attendance is asked the day after the last day', [
+    isAwaitingAttendance(event({ endDate: '2030-03-12' }), new Date(2030, 2, 12, 23)),
+    isAwaitingAttendance(event({ endDate: '2030-03-12' }), new Date(2030, 2, 13)),
+    isAwaitingAttendance(event({ attendanceStatus: 'dismissed' }), new Date(2030, 5, 1)),
+  ], [false, true, false]);
+
+  const summit = event({ id: 4, eventName: 'Summit', deadlines: [{ id: 4, type: 'registration', date: '2030-01-20' }] });
+  const nextDeadline = at => {
+    const next = getNextDeadline([event({ deadlines }), summit], at);
+    return next && [next.event.eventName, next.deadline.type, next.daysUntil];
+  };
+  check('next deadline counts down across events', [
+    nextDeadline(new Date(2030, 0, 15, 12)),
+    nextDeadline(new Date(2030, 0, 16, 23)),
+    nextDeadline(new Date(2030, 0, 17)),
+    nextDeadline(new Date(2030, 2, 1)),
+  ], [
+    ['Cardiology Update', 'abstract', 1],
+    ['Cardiology Update', 'abstract', 0],
+    ['Summit', 'registration', 3],
+    null,
+  ]);
+
+  check('entry prefill', getEventEntryPrefill(event({ expectedCredits: 12, location: 'Boston', url: 'https://example.org' })), {
+    title: 'Cardiology Update',
+    date: '2030-03-10',
+    credits: 12,
+    notes: 'Boston\nhttps://example.org',
+  });
+
+  console.log(failures > 0 ? `\n${failures} event reminder check(s) failed` : '\nAll event reminder checks passed');
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main();
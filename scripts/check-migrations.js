@@ -0,0 +1,378 @@
+#!/usr/bin/env node
+
+// Schema Migration Check - runs every migration path from v0 to latest
+// Usage: node scripts/check-migrations.js
+//
+// migrations.ts has no React Native imports, so it is transpiled here and run
+// against a local SQLite file through sql.js, wrapped in the expo-sqlite async API
+// subset the migrations use. Each path builds a database at a starting version,
+// writes it to disk, reopens it and migrates it to the latest version.
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const ts = require('typescript');
+const initSqlJs = require('sql.js');
+
+const ROOT = path.join(__dirname, '..');
+const MIGRATIONS_PATH = path.join(ROOT, 'src/services/database/migrations.ts');
+const CONSTANTS_PATH = path.join(ROOT, 'src/constants/index.ts');
+
+function loadTypeScriptModule(filePath) {
+  const source = fs.readFileSync(filePath, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+    },
+    fileName: filePath,
+  });
+
+  const module = { exports: {} };
+  const localRequire = (request) => {
+    throw new Error(`${path.basename(filePath)} must not import at runtime (found "${request}")`);
+  };
+  new Function('require', 'module', 'exports', '__DEV__', outputText)(localRequire, module, module.exports, false);
+  return module.exports;
+}
+
+/**
+ * A SQLite file on disk with the expo-sqlite methods migrations call.
+ * failOn makes any statement matching the pattern throw, to exercise rollback.
+ */
+class FileDatabase {
+  constructor(SQL, filePath) {
+    this.filePath = filePath;
+    this.db = fs.existsSync(filePath) ? new SQL.Database(fs.readFileSync(filePath)) : new SQL.Database();
+    this.failOn = null;
+  }
+
+  check(sql) {
+    if (this.failOn && this.failOn.test(sql)) {
+      throw new Error(`Injected failure for: ${sql.trim().split('\n')[0]}`);
+    }
+  }
+
+  async execAsync(sql) {
+    this.check(sql);
+    this.db.exec(sql);
+  }
+
+  async runAsync(sql, params = []) {
+    this.check(sql);
+    this.db.run(sql, params);
+    return { changes: this.db.getRowsModified() };
+  }
+
+  async getAllAsync(sql, params = []) {
+    this.check(sql);
+    const statement = this.db.prepare(sql);
+    const rows = [];
+    try {
+      statement.bind(params);
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+    } finally {
+      statement.free();
+    }
+    return rows;
+  }
+
+  async getFirstAsync(sql, params = []) {
+    const rows = await this.getAllAsync(sql, params);
+    return rows[0] || null;
+  }
+
+  close() {
+    fs.writeFileSync(this.filePath, Buffer.from(this.db.export()));
+    this.db.close();
+  }
+}
+
+// Table columns, indexes and triggers - compared across paths so every path ends at the same shape
+async function describeSchema(db) {
+  const objects = await db.getAllAsync(
+    "SELECT type, name FROM sqlite_master WHERE type IN ('table', 'index', 'trigger') AND name NOT LIKE 'sqlite_%' ORDER BY type, name"
+  );
+  const shape = {};
+  for (const object of objects) {
+    if (object.type === 'table') {
+      const columns = await db.getAllAsync(`PRAGMA table_info(${object.name})`);
+      shape[object.name] = columns.map(column => `${column.name} ${column.type}`).sort();
+    } else {
+      shape[`${object.type}:${object.name}`] = true;
+    }
+  }
+  return shape;
+}
+
+async function main() {
+  const { runMigrations, verifySchema, getMigrationHistory, LATEST_SCHEMA_VERSION, SCHEMA_MIGRATIONS } = loadTypeScriptModule(MIGRATIONS_PATH);
+  const SQL = await initSqlJs();
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cme-migrations-'));
+  let fileCount = 0;
+  let failures = 0;
+  let referenceShape = null;
+
+  const openFile = (filePath) => new FileDatabase(SQL, filePath || path.join(workDir, `path-${fileCount++}.db`));
+  const reopen = (db) => {
+    db.close();
+    return openFile(db.filePath);
+  };
+
+  // Checks shared by every path once it reaches the latest version
+  const expectLatest = async (db, problems, { expectedStatus = () => 'applied', compareShape = true } = {}) => {
+    const verification = await verifySchema(db);
+    if (!verification.isValid) {
+      problems.push(`schema verification failed: ${JSON.stringify(verification)}`);
+    }
+
+    const { user_version: userVersion } = await db.getFirstAsync('PRAGMA user_version');
+    if (userVersion !== LATEST_SCHEMA_VERSION) {
+      problems.push(`user_version is ${userVersion}, expected ${LATEST_SCHEMA_VERSION}`);
+    }
+
+    const setting = await db.getFirstAsync("SELECT value FROM app_settings WHERE key = 'schema_version'");
+    if (!setting || setting.value !== String(LATEST_SCHEMA_VERSION)) {
+      problems.push(`schema_version setting is ${setting && setting.value}, expected ${LATEST_SCHEMA_VERSION}`);
+    }
+
+    const history = await getMigrationHistory(db);
+    const statuses = history.map(record => `${record.version}:${record.status}`).join(',');
+    const expected = SCHEMA_MIGRATIONS.map(migration => `${migration.version}:${expectedStatus(migration.version)}`).join(',');
+    if (statuses !== expected) {
+      problems.push(`migration history is ${statuses}, expected ${expected}`);
+    }
+
+    if (!compareShape) {
+      return;
+    }
+
+    const shape = JSON.stringify(await describeSchema(db));
+    if (referenceShape === null) {
+      referenceShape = shape;
+    } else if (shape !== referenceShape) {
+      problems.push('final schema differs from a fresh install');
+    }
+  };
+
+  const check = async (name, run) => {
+    const problems = [];
+    try {
+      await run(problems);
+    } catch (error) {
+      problems.push(error instanceof Error ? error.message : String(error));
+    }
+
+    if (problems.length > 0) {
+      failures++;
+      console.log(`FAIL ${name}`);
+      problems.forEach(problem => console.log(`     ${problem}`));
+    } else {
+      console.log(`ok   ${name}`);
+    }
+  };
+
+  try {
+    for (let start = 0; start <= LATEST_SCHEMA_VERSION; start++) {
+      await check(`v${start} -> v${LATEST_SCHEMA_VERSION}`, async (problems) => {
+        let db = openFile();
+        if (start > 0) {
+          await runMigrations(db, { targetVersion: start });
+          await db.runAsync(
+            "INSERT INTO users (profession, credit_system, annual_requirement) VALUES ('Physician', 'CME', 50)"
+          );
+          await db.runAsync(
+            "INSERT INTO cme_entries (title, provider, date_attended, credits_earned, category) VALUES ('Grand Rounds', 'Hospital', '2024-03-01', 1.5, 'Other')"
+          );
+        }
+
+        db = reopen(db);
+        const result = await runMigrations(db);
+        if (result.migrations.length !== LATEST_SCHEMA_VERSION - start) {
+          problems.push(`applied ${result.migrations.length} migrations, expected ${LATEST_SCHEMA_VERSION - start}`);
+        }
+
+        await expectLatest(db, problems);
+
+        if (start > 0) {
+          const entry = await db.getFirstAsync('SELECT title FROM cme_entries');
+          if (!entry || entry.title !== 'Grand Rounds') {
+            problems.push('existing CME entry did not survive the migration');
+          }
+        }
+
+        const rerun = await runMigrations(db);
+        if (rerun.migrations.length !== 0) {
+          problems.push(`second run applied ${rerun.migrations.length} migrations, expected none`);
+        }
+        db.close();
+      });
+    }
+
+    // Installs from before the registry only carry PRAGMA user_version
+    for (let start = 1; start <= LATEST_SCHEMA_VERSION; start++) {
+      await check(`v${start} tracked by user_version only -> v${LATEST_SCHEMA_VERSION}`, async (problems) => {
+        let db = openFile();
+        await runMigrations(db, { targetVersion: start });
+        await db.execAsync('DROP TABLE schema_migrations');
+
+        db = reopen(db);
+        await runMigrations(db);
+        await expectLatest(db, problems, { expectedStatus: version => (version <= start ? 'baseline' : 'applied') });
+        db.close();
+      });
+    }
+
+    await check('v0 with a pre-versioning users table', async (problems) => {
+      let db = openFile();
+      await db.execAsync(`
+        CREATE TABLE users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          profession TEXT,
+          credit_system TEXT,
+          annual_requirement INTEGER,
+          country TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        INSERT INTO users (profession, credit_system, annual_requirement, country) VALUES ('Nurse', 'CE', 30, 'US');
+      `);
+
+      db = reopen(db);
+      await runMigrations(db);
+      // The legacy country column stays, so the shape differs from a fresh install
+      await expectLatest(db, problems, { compareShape: false });
+
+      const user = await db.getFirstAsync('SELECT profession, requirement_period FROM users');
+      if (!user || user.profession !== 'Nurse' || user.requirement_period !== 1) {
+        problems.push(`legacy user row not upgraded: ${JSON.stringify(user)}`);
+      }
+      db.close();
+    });
+
+    await check('v7 registration deadlines move to event deadlines once', async (problems) => {
+      let db = openFile();
+      await runMigrations(db, { targetVersion: 7 });
+      await db.execAsync(`
+        INSERT INTO cme_event_reminders (event_name, event_date, registration_deadline) VALUES ('Summit', '2030-05-01', '2030-04-01');
+        INSERT INTO cme_event_reminders (event_name, event_date) VALUES ('Workshop', '2030-06-01');
+      `);
+
+      db = reopen(db);
+      await runMigrations(db);
+      await runMigrations(db, { reapplyAll: true });
+      await expectLatest(db, problems);
+
+      const deadlines = await db.getAllAsync('SELECT event_reminder_id, deadline_type, deadline_date FROM cme_event_deadlines');
+      if (JSON.stringify(deadlines) !== JSON.stringify([{ event_reminder_id: 1, deadline_type: 'registration', deadline_date: '2030-04-01' }])) {
+        problems.push(`unexpected deadlines: ${JSON.stringify(deadlines)}`);
+      }
+
+      // A deadline the user deleted stays deleted when the migrations are re-run to repair the schema
+      await db.execAsync('DELETE FROM cme_event_deadlines');
+      await runMigrations(db, { reapplyAll: true });
+      const restored = await db.getAllAsync('SELECT id FROM cme_event_deadlines');
+      if (restored.length > 0) {
+        problems.push(`deleted deadlines came back: ${JSON.stringify(restored)}`);
+      }
+      db.close();
+    });
+
+    await check('failed migration rolls back and is retried', async (problems) => {
+      let db = openFile();
+      await runMigrations(db, { targetVersion: LATEST_SCHEMA_VERSION - 1 });
+      db = reopen(db);
+
+      const failing = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1];
+      db.failOn = /CREATE INDEX IF NOT EXISTS idx_cme_event_deadlines_event_reminder_id/;
+      let threw = false;
+      try {
+        await runMigrations(db);
+      } catch (error) {
+        threw = true;
+      }
+      db.failOn = null;
+
+      if (!threw) {
+        problems.push('runMigrations did not report the failure');
+      }
+
+      const history = await getMigrationHistory(db);
+      const record = history.find(entry => entry.version === failing.version);
+      if (!record || record.status !== 'failed' || !record.error) {
+        problems.push(`failed migration not recorded: ${JSON.stringify(record)}`);
+      }
+
+      const leftover = await db.getFirstAsync("SELECT name FROM sqlite_master WHERE name = 'cme_event_deadlines'");
+      if (leftover) {
+        problems.push('tables created before the failure were not rolled back');
+      }
+
+      const verification = await verifySchema(db);
+      if (verification.isValid || verification.failedMigrations.length !== 1 || verification.currentVersion !== failing.version - 1) {
+        problems.push(`verification after failure is wrong: ${JSON.stringify(verification)}`);
+      }
+
+      db = reopen(db);
+      await runMigrations(db);
+      await expectLatest(db, problems);
+      db.close();
+    });
+
+    await check('dry run reports pending migrations without writing', async (problems) => {
+      let db = openFile();
+      await runMigrations(db, { targetVersion: 3 });
+      db = reopen(db);
+
+      const before = JSON.stringify(await describeSchema(db));
+      const result = await runMigrations(db, { dryRun: true });
+      const pending = result.migrations.map(migration => migration.version).join(',');
+      const expected = SCHEMA_MIGRATIONS.filter(migration => migration.version > 3).map(migration => migration.version).join(',');
+      if (pending !== expected) {
+        problems.push(`dry run listed ${pending}, expected ${expected}`);
+      }
+
+      const verification = await verifySchema(db);
+      if (verification.isValid || !verification.missingTables.includes('compliance_cycles')) {
+        problems.push(`verification should report the missing tables: ${JSON.stringify(verification)}`);
+      }
+
+      if (JSON.stringify(await describeSchema(db)) !== before) {
+        problems.push('dry run changed the schema');
+      }
+      db.close();
+    });
+
+    await check('missing table is restored by re-applying migrations', async (problems) => {
+      let db = openFile();
+      await runMigrations(db);
+      await db.execAsync('DROP TABLE carry_over_rules');
+
+      db = reopen(db);
+      const verification = await verifySchema(db);
+      if (verification.isValid || !verification.missingTables.includes('carry_over_rules')) {
+        problems.push(`verification should report carry_over_rules: ${JSON.stringify(verification)}`);
+      }
+
+      await runMigrations(db, { reapplyAll: true });
+      await expectLatest(db, problems);
+      db.close();
+    });
+
+    const constants = fs.readFileSync(CONSTANTS_PATH, 'utf8');
+    const match = constants.match(/DATABASE_VERSION:\s*(\d+)/);
+    await check('APP_CONFIG.DATABASE_VERSION matches the registry', async (problems) => {
+      if (!match || Number(match[1]) !== LATEST_SCHEMA_VERSION) {
+        problems.push(`DATABASE_VERSION is ${match && match[1]}, latest migration is ${LATEST_SCHEMA_VERSION}`);
+      }
+    });
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+
+  console.log(failures > 0 ? `\n${failures} migration check(s) failed` : '\nAll migration paths passed');
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main();
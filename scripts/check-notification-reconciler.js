@@ -0,0 +1,194 @@
+#!/usr/bin/env node
+
+// Notification Reconciler Check - reconciles against a fake OS scheduler and storage
+// Usage: node scripts/check-notification-reconciler.js
+//
+// NotificationReconciler.ts only needs NotificationTypes.ts at runtime, so both are
+// transpiled here and run in Node. The fake backend records every schedule and cancel
+// call, so the checks can assert that a refresh touches only what changed.
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const ROOT = path.join(__dirname, '..');
+const RECONCILER_PATH = path.join(ROOT, 'src/services/notifications/NotificationReconciler.ts');
+
+function loadTypeScriptModule(filePath) {
+  const source = fs.readFileSync(filePath, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+    },
+    fileName: filePath,
+  });
+
+  const module = { exports: {} };
+  const localRequire = (request) => {
+    if (request.startsWith('./')) {
+      return loadTypeScriptModule(path.join(path.dirname(filePath), `${request}.ts`));
+    }
+    throw new Error(`${path.basename(filePath)} must not import "${request}" at runtime`);
+  };
+  new Function('require', 'module', 'exports', '__DEV__', outputText)(localRequire, module, module.exports, false);
+  return module.exports;
+}
+
+/**
+ * OS scheduler and AsyncStorage stand-in. Stored records go through JSON like the real storage.
+ */
+class FakeBackend {
+  constructor() {
+    this.system = new Map();
+    this.stored = '[]';
+    this.calls = [];
+    this.failSchedule = new Set();
+    this.failCancel = new Set();
+  }
+
+  async getSystemScheduled() {
+    return [...this.system.values()].map(notification => ({
+      id: notification.id,
+      type: notification.data && notification.data.type,
+      remindLaterOf: notification.data ? notification.data.remindLaterOf : undefined,
+    }));
+  }
+
+  async getStored() {
+    return JSON.parse(this.stored).map(notification => ({
+      ...notification,
+      scheduledFor: new Date(notification.scheduledFor),
+      createdAt: new Date(notification.createdAt),
+    }));
+  }
+
+  async saveStored(notifications) {
+    this.stored = JSON.stringify(notifications);
+  }
+
+  async schedule(notification) {
+    this.calls.push(`schedule ${notification.id}`);
+    if (this.failSchedule.has(notification.id)) {
+      throw new Error('schedule failed');
+    }
+    this.system.set(notification.id, notification);
+  }
+
+  async cancel(id) {
+    this.calls.push(`cancel ${id}`);
+    if (this.failCancel.has(id)) {
+      throw new Error('cancel failed');
+    }
+    this.system.delete(id);
+  }
+
+  storedIds() {
+    return JSON.parse(this.stored).map(notification => notification.id).sort();
+  }
+
+  takeCalls() {
+    const calls = this.calls;
+    this.calls = [];
+    return calls;
+  }
+}
+
+const notification = (id, fields = {}) => ({
+  id,
+  type: 'license_expiring',
+  title: 'License Renewal Reminder',
+  body: `Reminder ${id}`,
+  scheduledFor: new Date('2030-01-01T09:00:00Z'),
+  data: { type: 'license_expiring', entityId: '1' },
+  isActive: true,
+  createdAt: new Date(),
+  ...fields,
+});
+
+async function main() {
+  const { NotificationReconciler } = loadTypeScriptModule(RECONCILER_PATH);
+
+  let failures = 0;
+
+  const check = (name, actual, expected) => {
+    if (JSON.stringify(actual) === JSON.stringify(expected)) {
+      console.log(`ok   ${name}`);
+    } else {
+      failures++;
+      console.log(`FAIL ${name}`);
+      console.log(`     got      ${JSON.stringify(actual)}`);
+      console.log(`     expected ${JSON.stringify(expected)}`);
+    }
+  };
+
+  const summary = result => [result.added, result.updated, result.removed, result.unchanged, result.failed];
+  const backend = new FakeBackend();
+
+  let result = await NotificationReconciler.reconcile([notification('a'), notification('b')], backend);
+  check('first pass adds everything', summary(result), [['a', 'b'], [], [], [], []]);
+  check('first pass only schedules', backend.takeCalls(), ['schedule a', 'schedule b']);
+
+  result = await NotificationReconciler.reconcile([notification('a'), notification('b')], backend);
+  check('an unchanged refresh makes no OS calls', [summary(result), backend.takeCalls()], [[[], [], [], ['a', 'b'], []], []]);
+
+  result = await NotificationReconciler.reconcile([
+    notification('a', { body: 'Expires in 7 days' }),
+    notification('c'),
+  ], backend);
+  check('changed content is rescheduled, stale cancelled, missing added', summary(result), [['c'], ['a'], ['b'], [], []]);
+  check('nothing else is touched', backend.takeCalls(), ['cancel b', 'cancel a', 'schedule a', 'schedule c']);
+  check('storage matches the OS', [backend.storedIds(), [...backend.system.keys()].sort()], [['a', 'c'], ['a', 'c']]);
+
+  backend.system.delete('c');
+  result = await NotificationReconciler.reconcile([notification('a', { body: 'Expires in 7 days' }), notification('c')], backend);
+  check('a notification missing from the OS is scheduled again', summary(result), [['c'], [], [], ['a'], []]);
+  backend.takeCalls();
+
+  backend.system.set('test', { id: 'test', data: { type: 'test' } });
+  backend.system.set('orphan', notification('orphan', { data: { type: 'cycle_ending' } }));
+  result = await NotificationReconciler.reconcile([notification('a', { body: 'Expires in 7 days' }), notification('c')], backend);
+  check('unrecorded notifications of managed types are cancelled, others kept', [summary(result), backend.system.has('test')],
+    [[[], [], ['orphan'], ['a', 'c'], []], true]);
+  backend.takeCalls();
+
+  backend.failCancel.add('c');
+  backend.failSchedule.add('d');
+  result = await NotificationReconciler.reconcile([notification('a', { body: 'Expires in 7 days' }), notification('d')], backend);
+  check('failures are reported', summary(result), [[], [], [], ['a'], ['c', 'd']]);
+  check('a failed cancel stays recorded for the next pass', backend.storedIds(), ['a', 'c']);
+  backend.failCancel.clear();
+  backend.failSchedule.clear();
+  backend.takeCalls();
+
+  result = await NotificationReconciler.reconcile([notification('a', { body: 'Expires in 7 days' }), notification('d')], backend);
+  check('the next pass retries', summary(result), [['d'], [], ['c'], ['a'], []]);
+  backend.takeCalls();
+
+  result = await NotificationReconciler.reconcile([], backend);
+  check('disabling notifications removes every managed one', [summary(result), [...backend.system.keys()]],
+    [[[], [], ['a', 'd'], [], []], ['test']]);
+
+  const snoozed = new FakeBackend();
+  const copy = id => notification(`${id}_later`, { data: { type: 'license_expiring', remindLaterOf: id } });
+  snoozed.system.set('e_later', copy('e'));
+  snoozed.system.set('f_later', copy('f'));
+  snoozed.system.set('g_later', copy('g'));
+  result = await NotificationReconciler.reconcile([notification('f')], snoozed, ['e', 'f']);
+  check('a snoozed copy stays while its delivered original still stands', snoozed.system.has('e_later'), true);
+  check('a snoozed copy is cancelled once its original is rescheduled or gone',
+    [result.removed, snoozed.system.has('f_later'), snoozed.system.has('g_later')], [['f_later', 'g_later'], false, false]);
+
+  check('createdAt does not count as a change', NotificationReconciler.isSameContent(
+    notification('a', { createdAt: new Date(0) }),
+    notification('a', { createdAt: new Date() })
+  ), true);
+
+  console.log(failures > 0 ? `\n${failures} notification reconciler check(s) failed` : '\nAll notification reconciler checks passed');
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,101 @@
+#!/usr/bin/env node
+
+// Notification Router Check - maps notification taps and actions to screens
+// Usage: node scripts/check-notification-router.js
+//
+// NotificationRouter.ts only needs NotificationTypes.ts at runtime, so both are
+// transpiled here and run directly in Node.
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const ROOT = path.join(__dirname, '..');
+const ROUTER_PATH = path.join(ROOT, 'src/services/notifications/NotificationRouter.ts');
+
+// Notifications.DEFAULT_ACTION_IDENTIFIER, sent for a plain tap
+const TAP = 'expo.modules.notifications.actions.DEFAULT';
+
+function loadTypeScriptModule(filePath) {
+  const source = fs.readFileSync(filePath, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+    },
+    fileName: filePath,
+  });
+
+  const module = { exports: {} };
+  const localRequire = (request) => {
+    if (request.startsWith('./')) {
+      return loadTypeScriptModule(path.join(path.dirname(filePath), `${request}.ts`));
+    }
+    throw new Error(`${path.basename(filePath)} must not import "${request}" at runtime`);
+  };
+  new Function('require', 'module', 'exports', outputText)(localRequire, module, module.exports);
+  return module.exports;
+}
+
+function main() {
+  const { NotificationRouter, NOTIFICATION_ACTIONS } = loadTypeScriptModule(ROUTER_PATH);
+
+  let failures = 0;
+
+  const check = (name, actual, expected) => {
+    if (JSON.stringify(actual) === JSON.stringify(expected)) {
+      console.log(`ok   ${name}`);
+    } else {
+      failures++;
+      console.log(`FAIL ${name}`);
+      console.log(`     got      ${JSON.stringify(actual)}`);
+      console.log(`     expected ${JSON.stringify(expected)}`);
+    }
+  };
+
+  const dashboard = { name: 'Tabs', params: { screen: 'Dashboard' } };
+  const license = { type: 'license_expiring', entityId: '4' };
+
+  check('taps open the screen for the notification type', [
+    NotificationRouter.resolveRoute(TAP, { type: 'cycle_ending' }),
+    NotificationRouter.resolveRoute(TAP, { type: 'progress_pace' }),
+    NotificationRouter.resolveRoute(TAP, license),
+    NotificationRouter.resolveRoute(TAP, { type: 'cme_event_reminder', entityId: '9' }),
+    NotificationRouter.resolveRoute(TAP, { type: 'event_deadline', entityId: '9' }),
+    NotificationRouter.resolveRoute(TAP, { type: 'event_attendance', entityId: '9' }),
+    NotificationRouter.resolveRoute(TAP, { type: 'test' }),
+    NotificationRouter.resolveRoute(TAP, undefined),
+  ], [
+    dashboard,
+    dashboard,
+    { name: 'AddLicense', params: { licenseId: 4 } },
+    dashboard,
+    dashboard,
+    { name: 'AddCME', params: { eventReminderId: 9 } },
+    null,
+    null,
+  ]);
+
+  check('action buttons pick their own screen', [
+    NotificationRouter.resolveRoute(NOTIFICATION_ACTIONS.VIEW_PROGRESS, { type: 'cycle_ending' }),
+    NotificationRouter.resolveRoute(NOTIFICATION_ACTIONS.ADD_ENTRY, { type: 'cycle_ending' }),
+    NotificationRouter.resolveRoute(NOTIFICATION_ACTIONS.VIEW_LICENSE, license),
+    NotificationRouter.resolveRoute(NOTIFICATION_ACTIONS.VIEW_EVENT, { type: 'cme_event_reminder' }),
+    NotificationRouter.resolveRoute(NOTIFICATION_ACTIONS.LOG_EVENT, { type: 'event_attendance', entityId: 'x' }),
+  ], [dashboard, { name: 'AddCME' }, { name: 'AddLicense', params: { licenseId: 4 } }, dashboard, { name: 'AddCME' }]);
+
+  check('a license without a usable id opens Settings',
+    NotificationRouter.resolveRoute(TAP, { type: 'license_expiring', entityId: 'abc' }),
+    { name: 'Tabs', params: { screen: 'Settings' } });
+
+  check('remind later opens nothing', [
+    NotificationRouter.resolveRoute(NOTIFICATION_ACTIONS.REMIND_LATER, license),
+    NotificationRouter.isRemindLater(NOTIFICATION_ACTIONS.REMIND_LATER),
+    NotificationRouter.isRemindLater(TAP),
+  ], [null, true, false]);
+
+  console.log(failures > 0 ? `\n${failures} notification router check(s) failed` : '\nAll notification router checks passed');
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main();
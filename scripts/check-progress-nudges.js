@@ -0,0 +1,123 @@
+#!/usr/bin/env node
+
+// Progress Nudge Check - pace calculation, "falling behind" nudges and milestone celebrations
+// Usage: node scripts/check-progress-nudges.js
+//
+// progressPace.ts and NotificationScheduler.ts only import each other, the notification
+// types and credit terminology at runtime, so they are transpiled here and run in Node.
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const ROOT = path.join(__dirname, '..');
+const PACE_PATH = path.join(ROOT, 'src/utils/progressPace.ts');
+const SCHEDULER_PATH = path.join(ROOT, 'src/services/notifications/NotificationScheduler.ts');
+const TYPES_PATH = path.join(ROOT, 'src/services/notifications/NotificationTypes.ts');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function loadTypeScriptModule(filePath) {
+  const source = fs.readFileSync(filePath, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+    },
+    fileName: filePath,
+  });
+
+  const module = { exports: {} };
+  const localRequire = (request) => {
+    if (request.startsWith('.')) {
+      return loadTypeScriptModule(path.join(path.dirname(filePath), `${request}.ts`));
+    }
+    throw new Error(`${path.basename(filePath)} must not import "${request}" at runtime`);
+  };
+  new Function('require', 'module', 'exports', '__DEV__', outputText)(localRequire, module, module.exports, false);
+  return module.exports;
+}
+
+const user = {
+  id: 1,
+  creditSystem: 'CME',
+  annualRequirement: 50,
+  requirementPeriod: 1,
+  cycleStartDate: '2025-01-01',
+  cycleEndDate: '2026-01-01',
+};
+
+function main() {
+  const { calculatePace } = loadTypeScriptModule(PACE_PATH);
+  const { NotificationScheduler } = loadTypeScriptModule(SCHEDULER_PATH);
+  const { DEFAULT_NOTIFICATION_SETTINGS } = loadTypeScriptModule(TYPES_PATH);
+
+  let failures = 0;
+
+  const check = (name, actual, expected) => {
+    if (JSON.stringify(actual) === JSON.stringify(expected)) {
+      console.log(`ok   ${name}`);
+    } else {
+      failures++;
+      console.log(`FAIL ${name}`);
+      console.log(`     got      ${JSON.stringify(actual)}`);
+      console.log(`     expected ${JSON.stringify(expected)}`);
+    }
+  };
+
+  const withProgress = progressReminders => ({
+    ...DEFAULT_NOTIFICATION_SETTINGS,
+    progressReminders: { ...DEFAULT_NOTIFICATION_SETTINGS.progressReminders, ...progressReminders },
+  });
+
+  const midyear = new Date('2025-07-02T12:00:00Z');
+  const pace = calculatePace(user, 10, midyear);
+  check('pace compares credits with the share of the cycle passed', [
+    pace.status,
+    Math.round(pace.expectedProgress),
+    Math.round(pace.creditsBehind),
+    pace.remainingDays,
+  ], ['behind', 50, 15, 183]);
+  check('status thresholds', [
+    calculatePace(user, 25, midyear).status,
+    calculatePace(user, 50, midyear).status,
+    calculatePace(user, 10, new Date('2026-02-01T00:00:00Z')).status,
+  ], ['on_track', 'completed', 'overdue']);
+
+  const weekly = NotificationScheduler.calculatePaceNudges(user, 10, withProgress({}), midyear);
+  check('one nudge a week over the planning horizon', weekly.length, 4);
+  check('nudges name the credits behind pace',
+    weekly[0].body.startsWith(`You're ${Math.round(calculatePace(user, 10, weekly[0].scheduledFor).creditsBehind)} credits behind pace`),
+    true);
+
+  const capped = perWeek => {
+    const nudges = NotificationScheduler.calculatePaceNudges(user, 10, withProgress({ maxNudgesPerWeek: perWeek }), midyear);
+    const times = nudges.map(nudge => nudge.scheduledFor.getTime());
+    return Math.max(...times.map(time => times.filter(other => other >= time && other < time + 7 * DAY_MS).length));
+  };
+  check('no 7-day window holds more nudges than the cap', [capped(1), capped(2), capped(3)], [1, 2, 3]);
+
+  const nextDay = NotificationScheduler.calculatePaceNudges(user, 10, withProgress({}), new Date(midyear.getTime() + DAY_MS));
+  check('re-planning keeps the same slots', nextDay.slice(0, 3).map(nudge => nudge.id), weekly.slice(0, 3).map(nudge => nudge.id));
+
+  check('no nudges when on track, complete or turned off', [
+    NotificationScheduler.calculatePaceNudges(user, 30, withProgress({}), midyear).length,
+    NotificationScheduler.calculatePaceNudges(user, 50, withProgress({}), midyear).length,
+    NotificationScheduler.calculatePaceNudges(user, 10, withProgress({ enabled: false }), midyear).length,
+  ], [0, 0, 0]);
+
+  check('reached milestones', NotificationScheduler.getReachedMilestones(user, 38), [25, 50, 75]);
+
+  const celebration = NotificationScheduler.calculateMilestoneNotification(user, 38, [25], withProgress({}), midyear);
+  check('milestones passed together share one celebration for the highest', [celebration.id, celebration.data.milestone],
+    ['progress_milestone_2025-01-01_75', 75]);
+  check('celebrated milestones do not fire again', [
+    NotificationScheduler.calculateMilestoneNotification(user, 38, [25, 50, 75], withProgress({}), midyear),
+    NotificationScheduler.calculateMilestoneNotification(user, 38, [], withProgress({ celebrateMilestones: false }), midyear),
+  ], [null, null]);
+
+  console.log(failures > 0 ? `\n${failures} progress nudge check(s) failed` : '\nAll progress nudge checks passed');
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,129 @@
+#!/usr/bin/env node
+
+// Restore Preview Check - classifies backup records against the current database
+// Usage: node scripts/check-restore-preview.js
+//
+// restorePreview.ts is plain TypeScript with no React Native imports,
+// so it is transpiled here and run directly in Node.
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const ROOT = path.join(__dirname, '..');
+const PREVIEW_PATH = path.join(ROOT, 'src/utils/restorePreview.ts');
+
+function loadTypeScriptModule(filePath) {
+  const source = fs.readFileSync(filePath, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+    },
+    fileName: filePath,
+  });
+
+  const module = { exports: {} };
+  const localRequire = (request) => {
+    throw new Error(`${path.basename(filePath)} must not import "${request}" at runtime`);
+  };
+  new Function('require', 'module', 'exports', outputText)(localRequire, module, module.exports);
+  return module.exports;
+}
+
+const entry = (id, fields) => ({
+  id,
+  provider: 'ACME',
+  dateAttended: '2025-03-01',
+  creditsEarned: 2,
+  category: 'General',
+  createdAt: `2025-03-0${id} 10:00:00`,
+  updatedAt: '2025-03-01 10:00:00',
+  ...fields,
+});
+
+const backupData = {
+  cmeEntries: [
+    entry(1, { title: 'Cardiology Update' }),
+    entry(2, { title: 'Ethics Workshop', notes: 'Online' }),
+    entry(3, { title: 'Renamed Later' }),
+    entry(4, { title: 'Only In Backup' }),
+  ],
+  licenses: [
+    { id: 7, licenseType: 'Medical License', issuingAuthority: 'Board', licenseNumber: 'A1', expirationDate: '2026-12-31', requiredCredits: 50, status: 'active' },
+    { id: 8, licenseType: 'DEA', issuingAuthority: 'DEA', expirationDate: '2027-01-31', requiredCredits: 0, status: 'active' },
+  ],
+  certificates: [
+    { id: 20, archiveFileName: 'a.jpg', filePath: 'file:///old/a.jpg', fileName: 'a.jpg', fileSize: 100, mimeType: 'image/jpeg', cmeEntryId: 1 },
+    { id: 21, archiveFileName: 'b.pdf', filePath: 'file:///old/b.pdf', fileName: 'b.pdf', fileSize: 200, mimeType: 'application/pdf' },
+  ],
+};
+
+// The device after the backup: entry 2's notes were edited, entry 3 was renamed,
+// entry 4 and the DEA license were deleted, and so was certificate b.pdf
+const current = {
+  entries: [
+    entry(11, { title: 'Cardiology Update', createdAt: '2025-03-01 10:00:00', notes: null }),
+    entry(12, { title: 'Ethics Workshop', createdAt: '2025-03-02 10:00:00', notes: 'In person' }),
+    entry(13, { title: 'Renamed Now', createdAt: '2025-03-03 10:00:00' }),
+  ],
+  licenses: [
+    { id: 17, licenseType: 'Medical License', issuingAuthority: 'Board', licenseNumber: 'A1', expirationDate: '2028-12-31', requiredCredits: 50, status: 'active' },
+  ],
+  certificates: [
+    { id: 30, filePath: 'file:///new/a.jpg', fileName: 'a.jpg', fileSize: 100, mimeType: 'image/jpeg', cmeEntryId: 11 },
+  ],
+};
+
+function main() {
+  const { buildRestorePreview, countByStatus, getEntryCertificateIds, getExistingIds } = loadTypeScriptModule(PREVIEW_PATH);
+
+  let failures = 0;
+
+  const check = (name, actual, expected) => {
+    if (JSON.stringify(actual) === JSON.stringify(expected)) {
+      console.log(`ok   ${name}`);
+    } else {
+      failures++;
+      console.log(`FAIL ${name}`);
+      console.log(`     got      ${JSON.stringify(actual)}`);
+      console.log(`     expected ${JSON.stringify(expected)}`);
+    }
+  };
+
+  const preview = buildRestorePreview(backupData, current);
+  const summary = items => items.map(item => [item.record.id, item.status, item.existingId ?? null, item.changedFields]);
+
+  check('entries are new, changed or identical', summary(preview.entries), [
+    [1, 'identical', 11, []],
+    [2, 'changed', 12, ['notes']],
+    [3, 'changed', 13, ['title']],
+    [4, 'new', null, []],
+  ]);
+  check('licenses match on type, authority and number', summary(preview.licenses), [
+    [7, 'changed', 17, ['expirationDate']],
+    [8, 'new', null, []],
+  ]);
+  check('certificates match on name and size', summary(preview.certificates), [
+    [20, 'identical', 30, []],
+    [21, 'new', null, []],
+  ]);
+
+  check('counts by status', countByStatus(preview.entries), { new: 1, changed: 2, identical: 1 });
+  check('matched ids map backup ids to this device', getExistingIds(preview.entries), { 1: 11, 2: 12, 3: 13 });
+
+  const legacyEntry = entry(5, { title: 'Legacy', certificatePath: 'file:///old/b.pdf' });
+  check('certificates belong to entries by id or path', [
+    getEntryCertificateIds(backupData, backupData.cmeEntries[0]),
+    getEntryCertificateIds(backupData, legacyEntry),
+  ], [[20], [21]]);
+
+  check('an empty database makes everything new',
+    countByStatus(buildRestorePreview(backupData, { entries: [], licenses: [], certificates: [] }).entries),
+    { new: 4, changed: 0, identical: 0 });
+
+  console.log(failures > 0 ? `\n${failures} restore preview check(s) failed` : '\nAll restore preview checks passed');
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,280 @@
+#!/usr/bin/env node
+
+// ZIP Stream Check - writes and reads back a large backup archive with bounded memory,
+// plain and encrypted
+// Usage: node scripts/check-zip-stream.js [megabytes of certificates, default 300]
+//
+// zipStream.ts and backupEncryption.ts are plain TypeScript with no React Native imports,
+// so they are transpiled here and run directly in Node against a real archive in the temp
+// directory. The script re-runs itself with a heap limit far below the archive size and
+// measures memory still in use after garbage collection, so it fails if anything buffers
+// the archive.
+
+const { spawnSync } = require('child_process');
+const crypto = require('crypto');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const ts = require('typescript');
+const JSZip = require('jszip');
+
+const ROOT = path.join(__dirname, '..');
+const ZIP_STREAM_PATH = path.join(ROOT, 'src/utils/zipStream.ts');
+const ENCRYPTION_PATH = path.join(ROOT, 'src/services/backupEncryption.ts');
+
+// Runtime imports the two modules are allowed to make
+const ALLOWED_IMPORTS = {
+  'pako': () => require('pako'),
+  '@noble/ciphers/aes': () => require('@noble/ciphers/aes'),
+  '@noble/ciphers/utils': () => require('@noble/ciphers/utils'),
+  '@noble/hashes/scrypt': () => require('@noble/hashes/scrypt'),
+  'expo-crypto': () => ({ getRandomBytes: (length) => new Uint8Array(crypto.randomBytes(length)) }),
+};
+
+const CERTIFICATE_SIZE = 3 * 1024 * 1024 + 12345; // Deliberately not a multiple of the chunk size
+const HEAP_LIMIT_MB = 64;
+const MEMORY_GROWTH_LIMIT = 16 * 1024 * 1024;
+const GC_INTERVAL = 16; // Chunks between measurements
+
+function loadTypeScriptModule(filePath) {
+  const source = fs.readFileSync(filePath, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+    },
+    fileName: filePath,
+  });
+
+  const module = { exports: {} };
+  const localRequire = (request) => {
+    if (!ALLOWED_IMPORTS[request]) {
+      throw new Error(`${path.basename(filePath)} must not import "${request}" at runtime`);
+    }
+    return ALLOWED_IMPORTS[request]();
+  };
+  new Function('require', 'module', 'exports', outputText)(localRequire, module, module.exports);
+  return module.exports;
+}
+
+function fileOutput(filePath) {
+  const fd = fs.openSync(filePath, 'w');
+  return {
+    output: { write: bytes => fs.writeSync(fd, bytes) },
+    close: () => fs.closeSync(fd),
+  };
+}
+
+function fileInput(filePath) {
+  const fd = fs.openSync(filePath, 'r');
+  return {
+    input: {
+      size: fs.fstatSync(fd).size,
+      read: (offset, length) => {
+        const buffer = new Uint8Array(length);
+        fs.readSync(fd, buffer, 0, length, offset);
+        return buffer;
+      },
+    },
+    close: () => fs.closeSync(fd),
+  };
+}
+
+// Deterministic bytes for certificate `index`, produced a chunk at a time
+function certificateChunks(index, chunkSize) {
+  let produced = 0;
+  return () => {
+    if (produced >= CERTIFICATE_SIZE) {
+      return null;
+    }
+    const chunk = new Uint8Array(Math.min(chunkSize, CERTIFICATE_SIZE - produced));
+    for (let i = 0; i < chunk.length; i++) {
+      chunk[i] = (produced + i + index * 31) & 0xff;
+    }
+    produced += chunk.length;
+    return chunk;
+  };
+}
+
+async function main() {
+  const megabytes = Number(process.argv[2]) || 300;
+  const certificateCount = Math.ceil((megabytes * 1024 * 1024) / CERTIFICATE_SIZE);
+  const {
+    ZIP_CHUNK_SIZE,
+    ZipStreamWriter,
+    bytesZipInput,
+    crc32,
+    readZipEntries,
+    readZipEntry,
+    readZipEntryBytes,
+  } = loadTypeScriptModule(ZIP_STREAM_PATH);
+  const { encryptBackup, decryptBackup } = loadTypeScriptModule(ENCRYPTION_PATH);
+
+  const workDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'zip-stream-check-'));
+  const archivePath = path.join(workDirectory, 'backup.zip');
+  const encryptedPath = path.join(workDirectory, 'backup.cmebackup');
+  const decryptedPath = path.join(workDirectory, 'decrypted.zip');
+  let failures = 0;
+
+  const check = (name, passed, detail) => {
+    if (passed) {
+      console.log(`ok   ${name}`);
+    } else {
+      failures++;
+      console.log(`FAIL ${name}${detail ? `\n     ${detail}` : ''}`);
+    }
+  };
+
+  try {
+    // Typed array contents live outside the V8 heap, so they are counted separately.
+    // A large one freed just before (scrypt's working memory) can outlive one collection.
+    const memoryInUse = () => {
+      global.gc();
+      global.gc();
+      const { heapUsed, arrayBuffers } = process.memoryUsage();
+      return heapUsed + arrayBuffers;
+    };
+    const baselineHeap = memoryInUse();
+    let peakHeap = baselineHeap;
+    let samples = 0;
+    const sampleHeap = () => {
+      if (++samples % GC_INTERVAL === 0) {
+        peakHeap = Math.max(peakHeap, memoryInUse());
+      }
+    };
+
+    // Write
+    const backupJson = JSON.stringify({ version: '1.0.0', cmeEntries: Array.from({ length: 500 }, (_, id) => ({ id })) });
+    const { output, close: closeOutput } = fileOutput(archivePath);
+    const writer = new ZipStreamWriter(output);
+    writer.addBytes('backup.json', Buffer.from(backupJson));
+
+    const expectedCrcs = new Map();
+    for (let index = 0; index < certificateCount; index++) {
+      const name = `certificates/certificate_${index}.jpg`;
+      const readChunk = certificateChunks(index, ZIP_CHUNK_SIZE);
+      let crc = 0;
+      writer.addStream(name, () => {
+        const chunk = readChunk();
+        if (chunk) {
+          crc = crc32(chunk, crc);
+        }
+        sampleHeap();
+        return chunk;
+      });
+      expectedCrcs.set(name, crc);
+    }
+    writer.finish();
+    closeOutput();
+
+    const archiveSize = fs.statSync(archivePath).size;
+    check(`wrote ${certificateCount} certificates (${(archiveSize / 1024 / 1024).toFixed(0)} MB)`, archiveSize > megabytes * 1024 * 1024);
+
+    // Read back
+    const readBack = (filePath, label) => {
+      const { input, close: closeInput } = fileInput(filePath);
+      const entries = readZipEntries(input);
+      check(`${label}central directory lists every entry`, entries.length === certificateCount + 1, `found ${entries.length}`);
+
+      const jsonEntry = entries.find(entry => entry.name === 'backup.json');
+      const parsed = jsonEntry && JSON.parse(Buffer.from(readZipEntryBytes(input, jsonEntry)).toString('utf8'));
+      check(`${label}backup.json round-trips`, parsed && parsed.cmeEntries.length === 500);
+
+      let mismatched = 0;
+      for (const entry of entries.filter(item => item.name.startsWith('certificates/'))) {
+        let size = 0;
+        let crc = 0;
+        readZipEntry(input, entry, chunk => {
+          size += chunk.length;
+          crc = crc32(chunk, crc);
+          sampleHeap();
+        });
+        if (size !== CERTIFICATE_SIZE || crc !== expectedCrcs.get(entry.name)) {
+          mismatched++;
+        }
+      }
+      closeInput();
+      check(`${label}every certificate reads back intact`, mismatched === 0, `${mismatched} mismatched`);
+    };
+    readBack(archivePath, '');
+
+    // Encrypt and decrypt the archive through file handles, as a passphrase backup and its import do
+    const passphrase = 'correct horse battery staple';
+    const { input: plainInput, close: closePlain } = fileInput(archivePath);
+    const { output: encryptedOutput, close: closeEncrypted } = fileOutput(encryptedPath);
+    await encryptBackup(plainInput, { write: bytes => { encryptedOutput.write(bytes); sampleHeap(); } }, passphrase);
+    closePlain();
+    closeEncrypted();
+    fs.rmSync(archivePath);
+
+    const { input: encryptedInput, close: closeEncryptedInput } = fileInput(encryptedPath);
+    const { output: decryptedOutput, close: closeDecrypted } = fileOutput(decryptedPath);
+    const opened = await decryptBackup(encryptedInput, { write: bytes => { decryptedOutput.write(bytes); sampleHeap(); } }, passphrase);
+    closeEncryptedInput();
+    closeDecrypted();
+    check('the encrypted archive decrypts', opened === true);
+    fs.rmSync(encryptedPath);
+
+    readBack(decryptedPath, 'after encryption: ');
+    fs.rmSync(decryptedPath);
+
+    const growth = peakHeap - baselineHeap;
+    check(
+      `memory stayed bounded (peak growth ${(growth / 1024 / 1024).toFixed(1)} MB)`,
+      growth < MEMORY_GROWTH_LIMIT,
+      `limit ${MEMORY_GROWTH_LIMIT / 1024 / 1024} MB`
+    );
+
+    // A small streamed archive for the checks below
+    const smallChunks = [];
+    const smallWriter = new ZipStreamWriter({ write: bytes => smallChunks.push(Buffer.from(bytes)) });
+    smallWriter.addBytes('backup.json', Buffer.from(backupJson));
+    smallWriter.addStream('certificates/a.jpg', certificateChunks(1, 1000));
+    smallWriter.finish();
+    const small = Buffer.concat(smallChunks);
+
+    // Other ZIP tools can open streamed archives
+    const reopened = await JSZip.loadAsync(small).catch(() => null);
+    const reopenedCertificate = reopened && await reopened.file('certificates/a.jpg')?.async('uint8array');
+    check('streamed archives open in other ZIP tools', !!reopenedCertificate && reopenedCertificate.length === CERTIFICATE_SIZE);
+
+    // Corruption is caught by the CRC
+    const corrupted = Buffer.from(small);
+    corrupted[corrupted.length - 200000] ^= 0xff; // Inside the certificate's data
+    let corruptionCaught = false;
+    try {
+      const corruptedInput = bytesZipInput(corrupted);
+      const entry = readZipEntries(corruptedInput).find(item => item.name === 'certificates/a.jpg');
+      readZipEntry(corruptedInput, entry, () => {});
+    } catch (error) {
+      corruptionCaught = /corrupt/.test(error.message);
+    }
+    check('a flipped byte is reported as corrupt', corruptionCaught);
+
+    // Backups written by JSZip before streaming are deflated
+    const legacy = new JSZip();
+    legacy.file('backup.json', backupJson);
+    legacy.folder('certificates').file('scan.png', Buffer.alloc(200000, 7));
+    const legacyBytes = await legacy.generateAsync({ type: 'uint8array', compression: 'DEFLATE', compressionOptions: { level: 6 } });
+    const legacyInput = bytesZipInput(legacyBytes);
+    const legacyScan = readZipEntries(legacyInput).find(entry => entry.name === 'certificates/scan.png');
+    const scanBytes = legacyScan && readZipEntryBytes(legacyInput, legacyScan);
+    check('deflated JSZip backups still read', !!scanBytes && scanBytes.length === 200000 && scanBytes.every(byte => byte === 7));
+  } finally {
+    fs.rmSync(workDirectory, { recursive: true, force: true });
+  }
+
+  console.log(failures > 0 ? `\n${failures} ZIP stream check(s) failed` : '\nAll ZIP stream checks passed');
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+if (typeof global.gc !== 'function') {
+  const { status } = spawnSync(
+    process.execPath,
+    ['--expose-gc', `--max-old-space-size=${HEAP_LIMIT_MB}`, __filename, ...process.argv.slice(2)],
+    { stdio: 'inherit' }
+  );
+  process.exit(status ?? 1);
+} else {
+  main();
+}
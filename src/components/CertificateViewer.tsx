@@ -12,7 +12,7 @@ import {
 } from 'react-native';
 import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
-import { theme } from '../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../theme';
 import { SvgIcon } from './common/SvgIcon';
 
 const { width, height } = Dimensions.get('window');
@@ -24,6 +24,8 @@ interface Props {
 }
 
 export const CertificateViewer: React.FC<Props> = ({ visible, imageUri, onClose }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const handleShare = async () => {
     if (!imageUri) return;
     
@@ -87,7 +89,7 @@ export const CertificateViewer: React.FC<Props> = ({ visible, imageUri, onClose
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: 'rgba(0, 0, 0, 0.95)',
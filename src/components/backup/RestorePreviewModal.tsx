@@ -0,0 +1,385 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, SectionList } from 'react-native';
+import { SvgIcon } from '../common/SvgIcon';
+import { PremiumButton } from '../common/OnboardingComponents';
+import { OpenedBackup, RestoreSelection } from '../../services/backupRestoreService';
+import {
+  RestoreItemStatus,
+  RestorePreview,
+  countByStatus,
+  getEntryCertificateIds,
+  getExistingIds,
+} from '../../utils/restorePreview';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
+
+interface RestorePreviewModalProps {
+  visible: boolean;
+  backup: OpenedBackup | null;
+  preview: RestorePreview | null;
+  onRestore: (selection: RestoreSelection) => void;
+  onCancel: () => void;
+}
+
+type SectionKey = 'entries' | 'licenses' | 'certificates';
+
+interface PreviewRow {
+  section: SectionKey;
+  id: number; // Id in the backup
+  title: string;
+  subtitle: string;
+  status: RestoreItemStatus;
+}
+
+const STATUS_LABELS: Record<RestoreItemStatus, string> = {
+  new: 'New',
+  changed: 'Changed',
+  identical: 'On device',
+};
+
+const SECTION_TITLES: Record<SectionKey, string> = {
+  entries: 'CME Entries',
+  licenses: 'Licenses',
+  certificates: 'Certificates',
+};
+
+const emptySelection = (): Record<SectionKey, Set<number>> => ({
+  entries: new Set(),
+  licenses: new Set(),
+  certificates: new Set(),
+});
+
+export const RestorePreviewModal: React.FC<RestorePreviewModalProps> = ({
+  visible,
+  backup,
+  preview,
+  onRestore,
+  onCancel,
+}) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [selected, setSelected] = useState(emptySelection);
+
+  const sections = useMemo(() => {
+    if (!backup || !preview) {
+      return [];
+    }
+
+    const entryTitles = new Map(backup.backupData.cmeEntries.map(entry => [entry.id, entry.title]));
+    const rows: Record<SectionKey, PreviewRow[]> = {
+      entries: preview.entries.map(item => ({
+        section: 'entries',
+        id: item.record.id,
+        title: item.record.title,
+        subtitle: item.status === 'changed'
+          ? `Changed: ${item.changedFields.join(', ')}`
+          : `${item.record.provider} · ${item.record.dateAttended.split('T')[0]} · ${item.record.creditsEarned} credits`,
+        status: item.status,
+      })),
+      licenses: preview.licenses.map(item => ({
+        section: 'licenses',
+        id: item.record.id,
+        title: item.record.licenseType,
+        subtitle: item.status === 'changed'
+          ? `Changed: ${item.changedFields.join(', ')}`
+          : `${item.record.issuingAuthority} · expires ${item.record.expirationDate.split('T')[0]}`,
+        status: item.status,
+      })),
+      certificates: preview.certificates.map(item => ({
+        section: 'certificates',
+        id: item.record.id,
+        title: item.record.fileName,
+        subtitle: [
+          item.record.cmeEntryId !== undefined ? entryTitles.get(item.record.cmeEntryId) : undefined,
+          formatFileSize(item.record.fileSize),
+        ].filter(Boolean).join(' · '),
+        status: item.status,
+      })),
+    };
+
+    return (Object.keys(rows) as SectionKey[])
+      .filter(key => rows[key].length > 0)
+      .map(key => ({ key, data: rows[key] }));
+  }, [backup, preview]);
+
+  // Start from what a merge restore would add: everything not already on the device
+  useEffect(() => {
+    if (visible && preview) {
+      setSelected({
+        entries: new Set(preview.entries.filter(item => item.status === 'new').map(item => item.record.id)),
+        licenses: new Set(preview.licenses.filter(item => item.status === 'new').map(item => item.record.id)),
+        certificates: new Set(preview.certificates.filter(item => item.status === 'new').map(item => item.record.id)),
+      });
+    }
+  }, [visible, preview]);
+
+  const toggle = (row: PreviewRow) => {
+    if (!backup || !preview) {
+      return;
+    }
+
+    setSelected(current => {
+      const next = {
+        entries: new Set(current.entries),
+        licenses: new Set(current.licenses),
+        certificates: new Set(current.certificates),
+      };
+
+      if (next[row.section].has(row.id)) {
+        next[row.section].delete(row.id);
+        return next;
+      }
+      next[row.section].add(row.id);
+
+      // Keep certificates and their entries together so they can be re-linked
+      if (row.section === 'entries') {
+        const entry = backup.backupData.cmeEntries.find(item => item.id === row.id);
+        const certificateIds = entry ? getEntryCertificateIds(backup.backupData, entry) : [];
+        preview.certificates
+          .filter(item => certificateIds.includes(item.record.id) && item.status !== 'identical')
+          .forEach(item => next.certificates.add(item.record.id));
+      } else if (row.section === 'certificates') {
+        const record = preview.certificates.find(item => item.record.id === row.id)?.record;
+        const entry = preview.entries.find(item => item.record.id === record?.cmeEntryId);
+        if (entry?.status === 'new') {
+          next.entries.add(entry.record.id);
+        }
+      }
+
+      return next;
+    });
+  };
+
+  const setSection = (section: SectionKey, rows: PreviewRow[], all: boolean) => {
+    setSelected(current => ({
+      ...current,
+      [section]: new Set(all ? rows.map(row => row.id) : []),
+    }));
+  };
+
+  const selectedCount = selected.entries.size + selected.licenses.size + selected.certificates.size;
+
+  const handleRestore = () => {
+    if (!preview) {
+      return;
+    }
+
+    onRestore({
+      entryIds: [...selected.entries],
+      licenseIds: [...selected.licenses],
+      certificateIds: [...selected.certificates],
+      existingEntryIds: getExistingIds(preview.entries),
+      existingLicenseIds: getExistingIds(preview.licenses),
+    });
+  };
+
+  const statusStyle = (status: RestoreItemStatus) => {
+    switch (status) {
+      case 'new':
+        return { backgroundColor: theme.colors.successBackground, color: theme.colors.success };
+      case 'changed':
+        return { backgroundColor: theme.colors.warningBackground, color: theme.colors.warningText };
+      default:
+        return { backgroundColor: theme.colors.gray[100], color: theme.colors.text.secondary };
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onCancel}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Choose Items to Restore</Text>
+            <TouchableOpacity onPress={onCancel} accessibilityLabel="Close">
+              <SvgIcon name="close" size={20} color={theme.colors.text.secondary} />
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.message}>
+            Selected items are added to your data. Changed items replace the version on this device.
+          </Text>
+
+          <SectionList
+            style={styles.list}
+            sections={sections}
+            keyExtractor={row => `${row.section}-${row.id}`}
+            stickySectionHeadersEnabled={false}
+            renderSectionHeader={({ section }) => {
+              const counts = countByStatus(section.data);
+              return (
+                <View style={styles.sectionHeader}>
+                  <View style={styles.sectionTitleBlock}>
+                    <Text style={styles.sectionTitle}>{SECTION_TITLES[section.key]}</Text>
+                    <Text style={styles.sectionCounts}>
+                      {counts.new} new · {counts.changed} changed · {counts.identical} on device
+                    </Text>
+                  </View>
+                  <TouchableOpacity onPress={() => setSection(section.key, section.data, true)}>
+                    <Text style={styles.sectionAction}>All</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => setSection(section.key, section.data, false)}>
+                    <Text style={styles.sectionAction}>None</Text>
+                  </TouchableOpacity>
+                </View>
+              );
+            }}
+            renderItem={({ item }) => {
+              const isSelected = selected[item.section].has(item.id);
+              const badge = statusStyle(item.status);
+              return (
+                <TouchableOpacity
+                  style={styles.row}
+                  onPress={() => toggle(item)}
+                  accessibilityRole="checkbox"
+                  accessibilityState={{ checked: isSelected }}
+                >
+                  <View style={[styles.checkbox, isSelected && styles.checkboxSelected]}>
+                    {isSelected && <SvgIcon name="checkmark" size={14} color={theme.colors.white} />}
+                  </View>
+                  <View style={styles.rowText}>
+                    <Text style={styles.rowTitle} numberOfLines={1}>{item.title}</Text>
+                    {!!item.subtitle && <Text style={styles.rowSubtitle} numberOfLines={1}>{item.subtitle}</Text>}
+                  </View>
+                  <View style={[styles.badge, { backgroundColor: badge.backgroundColor }]}>
+                    <Text style={[styles.badgeText, { color: badge.color }]}>{STATUS_LABELS[item.status]}</Text>
+                  </View>
+                </TouchableOpacity>
+              );
+            }}
+            ListEmptyComponent={<Text style={styles.message}>This backup has no records to restore.</Text>}
+          />
+
+          <View style={styles.buttonRow}>
+            <PremiumButton title="Cancel" variant="ghost" onPress={onCancel} style={styles.button} />
+            <PremiumButton
+              title={selectedCount === 1 ? 'Restore 1 Item' : `Restore ${selectedCount} Items`}
+              onPress={handleRestore}
+              disabled={selectedCount === 0}
+              style={styles.button}
+            />
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+function formatFileSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  }
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+const createStyles = (theme: AppTheme) => StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: theme.colors.overlay,
+  },
+  sheet: {
+    maxHeight: '90%',
+    backgroundColor: theme.colors.surface,
+    borderTopLeftRadius: theme.borderRadius.xl,
+    borderTopRightRadius: theme.borderRadius.xl,
+    paddingHorizontal: theme.spacing[5],
+    paddingTop: theme.spacing[5],
+    paddingBottom: theme.spacing[10],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    flex: 1,
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+  message: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    lineHeight: 20,
+    marginTop: theme.spacing[2],
+    marginBottom: theme.spacing[3],
+  },
+  list: {
+    flexGrow: 0,
+    marginBottom: theme.spacing[4],
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing[3],
+    paddingTop: theme.spacing[4],
+    paddingBottom: theme.spacing[2],
+  },
+  sectionTitleBlock: {
+    flex: 1,
+  },
+  sectionTitle: {
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  sectionCounts: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+  sectionAction: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.primary,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing[3],
+    paddingVertical: theme.spacing[3],
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border.light,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: theme.borderRadius.sm,
+    borderWidth: 2,
+    borderColor: theme.colors.border.medium,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  checkboxSelected: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.primary,
+  },
+  rowSubtitle: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+  badge: {
+    paddingHorizontal: theme.spacing[2],
+    paddingVertical: 2,
+    borderRadius: theme.borderRadius.full,
+  },
+  badgeText: {
+    fontSize: theme.typography.fontSize.xs,
+    fontWeight: theme.typography.fontWeight.semibold,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: theme.spacing[3],
+  },
+  button: {
+    flex: 1,
+    minHeight: 48,
+  },
+});
@@ -0,0 +1 @@
+export { RestorePreviewModal } from './RestorePreviewModal';
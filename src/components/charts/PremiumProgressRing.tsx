@@ -9,7 +9,7 @@ import Animated, {
   Easing,
 } from 'react-native-reanimated';
 import { LinearGradient } from 'expo-linear-gradient';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 
 interface PremiumProgressRingProps {
   size?: number;
@@ -34,6 +34,8 @@ export const PremiumProgressRing: React.FC<PremiumProgressRingProps> = ({
   showGlow = true,
   pulseOnComplete = true,
 }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   // Use theme colors as defaults, evaluated inside component
   const ringColor = color || theme.colors.primary;
   const ringBackgroundColor = backgroundColor || theme.colors.gray.light;
@@ -50,7 +52,7 @@ export const PremiumProgressRing: React.FC<PremiumProgressRingProps> = ({
 
     // Glow effect when progress changes
     if (showGlow && progress > 0) {
-      glowOpacity.value = withTiming(0.4, { duration: 400 }, () => {
+      glowOpacity.value = withTiming(0.1, { duration: 400 }, () => {
         glowOpacity.value = withTiming(0, { duration: 800 });
       });
     }
@@ -106,7 +108,8 @@ export const PremiumProgressRing: React.FC<PremiumProgressRingProps> = ({
           ]}
         >
           <LinearGradient
-            colors={[ringColor + '30', ringColor + '10', 'transparent']}
+            // Fades through opacity - ringColor can be HSL, so alpha can't be appended as hex
+            colors={[ringColor, 'transparent']}
             style={{
               width: '100%',
               height: '100%',
@@ -169,7 +172,7 @@ export const PremiumProgressRing: React.FC<PremiumProgressRingProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     justifyContent: 'center',
     alignItems: 'center',
@@ -9,7 +9,7 @@ import Animated, {
   useAnimatedStyle,
 } from 'react-native-reanimated';
 import { Svg, Circle, Defs, LinearGradient, Stop } from 'react-native-svg';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 
 const AnimatedCircle = Animated.createAnimatedComponent(Circle);
 
@@ -43,6 +43,8 @@ export const ProgressCircle: React.FC<ProgressCircleProps> = ({
   pulseOnComplete = true,
   showShadow = true,
 }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   // Use theme colors as defaults, evaluated inside component
   const circleColor = color || theme.colors.primary;
   const circleBackgroundColor = backgroundColor || theme.colors.gray[200];
@@ -173,7 +175,7 @@ export const ProgressCircle: React.FC<ProgressCircleProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     justifyContent: 'center',
     alignItems: 'center',
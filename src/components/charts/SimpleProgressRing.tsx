@@ -8,7 +8,7 @@ import Animated, {
   Easing,
 } from 'react-native-reanimated';
 import { LinearGradient } from 'expo-linear-gradient';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 
 interface SimpleProgressRingProps {
   size?: number;
@@ -29,6 +29,8 @@ export const SimpleProgressRing: React.FC<SimpleProgressRingProps> = ({
   duration = 1500,
   children,
 }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   // Use theme colors as defaults, evaluated inside component
   const ringColor = color || theme.colors.primary;
   const ringBackgroundColor = backgroundColor || theme.colors.gray.light;
@@ -38,7 +40,7 @@ export const SimpleProgressRing: React.FC<SimpleProgressRingProps> = ({
   useEffect(() => {
     // Glow effect when progress changes
     if (progress > 0) {
-      glowOpacity.value = withTiming(0.3, { duration: 400 }, () => {
+      glowOpacity.value = withTiming(0.08, { duration: 400 }, () => {
         glowOpacity.value = withTiming(0, { duration: 800 });
       });
     }
@@ -115,7 +117,8 @@ export const SimpleProgressRing: React.FC<SimpleProgressRingProps> = ({
         ]}
       >
         <LinearGradient
-          colors={[ringColor + '30', ringColor + '10', 'transparent']}
+          // Fades through opacity - ringColor can be HSL, so alpha can't be appended as hex
+          colors={[ringColor, 'transparent']}
           style={{
             width: '100%',
             height: '100%',
@@ -168,7 +171,7 @@ export const SimpleProgressRing: React.FC<SimpleProgressRingProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     justifyContent: 'center',
     alignItems: 'center',
@@ -197,7 +200,7 @@ const styles = StyleSheet.create({
   },
   circularBackground: {
     position: 'absolute',
-    backgroundColor: '#FFF5EE', // Match the dashboard background
+    backgroundColor: theme.colors.background, // Match the dashboard background
     shadowColor: '#000',
     shadowOffset: {
       width: 0,
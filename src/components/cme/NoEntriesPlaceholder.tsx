@@ -2,7 +2,7 @@ import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import { PremiumCard, PremiumButton } from '../common/OnboardingComponents';
 import { SvgIcon } from '../common/SvgIcon';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 
 interface NoEntriesPlaceholderProps {
   message?: string;
@@ -15,6 +15,8 @@ export const NoEntriesPlaceholder: React.FC<NoEntriesPlaceholderProps> = ({
   subtitle = 'Start tracking your continuing education by adding your first entry.',
   onAddEntry,
 }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   return (
     <View style={styles.container}>
       <PremiumCard style={styles.card}>
@@ -39,7 +41,7 @@ export const NoEntriesPlaceholder: React.FC<NoEntriesPlaceholderProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
     justifyContent: 'center',
@@ -48,7 +50,7 @@ const styles = StyleSheet.create({
   },
   card: {
     padding: 32,
-    backgroundColor: '#FFFFFF',
+    backgroundColor: theme.colors.surface,
     width: '100%',
     maxWidth: 400,
   },
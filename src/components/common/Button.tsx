@@ -17,7 +17,7 @@ import Animated, {
   interpolateColor,
   Easing,
 } from 'react-native-reanimated';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 import { ButtonProps } from '../../types';
 import { HapticsUtils } from '../../utils/HapticsUtils';
 
@@ -33,6 +33,8 @@ export const Button = React.memo<ButtonProps>(({
   style,
   textStyle,
 }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const pressAnimation = useSharedValue(0);
   const showDisabledStyles = disabled && !loading;
 
@@ -254,7 +256,7 @@ export const Button = React.memo<ButtonProps>(({
   );
 });
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   button: {
     // Base button styles handled by getBaseStyle
   },
@@ -1,6 +1,6 @@
 import React from 'react';
 import { View, ViewStyle, StyleSheet, Text, TextStyle } from 'react-native';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 
 export interface CardProps {
   children: React.ReactNode;
@@ -14,8 +14,10 @@ export const Card = React.memo<CardProps>(({
   variant = 'base',
   style,
 }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   // Get variant-specific styles
-  const variantStyles = getVariantStyles(variant);
+  const variantStyles = getVariantStyles(variant, theme);
 
   const cardStyle: ViewStyle[] = [
     styles.base,
@@ -31,7 +33,7 @@ export const Card = React.memo<CardProps>(({
 });
 
 // Helper function to get variant-specific styles
-const getVariantStyles = (variant: CardProps['variant']) => {
+const getVariantStyles = (variant: CardProps['variant'], theme: AppTheme) => {
   const variants = {
     base: {
       backgroundColor: theme.colors.card,
@@ -58,7 +60,7 @@ const getVariantStyles = (variant: CardProps['variant']) => {
       ...theme.shadows.small,
     },
     entry: {
-      backgroundColor: theme.colors.white,
+      backgroundColor: theme.colors.surface,
       borderWidth: 1,
       borderColor: theme.colors.border.medium,
       ...theme.shadows.small,
@@ -80,6 +82,8 @@ export const CardTitle: React.FC<CardTitleProps> = ({
   variant = 'base',
   style,
 }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const titleVariants = {
     base: {
       color: theme.colors.text.primary,
@@ -104,7 +108,7 @@ export const CardTitle: React.FC<CardTitleProps> = ({
   return <Text style={titleStyle}>{children}</Text>;
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   base: {
     borderRadius: 5, // theme.borderRadius.base - Standardized to 5px
     padding: 16, // theme.spacing[4] - List item card padding (16px)
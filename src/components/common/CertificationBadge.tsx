@@ -1,7 +1,7 @@
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 import { SvgIcon, IconName } from './SvgIcon';
 
 export interface BadgeLevel {
@@ -148,6 +148,8 @@ export const CertificationBadge: React.FC<CertificationBadgeProps> = ({
   size = 'medium',
   showProgress = false
 }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const sizeStyles = getSizeStyles(size);
   const progressPercentage = Math.min(progress * 100, 100);
 
@@ -156,7 +158,7 @@ export const CertificationBadge: React.FC<CertificationBadgeProps> = ({
       {/* Badge Circle */}
       <View style={[styles.badgeContainer, sizeStyles.badge]}>
         <LinearGradient
-          colors={earned ? badge.colors : ['#E5E7EB', '#9CA3AF']}
+          colors={earned ? badge.colors : [theme.colors.border.light, theme.colors.text.disabled]}
           style={[styles.badgeGradient, sizeStyles.badge]}
           start={{ x: 0, y: 0 }}
           end={{ x: 1, y: 1 }}
@@ -276,7 +278,7 @@ const getSizeStyles = (size: 'small' | 'medium' | 'large') => {
   }
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     alignItems: 'center',
     margin: theme.spacing[2],
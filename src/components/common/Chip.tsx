@@ -1,7 +1,7 @@
 import React from 'react';
 import { Text, StyleSheet, ViewStyle, TextStyle, View } from 'react-native';
 import { PressableFX } from './PressableFX';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 
 export interface ChipProps {
   label: string;
@@ -18,8 +18,10 @@ export const Chip: React.FC<ChipProps> = ({
   disabled = false,
   style,
 }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   // Get variant-specific styles
-  const variantStyles = getVariantStyles(variant);
+  const variantStyles = getVariantStyles(variant, theme);
 
   const chipStyle: ViewStyle[] = [
     styles.base,
@@ -59,7 +61,7 @@ export const Chip: React.FC<ChipProps> = ({
 };
 
 // Helper function to get variant-specific styles
-const getVariantStyles = (variant: ChipProps['variant']) => {
+const getVariantStyles = (variant: ChipProps['variant'], theme: AppTheme) => {
   const variants = {
     default: {
       container: {
@@ -74,7 +76,7 @@ const getVariantStyles = (variant: ChipProps['variant']) => {
     },
     selected: {
       container: {
-        backgroundColor: theme.colors.primary + '15', // Light blue background
+        backgroundColor: theme.colors.selectedBackground,
         borderWidth: 1,
         borderColor: theme.colors.primary,
       },
@@ -85,7 +87,7 @@ const getVariantStyles = (variant: ChipProps['variant']) => {
     },
     warning: {
       container: {
-        backgroundColor: theme.colors.warning + '15', // Light warning background
+        backgroundColor: theme.colors.warningBackground,
         borderWidth: 1,
         borderColor: theme.colors.warning,
       },
@@ -99,7 +101,7 @@ const getVariantStyles = (variant: ChipProps['variant']) => {
   return variants[variant || 'default'];
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   base: {
     borderRadius: 999, // tokens.radius.chip - fully rounded
     paddingVertical: 6,
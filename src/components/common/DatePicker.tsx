@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, Modal, ScrollView, StyleProp, ViewStyle } from 'react-native';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 import { SvgIcon } from './SvgIcon';
 
 interface DatePickerProps {
@@ -20,6 +20,8 @@ export const DatePicker: React.FC<DatePickerProps> = ({
   placeholder = 'Select date',
   style,
 }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const [showModal, setShowModal] = useState(false);
   const [tempDate, setTempDate] = useState(value);
   const [currentMonth, setCurrentMonth] = useState(value.getMonth());
@@ -258,7 +260,7 @@ export const DatePicker: React.FC<DatePickerProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   // Date input button
   dateButton: {
     flexDirection: 'row',
@@ -282,7 +284,7 @@ const styles = StyleSheet.create({
   // Modal overlay
   modalOverlay: {
     flex: 1,
-    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    backgroundColor: theme.colors.overlay,
     justifyContent: 'center',
     alignItems: 'center',
     padding: theme.spacing[4],
@@ -1,6 +1,6 @@
 import React, { Component, ReactNode, ErrorInfo } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 import { HapticsUtils } from '../../utils/HapticsUtils';
 import { SvgIcon } from './SvgIcon';
 
@@ -16,6 +16,51 @@ interface State {
   errorInfo: ErrorInfo | null;
 }
 
+interface ErrorFallbackProps {
+  error: Error | null;
+  errorInfo: ErrorInfo | null;
+  onRetry: () => void;
+}
+
+// Function component so the fallback can read the theme through hooks
+const ErrorFallback: React.FC<ErrorFallbackProps> = ({ error, errorInfo, onRetry }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.errorContainer}>
+        <SvgIcon name="alert" size={48} color={theme.colors.error} />
+        <Text style={styles.errorTitle}>Oops! Something went wrong</Text>
+        <Text style={styles.errorMessage}>
+          We encountered an unexpected error. Don't worry, your data is safe.
+        </Text>
+        
+        <TouchableOpacity 
+          style={styles.retryButton} 
+          onPress={onRetry}
+        >
+          <Text style={styles.retryButtonText}>Try Again</Text>
+        </TouchableOpacity>
+
+        {__DEV__ && error && (
+          <View style={styles.debugContainer}>
+            <Text style={styles.debugTitle}>Debug Info:</Text>
+            <Text style={styles.debugText}>
+              {error.toString()}
+            </Text>
+            {errorInfo && (
+              <Text style={styles.debugText}>
+                {errorInfo.componentStack}
+              </Text>
+            )}
+          </View>
+        )}
+      </View>
+    </View>
+  );
+};
+
 export class ErrorBoundary extends Component<Props, State> {
   constructor(props: Props) {
     super(props);
@@ -65,36 +110,11 @@ export class ErrorBoundary extends Component<Props, State> {
       }
 
       return (
-        <View style={styles.container}>
-          <View style={styles.errorContainer}>
-            <SvgIcon name="alert" size={48} color="#EF4444" />
-            <Text style={styles.errorTitle}>Oops! Something went wrong</Text>
-            <Text style={styles.errorMessage}>
-              We encountered an unexpected error. Don't worry, your data is safe.
-            </Text>
-            
-            <TouchableOpacity 
-              style={styles.retryButton} 
-              onPress={this.handleRetry}
-            >
-              <Text style={styles.retryButtonText}>Try Again</Text>
-            </TouchableOpacity>
-
-            {__DEV__ && this.state.error && (
-              <View style={styles.debugContainer}>
-                <Text style={styles.debugTitle}>Debug Info:</Text>
-                <Text style={styles.debugText}>
-                  {this.state.error.toString()}
-                </Text>
-                {this.state.errorInfo && (
-                  <Text style={styles.debugText}>
-                    {this.state.errorInfo.componentStack}
-                  </Text>
-                )}
-              </View>
-            )}
-          </View>
-        </View>
+        <ErrorFallback
+          error={this.state.error}
+          errorInfo={this.state.errorInfo}
+          onRetry={this.handleRetry}
+        />
       );
     }
 
@@ -102,7 +122,7 @@ export class ErrorBoundary extends Component<Props, State> {
   }
 }
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: theme.colors.background,
@@ -17,7 +17,7 @@ import Animated, {
   useSharedValue,
   withTiming,
 } from 'react-native-reanimated';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 import { useSound } from '../../hooks/useSound';
 
 interface InputProps extends TextInputProps {
@@ -52,6 +52,8 @@ export const Input = React.memo<InputProps>(({
   soundVolume,
   ...props
 }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const [isFocused, setIsFocused] = useState(false);
   const { playFocus } = useSound({ enabled: enableSound, volume: soundVolume });
   
@@ -229,7 +231,7 @@ export const Input = React.memo<InputProps>(({
   );
 });
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     marginVertical: theme.spacing[2],
   },
@@ -243,7 +245,7 @@ const styles = StyleSheet.create({
     height: theme.layout.inputHeight,
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: '#FFFFFF', // Pure white for input fields
+    backgroundColor: theme.colors.surface,
     borderRadius: theme.borderRadius.base,
     paddingHorizontal: theme.spacing[4],
     // Border will be set by animatedBorderStyle
@@ -7,7 +7,7 @@ import Animated, {
   withTiming,
   interpolate,
 } from 'react-native-reanimated';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 
 interface LoadingSpinnerProps {
   size?: number;
@@ -20,6 +20,8 @@ export const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({
   color,
   thickness = 2,
 }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   // Use theme color as default, but evaluate inside component to avoid module load-time issues
   const spinnerColor = color || theme.colors.primary;
   const rotation = useSharedValue(0);
@@ -65,7 +67,7 @@ export const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     justifyContent: 'center',
     alignItems: 'center',
@@ -1,6 +1,6 @@
 import React from 'react';
 import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity } from 'react-native';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 import { SvgIcon } from './SvgIcon';
 
 export interface LoadingStateProps {
@@ -24,6 +24,8 @@ export const LoadingState: React.FC<LoadingStateProps> = ({
   skeleton = false,
   minimal = false,
 }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   if (error) {
     return (
       <View style={[styles.container, minimal && styles.minimalContainer]}>
@@ -67,6 +69,7 @@ export const LoadingState: React.FC<LoadingStateProps> = ({
 };
 
 const SkeletonLoader: React.FC<{ minimal?: boolean }> = ({ minimal }) => {
+  const styles = useThemedStyles(createStyles);
   return (
     <View style={[styles.skeletonContainer, minimal && styles.minimalContainer]}>
       <View style={styles.skeletonLine} />
@@ -81,7 +84,7 @@ const SkeletonLoader: React.FC<{ minimal?: boolean }> = ({ minimal }) => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
     justifyContent: 'center',
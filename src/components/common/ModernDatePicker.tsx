@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, Modal, StyleProp, ViewStyle } from 'react-native';
 import { Picker } from '@react-native-picker/picker';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 import { SvgIcon } from './SvgIcon';
 
 interface ModernDatePickerProps {
@@ -19,6 +19,8 @@ export const ModernDatePicker: React.FC<ModernDatePickerProps> = ({
   minimumDate = new Date(2015, 0, 1),
   style,
 }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const [showModal, setShowModal] = useState(false);
   const [tempDate, setTempDate] = useState(value);
 
@@ -231,7 +233,7 @@ export const ModernDatePicker: React.FC<ModernDatePickerProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   dateButton: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -255,7 +257,7 @@ const styles = StyleSheet.create({
   // Modal styles
   modalOverlay: {
     flex: 1,
-    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    backgroundColor: theme.colors.overlay,
     justifyContent: 'center',
     alignItems: 'center',
   },
@@ -14,7 +14,7 @@ import {
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useSound } from '../../hooks/useSound';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 
 const { width, height } = Dimensions.get('window');
 
@@ -40,6 +40,8 @@ export const PremiumButton: React.FC<PremiumButtonProps> = ({
   enableSound = true,
   soundVolume,
 }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const { playButtonPress, playButtonTap } = useSound({ enabled: enableSound, volume: soundVolume });
 
   const isDisabledState = disabled;
@@ -48,31 +50,31 @@ export const PremiumButton: React.FC<PremiumButtonProps> = ({
   const showDisabledStyles = isDisabledState && !isLoadingState;
 
   const primaryPalette = {
-    baseGradient: ['#667EEA', '#764BA2'] as const,
-    pressedGradient: ['#5A67D8', '#6B46C1'] as const,
-    disabledGradient: ['#C3DAFE', '#A3BFFA'] as const,
+    baseGradient: [theme.colors.brand.primary, theme.colors.brand.secondary] as const,
+    pressedGradient: theme.colors.brand.pressed,
+    disabledGradient: theme.colors.brand.disabled,
     text: theme.colors.white,
-    textDisabled: '#1F2937',
-    spinner: '#1F2937',
-    border: 'rgba(102, 126, 234, 0.3)',
-    disabledBorder: '#A3BFFA',
+    textDisabled: theme.colors.gray[800],
+    spinner: theme.colors.gray[800],
+    border: theme.colors.brand.border,
+    disabledBorder: theme.colors.brand.disabled[1],
   };
 
   const secondaryPalette = {
-    background: '#FFFFFF',
-    pressedBackground: '#EEF2FF',
-    disabledBackground: '#E2E8F0',
-    border: 'rgba(102, 126, 234, 0.3)',
-    disabledBorder: '#CBD5F0',
-    text: '#4C51BF',
-    textDisabled: '#4A5568',
+    background: theme.colors.surface,
+    pressedBackground: theme.colors.brand.soft,
+    disabledBackground: theme.colors.border.light,
+    border: theme.colors.brand.border,
+    disabledBorder: theme.colors.border.medium,
+    text: theme.colors.brand.text,
+    textDisabled: theme.colors.text.secondary,
   };
 
   const ghostPalette = {
     background: 'transparent',
-    pressedBackground: 'rgba(102, 126, 234, 0.12)',
-    text: '#4A5568',
-    textDisabled: '#A0AEC0',
+    pressedBackground: theme.colors.brand.soft,
+    text: theme.colors.text.secondary,
+    textDisabled: theme.colors.text.disabled,
   };
 
   const playSoundForVariant = useCallback(async () => {
@@ -239,6 +241,8 @@ export const PremiumButton: React.FC<PremiumButtonProps> = ({
 
 // Animated Gradient Background Component
 export const AnimatedGradientBackground: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const animation1 = useRef(new Animated.Value(0)).current;
   const animation2 = useRef(new Animated.Value(0)).current;
   const animation3 = useRef(new Animated.Value(0)).current;
@@ -293,7 +297,7 @@ export const AnimatedGradientBackground: React.FC<{ children?: React.ReactNode }
     <View style={StyleSheet.absoluteFillObject}>
       {/* Base gradient - more visible */}
       <LinearGradient
-        colors={['#EBF4FF', '#E0E7FF', '#DDD6FE']}
+        colors={theme.colors.backgroundGradient}
         style={StyleSheet.absoluteFillObject}
         start={{ x: 0, y: 0 }}
         end={{ x: 1, y: 1 }}
@@ -329,7 +333,7 @@ export const AnimatedGradientBackground: React.FC<{ children?: React.ReactNode }
         ]}
       >
         <LinearGradient
-          colors={['rgba(102, 126, 234, 0.25)', 'rgba(118, 75, 162, 0.15)']}
+          colors={theme.colors.backgroundOrbs.primary}
           style={styles.orb}
           start={{ x: 0, y: 0 }}
           end={{ x: 1, y: 1 }}
@@ -365,7 +369,7 @@ export const AnimatedGradientBackground: React.FC<{ children?: React.ReactNode }
         ]}
       >
         <LinearGradient
-          colors={['rgba(139, 92, 246, 0.2)', 'rgba(236, 72, 153, 0.12)']}
+          colors={theme.colors.backgroundOrbs.secondary}
           style={styles.orb}
           start={{ x: 0, y: 0 }}
           end={{ x: 1, y: 1 }}
@@ -401,7 +405,7 @@ export const AnimatedGradientBackground: React.FC<{ children?: React.ReactNode }
         ]}
       >
         <LinearGradient
-          colors={['rgba(59, 130, 246, 0.18)', 'rgba(147, 51, 234, 0.1)']}
+          colors={theme.colors.backgroundOrbs.accent}
           style={styles.orb}
           start={{ x: 0, y: 0 }}
           end={{ x: 1, y: 1 }}
@@ -429,6 +433,7 @@ export const PremiumCard: React.FC<PremiumCardProps> = ({
   onPress,
   style,
 }) => {
+  const styles = useThemedStyles(createStyles);
   const scaleAnim = useRef(new Animated.Value(1)).current;
 
   const handlePressIn = () => {
@@ -478,12 +483,12 @@ export const PremiumCard: React.FC<PremiumCardProps> = ({
   return CardContent;
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   // Button styles - original border radius with grey overlay fix
   newPrimaryButton: {
     borderRadius: 16,
     borderBottomWidth: 5,
-    borderBottomColor: 'rgba(102, 126, 234, 0.3)',
+    borderBottomColor: theme.colors.brand.border,
     overflow: 'hidden',
   },
   newPrimaryButtonPressed: {
@@ -515,11 +520,11 @@ const styles = StyleSheet.create({
   
   newSecondaryButton: {
     borderRadius: 16,
-    backgroundColor: '#FFFFFF',
+    backgroundColor: theme.colors.surface,
     borderBottomWidth: 5,
     borderBottomColor: 'rgba(102, 126, 234, 0.2)',
     borderWidth: 1,
-    borderColor: 'rgba(102, 126, 234, 0.3)',
+    borderColor: theme.colors.brand.border,
     paddingVertical: 14,
     paddingHorizontal: 20,
     alignItems: 'center',
@@ -534,7 +539,7 @@ const styles = StyleSheet.create({
     borderRightColor: 'rgba(102, 126, 234, 0.2)',
   },
   newSecondaryButtonText: {
-    color: '#4C51BF',
+    color: theme.colors.brand.text,
     fontSize: 14,
     fontWeight: '600',
     letterSpacing: 0.5,
@@ -552,7 +557,7 @@ const styles = StyleSheet.create({
     // No special disabled styling for ghost
   },
   newGhostButtonText: {
-    color: '#718096',
+    color: theme.colors.text.secondary,
     fontSize: 14,
     fontWeight: '500',
     textAlign: 'center',
@@ -582,7 +587,7 @@ const styles = StyleSheet.create({
   
   // Card styles - fixed to prevent rectangular flash
   card: {
-    backgroundColor: '#FFFFFF',
+    backgroundColor: theme.colors.surface,
     borderRadius: theme.borderRadius.xl, // Premium card
     padding: theme.spacing[5],
     shadowColor: '#000',
@@ -595,10 +600,10 @@ const styles = StyleSheet.create({
     // Removed overflow: 'hidden' to prevent flash
   },
   selectedCard: {
-    backgroundColor: '#FFFFFF',
-    borderColor: '#667EEA',
+    backgroundColor: theme.colors.surface,
+    borderColor: theme.colors.brand.primary,
     borderWidth: 2,
-    shadowColor: '#667EEA',
+    shadowColor: theme.colors.brand.primary,
     shadowOffset: { width: 0, height: 4 },
     shadowOpacity: 0.2,
     shadowRadius: 12,
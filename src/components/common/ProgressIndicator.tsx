@@ -1,6 +1,6 @@
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
-import { theme } from '../../constants/theme';
+import { AppTheme, useThemedStyles } from '../../theme';
 
 interface ProgressIndicatorProps {
   currentStep: number;
@@ -13,6 +13,7 @@ export const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({
   totalSteps,
   showTitle = true,
 }) => {
+  const styles = useThemedStyles(createStyles);
   return (
     <View style={styles.container}>
       {showTitle && (
@@ -37,7 +38,7 @@ export const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     alignItems: 'center',
     paddingVertical: 8,
@@ -46,7 +47,7 @@ const styles = StyleSheet.create({
   title: {
     fontSize: 12,
     fontWeight: theme.typography.fontWeight.medium,
-    color: '#718096',
+    color: theme.colors.text.secondary,
     textAlign: 'center',
     marginBottom: 8,
     lineHeight: 16,
@@ -63,18 +64,18 @@ const styles = StyleSheet.create({
     marginHorizontal: 3,
   },
   completedDot: {
-    backgroundColor: '#667EEA',
+    backgroundColor: theme.colors.brand.primary,
   },
   currentDot: {
-    backgroundColor: '#667EEA',
+    backgroundColor: theme.colors.brand.primary,
     transform: [{ scale: 1.3 }],
   },
   pendingDot: {
-    backgroundColor: '#E2E8F0',
+    backgroundColor: theme.colors.border.light,
   },
   stepText: {
     fontSize: 11,
-    color: '#718096',
+    color: theme.colors.text.secondary,
     fontWeight: theme.typography.fontWeight.medium,
   },
 });
\ No newline at end of file
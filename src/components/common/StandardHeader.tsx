@@ -2,7 +2,7 @@ import React from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, ViewStyle, StatusBar } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 import { SvgIcon, IconName } from './SvgIcon';
 import { Button } from './Button';
 
@@ -41,6 +41,8 @@ export const StandardHeader: React.FC<StandardHeaderProps> = ({
   titleAlign = 'center',
   titleSize = 'xl',
 }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   // Use theme color as default, evaluated inside component
   const iconColor = rightIconColor || theme.colors.background;
   const insets = useSafeAreaInsets();
@@ -135,7 +137,7 @@ export const StandardHeader: React.FC<StandardHeaderProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   header: {
     // backgroundColor removed - using LinearGradient
     paddingHorizontal: theme.spacing[4],
@@ -1,14 +1,26 @@
 import React from 'react';
-import { View, Text, StyleSheet, Animated, ViewStyle } from 'react-native';
+import { View, Text, StyleSheet, Animated, ViewStyle, TouchableOpacity } from 'react-native';
 import { PremiumCard, PremiumButton } from '../common/OnboardingComponents';
 import { SvgIcon } from '../common/SvgIcon';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
+import { CMEEventReminder } from '../../types';
+import {
+  getDeadlineLabel,
+  getEventDateLabel,
+  getEventLastDay,
+  getNextDeadline,
+  isAwaitingAttendance,
+  parseEventDate,
+} from '../../utils/eventReminders';
 
 interface EventRemindersSectionProps {
-  eventReminders: any[];
+  eventReminders: CMEEventReminder[];
   remindersCardAnim: Animated.Value;
   remindersShadowAnim: Animated.Value;
   onAddReminder: () => void;
+  onEditReminder: (reminder: CMEEventReminder) => void;
+  onLogAttendance: (reminder: CMEEventReminder) => void;
+  onDismissAttendance: (reminder: CMEEventReminder) => void;
 }
 
 const EventRemindersSectionComponent: React.FC<EventRemindersSectionProps> = ({
@@ -16,7 +28,19 @@ const EventRemindersSectionComponent: React.FC<EventRemindersSectionProps> = ({
   remindersCardAnim,
   remindersShadowAnim,
   onAddReminder,
+  onEditReminder,
+  onLogAttendance,
+  onDismissAttendance,
 }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const nextDeadline = getNextDeadline(eventReminders ?? []);
+  const countdownColor = nextDeadline && nextDeadline.daysUntil > 1
+    ? (nextDeadline.daysUntil <= 7 ? theme.colors.warning : theme.colors.primary)
+    : theme.colors.error;
+  const countdownText = nextDeadline && nextDeadline.daysUntil > 1
+    ? `${nextDeadline.daysUntil} days`
+    : nextDeadline?.daysUntil === 1 ? 'Tomorrow' : 'Today';
   const cardShadowStyle: ViewStyle = {
         shadowOpacity: Number(remindersShadowAnim.interpolate({ inputRange: [0, 1], outputRange: [0, 0.08] })) as unknown as number,
   };
@@ -55,25 +79,49 @@ const EventRemindersSectionComponent: React.FC<EventRemindersSectionProps> = ({
             Set reminders for upcoming CME events, conferences, and workshops so you never miss important learning opportunities.
           </Text>
 
+          {/* Next deadline countdown */}
+          {nextDeadline && (
+            <TouchableOpacity
+              style={[styles.nextDeadline, { borderLeftColor: countdownColor }]}
+              onPress={() => onEditReminder(nextDeadline.event)}
+              accessibilityRole="button"
+              accessibilityLabel={`Next deadline: ${getDeadlineLabel(nextDeadline.deadline)} for ${nextDeadline.event.eventName}, ${countdownText}`}
+            >
+              <SvgIcon name="clock" size={18} color={countdownColor} />
+              <View style={styles.nextDeadlineInfo}>
+                <Text style={styles.nextDeadlineLabel}>Next deadline</Text>
+                <Text style={styles.nextDeadlineTitle} numberOfLines={1}>
+                  {getDeadlineLabel(nextDeadline.deadline)} - {nextDeadline.event.eventName}
+                </Text>
+              </View>
+              <View style={[styles.reminderStatusBadge, { backgroundColor: countdownColor }]}>
+                <Text style={styles.reminderStatusText}>{countdownText}</Text>
+              </View>
+            </TouchableOpacity>
+          )}
+
           {/* Reminders List or Placeholder */}
           {eventReminders && eventReminders.length > 0 ? (
             <View style={styles.remindersList}>
               {eventReminders.map((reminder) => {
-                const eventDate = new Date(reminder.eventDate);
                 const today = new Date();
-                const daysUntil = Math.ceil((eventDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+                today.setHours(0, 0, 0, 0);
+                const eventDate = parseEventDate(reminder.eventDate) ?? today;
+                const lastDay = getEventLastDay(reminder) ?? eventDate;
+                const daysUntil = Math.round((eventDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+                const awaitingAttendance = isAwaitingAttendance(reminder);
 
                 let statusColor = theme.colors.primary;
                 let statusText = 'Upcoming';
                 let statusIcon: React.ReactNode = <SvgIcon name="calendar" size={16} color={statusColor} />;
 
-                if (daysUntil < 0) {
+                if (lastDay < today) {
                   statusColor = theme.colors.gray.medium;
-                  statusText = 'Past';
+                  statusText = reminder.attendanceStatus === 'logged' ? 'Logged' : 'Past';
                   statusIcon = <SvgIcon name="clipboard" size={16} color={statusColor} />;
-                } else if (daysUntil === 0) {
+                } else if (daysUntil <= 0) {
                   statusColor = theme.colors.error;
-                  statusText = 'Today';
+                  statusText = daysUntil === 0 ? 'Today' : 'Ongoing';
                   statusIcon = <SvgIcon name="fire" size={16} color={statusColor} />;
                 } else if (daysUntil <= 7) {
                   statusColor = theme.colors.warning;
@@ -83,9 +131,19 @@ const EventRemindersSectionComponent: React.FC<EventRemindersSectionProps> = ({
                   statusText = `${daysUntil} days`;
                 }
 
+                const details = [
+                  reminder.location,
+                  reminder.expectedCredits ? `${reminder.expectedCredits} credits` : undefined,
+                ].filter(Boolean).join(' \u2022 ');
+
                 return (
                   <PremiumCard key={reminder.id} style={styles.reminderCard}>
-                    <View style={styles.reminderCardHeader}>
+                    <TouchableOpacity
+                      style={styles.reminderCardHeader}
+                      onPress={() => onEditReminder(reminder)}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Edit ${reminder.eventName}`}
+                    >
                       <View style={styles.reminderCardMain}>
                         <View style={[styles.reminderIcon, { backgroundColor: statusColor + '20' }]}>
                           <Text style={styles.reminderIconText}>{statusIcon}</Text>
@@ -95,15 +153,42 @@ const EventRemindersSectionComponent: React.FC<EventRemindersSectionProps> = ({
                             {reminder.eventName}
                           </Text>
                           <Text style={styles.reminderCardDate}>
-                            {eventDate.toLocaleDateString()}
+                            {getEventDateLabel(reminder)}
                           </Text>
+                          {details !== '' && (
+                            <Text style={styles.reminderCardDetails} numberOfLines={1}>
+                              {details}
+                            </Text>
+                          )}
                         </View>
                       </View>
 
                       <View style={[styles.reminderStatusBadge, { backgroundColor: statusColor }]}>
                         <Text style={styles.reminderStatusText}>{statusText}</Text>
                       </View>
-                    </View>
+                    </TouchableOpacity>
+
+                    {awaitingAttendance && (
+                      <View style={styles.attendancePrompt}>
+                        <Text style={styles.attendancePromptText}>
+                          Did you attend? Log it as a CME entry.
+                        </Text>
+                        <View style={styles.attendanceActions}>
+                          <PremiumButton
+                            title="Didn't Attend"
+                            onPress={() => onDismissAttendance(reminder)}
+                            variant="secondary"
+                            style={styles.attendanceButton}
+                          />
+                          <PremiumButton
+                            title="Log It"
+                            onPress={() => onLogAttendance(reminder)}
+                            variant="primary"
+                            style={styles.attendanceButton}
+                          />
+                        </View>
+                      </View>
+                    )}
                   </PremiumCard>
                 );
               })}
@@ -131,14 +216,14 @@ const EventRemindersSectionComponent: React.FC<EventRemindersSectionProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   sectionContainer: {
     marginHorizontal: 0,
     marginBottom: 16,
   },
   sectionCard: {
     padding: theme.spacing[5], // Primary card padding
-    backgroundColor: '#FFFFFF',
+    backgroundColor: theme.colors.surface,
   },
   cardHeader: {
     flexDirection: 'row',
@@ -167,9 +252,33 @@ const styles = StyleSheet.create({
   remindersList: {
     gap: 12,
   },
+  nextDeadline: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: theme.spacing[3],
+    borderRadius: theme.borderRadius.lg,
+    borderLeftWidth: 4,
+    backgroundColor: theme.colors.background,
+  },
+  nextDeadlineInfo: {
+    flex: 1,
+  },
+  nextDeadlineLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: theme.colors.text.secondary,
+    textTransform: 'uppercase',
+    marginBottom: 2,
+  },
+  nextDeadlineTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.text.primary,
+  },
   reminderCard: {
     padding: theme.spacing[3], // Nested card padding
-    backgroundColor: '#FAFBFC',
+    backgroundColor: theme.colors.background,
   },
   reminderCardHeader: {
     flexDirection: 'row',
@@ -205,6 +314,31 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: theme.colors.text.secondary,
   },
+  reminderCardDetails: {
+    fontSize: 12,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+  attendancePrompt: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border.light,
+    gap: 8,
+  },
+  attendancePromptText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.text.primary,
+  },
+  attendanceActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  attendanceButton: {
+    flex: 1,
+    paddingVertical: 6,
+  },
   reminderStatusBadge: {
     paddingHorizontal: 8,
     paddingVertical: 4,
@@ -217,7 +351,7 @@ const styles = StyleSheet.create({
   },
   remindersPlaceholder: {
     padding: 24,
-    backgroundColor: '#FAFBFC',
+    backgroundColor: theme.colors.background,
   },
   remindersPlaceholderContent: {
     alignItems: 'center',
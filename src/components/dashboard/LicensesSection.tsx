@@ -2,7 +2,7 @@ import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Animated, Alert, ViewStyle } from 'react-native';
 import { PremiumCard, PremiumButton } from '../common/OnboardingComponents';
 import { SvgIcon } from '../common/SvgIcon';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 import { getCreditUnit } from '../../utils/creditTerminology';
 
 interface LicensesSectionProps {
@@ -24,6 +24,8 @@ const LicensesSectionComponent: React.FC<LicensesSectionProps> = ({
   onEditLicense,
   onSetReminders,
 }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const cardShadowStyle: ViewStyle = {
         shadowOpacity: Number(licensesShadowAnim.interpolate({ inputRange: [0, 1], outputRange: [0, 0.08] })) as unknown as number,
   };
@@ -191,6 +193,11 @@ const LicensesSectionComponent: React.FC<LicensesSectionProps> = ({
                         ]}
                       />
                     </View>
+                    {!!license.carriedOverCredits && (
+                      <Text style={styles.licenseCarryOverText}>
+                        Includes {license.carriedOverCredits} carried over from the previous renewal
+                      </Text>
+                    )}
                   </View>
                 )}
 
@@ -210,14 +217,14 @@ const LicensesSectionComponent: React.FC<LicensesSectionProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   sectionContainer: {
     marginHorizontal: 0,
     marginBottom: 16,
   },
   sectionCard: {
     padding: theme.spacing[5], // Primary card padding
-    backgroundColor: '#FFFFFF',
+    backgroundColor: theme.colors.surface,
   },
   cardHeader: {
     flexDirection: 'row',
@@ -246,7 +253,7 @@ const styles = StyleSheet.create({
   licenseCard: {
     padding: theme.spacing[4], // List item card padding
     marginTop: 12,
-    backgroundColor: '#FAFBFC',
+    backgroundColor: theme.colors.background,
   },
   licenseCardHeader: {
     flexDirection: 'row',
@@ -300,7 +307,7 @@ const styles = StyleSheet.create({
     flex: 1,
     paddingVertical: 8,
     paddingHorizontal: 12,
-    backgroundColor: '#FFFFFF',
+    backgroundColor: theme.colors.surface,
     borderRadius: 8,
     borderWidth: 1,
     borderColor: theme.colors.border.medium,
@@ -334,6 +341,11 @@ const styles = StyleSheet.create({
     height: '100%',
     borderRadius: 3,
   },
+  licenseCarryOverText: {
+    fontSize: 11,
+    color: theme.colors.primary,
+    marginTop: 4,
+  },
   licenseRenewalInstructions: {
     paddingTop: 12,
     borderTopWidth: 1,
@@ -2,7 +2,7 @@ import React from 'react';
 import { View, Text, StyleSheet, Animated, ViewStyle } from 'react-native';
 import { PremiumCard, PremiumButton } from '../common/OnboardingComponents';
 import { SvgIcon } from '../common/SvgIcon';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 
 interface NoLicensesPlaceholderProps {
   licensesCardAnim: Animated.Value;
@@ -15,6 +15,8 @@ export const NoLicensesPlaceholder: React.FC<NoLicensesPlaceholderProps> = ({
   licensesShadowAnim,
   onAddLicense,
 }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   return (
     <Animated.View
       style={[
@@ -59,14 +61,14 @@ export const NoLicensesPlaceholder: React.FC<NoLicensesPlaceholderProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   noLicensesSection: {
     marginHorizontal: 0,
     marginBottom: 16,
   },
   noLicensesCard: {
     padding: 32,
-    backgroundColor: '#FFFFFF',
+    backgroundColor: theme.colors.surface,
   },
   noLicensesContent: {
     alignItems: 'center',
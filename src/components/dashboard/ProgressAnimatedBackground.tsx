@@ -1,7 +1,7 @@
 import React, { useRef, useEffect } from 'react';
 import { View, StyleSheet, Animated, Dimensions } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 
 const { width } = Dimensions.get('window');
 
@@ -16,6 +16,8 @@ export const ProgressAnimatedBackground: React.FC<ProgressAnimatedBackgroundProp
   progressGradient2,
   progressGradient3,
 }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   return (
     <View style={StyleSheet.absoluteFillObject}>
       {/* Base gradient - modern neutral theme for progress */}
@@ -138,7 +140,7 @@ export const ProgressAnimatedBackground: React.FC<ProgressAnimatedBackgroundProp
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   progressGradientOrb1: {
     position: 'absolute',
     top: '5%',
@@ -4,13 +4,15 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { PremiumCard, PremiumButton } from '../common/OnboardingComponents';
 import { SimpleProgressRing } from '../charts/SimpleProgressRing';
 import { ProgressAnimatedBackground } from './ProgressAnimatedBackground';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 import { getCreditUnit } from '../../utils/creditTerminology';
 import { getProgressColor } from '../../utils/dashboardHelpers';
+import { RequirementBreakdown } from '../../types';
 
 interface ProgressCardProps {
   currentYearProgress: any;
   user: any;
+  requirementBreakdowns?: RequirementBreakdown[];
   progressGradient1: Animated.Value;
   progressGradient2: Animated.Value;
   progressGradient3: Animated.Value;
@@ -29,18 +31,20 @@ interface StatCapsuleProps {
 const StatCapsule: React.FC<StatCapsuleProps> = ({
   value,
   label,
-  accentColor = theme.colors.primary,
-  gradientColors = ['#F8F9FA', '#FFFFFF'] as const
+  accentColor,
+  gradientColors,
 }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   return (
     <View style={styles.capsuleWrapper}>
       <LinearGradient
-        colors={gradientColors}
+        colors={gradientColors ?? [theme.colors.accent, theme.colors.surface]}
         style={styles.capsule}
         start={{ x: 0, y: 0 }}
         end={{ x: 1, y: 1 }}
       >
-        <View style={[styles.capsuleAccent, { backgroundColor: accentColor }]} />
+        <View style={[styles.capsuleAccent, { backgroundColor: accentColor ?? theme.colors.primary }]} />
         <Text style={styles.capsuleValue}>{value}</Text>
         <Text style={styles.capsuleLabel}>{label}</Text>
       </LinearGradient>
@@ -48,16 +52,75 @@ const StatCapsule: React.FC<StatCapsuleProps> = ({
   );
 };
 
+// Per-category requirement rows - shows what is still missing inside the total
+interface CategoryBreakdownProps {
+  breakdowns: RequirementBreakdown[];
+  creditUnit: string;
+}
+
+const CategoryBreakdown: React.FC<CategoryBreakdownProps> = ({ breakdowns, creditUnit }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const showLabels = breakdowns.length > 1 || breakdowns.some(breakdown => breakdown.licenseId !== undefined);
+
+  return (
+    <View style={styles.breakdownSection}>
+      <Text style={styles.breakdownTitle}>Category Requirements</Text>
+      {breakdowns.map(breakdown => (
+        <View key={breakdown.licenseId ?? 'cycle'} style={styles.breakdownGroup}>
+          {showLabels && (
+            <Text style={styles.breakdownGroupLabel}>{breakdown.label}</Text>
+          )}
+          {breakdown.categories.map(category => (
+            <View key={category.ruleId} style={styles.breakdownRow}>
+              <View style={[
+                styles.breakdownDot,
+                { backgroundColor: category.isMet ? theme.colors.success : theme.colors.warning },
+              ]} />
+              <Text style={styles.breakdownCategory} numberOfLines={1}>{category.category}</Text>
+              <Text style={styles.breakdownValue}>
+                {category.minimumCredits > 0
+                  ? `${category.countedCredits}/${category.minimumCredits}`
+                  : `${category.countedCredits}/${category.effectiveCap} max`}
+              </Text>
+              <Text style={[
+                styles.breakdownStatus,
+                { color: category.isMet ? theme.colors.success : theme.colors.warning },
+              ]}>
+                {!category.isMet
+                  ? `${category.remainingCredits} ${creditUnit} to go`
+                  : category.discountedCredits > 0
+                    ? `${category.discountedCredits} over cap`
+                    : 'Done'}
+              </Text>
+            </View>
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+};
+
 const ProgressCardComponent: React.FC<ProgressCardProps> = ({
   currentYearProgress,
   user,
+  requirementBreakdowns = [],
   progressGradient1,
   progressGradient2,
   progressGradient3,
   progressShadowAnim,
   onAddEntry,
 }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const earnedCredits = currentYearProgress?.totalCompleted?.toFixed(1) || '0';
+  // Carried-over credits count toward the total but were not entered this cycle
+  const carriedOverCredits = currentYearProgress?.carriedOverCredits || 0;
+  // Category caps can stop part of what was entered from counting
+  const discountedCredits = Math.max(
+    (currentYearProgress?.totalClaimed || 0) - ((currentYearProgress?.totalCompleted || 0) - carriedOverCredits),
+    0
+  );
   const goalCredits = currentYearProgress?.totalRequired || user?.annualRequirement || 0;
   const remainingCredits = Math.max(
     (currentYearProgress?.totalRequired || 0) - (currentYearProgress?.totalCompleted || 0),
@@ -97,8 +160,8 @@ const ProgressCardComponent: React.FC<ProgressCardProps> = ({
           <SimpleProgressRing
             progress={currentYearProgress ? currentYearProgress.percentage / 100 : 0}
             size={160}
-            color={currentYearProgress ? getProgressColor(currentYearProgress.status) : theme.colors.gray.medium}
-            backgroundColor={theme.colors.gray.light + '40'}
+            color={currentYearProgress ? getProgressColor(currentYearProgress.status, theme.colors) : theme.colors.gray.medium}
+            backgroundColor={theme.progress.background}
             strokeWidth={12}
             duration={2000}
           />
@@ -110,32 +173,48 @@ const ProgressCardComponent: React.FC<ProgressCardProps> = ({
             <StatCapsule
               value={earnedCredits}
               label={`${creditUnit} Earned`}
-              accentColor="#10B981"
-              gradientColors={['#ECFDF5', '#FFFFFF'] as const}
+              accentColor={theme.colors.emerald}
+              gradientColors={[theme.colors.successBackground, theme.colors.surface]}
             />
             <StatCapsule
               value={goalCredits}
               label="Annual Goal"
-              accentColor="#3B82F6"
-              gradientColors={['#EFF6FF', '#FFFFFF'] as const}
+              accentColor={theme.colors.blue}
+              gradientColors={[theme.colors.iconBackground, theme.colors.surface]}
             />
           </View>
           <View style={styles.statsRow}>
             <StatCapsule
               value={remainingCredits}
               label="Remaining"
-              accentColor="#F59E0B"
-              gradientColors={['#FFFBEB', '#FFFFFF'] as const}
+              accentColor={theme.colors.orange}
+              gradientColors={[theme.colors.warningBackground, theme.colors.surface]}
             />
             <StatCapsule
               value={daysRemaining}
               label="Days Left"
-              accentColor="#8B5CF6"
-              gradientColors={['#F5F3FF', '#FFFFFF'] as const}
+              accentColor={theme.colors.purple}
+              gradientColors={[theme.colors.brand.soft, theme.colors.surface]}
             />
           </View>
         </View>
 
+        {carriedOverCredits > 0 && (
+          <Text style={styles.carryOverNote}>
+            Includes {carriedOverCredits.toFixed(1)} {creditUnit.toLowerCase()} carried over from your previous cycle
+          </Text>
+        )}
+
+        {discountedCredits > 0 && (
+          <Text style={styles.capNote}>
+            {discountedCredits.toFixed(1)} of {currentYearProgress.totalClaimed.toFixed(1)} {creditUnit.toLowerCase()} entered are over a category cap and not counted
+          </Text>
+        )}
+
+        {requirementBreakdowns.length > 0 && (
+          <CategoryBreakdown breakdowns={requirementBreakdowns} creditUnit={creditUnit} />
+        )}
+
         {/* Premium Add Entry Button */}
         <View style={styles.addEntryInUpperSection}>
           <PremiumButton
@@ -150,7 +229,7 @@ const ProgressCardComponent: React.FC<ProgressCardProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     position: 'relative',
     marginTop: 16,
@@ -159,7 +238,7 @@ const styles = StyleSheet.create({
   },
   progressCard: {
     padding: theme.spacing[5],
-    backgroundColor: '#FFFFFF',
+    backgroundColor: theme.colors.surface,
   },
   progressHeader: {
     flexDirection: 'row',
@@ -207,7 +286,7 @@ const styles = StyleSheet.create({
     padding: 12,
     paddingLeft: 16,
     borderWidth: 1,
-    borderColor: 'rgba(0, 0, 0, 0.06)',
+    borderColor: theme.colors.border.light,
     shadowColor: '#000',
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.05,
@@ -237,6 +316,73 @@ const styles = StyleSheet.create({
     textTransform: 'uppercase',
     letterSpacing: 0.3,
   },
+  carryOverNote: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: theme.colors.primary,
+    textAlign: 'center',
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  capNote: {
+    fontSize: 12,
+    color: theme.colors.text.secondary,
+    textAlign: 'center',
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  // Category Breakdown
+  breakdownSection: {
+    marginBottom: 20,
+    paddingHorizontal: 6,
+  },
+  breakdownTitle: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: theme.colors.text.secondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.3,
+    marginBottom: 8,
+  },
+  breakdownGroup: {
+    marginBottom: 8,
+  },
+  breakdownGroupLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.text.primary,
+    marginBottom: 4,
+  },
+  breakdownRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border.light,
+  },
+  breakdownDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 8,
+  },
+  breakdownCategory: {
+    flex: 1,
+    fontSize: 14,
+    color: theme.colors.text.primary,
+  },
+  breakdownValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.text.primary,
+    marginHorizontal: 8,
+  },
+  breakdownStatus: {
+    fontSize: 12,
+    fontWeight: '600',
+    minWidth: 72,
+    textAlign: 'right',
+  },
   // Add Entry Button
   addEntryInUpperSection: {
     marginTop: 8,
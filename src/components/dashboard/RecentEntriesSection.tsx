@@ -2,7 +2,7 @@ import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Animated, Image, ViewStyle } from 'react-native';
 import { PremiumCard } from '../common/OnboardingComponents';
 import { SvgIcon } from '../common/SvgIcon';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 import { getCreditUnit } from '../../utils/creditTerminology';
 
 interface RecentEntriesSectionProps {
@@ -22,6 +22,8 @@ const RecentEntriesSectionComponent: React.FC<RecentEntriesSectionProps> = ({
   onViewAll,
   onViewCertificate,
 }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const cardShadowStyle: ViewStyle = {
         shadowOpacity: Number(recentShadowAnim.interpolate({ inputRange: [0, 1], outputRange: [0, 0.06] })),
   };
@@ -102,7 +104,7 @@ const RecentEntriesSectionComponent: React.FC<RecentEntriesSectionProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   recentSection: {
     marginHorizontal: 0,
     marginBottom: 16,
@@ -127,7 +129,7 @@ const styles = StyleSheet.create({
   activityItem: {
     padding: theme.spacing[4], // List item card padding
     marginBottom: 12,
-    backgroundColor: '#FFFFFF',
+    backgroundColor: theme.colors.surface,
   },
   activityContent: {
     flexDirection: 'row',
@@ -2,7 +2,7 @@ import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Animated } from 'react-native';
 import { PremiumCard } from '../common/OnboardingComponents';
 import { SvgIcon } from '../common/SvgIcon';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 
 interface UrgentLicenseWarningsProps {
   urgentRenewals: any[];
@@ -19,6 +19,8 @@ const UrgentLicenseWarningsComponent: React.FC<UrgentLicenseWarningsProps> = ({
   onRenewLicense,
   onViewAll,
 }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   if (urgentRenewals.length === 0) {
     return null;
   }
@@ -118,14 +120,14 @@ const UrgentLicenseWarningsComponent: React.FC<UrgentLicenseWarningsProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   sectionContainer: {
     marginHorizontal: 0,
     marginBottom: 16,
   },
   urgentWarningCard: {
     padding: theme.spacing[5], // Primary card padding
-    backgroundColor: '#FEF2F2',
+    backgroundColor: theme.colors.errorBackground,
     borderWidth: 2,
     borderColor: theme.colors.error + '40',
   },
@@ -162,7 +164,7 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingVertical: 12,
     paddingHorizontal: 16,
-    backgroundColor: '#FFFFFF',
+    backgroundColor: theme.colors.surface,
     borderRadius: theme.borderRadius.xl,
     marginBottom: 12,
     borderWidth: 1,
@@ -3,9 +3,10 @@ import { View, Text, StyleSheet, ScrollView } from 'react-native';
 import { PremiumButton } from '../common/OnboardingComponents';
 import { useSound } from '../../hooks/useSound';
 import { soundManager } from '../../services/sound/SoundManager';
-import { theme } from '../../constants/theme';
+import { AppTheme, useThemedStyles } from '../../theme';
 
 export const SoundTestComponent: React.FC = () => {
+  const styles = useThemedStyles(createStyles);
   const { 
     playButtonTap, 
     playButtonPress, 
@@ -96,7 +97,7 @@ export const SoundTestComponent: React.FC = () => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
     padding: theme.spacing[4],
@@ -5,7 +5,7 @@ import { useFocusEffect } from '@react-navigation/native';
 
 import { AnimatedGradientBackground } from '../common/OnboardingComponents';
 import { StandardHeader } from '../common/StandardHeader';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 
 export interface FormContainerProps {
   /**
@@ -82,6 +82,8 @@ export const FormContainer: React.FC<FormContainerProps> = ({
   contentContainerStyle,
   onBackPress,
 }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
 
   // Animation values
@@ -218,7 +220,7 @@ export const FormContainer: React.FC<FormContainerProps> = ({
   return <View style={styles.plainBackground}>{containerContent}</View>;
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   plainBackground: {
     flex: 1,
     backgroundColor: theme.colors.background,
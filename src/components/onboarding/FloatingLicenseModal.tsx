@@ -17,7 +17,7 @@ import { Input } from '../common/Input';
 import { LoadingSpinner } from '../common/LoadingSpinner';
 import { ModernDatePicker } from '../common/ModernDatePicker';
 import { SvgIcon } from '../common/SvgIcon';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 import { useAppContext } from '../../contexts/AppContext';
 import { LicenseRenewal } from '../../types';
 
@@ -32,6 +32,8 @@ export const FloatingLicenseModal: React.FC<FloatingLicenseModalProps> = ({
   onClose,
   onSuccess,
 }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
 
   const { addLicense } = useAppContext();
   
@@ -63,7 +65,7 @@ export const FloatingLicenseModal: React.FC<FloatingLicenseModalProps> = ({
         expirationDate: expirationDate.toISOString().split('T')[0], // Convert to YYYY-MM-DD
         renewalDate: undefined,
         requiredCredits: 0, // Default to 0, can be edited later
-        completedCredits: 0,
+        completedCredits: 0, // Derived from CME entries when licenses are loaded
         status: 'active',
       };
 
@@ -145,7 +147,7 @@ export const FloatingLicenseModal: React.FC<FloatingLicenseModalProps> = ({
             top: modalTop,
             width: modalWidth,
             height: modalHeight,
-            backgroundColor: '#FFF5EE',
+            backgroundColor: theme.colors.background,
             borderRadius: 16,
             padding: theme.spacing[5], // Primary card padding
             elevation: 12,
@@ -283,7 +285,7 @@ export const FloatingLicenseModal: React.FC<FloatingLicenseModalProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   // Header
   header: {
     backgroundColor: '#003087',
@@ -388,7 +390,7 @@ const styles = StyleSheet.create({
     marginHorizontal: theme.spacing[2],
     marginBottom: theme.spacing[2], // Less bottom margin
     padding: theme.spacing[2], // Much smaller padding
-    backgroundColor: '#FFF7EC', // Section background
+    backgroundColor: theme.colors.accent, // Section background
     borderLeftWidth: 3, // Thinner border
     borderLeftColor: theme.colors.primary,
   },
@@ -0,0 +1,187 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, AppState } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { AnimatedGradientBackground } from '../common/OnboardingComponents';
+import { SvgIcon } from '../common/SvgIcon';
+import { PinPad } from './PinPad';
+import { useAppLock } from '../../contexts/AppLockContext';
+import { APP_CONFIG } from '../../constants';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
+
+export const AppLockScreen: React.FC = () => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+  const {
+    biometricEnabled,
+    hasPin,
+    deviceAuth,
+    lockedOutUntil,
+    lockSettingsUnavailable,
+    unlockWithDevice,
+    unlockWithPin,
+    refreshLockSettings,
+  } = useAppLock();
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [pinResetKey, setPinResetKey] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const [isRetrying, setIsRetrying] = useState(false);
+  const isPromptingRef = useRef(false);
+
+  // Without its settings the app can't tell whether device unlock was turned on, but the device
+  // passcode still proves who is holding the phone
+  const canUseDevice = (biometricEnabled || lockSettingsUnavailable) && deviceAuth.available;
+  const isLockedOut = lockedOutUntil !== null && now < lockedOutUntil;
+
+  const promptDevice = useCallback(async () => {
+    if (isPromptingRef.current) {
+      return;
+    }
+
+    isPromptingRef.current = true;
+    try {
+      const success = await unlockWithDevice();
+      if (!success && !hasPin) {
+        setErrorMessage(`${deviceAuth.label} did not unlock the app. Try again.`);
+      }
+    } finally {
+      isPromptingRef.current = false;
+    }
+  }, [unlockWithDevice, hasPin, deviceAuth.label]);
+
+  // Prompt once when the lock appears - re-prompting on every resume would loop after a cancel,
+  // since dismissing the system prompt itself makes the app active again
+  useEffect(() => {
+    if (canUseDevice && AppState.currentState === 'active') {
+      promptDevice();
+    }
+  }, [canUseDevice]);
+
+  // Count down a PIN lockout
+  useEffect(() => {
+    if (lockedOutUntil === null) {
+      return;
+    }
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [lockedOutUntil]);
+
+  const handlePin = async (pin: string) => {
+    const success = await unlockWithPin(pin);
+    if (!success) {
+      setNow(Date.now());
+      setErrorMessage('Incorrect PIN');
+      setPinResetKey(key => key + 1);
+    }
+  };
+
+  const retryLoadingSettings = async () => {
+    setIsRetrying(true);
+    try {
+      await refreshLockSettings();
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  const lockoutSeconds = isLockedOut ? Math.ceil((lockedOutUntil - now) / 1000) : 0;
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top + theme.spacing[10], paddingBottom: insets.bottom + theme.spacing[6] }]}>
+      <AnimatedGradientBackground />
+
+      <View style={styles.header}>
+        <View style={styles.iconWrapper}>
+          <SvgIcon name="lock" size={32} color={theme.colors.primary} />
+        </View>
+        <Text style={styles.title}>{APP_CONFIG.NAME} is locked</Text>
+        <Text style={styles.subtitle}>
+          {hasPin
+            ? 'Enter your PIN to continue'
+            : canUseDevice
+              ? `Use ${deviceAuth.label} to continue`
+              : "Couldn't load your lock settings"}
+        </Text>
+        <Text style={styles.errorText}>
+          {isLockedOut ? `Too many attempts. Try again in ${lockoutSeconds}s.` : errorMessage || ' '}
+        </Text>
+      </View>
+
+      {hasPin ? (
+        <PinPad
+          onComplete={handlePin}
+          disabled={isLockedOut}
+          resetKey={pinResetKey}
+          extraKey={canUseDevice ? { icon: 'shield', label: `Unlock with ${deviceAuth.label}`, onPress: promptDevice } : undefined}
+        />
+      ) : canUseDevice ? (
+        <TouchableOpacity style={styles.unlockButton} onPress={promptDevice}>
+          <SvgIcon name="shield" size={20} color={theme.colors.white} />
+          <Text style={styles.unlockButtonText}>Unlock with {deviceAuth.label}</Text>
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity style={styles.unlockButton} onPress={retryLoadingSettings} disabled={isRetrying}>
+          <SvgIcon name="sync" size={20} color={theme.colors.white} />
+          <Text style={styles.unlockButtonText}>{isRetrying ? 'Retrying...' : 'Retry'}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const createStyles = (theme: AppTheme) => StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing[6],
+  },
+  iconWrapper: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: theme.colors.surface,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: theme.spacing[4],
+    ...theme.shadows.small,
+  },
+  title: {
+    fontSize: theme.typography.fontSize.xl,
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[2],
+    textAlign: 'center',
+  },
+  errorText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.error,
+    marginTop: theme.spacing[3],
+    textAlign: 'center',
+  },
+  unlockButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing[2],
+    backgroundColor: theme.colors.primary,
+    paddingHorizontal: theme.spacing[6],
+    paddingVertical: theme.spacing[4],
+    borderRadius: theme.borderRadius.xl,
+    marginBottom: theme.spacing[10],
+  },
+  unlockButtonText: {
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.white,
+  },
+});
@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Modal, KeyboardAvoidingView, Platform } from 'react-native';
+import { SvgIcon } from '../common/SvgIcon';
+import { PremiumButton } from '../common/OnboardingComponents';
+import { MIN_BACKUP_PASSPHRASE_LENGTH } from '../../services/backupEncryption';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
+
+interface PassphrasePromptProps {
+  visible: boolean;
+  // 'create' asks twice and enforces the minimum length, 'unlock' asks once
+  mode: 'create' | 'unlock';
+  title: string;
+  message: string;
+  // Shown above the fields, e.g. "Incorrect passphrase"
+  error?: string | null;
+  onSubmit: (passphrase: string) => void;
+  onCancel: () => void;
+}
+
+export const PassphrasePrompt: React.FC<PassphrasePromptProps> = ({
+  visible,
+  mode,
+  title,
+  message,
+  error,
+  onSubmit,
+  onCancel,
+}) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  // Start empty every time the prompt opens
+  useEffect(() => {
+    if (visible) {
+      setPassphrase('');
+      setConfirmation('');
+      setValidationError(null);
+    }
+  }, [visible, error]);
+
+  const handleSubmit = () => {
+    if (mode === 'create') {
+      if (passphrase.length < MIN_BACKUP_PASSPHRASE_LENGTH) {
+        setValidationError(`Use at least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters`);
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setValidationError('Passphrases do not match');
+        return;
+      }
+    } else if (passphrase.length === 0) {
+      setValidationError('Enter the passphrase');
+      return;
+    }
+
+    onSubmit(passphrase);
+  };
+
+  const shownError = validationError || error;
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onCancel}>
+      <KeyboardAvoidingView
+        style={styles.backdrop}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{title}</Text>
+            <TouchableOpacity onPress={onCancel} accessibilityLabel="Close">
+              <SvgIcon name="close" size={20} color={theme.colors.text.secondary} />
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.message}>{message}</Text>
+
+          <TextInput
+            style={styles.input}
+            value={passphrase}
+            onChangeText={text => {
+              setPassphrase(text);
+              setValidationError(null);
+            }}
+            placeholder="Passphrase"
+            placeholderTextColor={theme.colors.text.secondary}
+            secureTextEntry={true}
+            autoCapitalize="none"
+            autoCorrect={false}
+            autoFocus={true}
+            textContentType={mode === 'create' ? 'newPassword' : 'password'}
+            returnKeyType={mode === 'create' ? 'next' : 'done'}
+            onSubmitEditing={mode === 'unlock' ? handleSubmit : undefined}
+          />
+          {mode === 'create' && (
+            <TextInput
+              style={styles.input}
+              value={confirmation}
+              onChangeText={text => {
+                setConfirmation(text);
+                setValidationError(null);
+              }}
+              placeholder="Confirm passphrase"
+              placeholderTextColor={theme.colors.text.secondary}
+              secureTextEntry={true}
+              autoCapitalize="none"
+              autoCorrect={false}
+              textContentType="newPassword"
+              returnKeyType="done"
+              onSubmitEditing={handleSubmit}
+            />
+          )}
+
+          <Text style={styles.error}>{shownError || ' '}</Text>
+
+          <View style={styles.buttonRow}>
+            <PremiumButton title="Cancel" variant="ghost" onPress={onCancel} style={styles.button} />
+            <PremiumButton
+              title={mode === 'create' ? 'Encrypt' : 'Decrypt'}
+              onPress={handleSubmit}
+              style={styles.button}
+            />
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: AppTheme) => StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: theme.colors.overlay,
+  },
+  sheet: {
+    backgroundColor: theme.colors.surface,
+    borderTopLeftRadius: theme.borderRadius.xl,
+    borderTopRightRadius: theme.borderRadius.xl,
+    paddingHorizontal: theme.spacing[5],
+    paddingTop: theme.spacing[5],
+    paddingBottom: theme.spacing[10],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    flex: 1,
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+  message: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    lineHeight: 20,
+    marginTop: theme.spacing[2],
+    marginBottom: theme.spacing[4],
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: theme.colors.border.light,
+    borderRadius: theme.borderRadius.lg,
+    paddingHorizontal: theme.spacing[4],
+    paddingVertical: theme.spacing[3],
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing[3],
+  },
+  error: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.error,
+    marginBottom: theme.spacing[3],
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: theme.spacing[3],
+  },
+  button: {
+    flex: 1,
+    minHeight: 48,
+  },
+});
@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { SvgIcon, IconName } from '../common/SvgIcon';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
+import { APP_LOCK_CONFIG } from '../../constants';
+
+interface PinPadProps {
+  onComplete: (pin: string) => void | Promise<void>;
+  disabled?: boolean;
+  // Optional key in the bottom-left slot, e.g. "use Face ID"
+  extraKey?: { icon: IconName; label: string; onPress: () => void };
+  // Changing this clears the entered digits, e.g. after a wrong PIN
+  resetKey?: number;
+  color?: string;
+}
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+export const PinPad: React.FC<PinPadProps> = ({
+  onComplete,
+  disabled = false,
+  extraKey,
+  resetKey,
+  color: colorProp,
+}) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const color = colorProp ?? theme.colors.text.primary;
+  const [digits, setDigits] = useState('');
+
+  useEffect(() => {
+    setDigits('');
+  }, [resetKey]);
+
+  const handleDigit = (digit: string) => {
+    if (disabled || digits.length >= APP_LOCK_CONFIG.PIN_LENGTH) {
+      return;
+    }
+
+    const next = digits + digit;
+    setDigits(next);
+    if (next.length === APP_LOCK_CONFIG.PIN_LENGTH) {
+      onComplete(next);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!disabled) {
+      setDigits(current => current.slice(0, -1));
+    }
+  };
+
+  const renderKey = (digit: string) => (
+    <TouchableOpacity
+      key={digit}
+      style={[styles.key, { borderColor: color }]}
+      onPress={() => handleDigit(digit)}
+      disabled={disabled}
+      accessibilityLabel={digit}
+    >
+      <Text style={[styles.keyText, { color }]}>{digit}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={[styles.container, disabled && styles.disabled]}>
+      <View style={styles.dots} accessibilityLabel={`${digits.length} of ${APP_LOCK_CONFIG.PIN_LENGTH} digits entered`}>
+        {Array.from({ length: APP_LOCK_CONFIG.PIN_LENGTH }, (_, index) => (
+          <View
+            key={index}
+            style={[styles.dot, { borderColor: color }, index < digits.length && { backgroundColor: color }]}
+          />
+        ))}
+      </View>
+
+      <View style={styles.grid}>
+        {KEYS.map(renderKey)}
+
+        {extraKey ? (
+          <TouchableOpacity
+            style={styles.actionKey}
+            onPress={extraKey.onPress}
+            accessibilityLabel={extraKey.label}
+          >
+            <SvgIcon name={extraKey.icon} size={28} color={color} />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.actionKey} />
+        )}
+
+        {renderKey('0')}
+
+        <TouchableOpacity
+          style={styles.actionKey}
+          onPress={handleDelete}
+          disabled={disabled || digits.length === 0}
+          accessibilityLabel="Delete digit"
+        >
+          <SvgIcon name="backicon" size={24} color={color} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const KEY_SIZE = 72;
+
+const createStyles = (theme: AppTheme) => StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: theme.spacing[3],
+    marginBottom: theme.spacing[8],
+  },
+  dot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 1.5,
+  },
+  grid: {
+    width: KEY_SIZE * 3 + theme.spacing[6] * 2,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    rowGap: theme.spacing[4],
+  },
+  key: {
+    width: KEY_SIZE,
+    height: KEY_SIZE,
+    borderRadius: KEY_SIZE / 2,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  keyText: {
+    fontSize: theme.typography.fontSize.xxl,
+    fontWeight: theme.typography.fontWeight.medium,
+  },
+  actionKey: {
+    width: KEY_SIZE,
+    height: KEY_SIZE,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
@@ -0,0 +1,51 @@
+import React from 'react';
+import { View, Text, StyleSheet, Platform } from 'react-native';
+import { BlurView } from 'expo-blur';
+import { SvgIcon } from '../common/SvgIcon';
+import { APP_CONFIG } from '../../constants';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
+
+/**
+ * Covers the app while it is inactive or backgrounded so the app switcher
+ * snapshot does not show license numbers or credit records.
+ */
+export const PrivacyOverlay: React.FC = () => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <BlurView
+      intensity={80}
+      tint={theme.isDark ? 'dark' : 'light'}
+      // Android blur is experimental and can lag a frame behind; the tinted fill keeps it opaque
+      experimentalBlurMethod={Platform.OS === 'android' ? 'dimezisBlurView' : undefined}
+      style={styles.overlay}
+      pointerEvents="none"
+    >
+      <View style={styles.content}>
+        <SvgIcon name="lock" size={36} color={theme.colors.primary} />
+        <Text style={styles.title}>{APP_CONFIG.NAME}</Text>
+      </View>
+    </BlurView>
+  );
+};
+
+const createStyles = (theme: AppTheme) => StyleSheet.create({
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: theme.isDark
+      ? (Platform.OS === 'android' ? 'rgba(11, 17, 32, 0.96)' : 'rgba(11, 17, 32, 0.6)')
+      : (Platform.OS === 'android' ? 'rgba(250, 251, 252, 0.96)' : 'rgba(250, 251, 252, 0.6)'),
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  content: {
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing[3],
+  },
+});
@@ -0,0 +1,4 @@
+export { AppLockScreen } from './AppLockScreen';
+export { PinPad } from './PinPad';
+export { PrivacyOverlay } from './PrivacyOverlay';
+export { PassphrasePrompt } from './PassphrasePrompt';
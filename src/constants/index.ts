@@ -1,5 +1,6 @@
 // Export all constants
 export * from './theme';
+export * from './requirementTemplates';
 
 // Import version from package.json to keep it in sync
 import packageJson from '../../package.json';
@@ -8,7 +9,8 @@ import packageJson from '../../package.json';
 export const APP_CONFIG = {
   NAME: 'CPD & CME Tracker',
   VERSION: packageJson.version,
-  DATABASE_VERSION: 2,
+  DATABASE_VERSION: 8, // Bump alongside a new step in services/database/migrations.ts
+  BACKUP_FORMAT_VERSION: 4, // Bump alongside a new step in services/backupMigrations.ts
   DATABASE_NAME: 'cme_tracker.db',
 } as const;
 
@@ -18,12 +20,18 @@ export const STORAGE_KEYS = {
   ONBOARDING_COMPLETED: 'onboarding_completed',
   USER_PREFERENCES: 'user_preferences',
   APP_SETTINGS: 'app_settings',
-  THEME_PREFERENCE: 'theme_preference',
+  THEME_MODE: 'theme_mode', // 'light', 'dark' or 'system', seeded 'light' by the base migration
+  REQUIREMENT_TEMPLATE: 'requirement_template', // Template id and version applied to the user cycle
+  AUTO_LOCK_TIMEOUT: 'auto_lock_timeout', // Seconds in the background before the app locks
+  BACKUP_ENABLED: 'backup_enabled', // Automatic local backups, seeded 'true' by the base migration
+  BACKUP_INTERVAL_HOURS: 'backup_interval_hours', // Minimum age of the newest automatic backup before another runs
   
   // SecureStore keys
   USER_DATA: 'user_data',
   LICENSE_INFO: 'license_info',
-  BIOMETRIC_ENABLED: 'biometric_enabled',
+  BIOMETRIC_ENABLED: 'biometric_enabled', // Kept in app_settings, seeded by the base migration
+  APP_LOCK_PIN: 'app_lock_pin', // Salted hash of the app-specific PIN
+  APP_LOCK_PIN_LOCKOUT: 'app_lock_pin_lockout', // Wrong PIN count and lockout expiry, kept across launches
 } as const;
 
 // File system paths
@@ -31,6 +39,7 @@ export const FILE_PATHS = {
   CERTIFICATES: 'certificates/',
   THUMBNAILS: 'certificates/thumbnails/',
   BACKUPS: 'backups/',
+  BACKUP_BLOBS: 'backups/blobs/', // Certificate files of automatic backups, stored once each by content hash
   TEMP: 'temp/',
 } as const;
 
@@ -47,6 +56,7 @@ export const CME_CATEGORIES = [
   'Quality Improvement',
   'Patient Safety',
   'Ethics',
+  'Opioid Prescribing',
   'Other',
 ] as const;
 
@@ -74,6 +84,10 @@ export const COUNTRIES = [
 // Notification intervals (in days)
 export const NOTIFICATION_INTERVALS = [90, 60, 30, 14, 7, 1] as const;
 
+// Per-event reminder choices (days before the event, 0 = day-of) and the preset for new events
+export const EVENT_REMINDER_OFFSETS = [30, 14, 7, 3, 1, 0] as const;
+export const DEFAULT_EVENT_REMINDER_OFFSETS = [7, 0];
+
 // File type constants
 export const SUPPORTED_FILE_TYPES = {
   IMAGES: ['image/jpeg', 'image/png', 'image/jpg', 'image/webp', 'image/heic', 'image/heif'] as string[],
@@ -110,6 +124,36 @@ export const OCR_CONFIG = {
   MAX_PROCESSING_TIME: 10000, // 10 seconds
 } as const;
 
+// App lock configuration
+export const APP_LOCK_CONFIG = {
+  PIN_LENGTH: 6,
+  MAX_PIN_ATTEMPTS: 5, // Wrong PINs before entry is paused
+  LOCKOUT_DURATION: 30000, // 30 seconds
+  DEFAULT_AUTO_LOCK_TIMEOUT: 60, // seconds
+  AUTO_LOCK_OPTIONS: [
+    { label: 'Immediately', seconds: 0 },
+    { label: '1 minute', seconds: 60 },
+    { label: '5 minutes', seconds: 300 },
+    { label: '15 minutes', seconds: 900 },
+  ],
+} as const;
+
+// Automatic local backups
+export const AUTO_BACKUP_CONFIG = {
+  DEFAULT_INTERVAL_HOURS: 24,
+  INTERVAL_OPTIONS: [
+    { label: 'Daily', hours: 24 },
+    { label: 'Every 3 days', hours: 72 },
+    { label: 'Weekly', hours: 168 },
+  ],
+  // Newest backup of each of the last 7 days and each of the last 4 weeks is kept
+  RETENTION: {
+    DAILY: 7,
+    WEEKLY: 4,
+  },
+  STARTUP_DELAY: 5000, // Let the first screens load before backing up on launch
+} as const;
+
 // Animation constants
 export const ANIMATION_CONFIG = {
   BUTTON_PRESS: {
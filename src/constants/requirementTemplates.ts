@@ -0,0 +1,218 @@
+import { RequirementTemplate } from '../types';
+
+// Bump whenever a template is added, removed or changed
+export const REQUIREMENT_TEMPLATE_CATALOGUE_VERSION = 1;
+
+// Bundled board and regulator requirements. Figures are the published
+// headline requirement - users are told to confirm them with their regulator.
+export const REQUIREMENT_TEMPLATES: readonly RequirementTemplate[] = [
+  // United Kingdom
+  {
+    id: 'uk-gmc-revalidation',
+    version: 1,
+    name: 'GMC Revalidation',
+    country: 'United Kingdom',
+    profession: 'Physician',
+    issuingAuthority: 'General Medical Council',
+    creditSystem: 'CPD',
+    totalCredits: 250,
+    periodYears: 5,
+    cycleAlignment: { type: 'anniversary' },
+    categoryRules: [],
+    notes: 'Most royal colleges expect around 50 CPD points each year.',
+  },
+  {
+    id: 'uk-nmc-revalidation',
+    version: 1,
+    name: 'NMC Revalidation',
+    country: 'United Kingdom',
+    profession: 'Nurse',
+    issuingAuthority: 'Nursing and Midwifery Council',
+    creditSystem: 'Hours',
+    totalCredits: 35,
+    periodYears: 3,
+    cycleAlignment: { type: 'anniversary' },
+    categoryRules: [],
+    notes: 'At least 20 of the 35 hours must be participatory learning.',
+  },
+
+  // United States
+  {
+    id: 'us-ca-physician',
+    version: 1,
+    name: 'California Physician',
+    country: 'United States',
+    profession: 'Physician',
+    issuingAuthority: 'Medical Board of California',
+    creditSystem: 'CME',
+    totalCredits: 50,
+    periodYears: 2,
+    cycleAlignment: { type: 'anniversary' },
+    categoryRules: [],
+  },
+  {
+    id: 'us-tx-physician',
+    version: 1,
+    name: 'Texas Physician',
+    country: 'United States',
+    profession: 'Physician',
+    issuingAuthority: 'Texas Medical Board',
+    creditSystem: 'CME',
+    totalCredits: 48,
+    periodYears: 2,
+    cycleAlignment: { type: 'anniversary' },
+    categoryRules: [
+      { category: 'Ethics', minimumCredits: 2 },
+    ],
+  },
+  {
+    id: 'us-fl-physician',
+    version: 1,
+    name: 'Florida Physician',
+    country: 'United States',
+    profession: 'Physician',
+    issuingAuthority: 'Florida Board of Medicine',
+    creditSystem: 'CME',
+    totalCredits: 40,
+    periodYears: 2,
+    cycleAlignment: { type: 'anniversary' },
+    categoryRules: [
+      { category: 'Patient Safety', minimumCredits: 2 },
+      { category: 'Opioid Prescribing', minimumCredits: 2 },
+    ],
+  },
+  {
+    id: 'us-ca-rn',
+    version: 1,
+    name: 'California RN',
+    country: 'United States',
+    profession: 'Nurse',
+    issuingAuthority: 'California Board of Registered Nursing',
+    creditSystem: 'CE',
+    totalCredits: 30,
+    periodYears: 2,
+    cycleAlignment: { type: 'anniversary' },
+    categoryRules: [],
+  },
+
+  // Canada
+  {
+    id: 'ca-rcpsc-moc',
+    version: 1,
+    name: 'Royal College MOC Program',
+    country: 'Canada',
+    profession: 'Physician',
+    issuingAuthority: 'Royal College of Physicians and Surgeons of Canada',
+    creditSystem: 'CME',
+    totalCredits: 400,
+    periodYears: 5,
+    cycleAlignment: { type: 'anniversary' },
+    categoryRules: [],
+    notes: 'At least 40 credits must be recorded each year of the cycle.',
+  },
+  {
+    id: 'ca-cfpc-mainpro',
+    version: 1,
+    name: 'CFPC Mainpro+',
+    country: 'Canada',
+    profession: 'Physician',
+    issuingAuthority: 'College of Family Physicians of Canada',
+    creditSystem: 'CME',
+    totalCredits: 250,
+    periodYears: 5,
+    cycleAlignment: { type: 'anniversary' },
+    categoryRules: [],
+    notes: 'At least 125 credits must be certified, with 25 or more each year.',
+  },
+
+  // Australia
+  {
+    id: 'au-mba-cpd',
+    version: 1,
+    name: 'Medical Board of Australia CPD',
+    country: 'Australia',
+    profession: 'Physician',
+    issuingAuthority: 'Medical Board of Australia (Ahpra)',
+    creditSystem: 'Hours',
+    totalCredits: 50,
+    periodYears: 1,
+    cycleAlignment: { type: 'fixed', month: 1, day: 1 },
+    categoryRules: [],
+    notes: 'Includes 12.5 hours of educational activities and 25 hours reviewing performance and measuring outcomes.',
+  },
+  {
+    id: 'au-nmba-cpd',
+    version: 1,
+    name: 'NMBA Nurses and Midwives CPD',
+    country: 'Australia',
+    profession: 'Nurse',
+    issuingAuthority: 'Nursing and Midwifery Board of Australia (Ahpra)',
+    creditSystem: 'Hours',
+    totalCredits: 20,
+    periodYears: 1,
+    cycleAlignment: { type: 'fixed', month: 6, day: 1 },
+    categoryRules: [],
+  },
+
+  // New Zealand
+  {
+    id: 'nz-mcnz-recertification',
+    version: 1,
+    name: 'MCNZ Recertification',
+    country: 'New Zealand',
+    profession: 'Physician',
+    issuingAuthority: 'Medical Council of New Zealand',
+    creditSystem: 'Hours',
+    totalCredits: 50,
+    periodYears: 1,
+    cycleAlignment: { type: 'anniversary' },
+    categoryRules: [],
+    notes: 'At least 20 of the hours should be continuing education.',
+  },
+  {
+    id: 'nz-ncnz-rn',
+    version: 1,
+    name: 'Nursing Council RN',
+    country: 'New Zealand',
+    profession: 'Nurse',
+    issuingAuthority: 'Nursing Council of New Zealand',
+    creditSystem: 'Hours',
+    totalCredits: 60,
+    periodYears: 3,
+    cycleAlignment: { type: 'anniversary' },
+    categoryRules: [],
+  },
+
+  // Ireland
+  {
+    id: 'ie-medical-council',
+    version: 1,
+    name: 'Medical Council Professional Competence',
+    country: 'Ireland',
+    profession: 'Physician',
+    issuingAuthority: 'Medical Council of Ireland',
+    creditSystem: 'CPD',
+    totalCredits: 50,
+    periodYears: 1,
+    cycleAlignment: { type: 'fixed', month: 5, day: 1 },
+    categoryRules: [],
+    notes: 'Split across external, internal, personal learning and one clinical audit.',
+  },
+
+  // South Africa
+  {
+    id: 'za-hpcsa',
+    version: 1,
+    name: 'HPCSA CPD',
+    country: 'South Africa',
+    profession: 'Physician',
+    issuingAuthority: 'Health Professions Council of South Africa',
+    creditSystem: 'CPD',
+    totalCredits: 30,
+    periodYears: 1,
+    cycleAlignment: { type: 'anniversary' },
+    categoryRules: [
+      { category: 'Ethics', minimumCredits: 5 },
+    ],
+  },
+];
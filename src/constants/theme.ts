@@ -2,86 +2,10 @@
 // This is maintained for backward compatibility during migration
 
 import { tokens } from '../theme/tokens';
+import { ThemeColors, lightColors, darkColors } from '../theme/palettes';
 
-export const theme = {
-  colors: {
-    // Primary colors - now using HSL tokens
-    primary: tokens.color.primary,        // 'hsl(212 100% 40%)'
-    primaryDark: tokens.color.primaryDark, // 'hsl(212 100% 30%)'
-    primaryLight: tokens.color.primaryLight, // 'hsl(212 60% 55%)'
-    
-    // Secondary colors
-    secondary: tokens.color.success,      // 'hsl(158 64% 52%)'
-    secondaryDark: 'hsl(158 64% 42%)',   // Darker version
-    secondaryLight: 'hsl(158 64% 62%)',  // Lighter version
-    
-    // Base colors
-    white: tokens.color.white,           // 'hsl(0 0% 100%)'
-    black: tokens.color.black,           // 'hsl(0 0% 0%)'
-    
-    // Gray scale - using new HSL tokens
-    gray: {
-      50: tokens.color.gray50,   // 'hsl(210 20% 98%)'
-      100: tokens.color.gray100, // 'hsl(210 20% 96%)'
-      200: tokens.color.gray200, // 'hsl(214 20% 89%)'
-      300: tokens.color.gray300, // 'hsl(216 18% 72%)'
-      400: tokens.color.gray400, // 'hsl(220 10% 62%)'
-      500: tokens.color.gray500, // 'hsl(220 9% 46%)'
-      600: tokens.color.gray600, // 'hsl(215 14% 34%)'
-      700: tokens.color.gray700, // 'hsl(215 28% 24%)'
-      800: tokens.color.gray800, // 'hsl(215 28% 14%)'
-      900: tokens.color.gray900, // 'hsl(222 47% 11%)'
-      light: tokens.color.gray100, // Alias for common usage
-      medium: tokens.color.gray400, // Alias for common usage
-      dark: tokens.color.gray600,   // Alias for common usage
-    },
-    
-    // Semantic colors - using new tokens
-    success: tokens.color.success,       // 'hsl(158 64% 52%)'
-    warning: tokens.color.warningBorder, // 'hsl(36 92% 50%)'
-    error: tokens.color.error,           // 'hsl(0 83% 57%)'
-    info: tokens.color.info,             // 'hsl(217 91% 60%)'
-    
-    // Background colors - Modern neutral system
-    background: '#FAFBFC',               // Clean light gray background
-    surface: '#FFFFFF',                  // Pure white surface
-    card: '#FFFFFF',                     // Pure white cards
-    accent: '#F8FAFC',                   // Subtle accent background
-    
-    // Modern accent colors
-    purple: '#8B5CF6',                   // Modern purple accent
-    blue: '#3B82F6',                     // Modern blue accent
-    emerald: '#10B981',                  // Modern emerald accent
-    orange: '#F59E0B',                   // Modern orange accent
-    
-    // Text colors
-    text: {
-      primary: tokens.color.gray900,     // 'hsl(222 47% 11%)'
-      secondary: tokens.color.gray500,   // 'hsl(220 9% 46%)'
-      disabled: tokens.color.gray400,    // 'hsl(220 10% 62%)'
-      inverse: tokens.color.white,       // 'hsl(0 0% 100%)'
-    },
-    
-    // Button colors
-    button: {
-      primary: tokens.color.primary,        // 'hsl(212 100% 40%)'
-      primaryPressed: tokens.color.primaryDark, // 'hsl(212 100% 30%)'
-      secondary: tokens.color.gray100,      // 'hsl(210 20% 96%)'
-      secondaryPressed: tokens.color.gray200, // 'hsl(214 20% 89%)'
-      disabled: tokens.color.gray200,       // 'hsl(214 20% 89%)'
-      text: tokens.color.white,             // 'hsl(0 0% 100%)'
-      textSecondary: tokens.color.gray700,  // 'hsl(215 28% 24%)'
-      textDisabled: tokens.color.gray400,   // 'hsl(220 10% 62%)'
-    },
-    
-    // Border colors
-    border: {
-      light: tokens.color.gray200,       // 'hsl(214 20% 89%)'
-      medium: tokens.color.gray300,      // 'hsl(216 18% 72%)'
-      dark: tokens.color.gray400,        // 'hsl(220 10% 62%)'
-    },
-  },
-  
+// Everything except colors is shared by the light and dark themes
+const baseTheme = {
   typography: {
     fontFamily: {
       regular: 'System',
@@ -204,15 +128,29 @@ export const theme = {
     tabBarHeight: 80,
   },
   
+} as const;
+
+export const createTheme = (colors: ThemeColors, isDark: boolean) => ({
+  ...baseTheme,
+  isDark,
+  colors,
+
   // Progress circle colors
   progress: {
-    background: tokens.color.gray200,
-    fill: tokens.color.primary,
-    text: tokens.color.gray700,
+    background: colors.gray[200],
+    fill: colors.primary,
+    text: colors.gray[700],
   },
-} as const;
+});
+
+export type AppTheme = ReturnType<typeof createTheme>;
+export type Theme = AppTheme;
+
+export const lightTheme = createTheme(lightColors, false);
+export const darkTheme = createTheme(darkColors, true);
 
-export type Theme = typeof theme;
+// Static light theme for code outside React. Components read useTheme() so they follow the mode.
+export const theme = lightTheme;
 
 // Utility function to get theme values
 export const getTheme = () => theme;
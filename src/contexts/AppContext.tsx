@@ -11,12 +11,24 @@ import {
   LicenseRenewal, 
   CMEEventReminder,
   Progress,
+  RequirementRule,
+  RequirementRuleUpdate,
+  RequirementBreakdown,
+  TemplateCategoryRule,
+  ComplianceCycle,
+  CarryOverRule,
   DatabaseOperationResult 
 } from '../types';
 import { databaseOperations } from '../services/database';
 import { getUserCached, refreshUserCache, clearUserCache, getCachedUserSync } from '../services/database/userCache';
 import { NotificationService } from '../services/notifications';
 import { AuditTrailService } from '../services/AuditTrailService';
+import { AutoBackupService } from '../services/AutoBackupService';
+import { AUTO_BACKUP_CONFIG } from '../constants';
+import { buildRequirementBreakdowns, getCycleEntries, getUserCycleWindow } from '../utils/requirementRules';
+import { applyCreditCaps } from '../utils/creditCaps';
+import { addYearsToDate, summarizeCycle } from '../utils/complianceCycles';
+import { calculatePace } from '../utils/progressPace';
 
 // Development logging helper
 const isDevelopment = __DEV__;
@@ -64,7 +76,9 @@ interface AppContextType {
   
   // CME data (lazy loaded)
   recentCMEEntries: CMEEntry[]; // Last 10 entries for quick access
-  totalCredits: number;
+  totalCredits: number; // Claimed credits in the current cycle
+  countedCredits: number; // totalCredits after category caps
+  creditAdjustments: Record<number, number>; // entry id -> counted credits, for entries a cap discounted
   currentYearProgress: Progress | null;
   
   // Certificates (lazy loaded)
@@ -75,6 +89,14 @@ interface AppContextType {
   
   // Event Reminders
   eventReminders: CMEEventReminder[];
+
+  // Category requirement rules and their progress
+  requirementRules: RequirementRule[];
+  requirementBreakdowns: RequirementBreakdown[];
+
+  // Requirement cycle history and carry-over
+  complianceCycles: ComplianceCycle[]; // Newest first, including the active cycle
+  carryOverRules: CarryOverRule[];
   
   // Enhanced loading states
   isInitializing: boolean; // First-time app setup
@@ -93,6 +115,8 @@ interface AppContextType {
   refreshCertificates: () => Promise<void>;
   refreshLicenses: () => Promise<void>;
   refreshReminders: () => Promise<void>;
+  refreshRequirementRules: () => Promise<void>;
+  refreshComplianceCycles: () => Promise<void>;
   refreshAllData: () => Promise<void>;
   forceRefreshCMEData: () => Promise<void>;
   
@@ -106,7 +130,7 @@ interface AppContextType {
   deleteCMEEntry: (id: number) => Promise<boolean>;
   
   // License actions
-  addLicense: (license: Omit<LicenseRenewal, 'id' | 'createdAt' | 'updatedAt'>) => Promise<boolean>;
+  addLicense: (license: Omit<LicenseRenewal, 'id' | 'createdAt' | 'updatedAt'>, categoryRules?: TemplateCategoryRule[]) => Promise<boolean>;
   updateLicense: (id: number, license: Partial<LicenseRenewal>) => Promise<boolean>;
   deleteLicense: (id: number) => Promise<boolean>;
   
@@ -114,6 +138,13 @@ interface AppContextType {
   addEventReminder: (reminder: Omit<CMEEventReminder, 'id' | 'createdAt' | 'updatedAt'>) => Promise<boolean>;
   updateEventReminder: (id: number, reminder: Partial<CMEEventReminder>) => Promise<boolean>;
   deleteEventReminder: (id: number) => Promise<boolean>;
+
+  // Requirement rule actions
+  addRequirementRule: (rule: Omit<RequirementRule, 'id' | 'createdAt' | 'updatedAt'>) => Promise<boolean>;
+  updateRequirementRule: (id: number, rule: RequirementRuleUpdate) => Promise<boolean>;
+  deleteRequirementRule: (id: number) => Promise<boolean>;
+  applyTemplateRules: (licenseId: number | undefined, rules: TemplateCategoryRule[]) => Promise<boolean>;
+  setCarryOverRule: (licenseId: number | undefined, rule: Pick<CarryOverRule, 'maximumCredits' | 'windowMonths'> | null) => Promise<boolean>;
   
   // User actions
   updateUser: (userData: Partial<User>) => Promise<boolean>;
@@ -138,6 +169,13 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
   const [certificates, setCertificates] = useState<Certificate[]>([]);
   const [licenses, setLicenses] = useState<LicenseRenewal[]>([]);
   const [eventReminders, setEventReminders] = useState<CMEEventReminder[]>([]);
+  const [requirementRules, setRequirementRules] = useState<RequirementRule[]>([]);
+  const [requirementBreakdowns, setRequirementBreakdowns] = useState<RequirementBreakdown[]>([]);
+  const [cappedCredits, setCappedCredits] = useState<number | null>(null); // null = no caps apply
+  const [creditAdjustments, setCreditAdjustments] = useState<Record<number, number>>({});
+  const [complianceCycles, setComplianceCycles] = useState<ComplianceCycle[]>([]);
+  const [carryOverRules, setCarryOverRules] = useState<CarryOverRule[]>([]);
+  const [carriedInCredits, setCarriedInCredits] = useState(0);
   
   // Batched state updater
   const batchUpdate = useBatchedStateUpdates();
@@ -178,68 +216,23 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     return getUserCached();
   }, []);
 
-  // Calculate progress based on current data and user's requirement period (memoized)
-  const calculateProgress = useCallback((user: User, totalCredits: number): Progress => {
-    const now = new Date();
-    const periodYears = user.requirementPeriod || 1;
-
-    // Use actual cycle dates if available, otherwise fall back to current year calculation
-    let startOfPeriod: Date;
-    let endOfPeriod: Date;
-
-    if (user.cycleStartDate && user.cycleEndDate) {
-      // User has set their actual cycle dates
-      startOfPeriod = new Date(user.cycleStartDate);
-      endOfPeriod = new Date(user.cycleEndDate);
-
-      // Validate dates to prevent NaN in calculations
-      if (isNaN(startOfPeriod.getTime()) || isNaN(endOfPeriod.getTime())) {
-        // Invalid dates, fall back to current year
-        const currentYear = now.getFullYear();
-        startOfPeriod = new Date(currentYear, 0, 1);
-        endOfPeriod = new Date(currentYear + periodYears, 0, 1);
-      }
-    } else if (user.cycleStartDate) {
-      // User has set start date, calculate end date
-      startOfPeriod = new Date(user.cycleStartDate);
-
-      // Validate start date
-      if (isNaN(startOfPeriod.getTime())) {
-        // Invalid date, fall back to current year
-        const currentYear = now.getFullYear();
-        startOfPeriod = new Date(currentYear, 0, 1);
-      }
-
-      endOfPeriod = new Date(startOfPeriod);
-      endOfPeriod.setFullYear(startOfPeriod.getFullYear() + periodYears);
-    } else {
-      // No cycle dates set, fall back to current year assumption
-      const currentYear = now.getFullYear();
-      startOfPeriod = new Date(currentYear, 0, 1);
-      endOfPeriod = new Date(currentYear + periodYears, 0, 1);
-    }
+  // Calculate progress based on current data and user's requirement period (memoized).
+  // countedCredits drives the percentage; claimedCredits is what the user entered before caps.
+  // carriedInCredits is surplus from the previous cycle and counts on top of this cycle's credits.
+  const calculateProgress = useCallback((
+    user: User,
+    countedCredits: number,
+    claimedCredits: number,
+    carriedInCredits: number = 0
+  ): Progress => {
+    const completedCredits = countedCredits + carriedInCredits;
+    const { percentage, remainingDays, status } = calculatePace(user, completedCredits);
 
-    const totalDaysInPeriod = Math.ceil((endOfPeriod.getTime() - startOfPeriod.getTime()) / (1000 * 60 * 60 * 24));
-    const daysPassed = Math.ceil((now.getTime() - startOfPeriod.getTime()) / (1000 * 60 * 60 * 24));
-    const remainingDays = Math.max(Math.ceil((endOfPeriod.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)), 0);
-
-    const percentage = user.annualRequirement > 0 ? (totalCredits / user.annualRequirement) * 100 : 0;
-    const expectedProgress = daysPassed > 0 ? (daysPassed / totalDaysInPeriod) * 100 : 0;
-    
-    let status: Progress['status'];
-    if (percentage >= 100) {
-      status = 'completed';
-    } else if (percentage >= expectedProgress * 0.8) {
-      status = 'on_track';
-    } else if (remainingDays <= 0) {
-      status = 'overdue';
-    } else {
-      status = 'behind';
-    }
-    
     return {
       totalRequired: user.annualRequirement,
-      totalCompleted: totalCredits,
+      totalCompleted: completedCredits,
+      totalClaimed: claimedCredits,
+      carriedOverCredits: carriedInCredits,
       percentage: Math.min(percentage, 100),
       remainingDays,
       status,
@@ -489,6 +482,37 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     }
   }, [remindersRetryCount, MAX_RETRIES]);
 
+  const refreshRequirementRules = useCallback(async (): Promise<void> => {
+    try {
+      const result = await databaseOperations.requirementRules.getAllRules();
+      if (result.success) {
+        setRequirementRules(result.data || []);
+      } else {
+        throw new Error(result.error || 'Failed to load requirement rules');
+      }
+    } catch (error) {
+      __DEV__ && console.error('Error refreshing requirement rules:', error);
+    }
+  }, []);
+
+  // Cycle history and carry-over rules are small, so they are loaded together
+  const refreshComplianceCycles = useCallback(async (): Promise<void> => {
+    try {
+      const [cyclesResult, carryOverResult] = await Promise.all([
+        databaseOperations.cycles.getAllCycles(),
+        databaseOperations.carryOverRules.getAllRules(),
+      ]);
+      if (cyclesResult.success) {
+        setComplianceCycles(cyclesResult.data || []);
+      }
+      if (carryOverResult.success) {
+        setCarryOverRules(carryOverResult.data || []);
+      }
+    } catch (error) {
+      __DEV__ && console.error('Error refreshing compliance cycles:', error);
+    }
+  }, []);
+
   const refreshAllData = useCallback(async (): Promise<void> => {
     await Promise.all([
       refreshUserData(),
@@ -496,8 +520,10 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
       refreshCertificates(),
       refreshLicenses(),
       refreshReminders(),
+      refreshRequirementRules(),
+      refreshComplianceCycles(),
     ]);
-  }, [refreshUserData, refreshCMEData, refreshCertificates, refreshLicenses, refreshReminders]);
+  }, [refreshUserData, refreshCMEData, refreshCertificates, refreshLicenses, refreshReminders, refreshRequirementRules, refreshComplianceCycles]);
 
   // Force refresh CME data (bypass staleness check)
   const forceRefreshCMEData = useCallback(async (): Promise<void> => {
@@ -519,6 +545,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
           category: entry.category
         }, true);
         await forceRefreshCMEData();
+        await refreshLicenses(); // License progress is derived from entries
         return true;
       }
 
@@ -529,7 +556,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
       await AuditTrailService.logCMEAction('add_entry', 0, { title: entry.title }, false, String(error));
       return false;
     }
-  }, [forceRefreshCMEData]);
+  }, [forceRefreshCMEData, refreshLicenses]);
 
   const updateCMEEntry = useCallback(async (id: number, entry: Partial<CMEEntry>): Promise<boolean> => {
     try {
@@ -537,6 +564,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
       if (result.success) {
         await AuditTrailService.logCMEAction('update_entry', id, entry, true);
         await forceRefreshCMEData();
+        await refreshLicenses(); // License progress is derived from entries
         return true;
       }
       await AuditTrailService.logCMEAction('update_entry', id, entry, false, 'Database operation failed');
@@ -546,7 +574,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
       await AuditTrailService.logCMEAction('update_entry', id, entry, false, String(error));
       return false;
     }
-  }, [forceRefreshCMEData]);
+  }, [forceRefreshCMEData, refreshLicenses]);
 
   const deleteCMEEntry = useCallback(async (id: number): Promise<boolean> => {
     try {
@@ -554,6 +582,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
       if (result.success) {
         await AuditTrailService.logCMEAction('delete_entry', id, {}, true);
         await forceRefreshCMEData();
+        await refreshLicenses(); // License progress is derived from entries
         return true;
       }
       await AuditTrailService.logCMEAction('delete_entry', id, {}, false, 'Database operation failed');
@@ -563,13 +592,21 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
       await AuditTrailService.logCMEAction('delete_entry', id, {}, false, String(error));
       return false;
     }
-  }, [forceRefreshCMEData]);
+  }, [forceRefreshCMEData, refreshLicenses]);
 
   // License Actions
-  const addLicense = useCallback(async (license: Omit<LicenseRenewal, 'id' | 'createdAt' | 'updatedAt'>): Promise<boolean> => {
+  const addLicense = useCallback(async (
+    license: Omit<LicenseRenewal, 'id' | 'createdAt' | 'updatedAt'>,
+    categoryRules?: TemplateCategoryRule[]
+  ): Promise<boolean> => {
     try {
       const result = await databaseOperations.licenses.addLicense(license);
       if (result.success) {
+        // Category rules from a requirement template need the new license id
+        if (categoryRules && categoryRules.length > 0 && result.data) {
+          await databaseOperations.requirementRules.replaceScopeRules(result.data, categoryRules);
+          await refreshRequirementRules();
+        }
         await refreshLicenses();
         return true;
       }
@@ -578,7 +615,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
       __DEV__ && console.error('Error adding license:', error);
       return false;
     }
-  }, [refreshLicenses]);
+  }, [refreshLicenses, refreshRequirementRules]);
 
   const updateLicense = useCallback(async (id: number, license: Partial<LicenseRenewal>): Promise<boolean> => {
     try {
@@ -599,6 +636,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
       const result = await databaseOperations.licenses.deleteLicense(id);
       if (result.success) {
         await refreshLicenses();
+        await refreshRequirementRules(); // License rules are removed with the license
         return true;
       }
       return false;
@@ -606,7 +644,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
       __DEV__ && console.error('Error deleting license:', error);
       return false;
     }
-  }, [refreshLicenses]);
+  }, [refreshLicenses, refreshRequirementRules]);
 
   // Event Reminder Actions
   const addEventReminder = useCallback(async (reminder: Omit<CMEEventReminder, 'id' | 'createdAt' | 'updatedAt'>): Promise<boolean> => {
@@ -651,6 +689,89 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     }
   }, [refreshReminders]);
 
+  // Requirement Rule Actions
+  const addRequirementRule = useCallback(async (rule: Omit<RequirementRule, 'id' | 'createdAt' | 'updatedAt'>): Promise<boolean> => {
+    try {
+      const result = await databaseOperations.requirementRules.addRule(rule);
+      if (result.success) {
+        await refreshRequirementRules();
+        return true;
+      }
+      return false;
+    } catch (error) {
+      __DEV__ && console.error('Error adding requirement rule:', error);
+      return false;
+    }
+  }, [refreshRequirementRules]);
+
+  const updateRequirementRule = useCallback(async (
+    id: number,
+    rule: RequirementRuleUpdate
+  ): Promise<boolean> => {
+    try {
+      const result = await databaseOperations.requirementRules.updateRule(id, rule);
+      if (result.success) {
+        await refreshRequirementRules();
+        return true;
+      }
+      return false;
+    } catch (error) {
+      __DEV__ && console.error('Error updating requirement rule:', error);
+      return false;
+    }
+  }, [refreshRequirementRules]);
+
+  const deleteRequirementRule = useCallback(async (id: number): Promise<boolean> => {
+    try {
+      const result = await databaseOperations.requirementRules.deleteRule(id);
+      if (result.success) {
+        await refreshRequirementRules();
+        return true;
+      }
+      return false;
+    } catch (error) {
+      __DEV__ && console.error('Error deleting requirement rule:', error);
+      return false;
+    }
+  }, [refreshRequirementRules]);
+
+  const applyTemplateRules = useCallback(async (
+    licenseId: number | undefined,
+    rules: TemplateCategoryRule[]
+  ): Promise<boolean> => {
+    try {
+      const result = await databaseOperations.requirementRules.replaceScopeRules(licenseId, rules);
+      if (result.success) {
+        await refreshRequirementRules();
+        return true;
+      }
+      return false;
+    } catch (error) {
+      __DEV__ && console.error('Error applying template rules:', error);
+      return false;
+    }
+  }, [refreshRequirementRules]);
+
+  const setCarryOverRule = useCallback(async (
+    licenseId: number | undefined,
+    rule: Pick<CarryOverRule, 'maximumCredits' | 'windowMonths'> | null
+  ): Promise<boolean> => {
+    try {
+      const result = await databaseOperations.carryOverRules.setRule(licenseId, rule);
+      if (result.success) {
+        await refreshComplianceCycles();
+        if (licenseId !== undefined) {
+          await refreshLicenses(); // License progress is derived from entries
+        }
+        return true;
+      }
+      return false;
+    } catch (error) {
+      __DEV__ && console.error('Error saving carry-over rule:', error);
+      return false;
+    }
+  }, [refreshComplianceCycles, refreshLicenses]);
+
   // User Actions
   const updateUser = useCallback(async (userData: Partial<User>): Promise<boolean> => {
     try {
@@ -671,25 +792,99 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     try {
       if (!user) return;
 
+      // Counted credits plus carry-over, as the dashboard shows, so pace nudges match it
       await NotificationService.refreshAllNotifications(
         user,
         licenses,
         eventReminders,
-        totalCredits
+        currentYearProgress?.totalCompleted ?? totalCredits
       );
 
     } catch (error) {
       __DEV__ && console.error('[ERROR] AppContext: Error refreshing notifications:', error);
     }
-  }, [user, licenses, eventReminders, totalCredits]);
+  }, [user, licenses, eventReminders, totalCredits, currentYearProgress]);
 
   // Update progress when user or credits change
   useEffect(() => {
     if (user && !isLoadingCME) {
-      const progress = calculateProgress(user, totalCredits);
+      const progress = calculateProgress(user, cappedCredits ?? totalCredits, totalCredits, carriedInCredits);
       setCurrentYearProgress(progress);
     }
-  }, [user, totalCredits, isLoadingCME]);
+  }, [user, totalCredits, cappedCredits, carriedInCredits, isLoadingCME]);
+
+  // Re-evaluate category requirements and carry-over when rules, licenses or credits change.
+  // Needs every entry (not just the recent ones) since license windows differ from the cycle.
+  useEffect(() => {
+    const cycleCarryOverRule = carryOverRules.find(rule => rule.licenseId === undefined);
+
+    if (!user || (requirementRules.length === 0 && !cycleCarryOverRule)) {
+      setRequirementBreakdowns([]);
+      setCappedCredits(null);
+      setCreditAdjustments({});
+      setCarriedInCredits(0);
+      return;
+    }
+
+    let cancelled = false;
+
+    const evaluate = async () => {
+      const [entriesResult, linksResult] = await Promise.all([
+        databaseOperations.cme.getAllEntries(),
+        databaseOperations.cme.getAllEntryLicenseLinks(),
+      ]);
+
+      if (cancelled || !entriesResult.success) {
+        return;
+      }
+
+      const entries = entriesResult.data || [];
+      const cycleRules = requirementRules.filter(rule => rule.licenseId === undefined);
+      const cycleCaps = applyCreditCaps(getCycleEntries(user, entries), cycleRules, user.annualRequirement);
+
+      setRequirementBreakdowns(buildRequirementBreakdowns(
+        user,
+        licenses,
+        requirementRules,
+        entries,
+        linksResult.success ? (linksResult.data || []) : []
+      ));
+      // Caps discount from the cycle total rather than recomputing it, so the
+      // staleness-checked totalCredits stays the single source for claimed credits
+      setCappedCredits(Math.max(totalCredits - (cycleCaps.claimedCredits - cycleCaps.countedCredits), 0));
+      setCreditAdjustments(cycleCaps.countedByEntry);
+
+      // Surplus from the previous cycle, using whatever carried into that one when it was archived
+      if (cycleCarryOverRule) {
+        const { startDate } = getUserCycleWindow(user);
+        const previousCycle = complianceCycles.find(cycle => cycle.status === 'closed' && cycle.endDate === startDate);
+        const previousStartDate = previousCycle?.startDate ?? addYearsToDate(startDate, -(user.requirementPeriod || 1));
+        const previousEntries = entries.filter(entry => {
+          const date = entry.dateAttended.split('T')[0];
+          return date >= previousStartDate && date < startDate;
+        });
+
+        setCarriedInCredits(summarizeCycle(
+          previousEntries,
+          cycleRules,
+          previousCycle?.requiredCredits ?? user.annualRequirement,
+          previousCycle?.carriedInCredits ?? 0,
+          startDate,
+          cycleCarryOverRule
+        ).carriedOutCredits);
+      } else {
+        setCarriedInCredits(0);
+      }
+    };
+
+    evaluate().catch(error => {
+      __DEV__ && console.error('Error evaluating requirement rules:', error);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, licenses, requirementRules, carryOverRules, complianceCycles, totalCredits]);
 
   // Auto-refresh notifications when relevant data changes (optimized debouncing)
   const notificationRefreshTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -713,12 +908,12 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
       };
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user, licenses, eventReminders, totalCredits, isInitializing]);
+  }, [user, licenses, eventReminders, totalCredits, currentYearProgress, isInitializing]);
 
   // Smart initial data loading - prioritize essential data
   // Use ref to prevent double execution in React 18 StrictMode
   const didInitialLoadRef = useRef(false);
-  const timeoutRefs = useRef<{ secondary?: NodeJS.Timeout; reminders?: NodeJS.Timeout }>({});
+  const timeoutRefs = useRef<{ secondary?: NodeJS.Timeout; reminders?: NodeJS.Timeout; backup?: NodeJS.Timeout }>({});
   
   useEffect(() => {
     // Guard against double execution
@@ -742,6 +937,13 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
           __DEV__ && console.error('[ERROR] AppContext: Failed to initialize notifications:', error);
         });
         
+        // Archive any requirement cycle that ended since the last launch,
+        // so the user loads with the current cycle dates
+        const rollover = await databaseOperations.cycles.rolloverExpiredCycles();
+        if (!rollover.success) {
+          __DEV__ && console.error('[ERROR] AppContext: Cycle rollover failed:', rollover.error);
+        }
+
         // Load user first (essential for everything else)
         await refreshUserData();
         
@@ -759,6 +961,8 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
             await Promise.all([
               refreshCertificates(),
               refreshLicenses(),
+              refreshRequirementRules(),
+              refreshComplianceCycles(),
             ]);
             
             // Load reminders separately to avoid blocking
@@ -775,6 +979,13 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
         
         // Store timeout for cleanup
         timeoutRefs.current.secondary = secondaryTimeout;
+
+        // Automatic backup once the first screens have loaded, if the last one is old enough
+        timeoutRefs.current.backup = setTimeout(() => {
+          AutoBackupService.runIfDue().catch(error => {
+            __DEV__ && console.error('[ERROR] AppContext: Automatic backup failed:', error);
+          });
+        }, AUTO_BACKUP_CONFIG.STARTUP_DELAY);
         
       } catch (error) {
       __DEV__ && console.error('[ERROR] AppContext: Error during initial load:', error); // Keep error logs
@@ -797,6 +1008,9 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
       if (timeoutRefs.current.reminders) {
         clearTimeout(timeoutRefs.current.reminders);
       }
+      if (timeoutRefs.current.backup) {
+        clearTimeout(timeoutRefs.current.backup);
+      }
     };
   }, []); // No dependencies - run once on mount
 
@@ -805,10 +1019,16 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     user,
     recentCMEEntries,
     totalCredits,
+    countedCredits: cappedCredits ?? totalCredits,
+    creditAdjustments,
     currentYearProgress,
     certificates,
     licenses,
     eventReminders,
+    requirementRules,
+    requirementBreakdowns,
+    complianceCycles,
+    carryOverRules,
     
     // Enhanced loading states
     isInitializing,
@@ -827,6 +1047,8 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     refreshCertificates,
     refreshLicenses,
     refreshReminders,
+    refreshRequirementRules,
+    refreshComplianceCycles,
     refreshAllData,
     forceRefreshCMEData,
     
@@ -844,6 +1066,11 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     addEventReminder,
     updateEventReminder,
     deleteEventReminder,
+    addRequirementRule,
+    updateRequirementRule,
+    deleteRequirementRule,
+    applyTemplateRules,
+    setCarryOverRule,
     updateUser,
     updateUserProfile: updateUser, // Alias for profile updates
     refreshNotifications,
@@ -851,10 +1078,16 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     user,
     recentCMEEntries,
     totalCredits,
+    cappedCredits,
+    creditAdjustments,
     currentYearProgress,
     certificates,
     licenses,
     eventReminders,
+    requirementRules,
+    requirementBreakdowns,
+    complianceCycles,
+    carryOverRules,
     isInitializing,
     isLoadingUser,
     isLoadingCME,
@@ -867,6 +1100,8 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     refreshCertificates,
     refreshLicenses,
     refreshReminders,
+    refreshRequirementRules,
+    refreshComplianceCycles,
     refreshAllData,
     forceRefreshCMEData,
     loadAllCMEEntries,
@@ -880,6 +1115,11 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     addEventReminder,
     updateEventReminder,
     deleteEventReminder,
+    addRequirementRule,
+    updateRequirementRule,
+    deleteRequirementRule,
+    applyTemplateRules,
+    setCarryOverRule,
     updateUser,
     refreshNotifications,
   ]);
@@ -0,0 +1,291 @@
+import React, { createContext, useContext, ReactNode, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import { APP_LOCK_CONFIG } from '../constants';
+import { AppLockService, AppLockSettings, DeviceAuthSupport } from '../services/AppLockService';
+import { useOnboardingContext } from './OnboardingContext';
+
+interface AppLockContextType {
+  isReady: boolean;
+  isLockEnabled: boolean;
+  isLocked: boolean;
+  // True while the app is inactive or backgrounded, so the app switcher shows the privacy overlay
+  isObscured: boolean;
+
+  biometricEnabled: boolean;
+  hasPin: boolean;
+  autoLockTimeout: number;
+  deviceAuth: DeviceAuthSupport;
+  lockedOutUntil: number | null;
+  // The lock settings could not be read - the app stays locked until they can be
+  lockSettingsUnavailable: boolean;
+
+  unlockWithDevice: () => Promise<boolean>;
+  unlockWithPin: (pin: string) => Promise<boolean>;
+  setBiometricEnabled: (enabled: boolean) => Promise<boolean>;
+  setPin: (pin: string) => Promise<void>;
+  removePin: () => Promise<void>;
+  setAutoLockTimeout: (seconds: number) => Promise<void>;
+  refreshLockSettings: () => Promise<void>;
+}
+
+const AppLockContext = createContext<AppLockContextType | undefined>(undefined);
+
+interface AppLockProviderProps {
+  children: ReactNode;
+}
+
+export const AppLockProvider: React.FC<AppLockProviderProps> = ({ children }) => {
+  const { isOnboardingComplete } = useOnboardingContext();
+
+  const [isReady, setIsReady] = useState(false);
+  const [isLocked, setIsLocked] = useState(false);
+  const [isObscured, setIsObscured] = useState(false);
+  const [biometricEnabled, setBiometricEnabledState] = useState(false);
+  const [hasPin, setHasPin] = useState(false);
+  const [autoLockTimeout, setAutoLockTimeoutState] = useState<number>(APP_LOCK_CONFIG.DEFAULT_AUTO_LOCK_TIMEOUT);
+  const [deviceAuth, setDeviceAuth] = useState<DeviceAuthSupport>({ available: false, label: 'Device Passcode' });
+  const [lockedOutUntil, setLockedOutUntil] = useState<number | null>(null);
+  const [lockSettingsUnavailable, setLockSettingsUnavailable] = useState(false);
+
+  const isLockEnabled = biometricEnabled || hasPin;
+
+  // AppState listener reads these without re-subscribing
+  const isLockEnabledRef = useRef(false);
+  const autoLockTimeoutRef = useRef(autoLockTimeout);
+  const backgroundedAtRef = useRef<number | null>(null);
+  const isAuthenticatingRef = useRef(false);
+
+  isLockEnabledRef.current = isLockEnabled;
+  autoLockTimeoutRef.current = autoLockTimeout;
+
+  const loadLockSettings = useCallback(async (): Promise<AppLockSettings | null> => {
+    try {
+      const [settings, support, lockout] = await Promise.all([
+        AppLockService.getSettings(),
+        AppLockService.getDeviceAuthSupport(),
+        AppLockService.getPinLockout(),
+      ]);
+
+      setBiometricEnabledState(settings.biometricEnabled);
+      setHasPin(settings.hasPin);
+      setAutoLockTimeoutState(settings.autoLockTimeout);
+      setDeviceAuth(support);
+      setLockedOutUntil(lockout.lockedOutUntil);
+      setLockSettingsUnavailable(false);
+      return settings;
+    } catch (error) {
+      __DEV__ && console.error('[ERROR] AppLockContext: Failed to load lock settings:', error);
+
+      // Fail closed - stay locked, offering only the unlock methods known to work
+      setLockSettingsUnavailable(true);
+      try {
+        const [support, hasStoredPin] = await Promise.all([
+          AppLockService.getDeviceAuthSupport(),
+          AppLockService.hasPin().catch(() => false),
+        ]);
+        setDeviceAuth(support);
+        setHasPin(hasStoredPin);
+      } catch (fallbackError) {
+        __DEV__ && console.error('[ERROR] AppLockContext: Failed to check unlock methods:', fallbackError);
+      }
+      return null;
+    }
+  }, []);
+
+  const refreshLockSettings = useCallback(async () => {
+    await loadLockSettings();
+  }, [loadLockSettings]);
+
+  // Lock on launch before any screen renders
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      let settings: AppLockSettings | null = null;
+      try {
+        settings = await loadLockSettings();
+      } catch (error) {
+        __DEV__ && console.error('[ERROR] AppLockContext: Failed to lock on launch:', error);
+        setLockSettingsUnavailable(true);
+      }
+
+      if (!cancelled) {
+        setIsLocked(!settings || settings.biometricEnabled || settings.hasPin);
+        setIsReady(true);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [loadLockSettings]);
+
+  // A complete app reset clears app_settings and the PIN - pick that up when onboarding restarts
+  useEffect(() => {
+    if (isReady) {
+      refreshLockSettings();
+    }
+  }, [isOnboardingComplete]);
+
+  useEffect(() => {
+    const handleAppStateChange = (nextState: AppStateStatus) => {
+      // The system prompt (and Android's passcode screen) moves the app out of the foreground
+      if (isAuthenticatingRef.current) {
+        return;
+      }
+
+      if (nextState === 'active') {
+        const backgroundedAt = backgroundedAtRef.current;
+        backgroundedAtRef.current = null;
+
+        if (isLockEnabledRef.current && backgroundedAt !== null
+          && Date.now() - backgroundedAt >= autoLockTimeoutRef.current * 1000) {
+          setIsLocked(true);
+        }
+        setIsObscured(false);
+        return;
+      }
+
+      if (isLockEnabledRef.current) {
+        setIsObscured(true);
+      }
+      if (nextState === 'background' && backgroundedAtRef.current === null) {
+        backgroundedAtRef.current = Date.now();
+      }
+    };
+
+    const subscription = AppState.addEventListener('change', handleAppStateChange);
+    return () => subscription.remove();
+  }, []);
+
+  const runDeviceAuthentication = useCallback(async (): Promise<boolean> => {
+    isAuthenticatingRef.current = true;
+    try {
+      return await AppLockService.authenticateWithDevice();
+    } finally {
+      backgroundedAtRef.current = null;
+      isAuthenticatingRef.current = false;
+    }
+  }, []);
+
+  const unlockWithDevice = useCallback(async (): Promise<boolean> => {
+    const success = await runDeviceAuthentication();
+    if (success) {
+      await AppLockService.clearPinLockout().catch(error => {
+        __DEV__ && console.warn('[WARN] AppLockContext: Could not clear the PIN lockout:', error);
+      });
+      setLockedOutUntil(null);
+      setIsLocked(false);
+    }
+    return success;
+  }, [runDeviceAuthentication]);
+
+  // The stored lockout is checked on every attempt, so it holds across relaunches
+  const unlockWithPin = useCallback(async (pin: string): Promise<boolean> => {
+    try {
+      const lockout = await AppLockService.getPinLockout();
+      if (lockout.lockedOutUntil !== null && Date.now() < lockout.lockedOutUntil) {
+        setLockedOutUntil(lockout.lockedOutUntil);
+        return false;
+      }
+
+      const success = await AppLockService.verifyPin(pin);
+      if (success) {
+        await AppLockService.clearPinLockout();
+        setLockedOutUntil(null);
+        setIsLocked(false);
+        return true;
+      }
+
+      setLockedOutUntil((await AppLockService.recordFailedPinAttempt()).lockedOutUntil);
+      return false;
+    } catch (error) {
+      __DEV__ && console.error('[ERROR] AppLockContext: PIN unlock failed:', error);
+      return false;
+    }
+  }, []);
+
+  // Turning device unlock on needs a successful prompt first, so nobody locks themselves out
+  const setBiometricEnabled = useCallback(async (enabled: boolean): Promise<boolean> => {
+    if (enabled) {
+      const support = await AppLockService.getDeviceAuthSupport();
+      setDeviceAuth(support);
+      if (!support.available || !(await runDeviceAuthentication())) {
+        return false;
+      }
+    }
+
+    await AppLockService.setBiometricEnabled(enabled);
+    setBiometricEnabledState(enabled);
+    return true;
+  }, [runDeviceAuthentication]);
+
+  const setPin = useCallback(async (pin: string) => {
+    await AppLockService.setPin(pin);
+    setHasPin(true);
+  }, []);
+
+  const removePin = useCallback(async () => {
+    await AppLockService.removePin();
+    setHasPin(false);
+  }, []);
+
+  const setAutoLockTimeout = useCallback(async (seconds: number) => {
+    await AppLockService.setAutoLockTimeout(seconds);
+    setAutoLockTimeoutState(seconds);
+  }, []);
+
+  const value = useMemo(() => ({
+    isReady,
+    isLockEnabled,
+    isLocked: isLocked && (isLockEnabled || lockSettingsUnavailable),
+    isObscured,
+    biometricEnabled,
+    hasPin,
+    autoLockTimeout,
+    deviceAuth,
+    lockedOutUntil,
+    lockSettingsUnavailable,
+    unlockWithDevice,
+    unlockWithPin,
+    setBiometricEnabled,
+    setPin,
+    removePin,
+    setAutoLockTimeout,
+    refreshLockSettings,
+  }), [
+    isReady,
+    isLockEnabled,
+    isLocked,
+    isObscured,
+    biometricEnabled,
+    hasPin,
+    autoLockTimeout,
+    deviceAuth,
+    lockedOutUntil,
+    lockSettingsUnavailable,
+    unlockWithDevice,
+    unlockWithPin,
+    setBiometricEnabled,
+    setPin,
+    removePin,
+    setAutoLockTimeout,
+    refreshLockSettings,
+  ]);
+
+  return (
+    <AppLockContext.Provider value={value}>
+      {children}
+    </AppLockContext.Provider>
+  );
+};
+
+export const useAppLock = (): AppLockContextType => {
+  const context = useContext(AppLockContext);
+  if (context === undefined) {
+    throw new Error('useAppLock must be used within an AppLockProvider');
+  }
+  return context;
+};
+
+export default AppLockContext;
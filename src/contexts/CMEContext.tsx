@@ -97,6 +97,8 @@ export const CMEProvider: React.FC<CMEProviderProps> = ({ children }) => {
     return {
       totalRequired: annualRequirement,
       totalCompleted: completed,
+      totalClaimed: completed,
+      carriedOverCredits: 0,
       percentage: Math.min(100, percentage),
       remainingDays,
       status,
@@ -1,5 +1,7 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback, useMemo } from 'react';
 import { settingsOperations } from '../services/database';
+import { AppLockService } from '../services/AppLockService';
+import { AutoBackupService } from '../services/AutoBackupService';
 import { STORAGE_KEYS } from '../constants';
 
 interface OnboardingContextType {
@@ -112,6 +114,14 @@ export const OnboardingProvider: React.FC<OnboardingProviderProps> = ({ children
 
       // Only after database reset is complete, change navigation states
       if (result.success) {
+        // The PIN lives in SecureStore, outside the database
+        await AppLockService.removePin().catch(error => {
+          __DEV__ && console.error('[ERROR] resetCompleteApp: Failed to remove app lock PIN:', error);
+        });
+        // Automatic backups would otherwise keep copies of the deleted records
+        await AutoBackupService.deleteAllSnapshots().catch(error => {
+          __DEV__ && console.error('[ERROR] resetCompleteApp: Failed to delete automatic backups:', error);
+        });
 
         setIsOnboardingComplete(false);
         setIsLoading(false);
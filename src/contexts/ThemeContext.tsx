@@ -0,0 +1,94 @@
+import React, { createContext, useContext, ReactNode, useCallback, useEffect, useMemo, useState } from 'react';
+import { useColorScheme } from 'react-native';
+import { STORAGE_KEYS } from '../constants';
+import { AppTheme, darkTheme, lightTheme } from '../constants/theme';
+import { settingsOperations } from '../services/database';
+
+export type ThemeMode = 'light' | 'dark' | 'system';
+
+const THEME_MODES: ThemeMode[] = ['light', 'dark', 'system'];
+
+interface ThemeContextType {
+  theme: AppTheme;
+  mode: ThemeMode;
+  isDark: boolean;
+  setMode: (mode: ThemeMode) => Promise<void>;
+}
+
+const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
+
+interface ThemeProviderProps {
+  children: ReactNode;
+}
+
+export const ThemeProvider: React.FC<ThemeProviderProps> = ({ children }) => {
+  const systemScheme = useColorScheme();
+  // Matches the base migration's seed until the saved mode loads
+  const [mode, setModeState] = useState<ThemeMode>('light');
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadMode = async () => {
+      try {
+        const result = await settingsOperations.getSetting(STORAGE_KEYS.THEME_MODE);
+        if (isMounted && result.success && THEME_MODES.includes(result.data as ThemeMode)) {
+          setModeState(result.data as ThemeMode);
+        }
+      } catch (error) {
+        __DEV__ && console.error('[ERROR] ThemeContext: Failed to load theme mode:', error);
+      }
+    };
+
+    loadMode();
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const setMode = useCallback(async (nextMode: ThemeMode) => {
+    setModeState(nextMode);
+    const result = await settingsOperations.setSetting(STORAGE_KEYS.THEME_MODE, nextMode);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save the theme setting');
+    }
+  }, []);
+
+  const isDark = mode === 'dark' || (mode === 'system' && systemScheme === 'dark');
+
+  const value = useMemo(() => ({
+    theme: isDark ? darkTheme : lightTheme,
+    mode,
+    isDark,
+    setMode,
+  }), [isDark, mode, setMode]);
+
+  return (
+    <ThemeContext.Provider value={value}>
+      {children}
+    </ThemeContext.Provider>
+  );
+};
+
+export const useThemeContext = (): ThemeContextType => {
+  const context = useContext(ThemeContext);
+  if (context === undefined) {
+    throw new Error('useThemeContext must be used within a ThemeProvider');
+  }
+  return context;
+};
+
+// The active theme. Components re-render with the other palette when the mode changes.
+export const useTheme = (): AppTheme => useThemeContext().theme;
+
+/**
+ * Builds a component's styles from the active theme. `factory` should be defined at module
+ * level so the styles are only rebuilt when the theme changes.
+ */
+export const useThemedStyles = <T,>(factory: (theme: AppTheme) => T): T => {
+  const theme = useTheme();
+  return useMemo(() => factory(theme), [factory, theme]);
+};
+
+export default ThemeContext;
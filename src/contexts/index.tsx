@@ -12,6 +12,7 @@ export { UserProvider, useUser } from './UserContext';
 export { CMEProvider, useCME } from './CMEContext';
 export { LicenseProvider, useLicense } from './LicenseContext';
 export { CertificateProvider, useCertificate } from './CertificateContext';
+export { ThemeProvider, useTheme, useThemeContext, useThemedStyles } from './ThemeContext';
 
 // Export legacy AppContext for backwards compatibility (during migration)
 export { AppProvider, useAppContext } from './AppContext';
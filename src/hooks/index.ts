@@ -7,6 +7,7 @@ export { useImagePicker } from './useImagePicker';
 export type { ImagePickerResult, UseImagePickerOptions } from './useImagePicker';
 export { useUnsavedChanges } from './useUnsavedChanges';
 export type { UseUnsavedChangesOptions } from './useUnsavedChanges';
+export { useSelectiveRestore } from './useSelectiveRestore';
 
 // Re-export sound manager types for convenience
 export type { SoundType } from '../services/sound/SoundManager';
\ No newline at end of file
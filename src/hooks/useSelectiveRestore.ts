@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState } from 'react';
+import { Alert } from 'react-native';
+import {
+  OpenedBackup,
+  RestoreSelection,
+  closeBackup,
+  openBackup,
+  previewBackup,
+  restoreOpenedBackup,
+} from '../services/backupRestoreService';
+import { PassphraseRequest } from '../services/zipBackupService';
+import { RestorePreview } from '../utils/restorePreview';
+
+interface OpenedPreview {
+  backup: OpenedBackup;
+  preview: RestorePreview;
+}
+
+/**
+ * Opens a backup for RestorePreviewModal and restores the records picked in it.
+ * Spread `previewProps` onto the modal; the backup's temporary files are removed
+ * when the preview is dismissed, after the restore, or when the screen unmounts.
+ */
+export function useSelectiveRestore(onRestored: () => Promise<void> | void) {
+  const [opened, setOpened] = useState<OpenedPreview | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const openedRef = useRef<OpenedPreview | null>(null);
+  openedRef.current = opened;
+
+  useEffect(() => () => {
+    if (openedRef.current) {
+      closeBackup(openedRef.current.backup);
+    }
+  }, []);
+
+  const openPreview = async (fileUri: string, requestPassphrase?: PassphraseRequest) => {
+    setIsBusy(true);
+    try {
+      const result = await openBackup(fileUri, undefined, requestPassphrase);
+      if (!result.success || !result.backup) {
+        if (!result.cancelled) {
+          Alert.alert('Error', result.message);
+        }
+        return;
+      }
+
+      try {
+        setOpened({ backup: result.backup, preview: await previewBackup(result.backup) });
+      } catch (error) {
+        await closeBackup(result.backup);
+        throw error;
+      }
+    } catch (error) {
+      __DEV__ && console.error('[ERROR] useSelectiveRestore: Failed to preview backup:', error);
+      Alert.alert('Error', 'Failed to read the backup. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const dismiss = () => {
+    if (opened) {
+      closeBackup(opened.backup);
+      setOpened(null);
+    }
+  };
+
+  const restoreSelection = async (selection: RestoreSelection) => {
+    if (!opened) {
+      return;
+    }
+
+    const { backup } = opened;
+    setOpened(null);
+    setIsBusy(true);
+
+    try {
+      const result = await restoreOpenedBackup(backup, 'merge', undefined, selection);
+
+      if (result.success) {
+        await onRestored();
+        Alert.alert('Success', result.message);
+      } else {
+        Alert.alert('Error', result.message);
+      }
+    } catch (error) {
+      __DEV__ && console.error('[ERROR] useSelectiveRestore: Restore failed:', error);
+      Alert.alert('Error', 'Failed to restore backup. Please try again.');
+    } finally {
+      await closeBackup(backup);
+      setIsBusy(false);
+    }
+  };
+
+  return {
+    isBusy,
+    openPreview,
+    previewProps: {
+      visible: opened !== null,
+      backup: opened?.backup ?? null,
+      preview: opened?.preview ?? null,
+      onRestore: restoreSelection,
+      onCancel: dismiss,
+    },
+  };
+}
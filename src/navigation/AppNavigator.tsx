@@ -1,17 +1,22 @@
-import React from 'react';
+import React, { useCallback, useEffect, useMemo, useRef } from 'react';
 import { View, Text, StyleSheet } from 'react-native';
-import { NavigationContainer } from '@react-navigation/native';
+import { DarkTheme, DefaultTheme, NavigationContainer } from '@react-navigation/native';
 import { OnboardingNavigator } from './OnboardingNavigator';
 import { MainTabNavigator } from './MainTabNavigator';
 import { useOnboardingContext } from '../contexts/OnboardingContext';
 import { useAppContext } from '../contexts/AppContext';
+import { useAppLock } from '../contexts/AppLockContext';
 import { LoadingSpinner } from '../components';
+import { AppLockScreen, PrivacyOverlay } from '../components/security';
 import { AnimatedGradientBackground } from '../components/common/OnboardingComponents';
 import { useNavigationSounds } from '../hooks/useNavigationSounds';
-import { theme } from '../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../theme';
+import { NotificationService } from '../services/notifications';
+import { navigationRef } from './navigationRef';
 
 // Enhanced loading screen component
 const AppLoadingScreen: React.FC = () => {
+  const styles = useThemedStyles(createStyles);
   return (
     <View style={styles.loadingContainer}>
       <AnimatedGradientBackground />
@@ -25,32 +30,95 @@ const AppLoadingScreen: React.FC = () => {
 };
 
 export const AppNavigator: React.FC = () => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const { isOnboardingComplete, isLoading } = useOnboardingContext();
   const { isInitializing } = useAppContext();
+  const { isReady: isLockReady, isLocked, isObscured } = useAppLock();
+  const hasUnlockedRef = useRef(false);
 
-  if (isLoading || isInitializing) {
+  // Screens without their own background show the theme's instead of React Navigation's white
+  const navigationTheme = useMemo(() => {
+    const base = theme.isDark ? DarkTheme : DefaultTheme;
+    return {
+      ...base,
+      colors: {
+        ...base.colors,
+        primary: theme.colors.primary,
+        background: theme.colors.background,
+        card: theme.colors.surface,
+        text: theme.colors.text.primary,
+        border: theme.colors.border.light,
+      },
+    };
+  }, [theme]);
+
+  // Notification taps open their screen once the main navigator is ready; until then they wait
+  const handleNavigationReady = useCallback(() => {
+    if (!isOnboardingComplete) {
+      return;
+    }
+    NotificationService.setRouteHandler(route => {
+      if (navigationRef.isReady()) {
+        (navigationRef as any).navigate(route.name, route.params);
+      }
+    });
+  }, [isOnboardingComplete]);
+
+  useEffect(() => {
+    if (!isOnboardingComplete) {
+      NotificationService.setRouteHandler(null);
+    }
+    return () => NotificationService.setRouteHandler(null);
+  }, [isOnboardingComplete]);
+
+  if (isLoading || isInitializing || !isLockReady) {
     return <AppLoadingScreen />;
   }
 
+  // No screen renders until the first unlock. Later locks cover the navigator instead
+  // of unmounting it, so half-filled forms and navigation state survive a relock.
+  if (isLocked && !hasUnlockedRef.current) {
+    return (
+      <View style={styles.root}>
+        <AppLockScreen />
+        {isObscured && <PrivacyOverlay />}
+      </View>
+    );
+  }
+  hasUnlockedRef.current = true;
+
   // Use key prop to force NavigationContainer remount when onboarding status changes
   // This ensures navigation state is completely reset when switching between navigators
   const navigationKey = isOnboardingComplete ? 'main' : 'onboarding';
 
   return (
-    <NavigationContainer key={navigationKey}>
-      {isOnboardingComplete ? (
-        <MainTabNavigator />
-      ) : (
-        <OnboardingNavigator />
-      )}
-    </NavigationContainer>
+    <View style={styles.root}>
+      <NavigationContainer
+        key={navigationKey}
+        ref={isOnboardingComplete ? navigationRef : undefined}
+        theme={navigationTheme}
+        onReady={handleNavigationReady}
+      >
+        {isOnboardingComplete ? (
+          <MainTabNavigator />
+        ) : (
+          <OnboardingNavigator />
+        )}
+      </NavigationContainer>
+      {isLocked && <AppLockScreen />}
+      {isObscured && <PrivacyOverlay />}
+    </View>
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
+  root: {
+    flex: 1,
+  },
   loadingContainer: {
     flex: 1,
-    backgroundColor: '#FAFBFC', // theme.colors.background - hardcoded to avoid load-time issues
+    backgroundColor: theme.colors.background,
   },
   loadingContent: {
     flex: 1,
@@ -61,13 +129,13 @@ const styles = StyleSheet.create({
   loadingTitle: {
     fontSize: 20, // theme.typography.fontSize.xl
     fontWeight: '700', // theme.typography.fontWeight.bold
-    color: '#111827', // theme.colors.text.primary
+    color: theme.colors.text.primary,
     marginTop: 16, // theme.spacing[4]
     marginBottom: 8, // theme.spacing[2]
   },
   loadingSubtitle: {
     fontSize: 16, // theme.typography.fontSize.base
-    color: '#6B7280', // theme.colors.text.secondary
+    color: theme.colors.text.secondary,
     textAlign: 'center',
     fontStyle: 'italic',
   },
@@ -5,7 +5,7 @@ import { createStackNavigator, StackNavigationOptions, TransitionPresets } from
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useResponsiveLayout } from '../hooks/useResponsiveLayout';
 import { BottomTabBarProps } from '@react-navigation/bottom-tabs';
-import { theme } from '../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../theme';
 import { MainTabParamList, TabParamList } from '../types/navigation';
 import { SvgIcon } from '../components';
 import { HapticsUtils } from '../utils/HapticsUtils';
@@ -24,6 +24,11 @@ import { AddReminderScreen } from '../screens/dashboard/AddReminderScreen';
 import { CertificateViewerScreen } from '../screens/cme/CertificateViewerScreen';
 import { ProfileEditScreen } from '../screens/settings/ProfileEditScreen';
 import { NotificationSettingsScreen } from '../screens/settings/NotificationSettingsScreen';
+import { SecuritySettingsScreen } from '../screens/settings/SecuritySettingsScreen';
+import { BackupSettingsScreen } from '../screens/settings/BackupSettingsScreen';
+import { ImportActivitiesScreen } from '../screens/settings/ImportActivitiesScreen';
+import { RequirementRulesScreen } from '../screens/settings/RequirementRulesScreen';
+import { CycleHistoryScreen } from '../screens/settings/CycleHistoryScreen';
 
 const Tab = createBottomTabNavigator<TabParamList>();
 const Stack = createStackNavigator<MainTabParamList>();
@@ -118,6 +123,8 @@ const modalTransition: StackNavigationOptions = {
 
 // Custom Animated Tab Bar Component
 const AnimatedTabBar: React.FC<BottomTabBarProps> = ({ state, descriptors, navigation }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
   const responsive = useResponsiveLayout();
   const translateX = useRef(new Animated.Value(0)).current;
@@ -246,13 +253,13 @@ const AnimatedTabBar: React.FC<BottomTabBarProps> = ({ state, descriptors, navig
                 {IconComponent && (
                   <IconComponent
                     focused={isFocused}
-                    color={isFocused ? '#003087' : '#374151'}
+                    color={isFocused ? theme.colors.tabActive : theme.colors.gray[700]}
                     size={isFocused ? 26 : 20}
                   />
                 )}
                 <Text style={[
                   styles.tabLabel,
-                  { color: isFocused ? '#003087' : '#374151' }
+                  { color: isFocused ? theme.colors.tabActive : theme.colors.gray[700] }
                 ]}>
                   {typeof label === 'string' ? label : ''}
                 </Text>
@@ -338,12 +345,12 @@ const TabNavigator: React.FC = () => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   tabBar: {
     flexDirection: 'row',
-    backgroundColor: '#FFFFFF',
+    backgroundColor: theme.colors.surface,
     borderTopWidth: 1,
-    borderTopColor: '#e5e7eb',
+    borderTopColor: theme.colors.border.light,
     elevation: 20,
     shadowColor: '#000000',
     shadowOffset: { width: 0, height: -4 },
@@ -357,7 +364,7 @@ const styles = StyleSheet.create({
     position: 'absolute',
     top: 4,
     height: 3,
-    backgroundColor: '#003087',
+    backgroundColor: theme.colors.tabActive,
     borderRadius: 1.5,
     zIndex: 1,
   },
@@ -455,6 +462,46 @@ export const MainTabNavigator: React.FC = () => {
           ...slideInTransition, // Horizontal slide for settings
         }}
       />
+      <Stack.Screen
+        name="SecuritySettings"
+        component={SecuritySettingsScreen}
+        options={{
+          headerShown: false,
+          ...slideInTransition, // Horizontal slide for settings
+        }}
+      />
+      <Stack.Screen
+        name="BackupSettings"
+        component={BackupSettingsScreen}
+        options={{
+          headerShown: false,
+          ...slideInTransition, // Horizontal slide for settings
+        }}
+      />
+      <Stack.Screen
+        name="ImportActivities"
+        component={ImportActivitiesScreen}
+        options={{
+          headerShown: false,
+          ...slideInTransition, // Horizontal slide for settings
+        }}
+      />
+      <Stack.Screen
+        name="RequirementRules"
+        component={RequirementRulesScreen}
+        options={{
+          headerShown: false,
+          ...slideInTransition, // Horizontal slide for settings
+        }}
+      />
+      <Stack.Screen
+        name="CycleHistory"
+        component={CycleHistoryScreen}
+        options={{
+          headerShown: false,
+          ...slideInTransition, // Horizontal slide for settings
+        }}
+      />
     </Stack.Navigator>
   );
 };
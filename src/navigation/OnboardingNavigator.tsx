@@ -1,11 +1,12 @@
 import React from 'react';
 import { createStackNavigator } from '@react-navigation/stack';
-import { theme } from '../constants/theme';
+import { useTheme } from '../theme';
 import { OnboardingStackParamList } from '../types/navigation';
 
 // Import screens (we'll create these next)
 import { WelcomeScreen } from '../screens/onboarding/WelcomeScreen';
 import { ProfessionScreen } from '../screens/onboarding/ProfessionScreen';
+import { RequirementTemplateScreen } from '../screens/onboarding/RequirementTemplateScreen';
 import { CreditSystemScreen } from '../screens/onboarding/CreditSystemScreen';
 import { AnnualTargetScreen } from '../screens/onboarding/AnnualTargetScreen';
 import { CycleStartDateScreen } from '../screens/onboarding/CycleStartDateScreen';
@@ -15,6 +16,7 @@ import { SetupCompleteScreen } from '../screens/onboarding/SetupCompleteScreen';
 const Stack = createStackNavigator<OnboardingStackParamList>();
 
 export const OnboardingNavigator: React.FC = () => {
+  const theme = useTheme();
   return (
     <Stack.Navigator
       initialRouteName="Welcome"
@@ -51,6 +53,10 @@ export const OnboardingNavigator: React.FC = () => {
         name="Profession" 
         component={ProfessionScreen}
       />
+      <Stack.Screen 
+        name="RequirementTemplate" 
+        component={RequirementTemplateScreen}
+      />
       <Stack.Screen 
         name="CreditSystem" 
         component={CreditSystemScreen}
@@ -0,0 +1,6 @@
+// Navigation outside React components, for notification routing
+import { createNavigationContainerRef } from '@react-navigation/native';
+import { MainTabParamList } from '../types/navigation';
+
+// Attached to the main navigator's container only, so it is never ready during onboarding
+export const navigationRef = createNavigationContainerRef<MainTabParamList>();
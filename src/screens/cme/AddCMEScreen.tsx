@@ -19,15 +19,17 @@ import * as FileSystem from 'expo-file-system/legacy';
 import * as DocumentPicker from 'expo-document-picker';
 import { Camera } from 'expo-camera';
 
-import { Button, Card, Input, LoadingSpinner, DatePicker, StandardHeader, SvgIcon } from '../../components';
+import { Button, Card, Chip, Input, LoadingSpinner, DatePicker, StandardHeader, SvgIcon } from '../../components';
 import { AnimatedGradientBackground, PremiumButton, PremiumCard } from '../../components/common/OnboardingComponents';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 import { useAppContext } from '../../contexts/AppContext';
 import { MainTabParamList } from '../../types/navigation';
 import { CME_CATEGORIES, FILE_PATHS, SUPPORTED_FILE_TYPES, MAX_FILE_SIZES } from '../../constants';
-import { CMEEntry } from '../../types';
+import { CMEEntry, OCRField } from '../../types';
 import { getCreditUnit } from '../../utils/creditTerminology';
+import { getEventEntryPrefill } from '../../utils/eventReminders';
 import { ThumbnailService } from '../../services/thumbnailService';
+import { OCRService } from '../../services/ocrService';
 import { databaseOperations } from '../../services/database';
 import { HapticsUtils } from '../../utils/HapticsUtils';
 import { useSound } from '../../hooks/useSound';
@@ -49,6 +51,7 @@ interface FormData {
   category: string;
   notes: string;
   certificatePath?: string;
+  licenseIds: number[]; // Empty = counts toward every license
 }
 
 interface FormErrors {
@@ -58,20 +61,50 @@ interface FormErrors {
   category?: string;
 }
 
+const FORM_TO_OCR_FIELD: Partial<Record<keyof FormData, OCRField>> = {
+  title: 'title',
+  provider: 'provider',
+  dateAttended: 'date',
+  creditsEarned: 'credits',
+  category: 'category',
+};
+
+const getOCRFields = (ocrData?: Partial<Record<OCRField, unknown>>): OCRField[] => {
+  if (!ocrData) {
+    return [];
+  }
+  return (['title', 'provider', 'date', 'credits', 'category'] as OCRField[])
+    .filter(field => ocrData[field] !== undefined && ocrData[field] !== '');
+};
+
 export const AddCMEScreen: React.FC<Props> = ({ navigation, route }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
 
   const insets = useSafeAreaInsets();
-  const { user, addCMEEntry, updateCMEEntry, refreshCertificates } = useAppContext();
+  const { user, licenses, eventReminders, addCMEEntry, updateCMEEntry, updateEventReminder, refreshCertificates } = useAppContext();
   const { playFormSubmit, playSuccess, playError, playEntryAdd } = useSound();
   
   const editEntry = route.params?.editEntry;
   const ocrData = route.params?.ocrData;
   const isEditing = !!editEntry;
 
+  // Logging an attended event - its details fill in whatever a certificate didn't
+  const findSourceEvent = (eventReminderId?: number) =>
+    eventReminderId !== undefined ? eventReminders.find(reminder => reminder.id === eventReminderId) : undefined;
+  const sourceEvent = isEditing ? undefined : findSourceEvent(route.params?.eventReminderId);
+  const eventPrefill = sourceEvent ? getEventEntryPrefill(sourceEvent) : undefined;
+
   // Helper function to parse date from OCR
   const parseOCRDate = (dateString?: string): Date => {
     if (!dateString) return new Date();
-    
+
+    // OCR dates are YYYY-MM-DD - read them as local dates so they don't shift a day
+    const isoMatch = dateString.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (isoMatch) {
+      return new Date(Number(isoMatch[1]), Number(isoMatch[2]) - 1, Number(isoMatch[3]));
+    }
+
     try {
       const parsed = new Date(dateString);
       if (!isNaN(parsed.getTime())) {
@@ -85,19 +118,31 @@ export const AddCMEScreen: React.FC<Props> = ({ navigation, route }) => {
   };
   
   const [formData, setFormData] = useState<FormData>({
-    title: editEntry?.title || ocrData?.title || '',
+    title: editEntry?.title || ocrData?.title || eventPrefill?.title || '',
     provider: editEntry?.provider || ocrData?.provider || '',
-    dateAttended: editEntry ? new Date(editEntry.dateAttended) : parseOCRDate(ocrData?.date),
-    creditsEarned: editEntry?.creditsEarned?.toString() || ocrData?.credits?.toString() || '',
+    dateAttended: editEntry ? new Date(editEntry.dateAttended) : parseOCRDate(ocrData?.date || eventPrefill?.date),
+    creditsEarned: editEntry?.creditsEarned?.toString() || ocrData?.credits?.toString() || eventPrefill?.credits?.toString() || '',
     category: editEntry?.category || ocrData?.category || CME_CATEGORIES[0],
-    notes: editEntry?.notes || '',
+    notes: editEntry?.notes || eventPrefill?.notes || '',
     certificatePath: editEntry?.certificatePath || ocrData?.certificatePath || undefined,
+    licenseIds: [],
   });
 
   const [errors, setErrors] = useState<FormErrors>({});
   const [isLoading, setIsLoading] = useState(false);
   const [cameraPermission, setCameraPermission] = useState<boolean | null>(null);
   const [isUploadingCertificate, setIsUploadingCertificate] = useState(false);
+  const [isReadingCertificate, setIsReadingCertificate] = useState(false);
+  // Fields filled from a certificate that the user has not touched yet
+  const [suggestedFields, setSuggestedFields] = useState<OCRField[]>(
+    editEntry ? [] : getOCRFields(ocrData)
+  );
+
+  // Values as of the last render, for handlers that read them after an await
+  const latestFormData = useRef(formData);
+  const latestSuggestedFields = useRef(suggestedFields);
+  latestFormData.current = formData;
+  latestSuggestedFields.current = suggestedFields;
 
   // Track if form has unsaved changes
   const initialFormData = useRef<FormData>(formData);
@@ -139,22 +184,49 @@ export const AddCMEScreen: React.FC<Props> = ({ navigation, route }) => {
   useEffect(() => {
     const currentEditEntry = route.params?.editEntry;
     const currentOcrData = route.params?.ocrData;
+    const currentEvent = currentEditEntry ? undefined : findSourceEvent(route.params?.eventReminderId);
+    const currentEventPrefill = currentEvent ? getEventEntryPrefill(currentEvent) : undefined;
 
     setFormData({
-      title: currentEditEntry?.title || currentOcrData?.title || '',
+      title: currentEditEntry?.title || currentOcrData?.title || currentEventPrefill?.title || '',
       provider: currentEditEntry?.provider || currentOcrData?.provider || '',
       dateAttended: currentEditEntry
         ? new Date(currentEditEntry.dateAttended)
-        : parseOCRDate(currentOcrData?.date),
-      creditsEarned: currentEditEntry?.creditsEarned?.toString() || currentOcrData?.credits?.toString() || '',
+        : parseOCRDate(currentOcrData?.date || currentEventPrefill?.date),
+      creditsEarned: currentEditEntry?.creditsEarned?.toString() || currentOcrData?.credits?.toString() ||
+        currentEventPrefill?.credits?.toString() || '',
       category: currentEditEntry?.category || currentOcrData?.category || CME_CATEGORIES[0],
-      notes: currentEditEntry?.notes || '',
+      notes: currentEditEntry?.notes || currentEventPrefill?.notes || '',
       certificatePath: currentEditEntry?.certificatePath || currentOcrData?.certificatePath || undefined,
+      licenseIds: [],
     });
+    setSuggestedFields(currentEditEntry ? [] : getOCRFields(currentOcrData));
     
     // Clear any errors when resetting
     setErrors({});
-  }, [route.params?.editEntry, route.params?.ocrData]);
+  }, [route.params?.editEntry, route.params?.ocrData, route.params?.eventReminderId]);
+
+  // Load which licenses the entry being edited counts toward
+  useEffect(() => {
+    const currentEditEntry = route.params?.editEntry;
+    if (!currentEditEntry) {
+      return;
+    }
+
+    let cancelled = false;
+    databaseOperations.cme.getEntryLicenseIds(currentEditEntry.id).then(result => {
+      if (cancelled || !result.success || !result.data) {
+        return;
+      }
+      const licenseIds = result.data;
+      setFormData(prev => ({ ...prev, licenseIds }));
+      initialFormData.current = { ...initialFormData.current, licenseIds };
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [route.params?.editEntry]);
 
   // Additional reset when screen gets focus (ensures clean slate for new entries)
   useFocusEffect(
@@ -172,6 +244,7 @@ export const AddCMEScreen: React.FC<Props> = ({ navigation, route }) => {
           category: CME_CATEGORIES[0],
           notes: '',
           certificatePath: undefined,
+          licenseIds: [],
         });
         setErrors({});
       } else {
@@ -249,6 +322,7 @@ export const AddCMEScreen: React.FC<Props> = ({ navigation, route }) => {
 
       if (!result.canceled) {
         await processCertificateImage(result.assets[0]);
+        await prefillFromCertificate(result.assets[0].uri);
       }
     } catch (error) {
       __DEV__ && console.error('Camera error:', error);
@@ -269,6 +343,7 @@ export const AddCMEScreen: React.FC<Props> = ({ navigation, route }) => {
 
       if (!result.canceled) {
         await processCertificateImage(result.assets[0]);
+        await prefillFromCertificate(result.assets[0].uri);
       }
     } catch (error) {
       __DEV__ && console.error('Gallery error:', error);
@@ -356,6 +431,56 @@ export const AddCMEScreen: React.FC<Props> = ({ navigation, route }) => {
     }
   };
 
+  // Read the certificate on the device and fill in fields the user hasn't entered yet.
+  // Filled fields are marked as suggestions until the user edits them.
+  const prefillFromCertificate = async (imageUri: string) => {
+    if (isEditing || !(await OCRService.isAvailable())) {
+      return;
+    }
+
+    try {
+      setIsReadingCertificate(true);
+      const result = await OCRService.extractText(imageUri);
+      const extracted = result.extractedData;
+      if (!extracted) {
+        return;
+      }
+
+      // Reading takes a while, so start from what the user and the certificate upload left
+      const current = latestFormData.current;
+      const next = { ...current };
+      const filled: OCRField[] = [];
+      if (extracted.title && !current.title.trim()) {
+        next.title = extracted.title;
+        filled.push('title');
+      }
+      if (extracted.provider && !current.provider.trim()) {
+        next.provider = extracted.provider;
+        filled.push('provider');
+      }
+      if (extracted.date && current.dateAttended.toDateString() === new Date().toDateString()) {
+        next.dateAttended = parseOCRDate(extracted.date);
+        filled.push('date');
+      }
+      if (extracted.credits && !current.creditsEarned.trim()) {
+        next.creditsEarned = extracted.credits.toString();
+        filled.push('credits');
+      }
+      if (extracted.category && current.category === CME_CATEGORIES[0]) {
+        next.category = extracted.category;
+        filled.push('category');
+      }
+
+      setFormData(next);
+      setSuggestedFields(Array.from(new Set([...latestSuggestedFields.current, ...filled])));
+    } catch (error) {
+      // Reading the certificate is a convenience - the user can always type the details
+      __DEV__ && console.warn('[WARN] Certificate text recognition failed:', error);
+    } finally {
+      setIsReadingCertificate(false);
+    }
+  };
+
   const handleChooseFiles = async () => {
     try {
       setIsUploadingCertificate(true);
@@ -593,6 +718,7 @@ export const AddCMEScreen: React.FC<Props> = ({ navigation, route }) => {
         category: formData.category,
         notes: formData.notes.trim() || undefined,
         certificatePath: formData.certificatePath,
+        licenseIds: formData.licenseIds,
       };
 
       let success = false;
@@ -603,6 +729,11 @@ export const AddCMEScreen: React.FC<Props> = ({ navigation, route }) => {
       } else {
 
         success = await addCMEEntry(entryData);
+
+        // The event no longer asks "Did you attend?"
+        if (success && sourceEvent) {
+          await updateEventReminder(sourceEvent.id, { attendanceStatus: 'logged' });
+        }
       }
 
       if (success) {
@@ -647,8 +778,23 @@ export const AddCMEScreen: React.FC<Props> = ({ navigation, route }) => {
     }
   };
 
+  const toggleLicense = (licenseId: number) => {
+    setFormData(prev => ({
+      ...prev,
+      licenseIds: prev.licenseIds.includes(licenseId)
+        ? prev.licenseIds.filter(id => id !== licenseId)
+        : [...prev.licenseIds, licenseId],
+    }));
+  };
+
   const updateFormData = (field: keyof FormData, value: any) => {
     setFormData(prev => ({ ...prev, [field]: value }));
+
+    // Once edited, a field is the user's own value rather than a suggestion
+    const ocrField = FORM_TO_OCR_FIELD[field];
+    if (ocrField) {
+      setSuggestedFields(prev => prev.filter(suggested => suggested !== ocrField));
+    }
     
     // Real-time validation feedback
     const newErrors: Partial<FormErrors> = {};
@@ -738,10 +884,23 @@ export const AddCMEScreen: React.FC<Props> = ({ navigation, route }) => {
                                 shadowOpacity: Number(formShadowAnim.interpolate({ inputRange: [0, 1], outputRange: [0, 0.15] })),
               }
             ]}>
+          {(suggestedFields.length > 0 || isReadingCertificate) && (
+            <View style={styles.suggestionBanner}>
+              <SvgIcon name="document" size={14} color={theme.colors.warningText} />
+              <Text style={styles.suggestionBannerText}>
+                {isReadingCertificate
+                  ? 'Reading your certificate...'
+                  : 'Some fields were filled in from your certificate. Check the ones marked Suggested before saving.'}
+              </Text>
+            </View>
+          )}
+
           {/* Row 1: Title and Provider */}
           <View style={styles.row}>
             <View style={[styles.fieldContainer, styles.fieldHalf]}>
-              <Text style={styles.label}>Title *</Text>
+              <Text style={styles.label}>
+                Title *{suggestedFields.includes('title') && <Text style={styles.suggestedTag}>  Suggested</Text>}
+              </Text>
               <Input
                 value={formData.title}
                 onChangeText={(value) => updateFormData('title', value)}
@@ -755,7 +914,9 @@ export const AddCMEScreen: React.FC<Props> = ({ navigation, route }) => {
             </View>
 
             <View style={[styles.fieldContainer, styles.fieldHalf]}>
-              <Text style={styles.label}>Provider *</Text>
+              <Text style={styles.label}>
+                Provider *{suggestedFields.includes('provider') && <Text style={styles.suggestedTag}>  Suggested</Text>}
+              </Text>
               <Input
                 value={formData.provider}
                 onChangeText={(value) => updateFormData('provider', value)}
@@ -772,7 +933,9 @@ export const AddCMEScreen: React.FC<Props> = ({ navigation, route }) => {
           {/* Row 2: Date and Credit Amount */}
           <View style={styles.row}>
             <View style={[styles.fieldContainer, styles.fieldHalf]}>
-              <Text style={styles.label}>Date *</Text>
+              <Text style={styles.label}>
+                Date *{suggestedFields.includes('date') && <Text style={styles.suggestedTag}>  Suggested</Text>}
+              </Text>
               <DatePicker
                 value={formData.dateAttended}
                 onDateChange={handleDateChange}
@@ -782,7 +945,10 @@ export const AddCMEScreen: React.FC<Props> = ({ navigation, route }) => {
             </View>
 
             <View style={[styles.fieldContainer, styles.fieldHalf]}>
-              <Text style={styles.label}>{user?.creditSystem ? getCreditUnit(user.creditSystem) : 'Credits'} *</Text>
+              <Text style={styles.label}>
+                {user?.creditSystem ? getCreditUnit(user.creditSystem) : 'Credits'} *
+                {suggestedFields.includes('credits') && <Text style={styles.suggestedTag}>  Suggested</Text>}
+              </Text>
               <Input
                 value={formData.creditsEarned}
                 onChangeText={(value) => updateFormData('creditsEarned', value)}
@@ -796,7 +962,9 @@ export const AddCMEScreen: React.FC<Props> = ({ navigation, route }) => {
 
           {/* Row 3: Category */}
           <View style={styles.fieldContainer}>
-            <Text style={styles.label}>Category *</Text>
+            <Text style={styles.label}>
+              Category *{suggestedFields.includes('category') && <Text style={styles.suggestedTag}>  Suggested</Text>}
+            </Text>
             <View style={styles.pickerContainer}>
               <Picker
                 selectedValue={formData.category}
@@ -810,6 +978,28 @@ export const AddCMEScreen: React.FC<Props> = ({ navigation, route }) => {
             </View>
           </View>
 
+          {/* Counts toward - only worth asking when there is more than one license */}
+          {licenses.length > 1 && (
+            <View style={styles.fieldContainer}>
+              <Text style={styles.label}>Counts Toward</Text>
+              <View style={styles.licenseChips}>
+                <Chip
+                  label="All Licenses"
+                  variant={formData.licenseIds.length === 0 ? 'selected' : 'default'}
+                  onPress={() => updateFormData('licenseIds', [])}
+                />
+                {licenses.map((license) => (
+                  <Chip
+                    key={license.id}
+                    label={license.licenseType}
+                    variant={formData.licenseIds.includes(license.id) ? 'selected' : 'default'}
+                    onPress={() => toggleLicense(license.id)}
+                  />
+                ))}
+              </View>
+            </View>
+          )}
+
           {/* Row 4: Notes */}
           <View style={styles.fieldContainer}>
             <Text style={styles.label}>Additional Notes</Text>
@@ -948,7 +1138,7 @@ export const AddCMEScreen: React.FC<Props> = ({ navigation, route }) => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: theme.colors.background,
@@ -994,6 +1184,25 @@ const styles = StyleSheet.create({
     color: theme.colors.text.primary,
     marginBottom: theme.spacing[2],
   },
+  suggestedTag: {
+    fontSize: theme.typography.fontSize.xs,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.warningText,
+  },
+  suggestionBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing[2],
+    backgroundColor: theme.colors.warningBackground,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing[3],
+    marginBottom: theme.spacing[4],
+  },
+  suggestionBannerText: {
+    flex: 1,
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.warningText,
+  },
   
   // Compact Inputs
   compactInput: {
@@ -1029,6 +1238,13 @@ const styles = StyleSheet.create({
     minHeight: 50,
     marginVertical: 0,
   },
+
+  // License attribution
+  licenseChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing[2],
+  },
   
   // Button Row
   buttonRow: {
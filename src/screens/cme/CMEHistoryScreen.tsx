@@ -16,7 +16,7 @@ import { StackNavigationProp } from '@react-navigation/stack';
 
 import { Card, Button, Input, LoadingSpinner, StandardHeader, SvgIcon } from '../../components';
 import { AnimatedGradientBackground, PremiumButton, PremiumCard } from '../../components/common/OnboardingComponents';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 import { useAppContext } from '../../contexts/AppContext';
 import { CMEStackParamList } from '../../types/navigation';
 import { CMEEntry } from '../../types';
@@ -30,6 +30,8 @@ interface Props {
 }
 
 export const CMEHistoryScreen: React.FC<Props> = ({ navigation }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
 
   const insets = useSafeAreaInsets();
   const { 
@@ -38,6 +40,7 @@ export const CMEHistoryScreen: React.FC<Props> = ({ navigation }) => {
     refreshCMEData,
     deleteCMEEntry,
     loadAllCMEEntries,
+    creditAdjustments,
     user 
   } = useAppContext();
   
@@ -288,6 +291,13 @@ export const CMEHistoryScreen: React.FC<Props> = ({ navigation }) => {
         <View style={styles.entryCredits}>
           <Text style={styles.creditsValue}>{item.creditsEarned}</Text>
           <Text style={styles.creditsLabel}>{user?.creditSystem ? getCreditUnit(user.creditSystem) : 'Credits'}</Text>
+          {creditAdjustments[item.id] !== undefined && (
+            <View style={styles.capBadge}>
+              <Text style={styles.capBadgeText}>
+                Counts {creditAdjustments[item.id]} of {item.creditsEarned}
+              </Text>
+            </View>
+          )}
         </View>
       </View>
 
@@ -321,7 +331,7 @@ export const CMEHistoryScreen: React.FC<Props> = ({ navigation }) => {
         </TouchableOpacity>
       </View>
     </Card>
-  ), [navigation, user, handleEditEntry, handleDeleteEntry]);
+  ), [navigation, user, handleEditEntry, handleDeleteEntry, styles]);
 
   const renderYearButton = (year: number) => (
     <TouchableOpacity
@@ -461,7 +471,7 @@ export const CMEHistoryScreen: React.FC<Props> = ({ navigation }) => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: 'transparent', // Let AnimatedGradientBackground show through
@@ -703,6 +713,18 @@ const styles = StyleSheet.create({
     fontSize: theme.typography.fontSize.xs,
     color: theme.colors.text.secondary,
   },
+  capBadge: {
+    marginTop: theme.spacing[1],
+    paddingHorizontal: theme.spacing[2],
+    paddingVertical: 2,
+    borderRadius: theme.borderRadius.sm,
+    backgroundColor: theme.colors.warningBackground,
+  },
+  capBadgeText: {
+    fontSize: theme.typography.fontSize.xs,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.warningText,
+  },
   entryNotes: {
     fontSize: theme.typography.fontSize.sm,
     color: theme.colors.text.secondary,
@@ -17,7 +17,7 @@ import Animated, {
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
 import * as Sharing from 'expo-sharing';
-import { theme } from '../../constants/theme';
+import { AppTheme, useThemedStyles } from '../../theme';
 import { MainTabParamList } from '../../types/navigation';
 import { StandardHeader } from '../../components';
 
@@ -32,6 +32,7 @@ interface Props {
 const AnimatedImage = Animated.createAnimatedComponent(ScrollView);
 
 export const CertificateViewerScreen: React.FC<Props> = ({ navigation, route }) => {
+  const styles = useThemedStyles(createStyles);
   const { imageUri } = route.params;
   
   const scale = useSharedValue(1);
@@ -120,7 +121,7 @@ export const CertificateViewerScreen: React.FC<Props> = ({ navigation, route })
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: '#000000',
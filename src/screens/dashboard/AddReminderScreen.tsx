@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -8,7 +8,8 @@ import {
   KeyboardAvoidingView,
   Platform,
   ScrollView,
-  Animated
+  Animated,
+  Switch
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useFocusEffect } from '@react-navigation/native';
@@ -17,16 +18,24 @@ import { RouteProp } from '@react-navigation/native';
 import { Card } from '../../components/common/Card';
 import { Button } from '../../components/common/Button';
 import { Input } from '../../components/common/Input';
+import { Chip } from '../../components/common/Chip';
 import { StandardHeader } from '../../components/common/StandardHeader';
 import { AnimatedGradientBackground, PremiumButton, PremiumCard } from '../../components/common/OnboardingComponents';
 import { ModernDatePicker } from '../../components/common/ModernDatePicker';
 import { SvgIcon } from '../../components/common/SvgIcon';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 import { useAppContext } from '../../contexts/AppContext';
-import { CMEEventReminder } from '../../types';
+import { CMEEventReminder, EventDeadlineType } from '../../types';
+import { DEFAULT_EVENT_REMINDER_OFFSETS, EVENT_REMINDER_OFFSETS } from '../../constants';
+import {
+  EVENT_DEADLINE_LABELS,
+  formatEventDate,
+  getEventLastDay,
+  parseEventDate,
+} from '../../utils/eventReminders';
 
 type RootStackParamList = {
-  AddReminder: undefined;
+  AddReminder: { reminderId?: number } | undefined;
   Dashboard: undefined;
 };
 
@@ -38,13 +47,67 @@ interface Props {
   route: AddReminderScreenRouteProp;
 }
 
-export const AddReminderScreen: React.FC<Props> = ({ navigation }) => {
+// A deadline being edited - the key keeps rows stable while they are added and removed
+interface DeadlineDraft {
+  key: number;
+  type: EventDeadlineType;
+  date: Date;
+  label: string;
+}
+
+const DEADLINE_TYPES: EventDeadlineType[] = ['abstract', 'early_bird', 'registration', 'other'];
+
+const getOffsetLabel = (days: number): string => {
+  switch (days) {
+    case 0:
+      return 'Day of';
+    case 1:
+      return '1 day before';
+    case 7:
+      return '1 week before';
+    case 14:
+      return '2 weeks before';
+    case 30:
+      return '1 month before';
+    default:
+      return `${days} days before`;
+  }
+};
+
+export const AddReminderScreen: React.FC<Props> = ({ navigation, route }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
-  const { addEventReminder } = useAppContext();
+  const { eventReminders, addEventReminder, updateEventReminder } = useAppContext();
+
+  const reminderId = route.params?.reminderId;
+  const editReminder = useMemo(
+    () => (reminderId !== undefined ? eventReminders.find(reminder => reminder.id === reminderId) : undefined),
+    [eventReminders, reminderId]
+  );
+  const isEditing = !!editReminder;
   
-  const [eventName, setEventName] = useState('');
+  const [eventName, setEventName] = useState(editReminder?.eventName ?? '');
   const [eventDate, setEventDate] = useState<Date>(
-    new Date(new Date().getTime() + 7 * 24 * 60 * 60 * 1000) // Default to 1 week from now
+    parseEventDate(editReminder?.eventDate) ??
+      new Date(new Date().getTime() + 7 * 24 * 60 * 60 * 1000) // Default to 1 week from now
+  );
+  const [isMultiDay, setIsMultiDay] = useState(!!editReminder?.endDate);
+  const [endDate, setEndDate] = useState<Date>(parseEventDate(editReminder?.endDate) ?? eventDate);
+  const [location, setLocation] = useState(editReminder?.location ?? '');
+  const [url, setUrl] = useState(editReminder?.url ?? '');
+  const [expectedCredits, setExpectedCredits] = useState(editReminder?.expectedCredits?.toString() ?? '');
+  const [deadlines, setDeadlines] = useState<DeadlineDraft[]>(
+    (editReminder?.deadlines ?? []).map((deadline, index) => ({
+      key: index,
+      type: deadline.type,
+      date: parseEventDate(deadline.date) ?? new Date(),
+      label: deadline.label ?? '',
+    }))
+  );
+  const nextDeadlineKey = useRef(deadlines.length);
+  const [reminderOffsets, setReminderOffsets] = useState<number[]>(
+    editReminder ? editReminder.reminderOffsets : DEFAULT_EVENT_REMINDER_OFFSETS
   );
   const [isSubmitting, setIsSubmitting] = useState(false);
   
@@ -103,26 +166,97 @@ export const AddReminderScreen: React.FC<Props> = ({ navigation }) => {
 
   const isFormValid = eventName.trim() !== '' && eventDate instanceof Date;
 
+  const toggleOffset = (days: number) => {
+    setReminderOffsets(prev => (prev.includes(days)
+      ? prev.filter(offset => offset !== days)
+      : [...prev, days].sort((a, b) => b - a)));
+  };
+
+  const addDeadline = (type: EventDeadlineType) => {
+    // Default to a week out, but never after the event starts
+    const weekOut = new Date();
+    weekOut.setDate(weekOut.getDate() + 7);
+    const date = weekOut < eventDate ? weekOut : new Date(eventDate);
+
+    setDeadlines(prev => [...prev, { key: nextDeadlineKey.current++, type, date, label: '' }]);
+  };
+
+  const updateDeadline = (key: number, changes: Partial<DeadlineDraft>) => {
+    setDeadlines(prev => prev.map(deadline => (deadline.key === key ? { ...deadline, ...changes } : deadline)));
+  };
+
+  const removeDeadline = (key: number) => {
+    setDeadlines(prev => prev.filter(deadline => deadline.key !== key));
+  };
+
+  const validateForm = (): string | null => {
+    const startDay = formatEventDate(eventDate);
+    const lastDay = isMultiDay && formatEventDate(endDate) > startDay ? formatEventDate(endDate) : startDay;
+    if (isMultiDay && formatEventDate(endDate) < startDay) {
+      return 'The end date cannot be before the start date.';
+    }
+    const lateDeadline = deadlines.find(deadline => formatEventDate(deadline.date) > lastDay);
+    if (lateDeadline) {
+      return `The ${EVENT_DEADLINE_LABELS[lateDeadline.type].toLowerCase()} deadline cannot be after the event ends.`;
+    }
+    if (expectedCredits.trim() !== '') {
+      const credits = parseFloat(expectedCredits);
+      if (isNaN(credits) || credits <= 0) {
+        return 'Expected credits must be a positive number.';
+      }
+    }
+    return null;
+  };
+
   const handleSubmit = async () => {
     if (!isFormValid) {
       Alert.alert('Validation Error', 'Please fill in all required fields.');
       return;
     }
 
+    const validationError = validateForm();
+    if (validationError) {
+      Alert.alert('Validation Error', validationError);
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
+      const endDay = isMultiDay && formatEventDate(endDate) > formatEventDate(eventDate)
+        ? formatEventDate(endDate)
+        : undefined;
+      const lastDay = getEventLastDay({ eventDate: formatEventDate(eventDate), endDate: endDay });
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+
       const reminderData: Omit<CMEEventReminder, 'id' | 'createdAt' | 'updatedAt'> = {
         eventName: eventName.trim(),
-        eventDate: eventDate.toISOString().split('T')[0], // Convert to YYYY-MM-DD
+        eventDate: formatEventDate(eventDate),
+        endDate: endDay,
+        location: location.trim() || undefined,
+        url: url.trim() || undefined,
+        expectedCredits: expectedCredits.trim() ? parseFloat(expectedCredits) : undefined,
+        deadlines: deadlines
+          .map(deadline => ({
+            type: deadline.type,
+            date: formatEventDate(deadline.date),
+            label: deadline.type === 'other' ? deadline.label.trim() || undefined : undefined,
+          }))
+          .sort((a, b) => a.date.localeCompare(b.date)),
+        reminderOffsets,
+        // Moving an event into the future asks about attendance again once it is over
+        attendanceStatus: editReminder && lastDay && lastDay < today ? editReminder.attendanceStatus : 'pending',
       };
 
-      const success = await addEventReminder(reminderData);
+      const success = editReminder
+        ? await updateEventReminder(editReminder.id, reminderData)
+        : await addEventReminder(reminderData);
 
       if (success) {
         Alert.alert(
           'Success',
-          'Event reminder added successfully!',
+          isEditing ? 'Event reminder updated successfully!' : 'Event reminder added successfully!',
           [
             {
               text: 'OK',
@@ -131,10 +265,10 @@ export const AddReminderScreen: React.FC<Props> = ({ navigation }) => {
           ]
         );
       } else {
-        Alert.alert('Error', 'Failed to add event reminder. Please try again.');
+        Alert.alert('Error', `Failed to ${isEditing ? 'update' : 'add'} event reminder. Please try again.`);
       }
     } catch (error) {
-      __DEV__ && console.error('Error adding reminder:', error);
+      __DEV__ && console.error('Error saving reminder:', error);
       Alert.alert('Error', 'An unexpected error occurred. Please try again.');
     } finally {
       setIsSubmitting(false);
@@ -146,7 +280,7 @@ export const AddReminderScreen: React.FC<Props> = ({ navigation }) => {
       <AnimatedGradientBackground />
       
       <StandardHeader
-        title="Add Event Reminder"
+        title={isEditing ? 'Edit Event Reminder' : 'Add Event Reminder'}
         onBackPress={() => navigation.goBack()}
         showBackButton={true}
       />
@@ -207,15 +341,145 @@ export const AddReminderScreen: React.FC<Props> = ({ navigation }) => {
 
             {/* Event Date */}
             <View style={styles.fieldContainer}>
-              <Text style={styles.fieldLabel}>Event Date *</Text>
+              <Text style={styles.fieldLabel}>{isMultiDay ? 'Start Date *' : 'Event Date *'}</Text>
               <ModernDatePicker
                 value={eventDate}
                 onDateChange={setEventDate}
-                minimumDate={new Date()} // Can't set reminders for past events
+                minimumDate={isEditing ? undefined : new Date()} // New reminders are for upcoming events
                 maximumDate={new Date(new Date().setFullYear(new Date().getFullYear() + 5))} // Allow up to 5 years in future
                 style={styles.dateButton}
               />
             </View>
+
+            {/* Multi-day events */}
+            <View style={styles.switchRow}>
+              <Text style={styles.fieldLabel}>Multi-day event</Text>
+              <Switch
+                value={isMultiDay}
+                onValueChange={(enabled) => {
+                  setIsMultiDay(enabled);
+                  if (enabled && endDate < eventDate) {
+                    setEndDate(eventDate);
+                  }
+                }}
+                trackColor={{ false: theme.colors.gray.light, true: theme.colors.primary }}
+                thumbColor={theme.colors.background}
+              />
+            </View>
+            {isMultiDay && (
+              <View style={styles.fieldContainer}>
+                <Text style={styles.fieldLabel}>End Date</Text>
+                <ModernDatePicker
+                  value={endDate}
+                  onDateChange={setEndDate}
+                  minimumDate={eventDate}
+                  maximumDate={new Date(new Date().setFullYear(new Date().getFullYear() + 5))}
+                  style={styles.dateButton}
+                />
+              </View>
+            )}
+
+            {/* Location */}
+            <View style={styles.fieldContainer}>
+              <Text style={styles.fieldLabel}>Location</Text>
+              <Input
+                value={location}
+                onChangeText={setLocation}
+                placeholder="e.g., Boston Convention Center or Online"
+                style={styles.input}
+                autoCapitalize="words"
+              />
+            </View>
+
+            {/* Website */}
+            <View style={styles.fieldContainer}>
+              <Text style={styles.fieldLabel}>Website</Text>
+              <Input
+                value={url}
+                onChangeText={setUrl}
+                placeholder="https://"
+                style={styles.input}
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+              />
+            </View>
+
+            {/* Expected Credits */}
+            <View style={styles.fieldContainer}>
+              <Text style={styles.fieldLabel}>Expected Credits</Text>
+              <Input
+                value={expectedCredits}
+                onChangeText={setExpectedCredits}
+                placeholder="e.g., 12"
+                style={styles.input}
+                keyboardType="decimal-pad"
+              />
+            </View>
+
+            {/* Deadlines */}
+            <View style={styles.fieldContainer}>
+              <Text style={styles.fieldLabel}>Deadlines</Text>
+              {deadlines.map((deadline) => (
+                <View key={deadline.key} style={styles.deadlineRow}>
+                  <View style={styles.deadlineHeader}>
+                    <Text style={styles.deadlineTitle}>{EVENT_DEADLINE_LABELS[deadline.type]}</Text>
+                    <TouchableOpacity
+                      onPress={() => removeDeadline(deadline.key)}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Remove ${EVENT_DEADLINE_LABELS[deadline.type]} deadline`}
+                      hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                    >
+                      <SvgIcon name="close" size={18} color={theme.colors.text.secondary} />
+                    </TouchableOpacity>
+                  </View>
+                  {deadline.type === 'other' && (
+                    <Input
+                      value={deadline.label}
+                      onChangeText={(label) => updateDeadline(deadline.key, { label })}
+                      placeholder="e.g., Hotel block booking"
+                      style={styles.input}
+                    />
+                  )}
+                  <ModernDatePicker
+                    value={deadline.date}
+                    onDateChange={(date) => updateDeadline(deadline.key, { date })}
+                    maximumDate={isMultiDay ? endDate : eventDate}
+                    style={styles.dateButton}
+                  />
+                </View>
+              ))}
+              <View style={styles.offsetGrid}>
+                {DEADLINE_TYPES.map((type) => (
+                  <Chip
+                    key={type}
+                    label={`+ ${type === 'other' ? 'Other' : EVENT_DEADLINE_LABELS[type]}`}
+                    onPress={() => addDeadline(type)}
+                  />
+                ))}
+              </View>
+              <Text style={styles.fieldHint}>You'll be reminded the day before each deadline.</Text>
+            </View>
+
+            {/* Reminder Offsets */}
+            <View style={styles.fieldContainer}>
+              <Text style={styles.fieldLabel}>Remind Me</Text>
+              <View style={styles.offsetGrid}>
+                {EVENT_REMINDER_OFFSETS.map((days) => (
+                  <Chip
+                    key={days}
+                    label={getOffsetLabel(days)}
+                    variant={reminderOffsets.includes(days) ? 'selected' : 'default'}
+                    onPress={() => toggleOffset(days)}
+                  />
+                ))}
+              </View>
+              {reminderOffsets.length === 0 && (
+                <Text style={styles.fieldHint}>
+                  No reminders picked - your default from Notification Settings will be used.
+                </Text>
+              )}
+            </View>
           </View>
 
           {/* Form Actions */}
@@ -228,7 +492,7 @@ export const AddReminderScreen: React.FC<Props> = ({ navigation }) => {
             />
             
             <PremiumButton
-              title={isSubmitting ? 'Adding...' : 'Save'}
+              title={isSubmitting ? (isEditing ? 'Saving...' : 'Adding...') : 'Save'}
               onPress={handleSubmit}
               disabled={!isFormValid || isSubmitting}
               variant="primary"
@@ -268,7 +532,7 @@ export const AddReminderScreen: React.FC<Props> = ({ navigation }) => {
             You can track all your upcoming learning opportunities in one place.
           </Text>
           <Text style={styles.infoNote}>
-            Note: Push notifications for reminders will be available in a future update.
+            Once the event is over, we'll ask whether you attended so you can log it as a CME entry.
           </Text>
             </PremiumCard>
           </Animated.View>
@@ -281,7 +545,7 @@ export const AddReminderScreen: React.FC<Props> = ({ navigation }) => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: 'transparent', // Let AnimatedGradientBackground show through
@@ -299,7 +563,7 @@ const styles = StyleSheet.create({
   formCard: {
     margin: theme.spacing[4],
     padding: theme.spacing[5],
-    backgroundColor: '#FFFFFF',
+    backgroundColor: theme.colors.surface,
     borderRadius: theme.borderRadius.xl, // Premium card
     // Shadow will be handled by animation interpolation
     shadowColor: '#000',
@@ -339,6 +603,40 @@ const styles = StyleSheet.create({
   input: {
     // Input styling handled by component
   },
+  fieldHint: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[2],
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: theme.spacing[3],
+  },
+  offsetGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing[2],
+  },
+  deadlineRow: {
+    gap: theme.spacing[2],
+    padding: theme.spacing[3],
+    marginBottom: theme.spacing[3],
+    borderWidth: 1,
+    borderColor: theme.colors.border.light,
+    borderRadius: theme.borderRadius.lg,
+  },
+  deadlineHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  deadlineTitle: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
 
   // Date Picker Button
   dateButton: {
@@ -368,7 +666,7 @@ const styles = StyleSheet.create({
     marginHorizontal: theme.spacing[4],
     marginBottom: theme.spacing[4],
     padding: theme.spacing[4],
-    backgroundColor: '#FFFFFF',
+    backgroundColor: theme.colors.surface,
     borderRadius: 16,
     borderLeftWidth: 4,
     borderLeftColor: theme.colors.primary,
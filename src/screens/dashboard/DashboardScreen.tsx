@@ -6,9 +6,10 @@ import { useFocusEffect } from '@react-navigation/native';
 import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import { LoadingSpinner, SvgIcon, StandardHeader, LoadingState, ErrorBoundary, Button } from '../../components';
 import { AnimatedGradientBackground } from '../../components/common/OnboardingComponents';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 import { useAppContext } from '../../contexts/AppContext';
 import { MainTabParamList } from '../../types/navigation';
+import { CMEEventReminder } from '../../types';
 import { NotificationService } from '../../services/notifications';
 import { useSound } from '../../hooks/useSound';
 
@@ -30,6 +31,8 @@ interface Props {
 }
 
 export const DashboardScreen: React.FC<Props> = ({ navigation }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
   const responsive = useResponsiveLayout();
   const { playButtonTap, playSuccess, playError, playRefresh } = useSound();
@@ -37,9 +40,9 @@ export const DashboardScreen: React.FC<Props> = ({ navigation }) => {
     user,
     currentYearProgress,
     recentCMEEntries,
-    totalCredits,
     licenses,
     eventReminders,
+    requirementBreakdowns,
     isInitializing,
     isLoadingUser,
     isLoadingCME,
@@ -47,6 +50,8 @@ export const DashboardScreen: React.FC<Props> = ({ navigation }) => {
     isLoadingReminders,
     error,
     refreshAllData,
+    refreshNotifications,
+    updateEventReminder,
     clearError,
   } = useAppContext();
 
@@ -206,6 +211,15 @@ export const DashboardScreen: React.FC<Props> = ({ navigation }) => {
     }, [progressGradient1, progressGradient2, progressGradient3])
   );
 
+  // A past event the user didn't attend stops asking about attendance
+  const handleDismissAttendance = async (reminder: CMEEventReminder) => {
+    const success = await updateEventReminder(reminder.id, { attendanceStatus: 'dismissed' });
+    if (!success) {
+      await playError();
+      Alert.alert('Error', 'Failed to update the event. Please try again.');
+    }
+  };
+
   // Handle setting license reminders
   const handleSetLicenseReminders = async (license: any) => {
     try {
@@ -238,12 +252,7 @@ export const DashboardScreen: React.FC<Props> = ({ navigation }) => {
 
       await NotificationService.updateSettings(updatedSettings);
 
-      await NotificationService.refreshAllNotifications(
-        user || undefined,
-        licenses,
-        eventReminders,
-        totalCredits
-      );
+      await refreshNotifications();
 
       await playSuccess();
       Alert.alert(
@@ -285,7 +294,7 @@ export const DashboardScreen: React.FC<Props> = ({ navigation }) => {
     return (
       <View style={[styles.container, styles.centerContent]}>
         <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
-          <SvgIcon name="warning" size={20} color="#EF4444" />
+          <SvgIcon name="warning" size={20} color={theme.colors.error} />
           <Text style={styles.errorText}>{error}</Text>
         </View>
         <Button
@@ -377,6 +386,7 @@ export const DashboardScreen: React.FC<Props> = ({ navigation }) => {
               <ProgressCard
                 currentYearProgress={currentYearProgress}
                 user={user}
+                requirementBreakdowns={requirementBreakdowns}
                 progressGradient1={progressGradient1}
                 progressGradient2={progressGradient2}
                 progressGradient3={progressGradient3}
@@ -445,6 +455,9 @@ export const DashboardScreen: React.FC<Props> = ({ navigation }) => {
                 remindersCardAnim={remindersCardAnim}
                 remindersShadowAnim={remindersShadowAnim}
                 onAddReminder={() => (navigation as any).navigate('AddReminder')}
+                onEditReminder={(reminder) => (navigation as any).navigate('AddReminder', { reminderId: reminder.id })}
+                onLogAttendance={(reminder) => (navigation as any).navigate('AddCME', { eventReminderId: reminder.id })}
+                onDismissAttendance={handleDismissAttendance}
               />
             </Animated.View>
 
@@ -540,7 +553,7 @@ export const DashboardScreen: React.FC<Props> = ({ navigation }) => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: theme.colors.background,
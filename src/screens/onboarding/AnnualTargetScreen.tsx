@@ -10,7 +10,7 @@ import { CreditSystem } from '../../types';
 import { getCreditTerminology } from '../../utils/creditTerminology';
 import { userOperations } from '../../services/database';
 import { AnimatedGradientBackground, PremiumButton, PremiumCard } from '../../components/common/OnboardingComponents';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 
 type AnnualTargetScreenNavigationProp = StackNavigationProp<OnboardingStackParamList, 'AnnualTarget'>;
 
@@ -22,6 +22,8 @@ const COMMON_REQUIREMENTS = [20, 25, 30, 40, 50];
 const TIME_PERIODS = [1, 2, 3, 5];
 
 export const AnnualTargetScreen: React.FC<Props> = ({ navigation }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
   const [customTarget, setCustomTarget] = useState<string>('');
   const [customPeriod, setCustomPeriod] = useState<string>('');
@@ -194,7 +196,7 @@ export const AnnualTargetScreen: React.FC<Props> = ({ navigation }) => {
           },
         ]}
       >
-        <ProgressIndicator currentStep={3} totalSteps={5} showTitle={false} />
+        <ProgressIndicator currentStep={4} totalSteps={6} showTitle={false} />
       </Animated.View>
 
       <ScrollView 
@@ -213,7 +215,7 @@ export const AnnualTargetScreen: React.FC<Props> = ({ navigation }) => {
         >
           <View style={styles.iconContainer}>
             <LinearGradient
-              colors={['#667EEA', '#764BA2']}
+              colors={[theme.colors.brand.primary, theme.colors.brand.secondary]}
               style={styles.headerIcon}
               start={{ x: 0, y: 0 }}
               end={{ x: 1, y: 1 }}
@@ -302,7 +304,7 @@ export const AnnualTargetScreen: React.FC<Props> = ({ navigation }) => {
                 {selectedTarget === 'custom' ? (
                   <TextInput
                     placeholder="0"
-                    placeholderTextColor="#A0AEC0"
+                    placeholderTextColor={theme.colors.text.disabled}
                     value={customTarget || ''}
                     onChangeText={handleCustomTargetInput}
                     keyboardType="numeric"
@@ -399,7 +401,7 @@ export const AnnualTargetScreen: React.FC<Props> = ({ navigation }) => {
                 {selectedPeriod === 'custom' ? (
                   <TextInput
                     placeholder="0"
-                    placeholderTextColor="#A0AEC0"
+                    placeholderTextColor={theme.colors.text.disabled}
                     value={customPeriod || ''}
                     onChangeText={handleCustomPeriodInput}
                     keyboardType="numeric"
@@ -478,7 +480,7 @@ export const AnnualTargetScreen: React.FC<Props> = ({ navigation }) => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
   },
@@ -508,7 +510,7 @@ const styles = StyleSheet.create({
     borderRadius: 14,
     justifyContent: 'center',
     alignItems: 'center',
-    shadowColor: '#667EEA',
+    shadowColor: theme.colors.brand.primary,
     shadowOffset: { width: 0, height: 4 },
     shadowOpacity: 0.3,
     shadowRadius: 12,
@@ -520,14 +522,14 @@ const styles = StyleSheet.create({
   title: {
     fontSize: 24,
     fontWeight: '700',
-    color: '#1A202C',
+    color: theme.colors.text.primary,
     textAlign: 'center',
     marginBottom: 8,
     letterSpacing: -0.5,
   },
   subtitle: {
     fontSize: 15,
-    color: '#4A5568',
+    color: theme.colors.text.secondary,
     textAlign: 'center',
     lineHeight: 22,
     paddingHorizontal: 8,
@@ -538,7 +540,7 @@ const styles = StyleSheet.create({
   sectionTitle: {
     fontSize: 16,
     fontWeight: '600',
-    color: '#1A202C',
+    color: theme.colors.text.primary,
     marginBottom: 12,
   },
   optionsRow: {
@@ -562,10 +564,10 @@ const styles = StyleSheet.create({
   optionText: {
     fontSize: 16,
     fontWeight: '600',
-    color: '#4A5568',
+    color: theme.colors.text.secondary,
   },
   selectedText: {
-    color: '#667EEA',
+    color: theme.colors.brand.primary,
   },
   customTileCard: {
     // Additional styles for custom tile if needed
@@ -573,7 +575,7 @@ const styles = StyleSheet.create({
   customTileInput: {
     fontSize: 16,
     fontWeight: '600',
-    color: '#667EEA',
+    color: theme.colors.brand.primary,
     textAlign: 'center',
     minWidth: 30,
     backgroundColor: 'transparent',
@@ -602,12 +604,12 @@ const styles = StyleSheet.create({
   },
   summaryText: {
     fontSize: 13,
-    color: '#4A5568',
+    color: theme.colors.text.secondary,
     lineHeight: 18,
   },
   summaryBold: {
     fontWeight: '600',
-    color: '#1A202C',
+    color: theme.colors.text.primary,
   },
   actions: {
     paddingHorizontal: 24,
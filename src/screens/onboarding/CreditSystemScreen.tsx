@@ -10,7 +10,7 @@ import { CreditSystem } from '../../types';
 import { userOperations } from '../../services/database';
 import { useAppContext } from '../../contexts/AppContext';
 import { AnimatedGradientBackground, PremiumButton, PremiumCard } from '../../components/common/OnboardingComponents';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 
 type CreditSystemScreenNavigationProp = StackNavigationProp<OnboardingStackParamList, 'CreditSystem'>;
 
@@ -63,6 +63,8 @@ const CREDIT_SYSTEMS: {
 ];
 
 export const CreditSystemScreen: React.FC<Props> = ({ navigation }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
   const { refreshUserData } = useAppContext();
   const [selectedSystem, setSelectedSystem] = useState<CreditSystem | ''>('');
@@ -157,7 +159,7 @@ export const CreditSystemScreen: React.FC<Props> = ({ navigation }) => {
           },
         ]}
       >
-        <ProgressIndicator currentStep={2} totalSteps={5} />
+        <ProgressIndicator currentStep={3} totalSteps={6} />
       </Animated.View>
 
       <ScrollView 
@@ -176,7 +178,7 @@ export const CreditSystemScreen: React.FC<Props> = ({ navigation }) => {
           >
             <View style={styles.iconContainer}>
               <LinearGradient
-                colors={['#667EEA', '#764BA2']}
+                colors={[theme.colors.brand.primary, theme.colors.brand.secondary]}
                 style={styles.headerIcon}
                 start={{ x: 0, y: 0 }}
                 end={{ x: 1, y: 1 }}
@@ -253,7 +255,7 @@ export const CreditSystemScreen: React.FC<Props> = ({ navigation }) => {
                     ]}>
                       {selectedSystem === system.value && (
                         <LinearGradient
-                          colors={['#667EEA', '#764BA2']}
+                          colors={[theme.colors.brand.primary, theme.colors.brand.secondary]}
                           style={styles.radioButtonInner}
                         />
                       )}
@@ -294,7 +296,7 @@ export const CreditSystemScreen: React.FC<Props> = ({ navigation }) => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
   },
@@ -325,7 +327,7 @@ const styles = StyleSheet.create({
     borderRadius: theme.borderRadius.xl,
     justifyContent: 'center',
     alignItems: 'center',
-    shadowColor: '#667EEA',
+    shadowColor: theme.colors.brand.primary,
     shadowOffset: { width: 0, height: 4 },
     shadowOpacity: 0.3,
     shadowRadius: 12,
@@ -337,14 +339,14 @@ const styles = StyleSheet.create({
   title: {
     fontSize: 22,
     fontWeight: '700',
-    color: '#1A202C',
+    color: theme.colors.text.primary,
     textAlign: 'center',
     marginBottom: 6,
     letterSpacing: -0.5,
   },
   subtitle: {
     fontSize: 14,
-    color: '#4A5568',
+    color: theme.colors.text.secondary,
     textAlign: 'center',
     lineHeight: 20,
     paddingHorizontal: 16,
@@ -386,31 +388,31 @@ const styles = StyleSheet.create({
   optionTitle: {
     fontSize: 15,
     fontWeight: '600',
-    color: '#1A202C',
+    color: theme.colors.text.primary,
     marginBottom: 2,
   },
   selectedOptionTitle: {
-    color: '#667EEA',
+    color: theme.colors.brand.primary,
   },
   optionDescription: {
     fontSize: 12,
-    color: '#718096',
+    color: theme.colors.text.secondary,
     lineHeight: 16,
   },
   selectedOptionDescription: {
-    color: '#4A5568',
+    color: theme.colors.text.secondary,
   },
   radioButton: {
     width: 20,
     height: 20,
     borderRadius: 10,
     borderWidth: 2,
-    borderColor: '#CBD5E0',
+    borderColor: theme.colors.border.medium,
     alignItems: 'center',
     justifyContent: 'center',
   },
   selectedRadioButton: {
-    borderColor: '#667EEA',
+    borderColor: theme.colors.brand.primary,
   },
   radioButtonInner: {
     width: 10,
@@ -8,7 +8,7 @@ import { SvgIcon } from '../../components/common/SvgIcon';
 import { OnboardingStackParamList } from '../../types/navigation';
 import { userOperations } from '../../services/database';
 import { AnimatedGradientBackground, PremiumButton, PremiumCard } from '../../components/common/OnboardingComponents';
-import { theme } from '../../constants/theme';
+import { AppTheme, useThemedStyles } from '../../theme';
 
 type CycleStartDateScreenNavigationProp = StackNavigationProp<OnboardingStackParamList, 'CycleStartDate'>;
 
@@ -25,6 +25,7 @@ const QUICK_OPTIONS = [
 ];
 
 export const CycleStartDateScreen: React.FC<Props> = ({ navigation }) => {
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
   const [selectedOption, setSelectedOption] = useState<number | null>(null);
   const [customDate, setCustomDate] = useState<Date | null>(null);
@@ -216,7 +217,7 @@ export const CycleStartDateScreen: React.FC<Props> = ({ navigation }) => {
           },
         ]}
       >
-        <ProgressIndicator currentStep={4} totalSteps={5} />
+        <ProgressIndicator currentStep={5} totalSteps={6} />
       </Animated.View>
 
       <ScrollView 
@@ -408,7 +409,7 @@ export const CycleStartDateScreen: React.FC<Props> = ({ navigation }) => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
   },
@@ -451,14 +452,14 @@ const styles = StyleSheet.create({
   title: {
     fontSize: 20,
     fontWeight: '700',
-    color: '#1A202C',
+    color: theme.colors.text.primary,
     textAlign: 'center',
     marginBottom: 6,
     letterSpacing: -0.5,
   },
   subtitle: {
     fontSize: 14,
-    color: '#4A5568',
+    color: theme.colors.text.secondary,
     textAlign: 'center',
     lineHeight: 20,
     paddingHorizontal: 16,
@@ -469,7 +470,7 @@ const styles = StyleSheet.create({
   sectionTitle: {
     fontSize: 16,
     fontWeight: '600',
-    color: '#1A202C',
+    color: theme.colors.text.primary,
     marginBottom: 12,
   },
   optionWrapper: {
@@ -498,13 +499,13 @@ const styles = StyleSheet.create({
   gridOptionText: {
     fontSize: 13,
     fontWeight: '600',
-    color: '#1A202C',
+    color: theme.colors.text.primary,
     textAlign: 'center',
     marginBottom: 4,
   },
   gridOptionDate: {
     fontSize: 10,
-    color: '#718096',
+    color: theme.colors.text.secondary,
     textAlign: 'center',
   },
   // Custom option styles (full width)
@@ -527,12 +528,12 @@ const styles = StyleSheet.create({
   customOptionText: {
     fontSize: 14,
     fontWeight: '600',
-    color: '#1A202C',
+    color: theme.colors.text.primary,
     marginBottom: 2,
   },
   customOptionSubtext: {
     fontSize: 11,
-    color: '#718096',
+    color: theme.colors.text.secondary,
   },
   optionCard: {
     paddingVertical: 10,
@@ -549,7 +550,7 @@ const styles = StyleSheet.create({
   optionText: {
     fontSize: 14,
     fontWeight: '600',
-    color: '#1A202C',
+    color: theme.colors.text.primary,
     marginBottom: 2,
   },
   selectedText: {
@@ -557,21 +558,21 @@ const styles = StyleSheet.create({
   },
   optionDate: {
     fontSize: 11,
-    color: '#718096',
+    color: theme.colors.text.secondary,
   },
   selectedDateText: {
-    color: '#4A5568',
+    color: theme.colors.text.secondary,
   },
   optionSubtext: {
     fontSize: 11,
-    color: '#718096',
+    color: theme.colors.text.secondary,
   },
   radioButton: {
     width: 20,
     height: 20,
     borderRadius: 10,
     borderWidth: 2,
-    borderColor: '#CBD5E0',
+    borderColor: theme.colors.border.medium,
     alignItems: 'center',
     justifyContent: 'center',
   },
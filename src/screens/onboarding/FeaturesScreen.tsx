@@ -4,7 +4,7 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Button, Card } from '../../components';
 import { SvgIcon } from '../../components/common/SvgIcon';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 import { OnboardingStackParamList } from '../../types/navigation';
 
 type FeaturesScreenNavigationProp = StackNavigationProp<OnboardingStackParamList, 'Features'>;
@@ -14,6 +14,8 @@ interface Props {
 }
 
 export const FeaturesScreen: React.FC<Props> = ({ navigation }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
   const handleContinue = () => {
     navigation.navigate('Privacy');
@@ -76,7 +78,7 @@ export const FeaturesScreen: React.FC<Props> = ({ navigation }) => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: theme.colors.background,
@@ -4,8 +4,7 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Button, Card, ProgressIndicator, SvgIcon } from '../../components';
 import { FloatingLicenseModal } from '../../components/onboarding/FloatingLicenseModal';
-import { theme } from '../../constants/theme';
-import { tokens } from '../../theme/tokens';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 import { OnboardingStackParamList } from '../../types/navigation';
 
 type LicenseSetupScreenNavigationProp = StackNavigationProp<OnboardingStackParamList, 'LicenseSetup'>;
@@ -15,6 +14,8 @@ interface Props {
 }
 
 export const LicenseSetupScreen: React.FC<Props> = ({ navigation }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
   const [skipForNow, setSkipForNow] = useState(false);
   const [showLicenseForm, setShowLicenseForm] = useState(false);
@@ -140,7 +141,7 @@ export const LicenseSetupScreen: React.FC<Props> = ({ navigation }) => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: theme.colors.background,
@@ -217,7 +218,7 @@ const styles = StyleSheet.create({
     width: 36,
     height: 36,
     borderRadius: 18,
-    backgroundColor: tokens.color.selectedBg,
+    backgroundColor: theme.colors.selectedBackground,
     alignItems: 'center',
     justifyContent: 'center',
     marginRight: theme.spacing[2],
@@ -3,8 +3,7 @@ import { View, Text, StyleSheet } from 'react-native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Button, Card, SvgIcon } from '../../components';
-import { theme } from '../../constants/theme';
-import { tokens } from '../../theme/tokens';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 import { OnboardingStackParamList } from '../../types/navigation';
 
 type PrivacyScreenNavigationProp = StackNavigationProp<OnboardingStackParamList, 'Privacy'>;
@@ -14,6 +13,8 @@ interface Props {
 }
 
 export const PrivacyScreen: React.FC<Props> = ({ navigation }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
   const handleContinue = () => {
     navigation.navigate('Profession');
@@ -88,7 +89,7 @@ export const PrivacyScreen: React.FC<Props> = ({ navigation }) => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: theme.colors.background,
@@ -148,7 +149,7 @@ const styles = StyleSheet.create({
     lineHeight: 18,
   },
   assurance: {
-    backgroundColor: tokens.color.selectedBg,
+    backgroundColor: theme.colors.selectedBackground,
     borderRadius: theme.borderRadius.medium,
     padding: theme.spacing[4],
     borderLeftWidth: 4,
@@ -19,7 +19,7 @@ import { SvgIcon } from '../../components/common/SvgIcon';
 import { OnboardingStackParamList } from '../../types';
 import { userOperations } from '../../services/database';
 import { AnimatedGradientBackground, PremiumButton, PremiumCard } from '../../components/common/OnboardingComponents';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 
 type ProfessionScreenNavigationProp = StackNavigationProp<OnboardingStackParamList, 'Profession'>;
 
@@ -28,6 +28,8 @@ interface Props {
 }
 
 export const ProfessionScreen: React.FC<Props> = ({ navigation }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
   const [name, setName] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -85,7 +87,7 @@ export const ProfessionScreen: React.FC<Props> = ({ navigation }) => {
       });
 
       if (result.success) {
-        navigation.navigate('CreditSystem');
+        navigation.navigate('RequirementTemplate');
       } else {
         __DEV__ && console.error('Failed to save name:', result.error);
       }
@@ -107,7 +109,7 @@ export const ProfessionScreen: React.FC<Props> = ({ navigation }) => {
 
         {/* Fixed Progress Indicator - no animation to prevent moving */}
         <View style={styles.progressWrapper}>
-          <ProgressIndicator currentStep={1} totalSteps={5} showTitle={false} />
+          <ProgressIndicator currentStep={1} totalSteps={6} showTitle={false} />
         </View>
 
         <KeyboardAvoidingView 
@@ -126,7 +128,7 @@ export const ProfessionScreen: React.FC<Props> = ({ navigation }) => {
               <View style={styles.header}>
                 <View style={styles.iconContainer}>
                   <LinearGradient
-                    colors={['#667EEA', '#764BA2']}
+                    colors={[theme.colors.brand.primary, theme.colors.brand.secondary]}
                     style={styles.iconGradient}
                     start={{ x: 0, y: 0 }}
                     end={{ x: 1, y: 1 }}
@@ -163,7 +165,7 @@ export const ProfessionScreen: React.FC<Props> = ({ navigation }) => {
                     <TextInput
                       style={styles.input}
                       placeholder="Enter your preferred name"
-                      placeholderTextColor="#A0AEC0"
+                      placeholderTextColor={theme.colors.text.disabled}
                       value={name}
                       onChangeText={setName}
                       autoCapitalize="words"
@@ -225,7 +227,7 @@ export const ProfessionScreen: React.FC<Props> = ({ navigation }) => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
   },
@@ -262,7 +264,7 @@ const styles = StyleSheet.create({
     borderRadius: 16,
     justifyContent: 'center',
     alignItems: 'center',
-    shadowColor: '#667EEA',
+    shadowColor: theme.colors.brand.primary,
     shadowOffset: { width: 0, height: 8 },
     shadowOpacity: 0.3,
     shadowRadius: 16,
@@ -271,14 +273,14 @@ const styles = StyleSheet.create({
   title: {
     fontSize: 24,
     fontWeight: '700',
-    color: '#1A202C',
+    color: theme.colors.text.primary,
     textAlign: 'center',
     marginBottom: 12,
     letterSpacing: -0.5,
   },
   subtitle: {
     fontSize: 16,
-    color: '#4A5568',
+    color: theme.colors.text.secondary,
     textAlign: 'center',
     lineHeight: 24,
     paddingHorizontal: 16,
@@ -302,7 +304,7 @@ const styles = StyleSheet.create({
   input: {
     padding: theme.spacing[5], // Primary card padding
     fontSize: 18,
-    color: '#1A202C',
+    color: theme.colors.text.primary,
     textAlign: 'center',
     fontWeight: '500',
     backgroundColor: 'transparent',
@@ -327,7 +329,7 @@ const styles = StyleSheet.create({
   },
   inputHint: {
     fontSize: 14,
-    color: '#718096',
+    color: theme.colors.text.secondary,
     textAlign: 'center',
     marginTop: 12,
     fontStyle: 'italic',
@@ -0,0 +1,398 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { View, Text, StyleSheet, Animated, ScrollView } from 'react-native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Chip, ProgressIndicator } from '../../components';
+import { SvgIcon } from '../../components/common/SvgIcon';
+import { OnboardingStackParamList } from '../../types/navigation';
+import { Profession, RequirementTemplate } from '../../types';
+import { settingsOperations, userOperations } from '../../services/database';
+import { useAppContext } from '../../contexts/AppContext';
+import { AnimatedGradientBackground, PremiumButton, PremiumCard } from '../../components/common/OnboardingComponents';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
+import { COUNTRIES, REQUIREMENT_TEMPLATE_CATALOGUE_VERSION, STORAGE_KEYS } from '../../constants';
+import {
+  describeRequirementTemplate,
+  findRequirementTemplates,
+  getTemplateCycleWindow,
+} from '../../utils/requirementTemplates';
+
+type RequirementTemplateScreenNavigationProp = StackNavigationProp<OnboardingStackParamList, 'RequirementTemplate'>;
+
+interface Props {
+  navigation: RequirementTemplateScreenNavigationProp;
+}
+
+const PROFESSIONS: Profession[] = ['Physician', 'Nurse', 'Pharmacist', 'Allied Health', 'Other'];
+
+export const RequirementTemplateScreen: React.FC<Props> = ({ navigation }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+  const { refreshUserData, applyTemplateRules } = useAppContext();
+  const [country, setCountry] = useState<string>('');
+  const [profession, setProfession] = useState<Profession | ''>('');
+  const [selectedTemplate, setSelectedTemplate] = useState<RequirementTemplate | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Animation values
+  const fadeAnim = useRef(new Animated.Value(0)).current;
+  const slideAnim = useRef(new Animated.Value(20)).current;
+  const progressAnim = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    // Entry animations
+    Animated.parallel([
+      Animated.timing(fadeAnim, {
+        toValue: 1,
+        duration: 800,
+        useNativeDriver: true,
+      }),
+      Animated.spring(slideAnim, {
+        toValue: 0,
+        tension: 30,
+        friction: 8,
+        useNativeDriver: true,
+      }),
+      Animated.timing(progressAnim, {
+        toValue: 1,
+        duration: 600,
+        delay: 100,
+        useNativeDriver: true,
+      }),
+    ]).start();
+  }, []);
+
+  const templates = useMemo(() => {
+    if (!country) {
+      return [];
+    }
+    return findRequirementTemplates({ country, profession: profession || undefined });
+  }, [country, profession]);
+
+  const selectCountry = (value: string) => {
+    setCountry(value === country ? '' : value);
+    setSelectedTemplate(null);
+  };
+
+  const selectProfession = (value: Profession) => {
+    setProfession(value === profession ? '' : value);
+    setSelectedTemplate(null);
+  };
+
+  const handleContinue = async () => {
+    if (!selectedTemplate) {
+      navigation.navigate('CreditSystem');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const cycleWindow = getTemplateCycleWindow(selectedTemplate);
+
+      const result = await userOperations.updateUser({
+        profession: selectedTemplate.profession,
+        creditSystem: selectedTemplate.creditSystem,
+        annualRequirement: selectedTemplate.totalCredits,
+        requirementPeriod: selectedTemplate.periodYears,
+        ...(cycleWindow && {
+          cycleStartDate: cycleWindow.startDate,
+          cycleEndDate: cycleWindow.endDate,
+        }),
+      });
+
+      if (!result.success) {
+        __DEV__ && console.error('[ERROR] RequirementTemplateScreen: Failed to apply template:', result.error);
+        return;
+      }
+
+      await applyTemplateRules(undefined, selectedTemplate.categoryRules);
+      await settingsOperations.setSetting(
+        STORAGE_KEYS.REQUIREMENT_TEMPLATE,
+        JSON.stringify({
+          id: selectedTemplate.id,
+          version: selectedTemplate.version,
+          catalogueVersion: REQUIREMENT_TEMPLATE_CATALOGUE_VERSION,
+        })
+      );
+      await refreshUserData();
+
+      // Fixed-date templates already know the cycle; anniversary ones still need a start date
+      navigation.navigate(cycleWindow ? 'SetupComplete' : 'CycleStartDate');
+    } catch (error) {
+      __DEV__ && console.error('[ERROR] RequirementTemplateScreen: Error applying template:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleBack = () => {
+    navigation.goBack();
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top, paddingBottom: insets.bottom }]}>
+      <AnimatedGradientBackground />
+
+      <Animated.View
+        style={[
+          styles.progressWrapper,
+          {
+            opacity: progressAnim,
+            transform: [{ translateY: slideAnim }],
+          },
+        ]}
+      >
+        <ProgressIndicator currentStep={2} totalSteps={6} />
+      </Animated.View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        <Animated.View
+          style={[
+            styles.header,
+            {
+              opacity: fadeAnim,
+              transform: [{ translateY: slideAnim }],
+            },
+          ]}
+        >
+          <View style={styles.iconContainer}>
+            <LinearGradient
+              colors={[theme.colors.brand.primary, theme.colors.brand.secondary]}
+              style={styles.headerIcon}
+              start={{ x: 0, y: 0 }}
+              end={{ x: 1, y: 1 }}
+            >
+              <SvgIcon name="shield" size={32} color="#FFFFFF" />
+            </LinearGradient>
+          </View>
+          <Text style={styles.title}>Who Regulates You?</Text>
+          <Text style={styles.subtitle}>
+            Pick your board to fill in your requirement, or set it up yourself
+          </Text>
+        </Animated.View>
+
+        <Animated.View style={{ opacity: fadeAnim }}>
+          <Text style={styles.sectionTitle}>Country</Text>
+          <View style={styles.chipRow}>
+            {COUNTRIES.map(value => (
+              <Chip
+                key={value}
+                label={value}
+                variant={country === value ? 'selected' : 'default'}
+                onPress={() => selectCountry(value)}
+              />
+            ))}
+          </View>
+
+          <Text style={styles.sectionTitle}>Profession</Text>
+          <View style={styles.chipRow}>
+            {PROFESSIONS.map(value => (
+              <Chip
+                key={value}
+                label={value}
+                variant={profession === value ? 'selected' : 'default'}
+                onPress={() => selectProfession(value)}
+              />
+            ))}
+          </View>
+
+          {country !== '' && (
+            <View style={styles.templateList}>
+              {templates.length === 0 ? (
+                <Text style={styles.emptyText}>
+                  No bundled requirements for this selection yet. Continue to set yours up manually.
+                </Text>
+              ) : (
+                templates.map(template => {
+                  const isSelected = selectedTemplate?.id === template.id;
+                  return (
+                    <PremiumCard
+                      key={template.id}
+                      selected={isSelected}
+                      onPress={() => setSelectedTemplate(isSelected ? null : template)}
+                      style={styles.templateCard}
+                    >
+                      <Text style={[styles.templateName, isSelected && styles.selectedTemplateName]}>
+                        {template.name}
+                      </Text>
+                      <Text style={styles.templateAuthority}>{template.issuingAuthority}</Text>
+                      <Text style={styles.templateSummary}>
+                        {describeRequirementTemplate(template)}
+                        {template.categoryRules.length > 0 &&
+                          ` - incl. ${template.categoryRules
+                            .map(rule => `${rule.minimumCredits} ${rule.category}`)
+                            .join(', ')}`}
+                      </Text>
+                      {template.notes && (
+                        <Text style={styles.templateNotes}>{template.notes}</Text>
+                      )}
+                    </PremiumCard>
+                  );
+                })
+              )}
+            </View>
+          )}
+
+          {selectedTemplate && (
+            <Text style={styles.disclaimer}>
+              Requirements change - confirm the numbers with your regulator. You can edit everything later in Settings.
+            </Text>
+          )}
+        </Animated.View>
+      </ScrollView>
+
+      <Animated.View
+        style={[
+          styles.actions,
+          {
+            opacity: fadeAnim,
+            transform: [{ translateY: slideAnim }],
+          },
+        ]}
+      >
+        <PremiumButton
+          title={selectedTemplate ? 'Use This Requirement' : 'Set Up Manually'}
+          onPress={handleContinue}
+          loading={isLoading}
+          variant="primary"
+          style={styles.primaryButton}
+        />
+
+        <PremiumButton
+          title="Back"
+          variant="ghost"
+          onPress={handleBack}
+          style={styles.secondaryButton}
+        />
+      </Animated.View>
+    </View>
+  );
+};
+
+const createStyles = (theme: AppTheme) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  progressWrapper: {
+    paddingHorizontal: 24,
+    paddingTop: 12,
+    paddingBottom: 8,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingBottom: 20,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  iconContainer: {
+    marginBottom: 12,
+  },
+  headerIcon: {
+    width: 48,
+    height: 48,
+    borderRadius: theme.borderRadius.xl,
+    justifyContent: 'center',
+    alignItems: 'center',
+    shadowColor: theme.colors.brand.primary,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 12,
+    elevation: 6,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: theme.colors.text.primary,
+    textAlign: 'center',
+    marginBottom: 6,
+    letterSpacing: -0.5,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: theme.colors.text.secondary,
+    textAlign: 'center',
+    lineHeight: 20,
+    paddingHorizontal: 16,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: theme.colors.text.primary,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  templateList: {
+    gap: 8,
+    marginBottom: 12,
+  },
+  templateCard: {
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+  },
+  templateName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: theme.colors.text.primary,
+    marginBottom: 2,
+  },
+  selectedTemplateName: {
+    color: theme.colors.brand.primary,
+  },
+  templateAuthority: {
+    fontSize: 12,
+    color: theme.colors.text.secondary,
+    marginBottom: 4,
+  },
+  templateSummary: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: theme.colors.text.secondary,
+  },
+  templateNotes: {
+    fontSize: 12,
+    color: theme.colors.text.secondary,
+    lineHeight: 16,
+    marginTop: 4,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: theme.colors.text.secondary,
+    textAlign: 'center',
+    lineHeight: 18,
+    paddingVertical: 12,
+  },
+  disclaimer: {
+    fontSize: 12,
+    color: theme.colors.text.secondary,
+    textAlign: 'center',
+    lineHeight: 16,
+  },
+  actions: {
+    paddingHorizontal: 24,
+    paddingBottom: 16,
+    paddingTop: 12,
+  },
+  primaryButton: {
+    marginBottom: 12,
+  },
+  secondaryButton: {
+    // Ghost button styles handled by component
+  },
+});
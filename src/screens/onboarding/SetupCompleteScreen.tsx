@@ -7,6 +7,7 @@ import { SvgIcon } from '../../components/common/SvgIcon';
 import { OnboardingStackParamList } from '../../types/navigation';
 import { useOnboardingContext } from '../../contexts/OnboardingContext';
 import { AnimatedGradientBackground, PremiumButton, PremiumCard } from '../../components/common/OnboardingComponents';
+import { AppTheme, useThemedStyles } from '../../theme';
 
 type SetupCompleteScreenNavigationProp = StackNavigationProp<OnboardingStackParamList, 'SetupComplete'>;
 
@@ -42,6 +43,7 @@ const NEXT_STEPS = [
 ];
 
 export const SetupCompleteScreen: React.FC<Props> = ({ navigation }) => {
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
   const [isLoading, setIsLoading] = useState(false);
   const { completeOnboarding } = useOnboardingContext();
@@ -285,7 +287,7 @@ export const SetupCompleteScreen: React.FC<Props> = ({ navigation }) => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
   },
@@ -324,14 +326,14 @@ const styles = StyleSheet.create({
   title: {
     fontSize: 24,
     fontWeight: '700',
-    color: '#1A202C',
+    color: theme.colors.text.primary,
     textAlign: 'center',
     marginBottom: 8,
     letterSpacing: -0.5,
   },
   subtitle: {
     fontSize: 14,
-    color: '#4A5568',
+    color: theme.colors.text.secondary,
     textAlign: 'center',
     lineHeight: 20,
     paddingHorizontal: 16,
@@ -343,7 +345,7 @@ const styles = StyleSheet.create({
   nextStepsTitle: {
     fontSize: 18,
     fontWeight: '600',
-    color: '#1A202C',
+    color: theme.colors.text.primary,
     marginBottom: 16,
     textAlign: 'center',
   },
@@ -382,12 +384,12 @@ const styles = StyleSheet.create({
   stepTitle: {
     fontSize: 14,
     fontWeight: '600',
-    color: '#1A202C',
+    color: theme.colors.text.primary,
     marginBottom: 2,
   },
   stepDescription: {
     fontSize: 12,
-    color: '#718096',
+    color: theme.colors.text.secondary,
     lineHeight: 16,
   },
   actions: {
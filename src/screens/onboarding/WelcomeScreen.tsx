@@ -4,7 +4,7 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
 import { SvgIcon } from '../../components/common/SvgIcon';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 import { OnboardingStackParamList } from '../../types/navigation';
 import { AnimatedGradientBackground, PremiumButton, PremiumCard } from '../../components/common/OnboardingComponents';
 
@@ -17,6 +17,8 @@ interface Props {
 const { width } = Dimensions.get('window');
 
 export const WelcomeScreen: React.FC<Props> = ({ navigation }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
   
   // Animation values
@@ -150,7 +152,7 @@ export const WelcomeScreen: React.FC<Props> = ({ navigation }) => {
             ]}>
               <View style={styles.featureIconContainer}>
                 <LinearGradient
-                  colors={['#667EEA', '#764BA2']}
+                  colors={[theme.colors.brand.primary, theme.colors.brand.secondary]}
                   style={styles.iconGradient}
                   start={{ x: 0, y: 0 }}
                   end={{ x: 1, y: 1 }}
@@ -268,7 +270,7 @@ export const WelcomeScreen: React.FC<Props> = ({ navigation }) => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
   },
@@ -296,14 +298,14 @@ const styles = StyleSheet.create({
   appName: {
     fontSize: 26,
     fontWeight: '700',
-    color: '#1A202C',
+    color: theme.colors.text.primary,
     textAlign: 'center',
     marginBottom: 6,
     letterSpacing: -0.5,
   },
   subtitle: {
     fontSize: 14,
-    color: '#4A5568',
+    color: theme.colors.text.secondary,
     textAlign: 'center',
     lineHeight: 20,
     fontWeight: '500',
@@ -347,12 +349,12 @@ const styles = StyleSheet.create({
   featureHeading: {
     fontSize: 15,
     fontWeight: '600',
-    color: '#1A202C',
+    color: theme.colors.text.primary,
     marginBottom: 3,
   },
   featureSubtext: {
     fontSize: 12,
-    color: '#718096',
+    color: theme.colors.text.secondary,
     lineHeight: 18,
   },
   
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -14,16 +14,24 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useFocusEffect } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
+import { Picker } from '@react-native-picker/picker';
 import { Card, Button, Input, LoadingSpinner, StandardHeader, SvgIcon } from '../../components';
 import { AnimatedGradientBackground, PremiumButton, PremiumCard } from '../../components/common/OnboardingComponents';
 import { ModernDatePicker } from '../../components/common/ModernDatePicker';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
+import { REQUIREMENT_TEMPLATES } from '../../constants';
 import { useAppContext } from '../../contexts/AppContext';
-import { LicenseRenewal } from '../../types';
+import { LicenseRenewal, RequirementTemplate } from '../../types';
 import { useUnsavedChanges } from '../../hooks/useUnsavedChanges';
+import { getLicenseRenewalWindow } from '../../utils/licenseCredits';
+import {
+  describeRequirementTemplate,
+  getRequirementTemplate,
+  getTemplateCycleWindow,
+} from '../../utils/requirementTemplates';
 
 type RootStackParamList = {
-  AddLicense: { editLicense?: LicenseRenewal };
+  AddLicense: { editLicense?: LicenseRenewal; licenseId?: number };
   Settings: undefined;
 };
 
@@ -36,9 +44,16 @@ interface Props {
 }
 
 export const AddLicenseScreen: React.FC<Props> = ({ navigation, route }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
-  const { addLicense, updateLicense } = useAppContext();
-  const editLicense = route.params?.editLicense;
+  const { user, licenses, addLicense, updateLicense, applyTemplateRules } = useAppContext();
+  // Notification taps pass only the id of the license to open
+  const licenseId = route.params?.licenseId;
+  const editLicense = useMemo(
+    () => route.params?.editLicense ?? (licenseId ? licenses.find(license => license.id === licenseId) : undefined),
+    [route.params?.editLicense, licenseId, licenses]
+  );
   const isEditing = !!editLicense;
   
   // Form state - initialized with edit data if editing
@@ -48,8 +63,22 @@ export const AddLicenseScreen: React.FC<Props> = ({ navigation, route }) => {
   const [expirationDate, setExpirationDate] = useState<Date>(
     editLicense ? new Date(editLicense.expirationDate) : new Date(new Date().setFullYear(new Date().getFullYear() + 1))
   );
+  const [requiredCredits, setRequiredCredits] = useState(
+    editLicense?.requiredCredits ? editLicense.requiredCredits.toString() : ''
+  );
+  // Start of the current renewal cycle - null until the user sets one
+  const [renewalDate, setRenewalDate] = useState<Date | null>(
+    editLicense?.renewalDate ? new Date(editLicense.renewalDate) : null
+  );
+  const [template, setTemplate] = useState<RequirementTemplate | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  // Credits are counted from the cycle start, or one requirement period before expiry
+  const cycleStartDate = renewalDate || new Date(getLicenseRenewalWindow(
+    { expirationDate: expirationDate.toISOString().split('T')[0] },
+    user?.requirementPeriod
+  ).startDate);
+
   // Form validation errors
   const [errors, setErrors] = useState<{
     licenseType?: string;
@@ -62,6 +91,8 @@ export const AddLicenseScreen: React.FC<Props> = ({ navigation, route }) => {
     issuingAuthority,
     licenseNumber,
     expirationDate: expirationDate.toISOString(),
+    requiredCredits,
+    renewalDate: renewalDate?.toISOString(),
   });
 
   const [wasSaved, setWasSaved] = React.useState(false);
@@ -70,7 +101,9 @@ export const AddLicenseScreen: React.FC<Props> = ({ navigation, route }) => {
     (licenseType !== initialFormData.current.licenseType ||
     issuingAuthority !== initialFormData.current.issuingAuthority ||
     licenseNumber !== initialFormData.current.licenseNumber ||
-    expirationDate.toISOString() !== initialFormData.current.expirationDate);
+    expirationDate.toISOString() !== initialFormData.current.expirationDate ||
+    requiredCredits !== initialFormData.current.requiredCredits ||
+    renewalDate?.toISOString() !== initialFormData.current.renewalDate);
 
   // Warn user about unsaved changes
   useUnsavedChanges({
@@ -134,16 +167,57 @@ export const AddLicenseScreen: React.FC<Props> = ({ navigation, route }) => {
     }, [])
   );
 
-  // Update form when editLicense changes (shouldn't happen but good practice)
+  // Update form when a different license arrives, e.g. one opened by id that loaded after the first render.
+  // Reloads of the same license leave the user's edits alone.
+  const formLicenseIdRef = useRef(editLicense?.id);
   useEffect(() => {
-    if (editLicense) {
+    if (editLicense && editLicense.id !== formLicenseIdRef.current) {
+      formLicenseIdRef.current = editLicense.id;
       setLicenseType(editLicense.licenseType);
       setIssuingAuthority(editLicense.issuingAuthority);
       setLicenseNumber(editLicense.licenseNumber || '');
       setExpirationDate(new Date(editLicense.expirationDate));
+      setRequiredCredits(editLicense.requiredCredits ? editLicense.requiredCredits.toString() : '');
+      setRenewalDate(editLicense.renewalDate ? new Date(editLicense.renewalDate) : null);
+      initialFormData.current = {
+        licenseType: editLicense.licenseType,
+        issuingAuthority: editLicense.issuingAuthority,
+        licenseNumber: editLicense.licenseNumber || '',
+        expirationDate: new Date(editLicense.expirationDate).toISOString(),
+        requiredCredits: editLicense.requiredCredits ? editLicense.requiredCredits.toString() : '',
+        renewalDate: editLicense.renewalDate ? new Date(editLicense.renewalDate).toISOString() : undefined,
+      };
     }
   }, [editLicense]);
 
+  // Pre-fill the form from a bundled board requirement
+  const handleTemplateChange = (templateId: string) => {
+    const selected = templateId ? getRequirementTemplate(templateId) ?? null : null;
+    setTemplate(selected);
+    if (!selected) {
+      return;
+    }
+
+    setLicenseType(selected.name);
+    setIssuingAuthority(selected.issuingAuthority);
+    setRequiredCredits(selected.totalCredits.toString());
+    setErrors({});
+
+    const cycleWindow = getTemplateCycleWindow(selected);
+    if (cycleWindow) {
+      // Fixed-date cycles expire the day before the next cycle starts
+      const expiry = new Date(cycleWindow.endDate);
+      expiry.setDate(expiry.getDate() - 1);
+      setRenewalDate(new Date(cycleWindow.startDate));
+      setExpirationDate(expiry);
+    } else {
+      // Anniversary cycles run one template period back from the expiry the user enters
+      const start = new Date(expirationDate);
+      start.setFullYear(start.getFullYear() - selected.periodYears);
+      setRenewalDate(start);
+    }
+  };
+
   // Form validation
   const isFormValid = licenseType.trim() !== '' && 
                      issuingAuthority.trim() !== '' && 
@@ -166,6 +240,17 @@ export const AddLicenseScreen: React.FC<Props> = ({ navigation, route }) => {
       return;
     }
 
+    const parsedRequiredCredits = requiredCredits.trim() ? parseFloat(requiredCredits) : 0;
+    if (isNaN(parsedRequiredCredits) || parsedRequiredCredits < 0) {
+      Alert.alert('Invalid Credits', 'Required credits must be a positive number.');
+      return;
+    }
+
+    if (renewalDate && renewalDate >= expirationDate) {
+      Alert.alert('Invalid Date', 'The renewal cycle must start before the expiration date.');
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
@@ -177,9 +262,14 @@ export const AddLicenseScreen: React.FC<Props> = ({ navigation, route }) => {
           issuingAuthority: issuingAuthority.trim(),
           ...(trimmedLicenseNumber && { licenseNumber: trimmedLicenseNumber }),
           expirationDate: expirationDate.toISOString().split('T')[0], // Convert to YYYY-MM-DD
+          ...(renewalDate && { renewalDate: renewalDate.toISOString().split('T')[0] }),
+          requiredCredits: parsedRequiredCredits,
         };
 
-        const success = await updateLicense(editLicense.id, updateData);
+        let success = await updateLicense(editLicense.id, updateData);
+        if (success && template && template.categoryRules.length > 0) {
+          success = await applyTemplateRules(editLicense.id, template.categoryRules);
+        }
 
         if (success) {
           setWasSaved(true);
@@ -204,12 +294,13 @@ export const AddLicenseScreen: React.FC<Props> = ({ navigation, route }) => {
           issuingAuthority: issuingAuthority.trim(),
           ...(trimmedLicenseNumber && { licenseNumber: trimmedLicenseNumber }),
           expirationDate: expirationDate.toISOString().split('T')[0], // Convert to YYYY-MM-DD
-          requiredCredits: 0, // Default to 0, can be edited later
-          completedCredits: 0,
+          ...(renewalDate && { renewalDate: renewalDate.toISOString().split('T')[0] }),
+          requiredCredits: parsedRequiredCredits,
+          completedCredits: 0, // Derived from CME entries when licenses are loaded
           status: 'active',
         };
 
-        const success = await addLicense(licenseData);
+        const success = await addLicense(licenseData, template?.categoryRules);
 
         if (success) {
           setWasSaved(true);
@@ -233,7 +324,7 @@ export const AddLicenseScreen: React.FC<Props> = ({ navigation, route }) => {
     } finally {
       setIsSubmitting(false);
     }
-  }, [licenseType, issuingAuthority, licenseNumber, expirationDate, isFormValid, isEditing, editLicense, addLicense, updateLicense, navigation]);
+  }, [licenseType, issuingAuthority, licenseNumber, expirationDate, requiredCredits, renewalDate, isFormValid, isEditing, editLicense, template, addLicense, updateLicense, applyTemplateRules, navigation]);
 
   return (
     <View style={styles.container}>
@@ -286,6 +377,32 @@ export const AddLicenseScreen: React.FC<Props> = ({ navigation, route }) => {
           </View>
 
           <View style={styles.formFields}>
+            {/* Board Requirement Template */}
+            <View style={styles.fieldContainer}>
+              <Text style={styles.fieldLabel}>Board Requirement (Optional)</Text>
+              <View style={styles.pickerContainer}>
+                <Picker
+                  selectedValue={template?.id ?? ''}
+                  onValueChange={(value) => handleTemplateChange(String(value))}
+                  style={styles.picker}
+                >
+                  <Picker.Item label="Enter details manually" value="" />
+                  {REQUIREMENT_TEMPLATES.map(item => (
+                    <Picker.Item key={item.id} label={`${item.country} - ${item.name}`} value={item.id} />
+                  ))}
+                </Picker>
+              </View>
+              {template && (
+                <Text style={styles.fieldHint}>
+                  {describeRequirementTemplate(template)}
+                  {template.categoryRules.length > 0 &&
+                    ` - adds ${template.categoryRules.map(rule => `${rule.minimumCredits} ${rule.category}`).join(', ')}`}
+                  {isEditing && template.categoryRules.length > 0 && ', replacing existing category requirements'}
+                  . Confirm the numbers with your regulator.
+                </Text>
+              )}
+            </View>
+
             {/* License Type */}
             <View style={styles.fieldContainer}>
               <Text style={styles.fieldLabel}>License Type *</Text>
@@ -361,6 +478,45 @@ export const AddLicenseScreen: React.FC<Props> = ({ navigation, route }) => {
                 style={styles.dateButton}
               />
             </View>
+
+            {/* Required Credits (Optional) */}
+            <View style={styles.fieldContainer}>
+              <Text style={styles.fieldLabel}>Required Credits (Optional)</Text>
+              <Input
+                value={requiredCredits}
+                onChangeText={setRequiredCredits}
+                placeholder="Credits needed for this renewal"
+                keyboardType="numeric"
+                style={styles.input}
+                returnKeyType="done"
+              />
+            </View>
+
+            {/* Renewal Cycle Start */}
+            <View style={styles.fieldContainer}>
+              <Text style={styles.fieldLabel}>Renewal Cycle Start</Text>
+              <ModernDatePicker
+                value={cycleStartDate}
+                onDateChange={setRenewalDate}
+                maximumDate={expirationDate}
+                style={styles.dateButton}
+              />
+              <Text style={styles.fieldHint}>
+                Only CME activities from this date until expiration count toward this license
+              </Text>
+            </View>
+
+            {/* Category requirements live on their own screen and need a saved license */}
+            {isEditing && editLicense && (
+              <TouchableOpacity
+                style={styles.linkRow}
+                onPress={() => (navigation as any).navigate('RequirementRules', { licenseId: editLicense.id })}
+              >
+                <SvgIcon name="target" size={18} color={theme.colors.primary} />
+                <Text style={styles.linkText}>Category Requirements</Text>
+                <SvgIcon name="chevron-right" size={16} color={theme.colors.primary} />
+              </TouchableOpacity>
+            )}
           </View>
 
           {/* Form Actions */}
@@ -430,7 +586,7 @@ export const AddLicenseScreen: React.FC<Props> = ({ navigation, route }) => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: 'transparent', // Let AnimatedGradientBackground show through
@@ -448,7 +604,7 @@ const styles = StyleSheet.create({
   formCard: {
     margin: theme.spacing[4],
     padding: theme.spacing[5],
-    backgroundColor: '#FFFFFF',
+    backgroundColor: theme.colors.surface,
     borderRadius: theme.borderRadius.xl, // Premium card
     // Shadow will be handled by animation interpolation
     shadowColor: '#000',
@@ -488,8 +644,36 @@ const styles = StyleSheet.create({
   input: {
     // Input styling handled by component
   },
+  fieldHint: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[1],
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing[2],
+    paddingVertical: theme.spacing[2],
+  },
+  linkText: {
+    flex: 1,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.primary,
+  },
 
   // Date Picker Button
+  pickerContainer: {
+    backgroundColor: theme.colors.gray.light,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border.light,
+    minHeight: 50,
+    justifyContent: 'center',
+  },
+  picker: {
+    minHeight: 50,
+  },
   dateButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -503,7 +687,7 @@ const styles = StyleSheet.create({
   },
   dateButtonEmpty: {
     borderColor: theme.colors.border.light,
-    backgroundColor: '#FFF5EE',
+    backgroundColor: theme.colors.background,
   },
   dateButtonText: {
     fontSize: theme.typography.fontSize.base,
@@ -549,7 +733,7 @@ const styles = StyleSheet.create({
     marginHorizontal: theme.spacing[4],
     marginBottom: theme.spacing[4],
     padding: theme.spacing[4],
-    backgroundColor: '#FFFFFF',
+    backgroundColor: theme.colors.surface,
     borderRadius: 16,
     borderLeftWidth: 4,
     borderLeftColor: theme.colors.primary,
@@ -0,0 +1,508 @@
+import React, { useState, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Switch,
+  Alert,
+  Animated
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Chip, LoadingSpinner, StandardHeader, SvgIcon } from '../../components';
+import { AnimatedGradientBackground, PremiumButton, PremiumCard } from '../../components/common/OnboardingComponents';
+import { RestorePreviewModal } from '../../components/backup';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
+import { AUTO_BACKUP_CONFIG } from '../../constants';
+import { useSelectiveRestore } from '../../hooks/useSelectiveRestore';
+import { useAppContext } from '../../contexts/AppContext';
+import {
+  AutoBackupService,
+  AutoBackupSettings,
+  BackupSnapshot,
+  SnapshotReason,
+} from '../../services/AutoBackupService';
+import { restoreFromBackup } from '../../services/backupRestoreService';
+import { RestoreMode } from '../../types';
+import { MainTabParamList } from '../../types/navigation';
+
+type BackupSettingsScreenNavigationProp = StackNavigationProp<MainTabParamList, 'BackupSettings'>;
+
+interface Props {
+  navigation: BackupSettingsScreenNavigationProp;
+}
+
+const REASON_LABELS: Record<SnapshotReason, string> = {
+  scheduled: 'Scheduled',
+  'pre-change': 'Before bulk changes',
+  'bulk-change': 'After bulk changes',
+  manual: 'Manual',
+};
+
+const formatSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(Math.round(bytes / 1024), 1)} KB`;
+
+export const BackupSettingsScreen: React.FC<Props> = ({ navigation }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { refreshAllData, forceRefreshCMEData } = useAppContext();
+
+  const [settings, setSettings] = useState<AutoBackupSettings>({
+    enabled: true,
+    intervalHours: AUTO_BACKUP_CONFIG.DEFAULT_INTERVAL_HOURS,
+  });
+  const [snapshots, setSnapshots] = useState<BackupSnapshot[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // File name of the snapshot being worked on, or 'new' while backing up
+  const [busySnapshot, setBusySnapshot] = useState<string | null>(null);
+
+  // Entrance animation
+  const fadeAnim = useRef(new Animated.Value(0)).current;
+  const slideAnim = useRef(new Animated.Value(30)).current;
+
+  const loadBackups = useCallback(async () => {
+    try {
+      const [loadedSettings, loadedSnapshots] = await Promise.all([
+        AutoBackupService.getSettings(),
+        AutoBackupService.listSnapshots(),
+      ]);
+      setSettings(loadedSettings);
+      setSnapshots(loadedSnapshots);
+    } catch (error) {
+      __DEV__ && console.error('[ERROR] BackupSettingsScreen: Failed to load backups:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const selectiveRestore = useSelectiveRestore(async () => {
+    await refreshAllData();
+    await forceRefreshCMEData();
+    loadBackups();
+  });
+  const isBusy = busySnapshot !== null || selectiveRestore.isBusy;
+
+  useFocusEffect(
+    useCallback(() => {
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: 600,
+          useNativeDriver: true,
+        }),
+        Animated.spring(slideAnim, {
+          toValue: 0,
+          tension: 30,
+          friction: 8,
+          useNativeDriver: true,
+        }),
+      ]).start();
+
+      loadBackups();
+    }, [loadBackups])
+  );
+
+  const handleToggleEnabled = async (enabled: boolean) => {
+    try {
+      await AutoBackupService.setEnabled(enabled);
+      setSettings(current => ({ ...current, enabled }));
+    } catch (error) {
+      __DEV__ && console.error('[ERROR] BackupSettingsScreen: Failed to update automatic backups:', error);
+      Alert.alert('Error', 'Failed to update automatic backups. Please try again.');
+    }
+  };
+
+  const handleIntervalSelect = async (hours: number) => {
+    try {
+      await AutoBackupService.setIntervalHours(hours);
+      setSettings(current => ({ ...current, intervalHours: hours }));
+    } catch (error) {
+      __DEV__ && console.error('[ERROR] BackupSettingsScreen: Failed to update backup interval:', error);
+      Alert.alert('Error', 'Failed to update the backup interval. Please try again.');
+    }
+  };
+
+  const handleBackupNow = async () => {
+    setBusySnapshot('new');
+    try {
+      const result = await AutoBackupService.createSnapshot('manual');
+      if (!result.success) {
+        Alert.alert('Backup Failed', result.message);
+      }
+      await loadBackups();
+    } finally {
+      setBusySnapshot(null);
+    }
+  };
+
+  const handleShare = async (snapshot: BackupSnapshot) => {
+    // Automatic backups are packed into a ZIP before the share sheet opens
+    setBusySnapshot(snapshot.fileName);
+    try {
+      await AutoBackupService.shareSnapshot(snapshot);
+    } catch (error) {
+      __DEV__ && console.error('[ERROR] BackupSettingsScreen: Failed to share backup:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to share the backup.');
+    } finally {
+      setBusySnapshot(null);
+    }
+  };
+
+  const handleVerify = async (snapshot: BackupSnapshot) => {
+    setBusySnapshot(snapshot.fileName);
+    try {
+      const verification = await AutoBackupService.verifySnapshot(snapshot);
+      Alert.alert(verification.isValid ? 'Backup Verified' : 'Backup Has Problems', verification.message);
+    } catch (error) {
+      __DEV__ && console.error('[ERROR] BackupSettingsScreen: Failed to verify backup:', error);
+      Alert.alert('Error', 'Failed to read the backup.');
+    } finally {
+      setBusySnapshot(null);
+    }
+  };
+
+  // Checked against its checksums first, so a damaged backup isn't restored unknowingly
+  const handleRestore = async (snapshot: BackupSnapshot) => {
+    setBusySnapshot(snapshot.fileName);
+    let verification;
+    try {
+      verification = await AutoBackupService.verifySnapshot(snapshot);
+    } catch (error) {
+      __DEV__ && console.error('[ERROR] BackupSettingsScreen: Failed to verify backup:', error);
+      verification = { isValid: false, message: 'The backup could not be read.' };
+    } finally {
+      setBusySnapshot(null);
+    }
+
+    if (!verification.isValid) {
+      Alert.alert(
+        'Backup Has Problems',
+        `${verification.message}\n\nRestoring it may bring back incomplete or damaged records.`,
+        [
+          {
+            text: 'Cancel',
+            style: 'cancel',
+          },
+          {
+            text: 'Restore Anyway',
+            style: 'destructive',
+            onPress: () => chooseRestoreMode(snapshot),
+          },
+        ]
+      );
+      return;
+    }
+
+    chooseRestoreMode(snapshot);
+  };
+
+  const chooseRestoreMode = (snapshot: BackupSnapshot) => {
+    Alert.alert(
+      'Restore Backup',
+      `Restore the whole backup from ${new Date(snapshot.createdAt).toLocaleString()}, or pick the entries, licenses and certificates to bring back?`,
+      [
+        {
+          text: 'Cancel',
+          style: 'cancel',
+        },
+        {
+          text: 'Choose Items',
+          onPress: () => previewSnapshot(snapshot),
+        },
+        {
+          text: 'Restore Everything',
+          onPress: () => chooseFullRestoreMode(snapshot),
+        },
+      ]
+    );
+  };
+
+  const chooseFullRestoreMode = (snapshot: BackupSnapshot) => {
+    Alert.alert(
+      'Restore Everything',
+      'How should this backup be restored?',
+      [
+        {
+          text: 'Cancel',
+          style: 'cancel',
+        },
+        {
+          text: 'Merge with Existing',
+          onPress: () => restoreSnapshot(snapshot, 'merge'),
+        },
+        {
+          text: 'Replace Everything',
+          style: 'destructive',
+          onPress: () => confirmReplace(snapshot),
+        },
+      ]
+    );
+  };
+
+  const confirmReplace = (snapshot: BackupSnapshot) => {
+    Alert.alert(
+      'Replace All Data?',
+      'All current CME entries, licenses and certificates will be deleted and replaced with the contents of this backup. This cannot be undone.',
+      [
+        {
+          text: 'Cancel',
+          style: 'cancel',
+        },
+        {
+          text: 'Replace',
+          style: 'destructive',
+          onPress: () => restoreSnapshot(snapshot, 'replace'),
+        },
+      ]
+    );
+  };
+
+  const previewSnapshot = async (snapshot: BackupSnapshot) => {
+    setBusySnapshot(snapshot.fileName);
+    try {
+      await selectiveRestore.openPreview(snapshot.uri);
+    } finally {
+      setBusySnapshot(null);
+    }
+  };
+
+  const restoreSnapshot = async (snapshot: BackupSnapshot, mode: RestoreMode) => {
+    setBusySnapshot(snapshot.fileName);
+    try {
+      const result = await restoreFromBackup(snapshot.uri, mode);
+
+      if (result.success) {
+        await refreshAllData();
+        await forceRefreshCMEData();
+        Alert.alert('Success', result.message);
+      } else {
+        Alert.alert('Error', result.message);
+      }
+    } catch (error) {
+      __DEV__ && console.error('[ERROR] BackupSettingsScreen: Restore failed:', error);
+      Alert.alert('Error', 'Failed to restore backup. Please try again.');
+    } finally {
+      setBusySnapshot(null);
+      loadBackups();
+    }
+  };
+
+  const latest = snapshots[0];
+
+  return (
+    <View style={styles.container}>
+      <AnimatedGradientBackground />
+
+      <StandardHeader
+        title="Automatic Backups"
+        onBackPress={() => navigation.goBack()}
+        showBackButton={true}
+      />
+
+      <Animated.View
+        style={[
+          styles.content,
+          {
+            opacity: fadeAnim,
+            transform: [{ translateY: slideAnim }],
+          },
+        ]}
+      >
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+          <PremiumCard style={styles.card}>
+            <Text style={styles.cardTitle}>Schedule</Text>
+            <Text style={styles.cardSubtitle}>
+              Complete backups, including certificates, are kept on this device when the app opens and before and after a restore or import.
+            </Text>
+
+            <View style={styles.settingRow}>
+              <View style={styles.settingIconWrapper}>
+                <SvgIcon name="backup" size={22} color={theme.colors.iconTint} />
+              </View>
+              <View style={styles.settingDetails}>
+                <Text style={styles.settingLabel}>Automatic Backups</Text>
+                <Text style={styles.settingValue}>
+                  {latest ? `Last backup ${new Date(latest.createdAt).toLocaleString()}` : 'No backups yet'}
+                </Text>
+              </View>
+              <Switch
+                value={settings.enabled}
+                onValueChange={handleToggleEnabled}
+                trackColor={{ false: theme.colors.gray.light, true: theme.colors.primary }}
+                thumbColor={theme.colors.background}
+              />
+            </View>
+
+            <Text style={styles.fieldLabel}>Back up at most</Text>
+            <View style={styles.chipRow}>
+              {AUTO_BACKUP_CONFIG.INTERVAL_OPTIONS.map(option => (
+                <Chip
+                  key={option.hours}
+                  label={option.label}
+                  variant={settings.intervalHours === option.hours ? 'selected' : 'default'}
+                  onPress={() => handleIntervalSelect(option.hours)}
+                  disabled={!settings.enabled}
+                />
+              ))}
+            </View>
+            <Text style={styles.fieldHint}>
+              Keeps the newest backup from each of the last {AUTO_BACKUP_CONFIG.RETENTION.DAILY} days
+              and each of the last {AUTO_BACKUP_CONFIG.RETENTION.WEEKLY} weeks, plus every backup taken
+              before a restore or import during those days.
+            </Text>
+
+            <PremiumButton
+              title="Back Up Now"
+              variant="secondary"
+              onPress={handleBackupNow}
+              loading={busySnapshot === 'new'}
+              disabled={isBusy}
+              style={styles.backupButton}
+            />
+          </PremiumCard>
+
+          <PremiumCard style={styles.card}>
+            <Text style={styles.cardTitle}>Saved Backups</Text>
+            {isLoading ? (
+              <LoadingSpinner size={28} />
+            ) : snapshots.length === 0 ? (
+              <Text style={styles.cardSubtitle}>
+                Backups appear here once the first one has been made.
+              </Text>
+            ) : (
+              snapshots.map((snapshot, index) => (
+                <View
+                  key={snapshot.fileName}
+                  style={[styles.snapshotRow, index === snapshots.length - 1 && styles.settingRowLast]}
+                >
+                  <View style={styles.snapshotHeader}>
+                    <View style={styles.settingDetails}>
+                      <Text style={styles.settingLabel}>{new Date(snapshot.createdAt).toLocaleString()}</Text>
+                      <Text style={styles.settingValue}>
+                        {REASON_LABELS[snapshot.reason]} · {formatSize(snapshot.size)}
+                      </Text>
+                    </View>
+                    {busySnapshot === snapshot.fileName && <LoadingSpinner size={20} />}
+                  </View>
+                  <View style={styles.chipRow}>
+                    <Chip label="Share" onPress={() => handleShare(snapshot)} disabled={isBusy} />
+                    <Chip label="Verify" onPress={() => handleVerify(snapshot)} disabled={isBusy} />
+                    <Chip label="Restore" onPress={() => handleRestore(snapshot)} disabled={isBusy} />
+                  </View>
+                </View>
+              ))
+            )}
+          </PremiumCard>
+
+          <View style={styles.bottomSpacer} />
+        </ScrollView>
+      </Animated.View>
+
+      <RestorePreviewModal {...selectiveRestore.previewProps} />
+    </View>
+  );
+};
+
+const createStyles = (theme: AppTheme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'transparent', // Let AnimatedGradientBackground show through
+  },
+  content: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  card: {
+    marginHorizontal: theme.spacing[4],
+    marginTop: theme.spacing[4],
+    padding: theme.spacing[5],
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.xl,
+  },
+  cardTitle: {
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing[2],
+  },
+  cardSubtitle: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    lineHeight: 20,
+    marginBottom: theme.spacing[3],
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing[2],
+  },
+  fieldLabel: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing[4],
+    marginBottom: theme.spacing[2],
+  },
+  fieldHint: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[3],
+  },
+  backupButton: {
+    marginTop: theme.spacing[4],
+    minHeight: 48,
+  },
+
+  // Setting rows
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing[3],
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border.light,
+  },
+  settingRowLast: {
+    borderBottomWidth: 0,
+  },
+  settingIconWrapper: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: theme.colors.iconBackground,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: theme.spacing[3],
+  },
+  settingDetails: {
+    flex: 1,
+  },
+  settingLabel: {
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  settingValue: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+
+  // Snapshot list
+  snapshotRow: {
+    paddingVertical: theme.spacing[3],
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border.light,
+    gap: theme.spacing[2],
+  },
+  snapshotHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+
+  bottomSpacer: {
+    height: 40,
+  },
+});
@@ -0,0 +1,279 @@
+import React, { useState, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Animated
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Chip, StandardHeader, SvgIcon } from '../../components';
+import { AnimatedGradientBackground, PremiumCard } from '../../components/common/OnboardingComponents';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
+import { useAppContext } from '../../contexts/AppContext';
+import { databaseOperations } from '../../services/database';
+import { MainTabParamList } from '../../types/navigation';
+import { CMEEntry, ComplianceCycle } from '../../types';
+import { getCreditUnit } from '../../utils/creditTerminology';
+
+type CycleHistoryScreenNavigationProp = StackNavigationProp<MainTabParamList, 'CycleHistory'>;
+
+interface Props {
+  navigation: CycleHistoryScreenNavigationProp;
+}
+
+// Cycle end dates are exclusive - show the last day actually inside the cycle
+const formatCycleRange = (cycle: ComplianceCycle): string => {
+  const start = new Date(`${cycle.startDate}T00:00:00`);
+  const lastDay = new Date(`${cycle.endDate}T00:00:00`);
+  lastDay.setDate(lastDay.getDate() - 1);
+
+  const format = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  return `${format(start)} - ${format(lastDay)}`;
+};
+
+export const CycleHistoryScreen: React.FC<Props> = ({ navigation }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { user, complianceCycles, currentYearProgress, refreshComplianceCycles } = useAppContext();
+  const [entries, setEntries] = useState<CMEEntry[]>([]);
+
+  const creditUnit = user?.creditSystem ? getCreditUnit(user.creditSystem) : 'Credits';
+
+  // Entrance animation
+  const fadeAnim = useRef(new Animated.Value(0)).current;
+  const slideAnim = useRef(new Animated.Value(30)).current;
+
+  useFocusEffect(
+    useCallback(() => {
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: 600,
+          useNativeDriver: true,
+        }),
+        Animated.spring(slideAnim, {
+          toValue: 0,
+          tension: 30,
+          friction: 8,
+          useNativeDriver: true,
+        }),
+      ]).start();
+
+      refreshComplianceCycles();
+      databaseOperations.cme.getAllEntries().then(result => {
+        if (result.success) {
+          setEntries(result.data || []);
+        }
+      });
+    }, [refreshComplianceCycles])
+  );
+
+  const getCertificateEntries = (cycle: ComplianceCycle) => entries.filter(entry => {
+    const date = entry.dateAttended.split('T')[0];
+    return !!entry.certificatePath && date >= cycle.startDate && date < cycle.endDate;
+  });
+
+  const closedCycles = complianceCycles.filter(cycle => cycle.status === 'closed');
+  const activeCycle = complianceCycles.find(cycle => cycle.status === 'active');
+  // The live figure follows carry-over rule changes made since the cycle rolled over
+  const activeCarriedIn = currentYearProgress?.carriedOverCredits ?? activeCycle?.carriedInCredits ?? 0;
+
+  return (
+    <View style={styles.container}>
+      <AnimatedGradientBackground />
+
+      <StandardHeader
+        title="Cycle History"
+        onBackPress={() => navigation.goBack()}
+        showBackButton={true}
+      />
+
+      <Animated.View
+        style={[
+          styles.content,
+          {
+            opacity: fadeAnim,
+            transform: [{ translateY: slideAnim }],
+          },
+        ]}
+      >
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+          {activeCycle && (
+            <PremiumCard style={styles.card}>
+              <View style={styles.cycleHeader}>
+                <Text style={styles.cycleRange}>{formatCycleRange(activeCycle)}</Text>
+                <Chip label="Current" variant="selected" />
+              </View>
+              <Text style={styles.cycleDetail}>
+                Required: {activeCycle.requiredCredits} {creditUnit}
+              </Text>
+              {activeCarriedIn > 0 && (
+                <Text style={styles.cycleDetail}>
+                  Carried in: {activeCarriedIn} {creditUnit}
+                </Text>
+              )}
+            </PremiumCard>
+          )}
+
+          {closedCycles.length === 0 ? (
+            <PremiumCard style={styles.card}>
+              <Text style={styles.cardTitle}>No Past Cycles Yet</Text>
+              <Text style={styles.emptyText}>
+                When your requirement cycle ends, it is archived here with its totals and certificates and the next cycle starts automatically.
+              </Text>
+            </PremiumCard>
+          ) : (
+            closedCycles.map(cycle => {
+              const totalCounted = cycle.countedCredits + cycle.carriedInCredits;
+              const isMet = totalCounted >= cycle.requiredCredits;
+              const certificateEntries = getCertificateEntries(cycle);
+
+              return (
+                <PremiumCard key={cycle.id} style={styles.card}>
+                  <View style={styles.cycleHeader}>
+                    <Text style={styles.cycleRange}>{formatCycleRange(cycle)}</Text>
+                    <Chip label={isMet ? 'Met' : 'Not Met'} variant={isMet ? 'selected' : 'warning'} />
+                  </View>
+
+                  <View style={styles.totalsRow}>
+                    <View style={styles.totalItem}>
+                      <Text style={styles.totalValue}>{totalCounted}</Text>
+                      <Text style={styles.totalLabel}>Counted</Text>
+                    </View>
+                    <View style={styles.totalItem}>
+                      <Text style={styles.totalValue}>{cycle.requiredCredits}</Text>
+                      <Text style={styles.totalLabel}>Required</Text>
+                    </View>
+                    <View style={styles.totalItem}>
+                      <Text style={styles.totalValue}>{certificateEntries.length}</Text>
+                      <Text style={styles.totalLabel}>Certificates</Text>
+                    </View>
+                  </View>
+
+                  {cycle.claimedCredits > cycle.countedCredits && (
+                    <Text style={styles.cycleDetail}>
+                      {Math.round((cycle.claimedCredits - cycle.countedCredits) * 100) / 100} {creditUnit.toLowerCase()} over category caps not counted
+                    </Text>
+                  )}
+                  {cycle.carriedInCredits > 0 && (
+                    <Text style={styles.cycleDetail}>
+                      Includes {cycle.carriedInCredits} carried in from the previous cycle
+                    </Text>
+                  )}
+                  {cycle.carriedOutCredits > 0 && (
+                    <Text style={styles.cycleDetail}>
+                      {cycle.carriedOutCredits} carried into the next cycle
+                    </Text>
+                  )}
+
+                  {certificateEntries.map(entry => (
+                    <TouchableOpacity
+                      key={entry.id}
+                      style={styles.certificateRow}
+                      onPress={() => (navigation as any).navigate('CertificateViewer', { imageUri: entry.certificatePath })}
+                    >
+                      <SvgIcon name="document" size={16} color={theme.colors.primary} />
+                      <Text style={styles.certificateTitle} numberOfLines={1}>{entry.title}</Text>
+                      <SvgIcon name="chevron-right" size={14} color={theme.colors.text.secondary} />
+                    </TouchableOpacity>
+                  ))}
+                </PremiumCard>
+              );
+            })
+          )}
+
+          <View style={styles.bottomSpacer} />
+        </ScrollView>
+      </Animated.View>
+    </View>
+  );
+};
+
+const createStyles = (theme: AppTheme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'transparent', // Let AnimatedGradientBackground show through
+  },
+  content: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  card: {
+    marginHorizontal: theme.spacing[4],
+    marginTop: theme.spacing[4],
+    padding: theme.spacing[5],
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.xl,
+  },
+  cardTitle: {
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing[2],
+  },
+  emptyText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    lineHeight: 20,
+  },
+
+  // Cycle cards
+  cycleHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: theme.spacing[3],
+  },
+  cycleRange: {
+    flex: 1,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    marginRight: theme.spacing[2],
+  },
+  cycleDetail: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[1],
+  },
+  totalsRow: {
+    flexDirection: 'row',
+    marginBottom: theme.spacing[2],
+  },
+  totalItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  totalValue: {
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.primary,
+  },
+  totalLabel: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.secondary,
+  },
+  certificateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing[2],
+    paddingVertical: theme.spacing[2],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border.light,
+    marginTop: theme.spacing[2],
+  },
+  certificateTitle: {
+    flex: 1,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.primary,
+  },
+
+  bottomSpacer: {
+    height: 40,
+  },
+});
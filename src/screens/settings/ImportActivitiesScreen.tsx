@@ -0,0 +1,670 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Switch,
+  Alert,
+  Animated
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Picker } from '@react-native-picker/picker';
+import * as DocumentPicker from 'expo-document-picker';
+import { Chip, LoadingSpinner, StandardHeader, SvgIcon } from '../../components';
+import { AnimatedGradientBackground, PremiumButton, PremiumCard } from '../../components/common/OnboardingComponents';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
+import { CME_CATEGORIES } from '../../constants';
+import { useAppContext } from '../../contexts/AppContext';
+import { MainTabParamList } from '../../types/navigation';
+import {
+  ImportRowReview,
+  ImportTable,
+  commitImport,
+  readImportFile,
+  reviewImport,
+} from '../../services/activityImportService';
+import {
+  ColumnMapping,
+  DATE_FORMAT_LABELS,
+  DateFormat,
+  IMPORT_FIELDS,
+  buildImportCandidates,
+  collectCategoryValues,
+  detectDateFormat,
+  guessCategory,
+  guessColumnMapping,
+  parseImportDate,
+} from '../../utils/activityImport';
+
+type ImportActivitiesScreenNavigationProp = StackNavigationProp<MainTabParamList, 'ImportActivities'>;
+
+interface Props {
+  navigation: ImportActivitiesScreenNavigationProp;
+}
+
+type WizardStep = 'file' | 'columns' | 'values' | 'review';
+
+const STEP_TITLES: Record<WizardStep, string> = {
+  file: 'Choose a File',
+  columns: 'Match Columns',
+  values: 'Dates & Categories',
+  review: 'Review',
+};
+
+const STEPS: WizardStep[] = ['file', 'columns', 'values', 'review'];
+
+// Rows with problems listed on the review step; the counts cover the rest
+const MAX_LISTED_ROWS = 50;
+
+const DEFAULT_CATEGORY = 'Other';
+
+export const ImportActivitiesScreen: React.FC<Props> = ({ navigation }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { refreshAllData, forceRefreshCMEData } = useAppContext();
+
+  const [step, setStep] = useState<WizardStep>('file');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [dateFormat, setDateFormat] = useState<DateFormat>('ymd');
+  const [dateAmbiguous, setDateAmbiguous] = useState(false);
+  const [categoryMap, setCategoryMap] = useState<Record<string, string>>({});
+  const [defaultCategory, setDefaultCategory] = useState(DEFAULT_CATEGORY);
+  const [review, setReview] = useState<ImportRowReview[]>([]);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Entrance animation
+  const fadeAnim = useRef(new Animated.Value(0)).current;
+  const slideAnim = useRef(new Animated.Value(30)).current;
+
+  useFocusEffect(
+    useCallback(() => {
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: 600,
+          useNativeDriver: true,
+        }),
+        Animated.spring(slideAnim, {
+          toValue: 0,
+          tension: 30,
+          friction: 8,
+          useNativeDriver: true,
+        }),
+      ]).start();
+    }, [])
+  );
+
+  const dateColumnValues = useCallback((rows: string[][], columnMapping: ColumnMapping): string[] => {
+    const column = columnMapping.dateAttended;
+    return column === null ? [] : rows.map(row => row[column] || '');
+  }, []);
+
+  const handleChooseFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: [
+          'text/csv',
+          'text/comma-separated-values',
+          'text/plain',
+          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          'application/vnd.ms-excel',
+          'application/octet-stream',
+        ],
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled) {
+        return;
+      }
+
+      setIsWorking(true);
+      const asset = result.assets[0];
+      const loaded = await readImportFile(asset.uri, asset.name);
+      const guessed = guessColumnMapping(loaded.headers);
+
+      setTable(loaded);
+      setMapping(guessed);
+      setStep('columns');
+    } catch (error) {
+      __DEV__ && console.error('[ERROR] ImportActivitiesScreen: Failed to read file:', error);
+      Alert.alert('Unreadable File', error instanceof Error ? error.message : 'The file could not be read.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleColumnsNext = () => {
+    if (!table || !mapping) {
+      return;
+    }
+
+    const detected = detectDateFormat(dateColumnValues(table.rows, mapping));
+    setDateFormat(detected.format);
+    setDateAmbiguous(detected.ambiguous);
+    setCategoryMap(current => {
+      const next: Record<string, string> = {};
+      for (const value of collectCategoryValues(table.rows, mapping)) {
+        next[value] = current[value] ?? guessCategory(value, CME_CATEGORIES);
+      }
+      return next;
+    });
+    setStep('values');
+  };
+
+  const handleValuesNext = async () => {
+    if (!table || !mapping) {
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      const candidates = buildImportCandidates(table.rows, mapping, dateFormat, categoryMap, defaultCategory);
+      setReview(await reviewImport(candidates));
+      setStep('review');
+    } catch (error) {
+      __DEV__ && console.error('[ERROR] ImportActivitiesScreen: Failed to check rows:', error);
+      Alert.alert('Error', 'Failed to check the rows against your entries. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const importable = useMemo(
+    () => review.filter(row => row.errors.length === 0 && (includeDuplicates || !row.duplicate)),
+    [review, includeDuplicates]
+  );
+
+  const handleImport = async () => {
+    if (!table || importable.length === 0) {
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      const result = await commitImport(importable.map(row => row.entry), table.fileName);
+      if (!result.success) {
+        Alert.alert('Import Failed', result.message);
+        return;
+      }
+
+      await refreshAllData();
+      await forceRefreshCMEData();
+      Alert.alert('Import Complete', result.message, [{ text: 'OK', onPress: () => navigation.goBack() }]);
+    } catch (error) {
+      __DEV__ && console.error('[ERROR] ImportActivitiesScreen: Import failed:', error);
+      Alert.alert('Error', 'Failed to import entries. No entries were added.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleBack = () => {
+    const index = STEPS.indexOf(step);
+    if (index > 0) {
+      setStep(STEPS[index - 1]);
+    } else {
+      navigation.goBack();
+    }
+  };
+
+  const requiredMapped = !!mapping && IMPORT_FIELDS.every(field => !field.required || mapping[field.field] !== null);
+  const firstRow = table?.rows[0] || [];
+
+  const renderFileStep = () => (
+    <PremiumCard style={styles.card}>
+      <Text style={styles.cardTitle}>Import CME Activities</Text>
+      <Text style={styles.cardSubtitle}>
+        Bring in past activities from a spreadsheet or another tracker. Choose a .csv or .xlsx file whose first row
+        holds the column names; the first sheet of a workbook is used.
+      </Text>
+      <Text style={styles.cardSubtitle}>
+        You can match the columns, check dates and categories, and review every row before anything is added.
+      </Text>
+      <PremiumButton
+        title="Choose File"
+        onPress={handleChooseFile}
+        loading={isWorking}
+        style={styles.primaryButton}
+      />
+    </PremiumCard>
+  );
+
+  const renderColumnsStep = () => table && mapping && (
+    <PremiumCard style={styles.card}>
+      <Text style={styles.cardTitle}>{table.fileName}</Text>
+      <Text style={styles.cardSubtitle}>
+        {table.rows.length} rows found. Pick the column that holds each field.
+      </Text>
+
+      {IMPORT_FIELDS.map(({ field, label, required }) => {
+        const column = mapping[field];
+        return (
+          <View key={field}>
+            <Text style={styles.fieldLabel}>{label}{required ? ' *' : ''}</Text>
+            <View style={styles.chipRow}>
+              {!required && (
+                <Chip
+                  label="None"
+                  variant={column === null ? 'selected' : 'default'}
+                  onPress={() => setMapping({ ...mapping, [field]: null })}
+                />
+              )}
+              {table.headers.map((header, index) => (
+                <Chip
+                  key={`${field}-${index}`}
+                  label={header}
+                  variant={column === index ? 'selected' : 'default'}
+                  onPress={() => setMapping({ ...mapping, [field]: index })}
+                />
+              ))}
+            </View>
+            {column !== null && !!firstRow[column] && (
+              <Text style={styles.fieldHint} numberOfLines={1}>e.g. {firstRow[column]}</Text>
+            )}
+          </View>
+        );
+      })}
+
+      {mapping.provider === null && (
+        <Text style={styles.fieldHint}>Without a provider column, entries are saved with "Unknown provider".</Text>
+      )}
+
+      <PremiumButton
+        title="Next"
+        onPress={handleColumnsNext}
+        disabled={!requiredMapped}
+        style={styles.primaryButton}
+      />
+    </PremiumCard>
+  );
+
+  const renderValuesStep = () => {
+    if (!table || !mapping) {
+      return null;
+    }
+
+    const samples = dateColumnValues(table.rows, mapping).filter(value => value.trim()).slice(0, 3);
+    const categoryValues = Object.keys(categoryMap);
+
+    return (
+      <PremiumCard style={styles.card}>
+        <Text style={styles.cardTitle}>Date Format</Text>
+        <Text style={styles.cardSubtitle}>
+          {dateAmbiguous
+            ? 'These dates read as either month or day first. Check the examples below.'
+            : `Detected ${DATE_FORMAT_LABELS[dateFormat]}.`}
+        </Text>
+        <View style={styles.chipRow}>
+          {(Object.keys(DATE_FORMAT_LABELS) as DateFormat[]).map(format => (
+            <Chip
+              key={format}
+              label={DATE_FORMAT_LABELS[format]}
+              variant={dateFormat === format ? 'selected' : dateAmbiguous && (format === 'mdy' || format === 'dmy') ? 'warning' : 'default'}
+              onPress={() => setDateFormat(format)}
+            />
+          ))}
+        </View>
+        {samples.map((value, index) => (
+          <Text key={index} style={styles.fieldHint}>
+            {value} → {parseImportDate(value, dateFormat) ?? 'not a date in this format'}
+          </Text>
+        ))}
+
+        <Text style={[styles.cardTitle, styles.sectionSpacing]}>Categories</Text>
+        <Text style={styles.cardSubtitle}>
+          {categoryValues.length > 0
+            ? 'Each category in the file is matched to one of the app\'s categories.'
+            : 'The file has no category column, so every entry gets the category below.'}
+        </Text>
+
+        {categoryValues.map(value => (
+          <View key={value} style={styles.categoryRow}>
+            <Text style={styles.categoryValue} numberOfLines={2}>{value}</Text>
+            <View style={styles.pickerContainer}>
+              <Picker
+                selectedValue={categoryMap[value]}
+                onValueChange={category => setCategoryMap(current => ({ ...current, [value]: category }))}
+                style={styles.picker}
+              >
+                {CME_CATEGORIES.map(category => (
+                  <Picker.Item key={category} label={category} value={category} />
+                ))}
+              </Picker>
+            </View>
+          </View>
+        ))}
+
+        <View style={styles.categoryRow}>
+          <Text style={styles.categoryValue}>{categoryValues.length > 0 ? 'Rows without a category' : 'All rows'}</Text>
+          <View style={styles.pickerContainer}>
+            <Picker
+              selectedValue={defaultCategory}
+              onValueChange={category => setDefaultCategory(category)}
+              style={styles.picker}
+            >
+              {CME_CATEGORIES.map(category => (
+                <Picker.Item key={category} label={category} value={category} />
+              ))}
+            </Picker>
+          </View>
+        </View>
+
+        <PremiumButton
+          title="Check Rows"
+          onPress={handleValuesNext}
+          loading={isWorking}
+          style={styles.primaryButton}
+        />
+      </PremiumCard>
+    );
+  };
+
+  const renderReviewStep = () => {
+    const invalid = review.filter(row => row.errors.length > 0);
+    const duplicates = review.filter(row => row.errors.length === 0 && row.duplicate);
+    const warned = review.filter(row => row.errors.length === 0 && row.warnings.length > 0);
+    const listed = review.filter(row => row.errors.length > 0 || row.duplicate || row.warnings.length > 0);
+
+    return (
+      <>
+        <PremiumCard style={styles.card}>
+          <Text style={styles.cardTitle}>Ready to Import</Text>
+          <View style={styles.statsRow}>
+            <View style={styles.stat}>
+              <Text style={styles.statValue}>{importable.length}</Text>
+              <Text style={styles.statLabel}>To import</Text>
+            </View>
+            <View style={styles.stat}>
+              <Text style={styles.statValue}>{duplicates.length}</Text>
+              <Text style={styles.statLabel}>Duplicates</Text>
+            </View>
+            <View style={styles.stat}>
+              <Text style={[styles.statValue, invalid.length > 0 && styles.statValueError]}>{invalid.length}</Text>
+              <Text style={styles.statLabel}>With errors</Text>
+            </View>
+          </View>
+
+          {duplicates.length > 0 && (
+            <View style={styles.settingRow}>
+              <View style={styles.settingDetails}>
+                <Text style={styles.settingLabel}>Import duplicates</Text>
+                <Text style={styles.settingValue}>Rows matching an entry you already have, or an earlier row</Text>
+              </View>
+              <Switch
+                value={includeDuplicates}
+                onValueChange={setIncludeDuplicates}
+                trackColor={{ false: theme.colors.gray.light, true: theme.colors.primary }}
+                thumbColor={theme.colors.background}
+              />
+            </View>
+          )}
+
+          {invalid.length > 0 && (
+            <Text style={styles.fieldHint}>Rows with errors are skipped. Fix them in the file and import it again to add them.</Text>
+          )}
+          {warned.length > 0 && (
+            <Text style={styles.fieldHint}>{warned.length} rows have warnings but will be imported.</Text>
+          )}
+
+          <PremiumButton
+            title={importable.length === 1 ? 'Import 1 Entry' : `Import ${importable.length} Entries`}
+            onPress={handleImport}
+            loading={isWorking}
+            disabled={importable.length === 0}
+            style={styles.primaryButton}
+          />
+        </PremiumCard>
+
+        {listed.length > 0 && (
+          <PremiumCard style={styles.card}>
+            <Text style={styles.cardTitle}>Rows to Check</Text>
+            {listed.slice(0, MAX_LISTED_ROWS).map((row, index) => {
+              const hasErrors = row.errors.length > 0;
+              const messages = [
+                ...row.errors,
+                ...(row.duplicate ? ['Already in your entries'] : []),
+                ...row.warnings,
+              ];
+              return (
+                <View
+                  key={row.rowNumber}
+                  style={[styles.issueRow, index === Math.min(listed.length, MAX_LISTED_ROWS) - 1 && styles.settingRowLast]}
+                >
+                  <SvgIcon
+                    name={hasErrors ? 'alert' : 'warning'}
+                    size={18}
+                    color={hasErrors ? theme.colors.error : theme.colors.warning}
+                  />
+                  <View style={styles.settingDetails}>
+                    <Text style={styles.issueTitle} numberOfLines={1}>
+                      Row {row.rowNumber}: {row.entry.title || 'Untitled'}
+                    </Text>
+                    <Text style={styles.settingValue}>{messages.join(' · ')}</Text>
+                  </View>
+                </View>
+              );
+            })}
+            {listed.length > MAX_LISTED_ROWS && (
+              <Text style={styles.fieldHint}>...and {listed.length - MAX_LISTED_ROWS} more</Text>
+            )}
+          </PremiumCard>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <AnimatedGradientBackground />
+
+      <StandardHeader
+        title="Import Activities"
+        onBackPress={handleBack}
+        showBackButton={true}
+      />
+
+      <Animated.View
+        style={[
+          styles.content,
+          {
+            opacity: fadeAnim,
+            transform: [{ translateY: slideAnim }],
+          },
+        ]}
+      >
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+          <View style={styles.stepRow}>
+            {STEPS.map((item, index) => (
+              <View key={item} style={[styles.stepDot, STEPS.indexOf(step) >= index && styles.stepDotActive]} />
+            ))}
+            <Text style={styles.stepLabel}>
+              Step {STEPS.indexOf(step) + 1} of {STEPS.length}: {STEP_TITLES[step]}
+            </Text>
+          </View>
+
+          {isWorking && step === 'file' ? (
+            <PremiumCard style={styles.card}>
+              <LoadingSpinner size={28} />
+            </PremiumCard>
+          ) : (
+            <>
+              {step === 'file' && renderFileStep()}
+              {step === 'columns' && renderColumnsStep()}
+              {step === 'values' && renderValuesStep()}
+              {step === 'review' && renderReviewStep()}
+            </>
+          )}
+
+          <View style={styles.bottomSpacer} />
+        </ScrollView>
+      </Animated.View>
+    </View>
+  );
+};
+
+const createStyles = (theme: AppTheme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'transparent', // Let AnimatedGradientBackground show through
+  },
+  content: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  card: {
+    marginHorizontal: theme.spacing[4],
+    marginTop: theme.spacing[4],
+    padding: theme.spacing[5],
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.xl,
+  },
+  cardTitle: {
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing[2],
+  },
+  cardSubtitle: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    lineHeight: 20,
+    marginBottom: theme.spacing[3],
+  },
+  sectionSpacing: {
+    marginTop: theme.spacing[6],
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing[2],
+  },
+  fieldLabel: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing[4],
+    marginBottom: theme.spacing[2],
+  },
+  fieldHint: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[2],
+  },
+  primaryButton: {
+    marginTop: theme.spacing[5],
+    minHeight: 48,
+  },
+
+  // Wizard progress
+  stepRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing[2],
+    marginHorizontal: theme.spacing[4],
+    marginTop: theme.spacing[4],
+  },
+  stepDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: theme.colors.border.medium,
+  },
+  stepDotActive: {
+    backgroundColor: theme.colors.primary,
+  },
+  stepLabel: {
+    marginLeft: theme.spacing[2],
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+
+  // Category mapping
+  categoryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing[3],
+    paddingVertical: theme.spacing[1],
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border.light,
+  },
+  categoryValue: {
+    flex: 1,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.primary,
+  },
+  pickerContainer: {
+    flex: 1.2,
+  },
+  picker: {
+    color: theme.colors.text.primary,
+  },
+
+  // Review
+  statsRow: {
+    flexDirection: 'row',
+    marginVertical: theme.spacing[3],
+  },
+  stat: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: theme.typography.fontSize.xxl,
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+  statValueError: {
+    color: theme.colors.error,
+  },
+  statLabel: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing[3],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border.light,
+  },
+  settingRowLast: {
+    borderBottomWidth: 0,
+  },
+  settingDetails: {
+    flex: 1,
+  },
+  settingLabel: {
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  settingValue: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+  issueRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: theme.spacing[3],
+    paddingVertical: theme.spacing[3],
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border.light,
+  },
+  issueTitle: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+
+  bottomSpacer: {
+    height: 40,
+  },
+});
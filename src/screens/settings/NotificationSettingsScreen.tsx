@@ -13,7 +13,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import DateTimePicker from '@react-native-community/datetimepicker';
 
 import { Card, Button, StandardHeader, SvgIcon, LoadingSpinner } from '../../components';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 import { 
   NotificationService, 
   NotificationSettings, 
@@ -27,9 +27,18 @@ interface Props {
   navigation: any;
 }
 
+const REMIND_LATER_OPTIONS = [
+  { hours: 1, label: '1 hour' },
+  { hours: 4, label: '4 hours' },
+  { hours: 24, label: '1 day' },
+  { hours: 72, label: '3 days' },
+];
+
 export const NotificationSettingsScreen: React.FC<Props> = ({ navigation }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
-  const { user, licenses, eventReminders, recentCMEEntries } = useAppContext();
+  const { refreshNotifications } = useAppContext();
   const { playToggle } = useSound();
 
   const [settings, setSettings] = useState<NotificationSettings>(DEFAULT_NOTIFICATION_SETTINGS);
@@ -72,13 +81,7 @@ export const NotificationSettingsScreen: React.FC<Props> = ({ navigation }) => {
       setSettings(updatedSettings);
 
       // Refresh notifications with current app data
-      const currentProgress = recentCMEEntries.reduce((sum, entry) => sum + entry.creditsEarned, 0);
-      await NotificationService.refreshAllNotifications(
-        user || undefined,
-        licenses,
-        eventReminders,
-        currentProgress
-      );
+      await refreshNotifications();
 
     } catch (error) {
       __DEV__ && console.error('Error saving notification settings:', error);
@@ -336,6 +339,90 @@ export const NotificationSettingsScreen: React.FC<Props> = ({ navigation }) => {
               settings.cycleReminders.intervals
             )}
 
+            {/* Progress Reminders */}
+            <Card variant="entry" style={styles.card}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>Falling Behind Nudges</Text>
+                <Switch
+                  value={settings.progressReminders.enabled}
+                  onValueChange={async (enabled) => {
+                    await playToggle();
+                    const updatedSettings = {
+                      ...settings,
+                      progressReminders: {
+                        ...settings.progressReminders,
+                        enabled,
+                      },
+                    };
+                    saveSettings(updatedSettings);
+                  }}
+                  trackColor={{ false: theme.colors.gray.light, true: theme.colors.primary }}
+                  thumbColor={theme.colors.background}
+                />
+              </View>
+
+              {settings.progressReminders.enabled && (
+                <View style={styles.eventReminderContainer}>
+                  <Text style={styles.intervalLabel}>
+                    When your credits fall behind the pace your cycle needs, remind me at most:
+                  </Text>
+                  <View style={styles.intervalGrid}>
+                    {[1, 2, 3].map((perWeek) => {
+                      const isSelected = settings.progressReminders.maxNudgesPerWeek === perWeek;
+                      return (
+                        <TouchableOpacity
+                          key={perWeek}
+                          style={[
+                            styles.intervalChip,
+                            isSelected && styles.intervalChipSelected,
+                          ]}
+                          onPress={() => {
+                            const updatedSettings = {
+                              ...settings,
+                              progressReminders: {
+                                ...settings.progressReminders,
+                                maxNudgesPerWeek: perWeek,
+                              },
+                            };
+                            saveSettings(updatedSettings);
+                          }}
+                        >
+                          <Text
+                            style={[
+                              styles.intervalChipText,
+                              isSelected && styles.intervalChipTextSelected,
+                            ]}
+                          >
+                            {perWeek === 1 ? 'Once a week' : `${perWeek} times a week`}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              )}
+
+              <View style={[styles.sectionHeader, styles.milestoneToggle]}>
+                <Text style={styles.intervalLabel}>Celebrate 25%, 50%, 75% and 100%</Text>
+                <Switch
+                  value={settings.progressReminders.celebrateMilestones}
+                  onValueChange={async (celebrateMilestones) => {
+                    await playToggle();
+                    const updatedSettings = {
+                      ...settings,
+                      progressReminders: {
+                        ...settings.progressReminders,
+                        celebrateMilestones,
+                      },
+                    };
+                    saveSettings(updatedSettings);
+                  }}
+                  trackColor={{ false: theme.colors.gray.light, true: theme.colors.primary }}
+                  thumbColor={theme.colors.background}
+                />
+              </View>
+            </Card>
+
             {/* License Renewal Reminders */}
             {renderIntervalSelector(
               'License Renewal Reminders',
@@ -343,6 +430,49 @@ export const NotificationSettingsScreen: React.FC<Props> = ({ navigation }) => {
               settings.licenseReminders.intervals
             )}
 
+            {/* Remind Later */}
+            <Card variant="entry" style={styles.card}>
+              <Text style={styles.sectionTitle}>Remind Later</Text>
+              <View style={styles.eventReminderContainer}>
+                <Text style={styles.intervalLabel}>
+                  Show a license reminder again after tapping Remind Later:
+                </Text>
+                <View style={styles.intervalGrid}>
+                  {REMIND_LATER_OPTIONS.map(({ hours, label }) => {
+                    const isSelected = settings.remindLater.delayHours === hours;
+                    return (
+                      <TouchableOpacity
+                        key={hours}
+                        style={[
+                          styles.intervalChip,
+                          isSelected && styles.intervalChipSelected,
+                        ]}
+                        onPress={() => {
+                          const updatedSettings = {
+                            ...settings,
+                            remindLater: {
+                              ...settings.remindLater,
+                              delayHours: hours,
+                            },
+                          };
+                          saveSettings(updatedSettings);
+                        }}
+                      >
+                        <Text
+                          style={[
+                            styles.intervalChipText,
+                            isSelected && styles.intervalChipTextSelected,
+                          ]}
+                        >
+                          {label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            </Card>
+
             {/* Event Reminders */}
             <Card variant="entry" style={styles.card}>
               <View style={styles.sectionHeader}>
@@ -368,7 +498,7 @@ export const NotificationSettingsScreen: React.FC<Props> = ({ navigation }) => {
               {settings.eventReminders.enabled && (
                 <View style={styles.eventReminderContainer}>
                   <Text style={styles.intervalLabel}>
-                    Default reminder time:
+                    Default for events without their own reminders:
                   </Text>
                   <View style={styles.intervalGrid}>
                     {[1, 3, 7].map((days) => {
@@ -536,20 +666,20 @@ export const NotificationSettingsScreen: React.FC<Props> = ({ navigation }) => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: theme.colors.background,
   },
   scrollView: {
     flex: 1,
-    backgroundColor: '#FFF5EE',
+    backgroundColor: theme.colors.background,
   },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
-    backgroundColor: '#FFF5EE',
+    backgroundColor: theme.colors.background,
   },
   loadingText: {
     marginTop: theme.spacing[3],
@@ -656,6 +786,10 @@ const styles = StyleSheet.create({
   eventReminderContainer: {
     marginTop: theme.spacing[3],
   },
+  milestoneToggle: {
+    marginTop: theme.spacing[4],
+    marginBottom: 0,
+  },
 
   // Quiet Hours
   quietHoursContainer: {
@@ -17,7 +17,7 @@ import * as FileSystem from 'expo-file-system/legacy';
 
 import { Card, Button, Input, LoadingSpinner, StandardHeader, SvgIcon } from '../../components';
 import { AnimatedGradientBackground, PremiumButton, PremiumCard } from '../../components/common/OnboardingComponents';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 import { useAppContext } from '../../contexts/AppContext';
 import { User, Profession } from '../../types';
 import { useUnsavedChanges } from '../../hooks/useUnsavedChanges';
@@ -29,6 +29,8 @@ interface Props {
 }
 
 export const ProfileEditScreen: React.FC<Props> = ({ navigation }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
   const { user, updateUserProfile } = useAppContext();
   
@@ -490,7 +492,7 @@ export const ProfileEditScreen: React.FC<Props> = ({ navigation }) => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: 'transparent', // Let AnimatedGradientBackground show through
@@ -0,0 +1,557 @@
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Animated
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+import { Picker } from '@react-native-picker/picker';
+import { Chip, Input, StandardHeader, SvgIcon } from '../../components';
+import { AnimatedGradientBackground, PremiumButton, PremiumCard } from '../../components/common/OnboardingComponents';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
+import { CME_CATEGORIES } from '../../constants';
+import { useAppContext } from '../../contexts/AppContext';
+import { MainTabParamList } from '../../types/navigation';
+import { RequirementRule } from '../../types';
+import { getCreditUnit } from '../../utils/creditTerminology';
+
+// One-line summary of a rule's minimum and caps
+const describeRule = (rule: RequirementRule, creditUnit: string): string => {
+  const parts: string[] = [];
+  if (rule.minimumCredits > 0) {
+    parts.push(`Min ${rule.minimumCredits} ${creditUnit}`);
+  }
+  if (rule.maximumCredits !== undefined) {
+    parts.push(`max ${rule.maximumCredits}`);
+  }
+  if (rule.maximumPercent !== undefined) {
+    parts.push(`max ${rule.maximumPercent}% of total`);
+  }
+  return parts.join(' - ');
+};
+
+type RequirementRulesScreenNavigationProp = StackNavigationProp<MainTabParamList, 'RequirementRules'>;
+type RequirementRulesScreenRouteProp = RouteProp<MainTabParamList, 'RequirementRules'>;
+
+interface Props {
+  navigation: RequirementRulesScreenNavigationProp;
+  route: RequirementRulesScreenRouteProp;
+}
+
+export const RequirementRulesScreen: React.FC<Props> = ({ navigation, route }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const {
+    user,
+    licenses,
+    requirementRules,
+    requirementBreakdowns,
+    addRequirementRule,
+    updateRequirementRule,
+    deleteRequirementRule,
+    carryOverRules,
+    setCarryOverRule,
+  } = useAppContext();
+
+  // undefined = the user's requirement cycle
+  const [licenseId, setLicenseId] = useState<number | undefined>(route.params?.licenseId);
+  const [editingRuleId, setEditingRuleId] = useState<number | null>(null);
+  const [category, setCategory] = useState<string>(CME_CATEGORIES[0]);
+  const [minimumCredits, setMinimumCredits] = useState('');
+  const [maximumCredits, setMaximumCredits] = useState('');
+  const [maximumPercent, setMaximumPercent] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [carryOverMaximum, setCarryOverMaximum] = useState('');
+  const [carryOverWindow, setCarryOverWindow] = useState('');
+  const [isSavingCarryOver, setIsSavingCarryOver] = useState(false);
+
+  const creditUnit = user?.creditSystem ? getCreditUnit(user.creditSystem) : 'Credits';
+
+  // Entrance animation
+  const fadeAnim = useRef(new Animated.Value(0)).current;
+  const slideAnim = useRef(new Animated.Value(30)).current;
+
+  useFocusEffect(
+    useCallback(() => {
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: 600,
+          useNativeDriver: true,
+        }),
+        Animated.spring(slideAnim, {
+          toValue: 0,
+          tension: 30,
+          friction: 8,
+          useNativeDriver: true,
+        }),
+      ]).start();
+    }, [])
+  );
+
+  const scopeRules = requirementRules.filter(rule => rule.licenseId === licenseId);
+  const scopeProgress = requirementBreakdowns.find(breakdown => breakdown.licenseId === licenseId);
+  const scopeCarryOver = carryOverRules.find(rule => rule.licenseId === licenseId);
+
+  // Show the saved carry-over rule for the selected scope
+  useEffect(() => {
+    setCarryOverMaximum(scopeCarryOver ? scopeCarryOver.maximumCredits.toString() : '');
+    setCarryOverWindow(scopeCarryOver?.windowMonths !== undefined ? scopeCarryOver.windowMonths.toString() : '');
+  }, [scopeCarryOver]);
+
+  const resetForm = () => {
+    setEditingRuleId(null);
+    setCategory(CME_CATEGORIES[0]);
+    setMinimumCredits('');
+    setMaximumCredits('');
+    setMaximumPercent('');
+  };
+
+  const selectScope = (scope: number | undefined) => {
+    setLicenseId(scope);
+    resetForm();
+  };
+
+  const startEditing = (rule: RequirementRule) => {
+    setEditingRuleId(rule.id);
+    setCategory(rule.category);
+    setMinimumCredits(rule.minimumCredits > 0 ? rule.minimumCredits.toString() : '');
+    setMaximumCredits(rule.maximumCredits !== undefined ? rule.maximumCredits.toString() : '');
+    setMaximumPercent(rule.maximumPercent !== undefined ? rule.maximumPercent.toString() : '');
+  };
+
+  const handleSubmit = async () => {
+    const minimum = minimumCredits.trim() ? parseFloat(minimumCredits) : 0;
+    if (isNaN(minimum) || minimum < 0) {
+      Alert.alert('Invalid Minimum', `Enter how many ${creditUnit.toLowerCase()} of ${category} are required.`);
+      return;
+    }
+
+    const maximum = maximumCredits.trim() ? parseFloat(maximumCredits) : undefined;
+    if (maximum !== undefined && (isNaN(maximum) || maximum < minimum)) {
+      Alert.alert('Invalid Cap', 'The cap must be a number no lower than the minimum.');
+      return;
+    }
+
+    const percent = maximumPercent.trim() ? parseFloat(maximumPercent) : undefined;
+    if (percent !== undefined && (isNaN(percent) || percent <= 0 || percent > 100)) {
+      Alert.alert('Invalid Cap', 'The percentage cap must be between 1 and 100.');
+      return;
+    }
+
+    if (minimum === 0 && maximum === undefined && percent === undefined) {
+      Alert.alert('Nothing to Save', 'Enter a minimum, a cap, or both.');
+      return;
+    }
+
+    const duplicate = scopeRules.find(rule =>
+      rule.id !== editingRuleId && rule.category.toLowerCase() === category.toLowerCase()
+    );
+    if (duplicate) {
+      Alert.alert('Duplicate Category', `There is already a ${category} requirement here. Edit it instead.`);
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const success = editingRuleId !== null
+        ? await updateRequirementRule(editingRuleId, {
+            category,
+            minimumCredits: minimum,
+            maximumCredits: maximum ?? null,
+            maximumPercent: percent ?? null,
+          })
+        : await addRequirementRule({
+            licenseId,
+            category,
+            minimumCredits: minimum,
+            maximumCredits: maximum,
+            maximumPercent: percent,
+          });
+
+      if (success) {
+        resetForm();
+      } else {
+        Alert.alert('Error', 'Failed to save requirement. Please try again.');
+      }
+    } catch (error) {
+      __DEV__ && console.error('Error saving requirement rule:', error);
+      Alert.alert('Error', 'An unexpected error occurred. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSaveCarryOver = async () => {
+    const maximum = carryOverMaximum.trim() ? parseFloat(carryOverMaximum) : undefined;
+    if (maximum !== undefined && (isNaN(maximum) || maximum <= 0)) {
+      Alert.alert('Invalid Carry-Over', `Enter how many surplus ${creditUnit.toLowerCase()} can roll forward.`);
+      return;
+    }
+
+    const windowMonths = carryOverWindow.trim() ? parseInt(carryOverWindow, 10) : undefined;
+    if (windowMonths !== undefined && (isNaN(windowMonths) || windowMonths <= 0)) {
+      Alert.alert('Invalid Carry-Over', 'The window must be a whole number of months.');
+      return;
+    }
+
+    setIsSavingCarryOver(true);
+    try {
+      const success = await setCarryOverRule(
+        licenseId,
+        maximum !== undefined ? { maximumCredits: maximum, windowMonths } : null
+      );
+      if (!success) {
+        Alert.alert('Error', 'Failed to save carry-over rule. Please try again.');
+      }
+    } finally {
+      setIsSavingCarryOver(false);
+    }
+  };
+
+  const handleDelete = (rule: RequirementRule) => {
+    Alert.alert(
+      'Delete Requirement',
+      `Remove the ${rule.category} requirement?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const success = await deleteRequirementRule(rule.id);
+            if (!success) {
+              Alert.alert('Error', 'Failed to delete requirement. Please try again.');
+            } else if (editingRuleId === rule.id) {
+              resetForm();
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <AnimatedGradientBackground />
+
+      <StandardHeader
+        title="Category Requirements"
+        onBackPress={() => navigation.goBack()}
+        showBackButton={true}
+      />
+
+      <Animated.View
+        style={[
+          styles.content,
+          {
+            opacity: fadeAnim,
+            transform: [{ translateY: slideAnim }],
+          },
+        ]}
+      >
+        <ScrollView
+          style={styles.scrollView}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* Scope */}
+          <PremiumCard style={styles.card}>
+            <Text style={styles.cardTitle}>Applies To</Text>
+            <Text style={styles.cardSubtitle}>
+              Category minimums and caps apply inside the total for your cycle or a specific license
+            </Text>
+            <View style={styles.chipRow}>
+              <Chip
+                label="My Cycle"
+                variant={licenseId === undefined ? 'selected' : 'default'}
+                onPress={() => selectScope(undefined)}
+              />
+              {licenses.map(license => (
+                <Chip
+                  key={license.id}
+                  label={license.licenseType}
+                  variant={licenseId === license.id ? 'selected' : 'default'}
+                  onPress={() => selectScope(license.id)}
+                />
+              ))}
+            </View>
+          </PremiumCard>
+
+          {/* Existing rules */}
+          <PremiumCard style={styles.card}>
+            <Text style={styles.cardTitle}>Requirements</Text>
+            {scopeRules.length === 0 ? (
+              <Text style={styles.emptyText}>No category requirements yet.</Text>
+            ) : (
+              scopeRules.map(rule => {
+                const progress = scopeProgress?.categories.find(item => item.ruleId === rule.id);
+                return (
+                  <TouchableOpacity
+                    key={rule.id}
+                    style={[styles.ruleRow, editingRuleId === rule.id && styles.ruleRowEditing]}
+                    onPress={() => startEditing(rule)}
+                  >
+                    <View style={styles.ruleInfo}>
+                      <Text style={styles.ruleCategory}>{rule.category}</Text>
+                      <Text style={styles.ruleDetails}>
+                        {describeRule(rule, creditUnit)}
+                      </Text>
+                      {progress && (
+                        <Text style={[
+                          styles.ruleProgress,
+                          { color: progress.isMet ? theme.colors.success : theme.colors.warning },
+                        ]}>
+                          {!progress.isMet
+                            ? `${progress.countedCredits}/${progress.minimumCredits} - ${progress.remainingCredits} to go`
+                            : progress.discountedCredits > 0
+                              ? `${progress.countedCredits} counted - ${progress.discountedCredits} over cap`
+                              : `${progress.countedCredits} ${creditUnit} counted`}
+                        </Text>
+                      )}
+                    </View>
+                    <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(rule)}>
+                      <SvgIcon name="trash" size={18} color={theme.colors.error} />
+                    </TouchableOpacity>
+                  </TouchableOpacity>
+                );
+              })
+            )}
+          </PremiumCard>
+
+          {/* Add / edit form */}
+          <PremiumCard style={styles.card}>
+            <Text style={styles.cardTitle}>{editingRuleId !== null ? 'Edit Requirement' : 'Add Requirement'}</Text>
+
+            <View style={styles.fieldContainer}>
+              <Text style={styles.fieldLabel}>Category *</Text>
+              <View style={styles.pickerContainer}>
+                <Picker
+                  selectedValue={category}
+                  onValueChange={(value) => setCategory(value)}
+                  style={styles.picker}
+                >
+                  {CME_CATEGORIES.map(item => (
+                    <Picker.Item key={item} label={item} value={item} />
+                  ))}
+                </Picker>
+              </View>
+            </View>
+
+            <View style={styles.fieldContainer}>
+              <Text style={styles.fieldLabel}>Minimum {creditUnit}</Text>
+              <Input
+                value={minimumCredits}
+                onChangeText={setMinimumCredits}
+                placeholder="e.g., 2 - leave empty for a cap only"
+                keyboardType="numeric"
+              />
+            </View>
+
+            <View style={styles.fieldContainer}>
+              <Text style={styles.fieldLabel}>Cap in {creditUnit} (Optional)</Text>
+              <Input
+                value={maximumCredits}
+                onChangeText={setMaximumCredits}
+                placeholder="e.g., 10 - most that can count"
+                keyboardType="numeric"
+              />
+            </View>
+
+            <View style={styles.fieldContainer}>
+              <Text style={styles.fieldLabel}>Cap as % of Total (Optional)</Text>
+              <Input
+                value={maximumPercent}
+                onChangeText={setMaximumPercent}
+                placeholder="e.g., 50"
+                keyboardType="numeric"
+              />
+              <Text style={styles.fieldHint}>
+                Credits above a cap are kept on the entry but do not count toward your progress
+              </Text>
+            </View>
+
+            <View style={styles.formActions}>
+              {editingRuleId !== null && (
+                <PremiumButton
+                  title="Cancel"
+                  onPress={resetForm}
+                  variant="secondary"
+                  style={styles.button}
+                />
+              )}
+              <PremiumButton
+                title={editingRuleId !== null ? 'Update' : 'Add'}
+                onPress={handleSubmit}
+                disabled={isSubmitting || (!minimumCredits.trim() && !maximumCredits.trim() && !maximumPercent.trim())}
+                loading={isSubmitting}
+                variant="primary"
+                style={styles.button}
+              />
+            </View>
+          </PremiumCard>
+
+          {/* Carry-over - surplus from the previous cycle or renewal counts toward the current one */}
+          <PremiumCard style={styles.card}>
+            <Text style={styles.cardTitle}>Carry-Over</Text>
+            <Text style={styles.cardSubtitle}>
+              Surplus {creditUnit.toLowerCase()} that roll into the next {licenseId === undefined ? 'cycle' : 'renewal'} when this one ends. Leave empty if your board does not allow it.
+            </Text>
+
+            <View style={styles.fieldContainer}>
+              <Text style={styles.fieldLabel}>Carry Up To</Text>
+              <Input
+                value={carryOverMaximum}
+                onChangeText={setCarryOverMaximum}
+                placeholder={`e.g., 10 ${creditUnit.toLowerCase()}`}
+                keyboardType="numeric"
+              />
+            </View>
+
+            <View style={styles.fieldContainer}>
+              <Text style={styles.fieldLabel}>Earned In Final Months (Optional)</Text>
+              <Input
+                value={carryOverWindow}
+                onChangeText={setCarryOverWindow}
+                placeholder="e.g., 6 - empty counts the whole period"
+                keyboardType="numeric"
+              />
+            </View>
+
+            <PremiumButton
+              title={carryOverMaximum.trim() || !scopeCarryOver ? 'Save Carry-Over' : 'Remove Carry-Over'}
+              onPress={handleSaveCarryOver}
+              disabled={isSavingCarryOver || (!carryOverMaximum.trim() && !scopeCarryOver)}
+              loading={isSavingCarryOver}
+              variant="primary"
+            />
+          </PremiumCard>
+
+          <View style={styles.bottomSpacer} />
+        </ScrollView>
+      </Animated.View>
+    </View>
+  );
+};
+
+const createStyles = (theme: AppTheme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'transparent', // Let AnimatedGradientBackground show through
+  },
+  content: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  card: {
+    marginHorizontal: theme.spacing[4],
+    marginTop: theme.spacing[4],
+    padding: theme.spacing[5],
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.xl,
+  },
+  cardTitle: {
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing[2],
+  },
+  cardSubtitle: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    lineHeight: 20,
+    marginBottom: theme.spacing[3],
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing[2],
+  },
+  emptyText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+
+  // Rule rows
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing[3],
+    paddingHorizontal: theme.spacing[2],
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border.light,
+    borderRadius: theme.borderRadius.md,
+  },
+  ruleRowEditing: {
+    backgroundColor: theme.colors.gray.light,
+  },
+  ruleInfo: {
+    flex: 1,
+  },
+  ruleCategory: {
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  ruleDetails: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+  ruleProgress: {
+    fontSize: theme.typography.fontSize.xs,
+    fontWeight: theme.typography.fontWeight.semibold,
+    marginTop: 4,
+  },
+  deleteButton: {
+    padding: theme.spacing[2],
+  },
+
+  // Form
+  fieldContainer: {
+    marginBottom: theme.spacing[4],
+  },
+  fieldLabel: {
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing[2],
+  },
+  fieldHint: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[1],
+  },
+  pickerContainer: {
+    backgroundColor: theme.colors.gray.light,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border.light,
+    minHeight: 50,
+    justifyContent: 'center',
+  },
+  picker: {
+    minHeight: 50,
+  },
+  formActions: {
+    flexDirection: 'row',
+    gap: theme.spacing[3],
+  },
+  button: {
+    flex: 1,
+    minHeight: 48,
+  },
+
+  bottomSpacer: {
+    height: 40,
+  },
+});
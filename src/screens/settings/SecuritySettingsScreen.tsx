@@ -0,0 +1,417 @@
+import React, { useState, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Switch,
+  Modal,
+  TouchableOpacity,
+  Alert,
+  Animated
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Chip, StandardHeader, SvgIcon } from '../../components';
+import { AnimatedGradientBackground, PremiumButton, PremiumCard } from '../../components/common/OnboardingComponents';
+import { PinPad } from '../../components/security';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
+import { APP_LOCK_CONFIG } from '../../constants';
+import { useAppLock } from '../../contexts/AppLockContext';
+import { AppLockService } from '../../services/AppLockService';
+import { MainTabParamList } from '../../types/navigation';
+
+type SecuritySettingsScreenNavigationProp = StackNavigationProp<MainTabParamList, 'SecuritySettings'>;
+
+interface Props {
+  navigation: SecuritySettingsScreenNavigationProp;
+}
+
+// Changing or removing a PIN asks for the current one first
+type PinStep = 'current' | 'new' | 'confirm';
+type PinAction = 'set' | 'remove';
+
+const PIN_STEP_TITLES: Record<PinStep, string> = {
+  current: 'Enter your current PIN',
+  new: `Choose a ${APP_LOCK_CONFIG.PIN_LENGTH}-digit PIN`,
+  confirm: 'Enter the PIN again',
+};
+
+export const SecuritySettingsScreen: React.FC<Props> = ({ navigation }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const {
+    isLockEnabled,
+    biometricEnabled,
+    hasPin,
+    autoLockTimeout,
+    deviceAuth,
+    setBiometricEnabled,
+    setPin,
+    removePin,
+    setAutoLockTimeout,
+    refreshLockSettings,
+  } = useAppLock();
+
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [pinAction, setPinAction] = useState<PinAction | null>(null);
+  const [pinStep, setPinStep] = useState<PinStep>('new');
+  const [newPin, setNewPin] = useState('');
+  const [pinError, setPinError] = useState<string | null>(null);
+  const [pinResetKey, setPinResetKey] = useState(0);
+
+  // Entrance animation
+  const fadeAnim = useRef(new Animated.Value(0)).current;
+  const slideAnim = useRef(new Animated.Value(30)).current;
+
+  useFocusEffect(
+    useCallback(() => {
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: 600,
+          useNativeDriver: true,
+        }),
+        Animated.spring(slideAnim, {
+          toValue: 0,
+          tension: 30,
+          friction: 8,
+          useNativeDriver: true,
+        }),
+      ]).start();
+
+      // Screen lock or enrolled biometrics may have changed in system settings
+      refreshLockSettings();
+    }, [refreshLockSettings])
+  );
+
+  const handleToggleBiometric = async (enabled: boolean) => {
+    setIsUpdating(true);
+    try {
+      const success = await setBiometricEnabled(enabled);
+      if (!success && enabled) {
+        Alert.alert(
+          `${deviceAuth.label} Not Enabled`,
+          deviceAuth.available
+            ? 'Authentication was cancelled, so device unlock was not turned on.'
+            : 'Set up a screen lock or biometrics in your device settings first.'
+        );
+      }
+    } catch (error) {
+      __DEV__ && console.error('[ERROR] SecuritySettingsScreen: Failed to update device unlock:', error);
+      Alert.alert('Error', 'Failed to update the app lock. Please try again.');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const openPinModal = (action: PinAction) => {
+    setPinAction(action);
+    setPinStep(hasPin ? 'current' : 'new');
+    setNewPin('');
+    setPinError(null);
+    setPinResetKey(key => key + 1);
+  };
+
+  const closePinModal = () => {
+    setPinAction(null);
+    setNewPin('');
+    setPinError(null);
+  };
+
+  const showPinStep = (step: PinStep, error: string | null = null) => {
+    setPinStep(step);
+    setPinError(error);
+    setPinResetKey(key => key + 1);
+  };
+
+  const handlePinEntered = async (pin: string) => {
+    try {
+      if (pinStep === 'current') {
+        if (!(await AppLockService.verifyPin(pin))) {
+          showPinStep('current', 'Incorrect PIN');
+          return;
+        }
+
+        if (pinAction === 'remove') {
+          await removePin();
+          closePinModal();
+          return;
+        }
+        showPinStep('new');
+        return;
+      }
+
+      if (pinStep === 'new') {
+        setNewPin(pin);
+        showPinStep('confirm');
+        return;
+      }
+
+      if (pin !== newPin) {
+        setNewPin('');
+        showPinStep('new', 'PINs did not match. Choose a PIN again.');
+        return;
+      }
+
+      await setPin(pin);
+      closePinModal();
+    } catch (error) {
+      __DEV__ && console.error('[ERROR] SecuritySettingsScreen: Failed to update PIN:', error);
+      closePinModal();
+      Alert.alert('Error', 'Failed to update your PIN. Please try again.');
+    }
+  };
+
+  const handleTimeoutSelect = async (seconds: number) => {
+    try {
+      await setAutoLockTimeout(seconds);
+    } catch (error) {
+      __DEV__ && console.error('[ERROR] SecuritySettingsScreen: Failed to update auto-lock timeout:', error);
+      Alert.alert('Error', 'Failed to update the auto-lock timeout. Please try again.');
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <AnimatedGradientBackground />
+
+      <StandardHeader
+        title="App Lock"
+        onBackPress={() => navigation.goBack()}
+        showBackButton={true}
+      />
+
+      <Animated.View
+        style={[
+          styles.content,
+          {
+            opacity: fadeAnim,
+            transform: [{ translateY: slideAnim }],
+          },
+        ]}
+      >
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+          <PremiumCard style={styles.card}>
+            <Text style={styles.cardTitle}>Unlock Method</Text>
+            <Text style={styles.cardSubtitle}>
+              Require {deviceAuth.label}, a PIN, or both before your records and license numbers are shown.
+            </Text>
+
+            <View style={styles.settingRow}>
+              <View style={styles.settingIconWrapper}>
+                <SvgIcon name="shield" size={22} color={theme.colors.iconTint} />
+              </View>
+              <View style={styles.settingDetails}>
+                <Text style={styles.settingLabel}>{deviceAuth.label}</Text>
+                <Text style={styles.settingValue}>
+                  {deviceAuth.available ? 'Falls back to your device passcode' : 'No screen lock set up on this device'}
+                </Text>
+              </View>
+              <Switch
+                value={biometricEnabled}
+                onValueChange={handleToggleBiometric}
+                disabled={isUpdating || (!deviceAuth.available && !biometricEnabled)}
+                trackColor={{ false: theme.colors.gray.light, true: theme.colors.primary }}
+                thumbColor={theme.colors.background}
+              />
+            </View>
+
+            <View style={[styles.settingRow, styles.settingRowLast]}>
+              <View style={styles.settingIconWrapper}>
+                <SvgIcon name="lock" size={22} color={theme.colors.iconTint} />
+              </View>
+              <View style={styles.settingDetails}>
+                <Text style={styles.settingLabel}>App PIN</Text>
+                <Text style={styles.settingValue}>{hasPin ? 'On' : 'Off'}</Text>
+              </View>
+            </View>
+
+            <View style={styles.buttonRow}>
+              <PremiumButton
+                title={hasPin ? 'Change PIN' : 'Set PIN'}
+                variant="secondary"
+                onPress={() => openPinModal('set')}
+                style={styles.button}
+              />
+              {hasPin && (
+                <PremiumButton
+                  title="Remove PIN"
+                  variant="ghost"
+                  onPress={() => openPinModal('remove')}
+                  style={styles.button}
+                />
+              )}
+            </View>
+          </PremiumCard>
+
+          <PremiumCard style={styles.card}>
+            <Text style={styles.cardTitle}>Auto-Lock</Text>
+            <Text style={styles.cardSubtitle}>
+              {isLockEnabled
+                ? 'Lock the app after it has been in the background for:'
+                : 'Turn on an unlock method to choose when the app locks.'}
+            </Text>
+            <View style={styles.chipRow}>
+              {APP_LOCK_CONFIG.AUTO_LOCK_OPTIONS.map(option => (
+                <Chip
+                  key={option.seconds}
+                  label={option.label}
+                  variant={autoLockTimeout === option.seconds ? 'selected' : 'default'}
+                  onPress={() => handleTimeoutSelect(option.seconds)}
+                  disabled={!isLockEnabled}
+                />
+              ))}
+            </View>
+            <Text style={styles.fieldHint}>
+              While the lock is on, the app is blurred in the app switcher.
+            </Text>
+          </PremiumCard>
+
+          <View style={styles.bottomSpacer} />
+        </ScrollView>
+      </Animated.View>
+
+      <Modal
+        visible={pinAction !== null}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={closePinModal}
+      >
+        <View style={styles.modalBackdrop}>
+          <View style={styles.modalSheet}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{PIN_STEP_TITLES[pinStep]}</Text>
+              <TouchableOpacity onPress={closePinModal} accessibilityLabel="Close">
+                <SvgIcon name="close" size={20} color={theme.colors.text.secondary} />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.modalError}>{pinError || ' '}</Text>
+            <PinPad onComplete={handlePinEntered} resetKey={pinResetKey} />
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const createStyles = (theme: AppTheme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'transparent', // Let AnimatedGradientBackground show through
+  },
+  content: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  card: {
+    marginHorizontal: theme.spacing[4],
+    marginTop: theme.spacing[4],
+    padding: theme.spacing[5],
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.xl,
+  },
+  cardTitle: {
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing[2],
+  },
+  cardSubtitle: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    lineHeight: 20,
+    marginBottom: theme.spacing[3],
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing[2],
+  },
+  fieldHint: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing[3],
+  },
+
+  // Setting rows
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing[3],
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border.light,
+  },
+  settingRowLast: {
+    borderBottomWidth: 0,
+  },
+  settingIconWrapper: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: theme.colors.iconBackground,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: theme.spacing[3],
+  },
+  settingDetails: {
+    flex: 1,
+  },
+  settingLabel: {
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  settingValue: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: theme.spacing[3],
+    marginTop: theme.spacing[2],
+  },
+  button: {
+    flex: 1,
+    minHeight: 48,
+  },
+
+  // PIN modal
+  modalBackdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: theme.colors.overlay,
+  },
+  modalSheet: {
+    backgroundColor: theme.colors.surface,
+    borderTopLeftRadius: theme.borderRadius.xl,
+    borderTopRightRadius: theme.borderRadius.xl,
+    paddingHorizontal: theme.spacing[5],
+    paddingTop: theme.spacing[5],
+    paddingBottom: theme.spacing[10],
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  modalTitle: {
+    flex: 1,
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+  modalError: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.error,
+    marginTop: theme.spacing[2],
+    marginBottom: theme.spacing[4],
+  },
+
+  bottomSpacer: {
+    height: 40,
+  },
+});
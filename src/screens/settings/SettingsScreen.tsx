@@ -13,17 +13,21 @@ import {
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as DocumentPicker from 'expo-document-picker';
 import { useFocusEffect } from '@react-navigation/native';
 import { CompositeNavigationProp } from '@react-navigation/native';
 import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import { StackNavigationProp } from '@react-navigation/stack';
 
-import { Card, Button, LoadingSpinner, StandardHeader, SvgIcon } from '../../components';
+import { Card, Button, Chip, LoadingSpinner, StandardHeader, SvgIcon } from '../../components';
 import { AnimatedGradientBackground, PremiumButton, PremiumCard } from '../../components/common/OnboardingComponents';
-import { theme } from '../../constants/theme';
+import { PassphrasePrompt } from '../../components/security';
+import { RestorePreviewModal } from '../../components/backup';
+import { AppTheme, ThemeMode, useTheme, useThemeContext, useThemedStyles } from '../../theme';
 import { useAppContext } from '../../contexts/AppContext';
 import { useOnboardingContext } from '../../contexts/OnboardingContext';
-import { LicenseRenewal } from '../../types';
+import { useAppLock } from '../../contexts/AppLockContext';
+import { LicenseRenewal, RestoreMode } from '../../types';
 import { MainTabParamList, TabParamList } from '../../types/navigation';
 import { APP_CONFIG } from '../../constants';
 import { getCreditUnit } from '../../utils/creditTerminology';
@@ -36,12 +40,19 @@ import {
   generateSummaryPDF,
   generateLicenseRenewalPDF,
   createCompleteBackup,
+  restoreFromBackup,
+  verifyBackupFile,
+  isEncryptedBackupFile,
+  decryptBackupFile,
+  discardDecryptedBackup,
   BackupOptions,
-  BackupProgress
+  BackupProgress,
+  BackupVerification
 } from '../../utils/dataExport';
 import { databaseOperations } from '../../services/database';
 import { soundManager } from '../../services/sound/SoundManager';
 import { useSound } from '../../hooks/useSound';
+import { useSelectiveRestore } from '../../hooks/useSelectiveRestore';
 
 type SettingsScreenNavigationProp = CompositeNavigationProp<
   BottomTabNavigationProp<TabParamList, 'Settings'>,
@@ -52,23 +63,48 @@ interface Props {
   navigation: SettingsScreenNavigationProp;
 }
 
+const THEME_MODE_OPTIONS: { mode: ThemeMode; label: string }[] = [
+  { mode: 'light', label: 'Light' },
+  { mode: 'dark', label: 'Dark' },
+  { mode: 'system', label: 'System' },
+];
+
 export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
+  const theme = useTheme();
+  const { mode: themeMode, setMode: setThemeMode } = useThemeContext();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
   const { 
     user, 
     licenses, 
     recentCMEEntries,
+    requirementBreakdowns,
+    currentYearProgress,
     isLoadingLicenses,
     refreshLicenses,
     refreshUserData,
+    refreshAllData,
+    forceRefreshCMEData,
     deleteLicense
   } = useAppContext();
   const { resetOnboarding, resetCompleteApp } = useOnboardingContext();
+  const { biometricEnabled, hasPin, deviceAuth } = useAppLock();
 
   const [refreshing, setRefreshing] = useState(false);
   const [showLicenseForm, setShowLicenseForm] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  // Open passphrase prompt for an encrypted backup, resolved with null when cancelled
+  const [passphrasePrompt, setPassphrasePrompt] = useState<{
+    mode: 'create' | 'unlock';
+    error: string | null;
+    resolve: (passphrase: string | null) => void;
+  } | null>(null);
   const [soundEnabled, setSoundEnabled] = useState(soundManager.isAudioEnabled());
+  const selectiveRestore = useSelectiveRestore(async () => {
+    await refreshAllData();
+    await forceRefreshCMEData();
+  });
   const lastRefreshRef = useRef<number>(0);
   const REFRESH_DEBOUNCE_MS = 3000; // Debounce settings refresh to 3 seconds
   
@@ -122,6 +158,16 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
     setRefreshing(false);
   }, [refreshLicenses, refreshUserData]);
 
+  const handleThemeModeSelect = async (mode: ThemeMode) => {
+    await playToggle();
+    try {
+      await setThemeMode(mode);
+    } catch (error) {
+      __DEV__ && console.error('[ERROR] SettingsScreen: Failed to save theme mode:', error);
+      Alert.alert('Error', 'Failed to save the theme setting. Please try again.');
+    }
+  };
+
   const handleResetOnboarding = async () => {
     Alert.alert(
       'Reset Onboarding',
@@ -329,7 +375,7 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
               ? allEntriesResult.data
               : [];
 
-            const result = await generateCMEEntriesPDF(allEntries, user!);
+            const result = await generateCMEEntriesPDF(allEntries, user!, requirementBreakdowns);
             setIsExporting(false);
 
             if (result.success) {
@@ -348,7 +394,13 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
               ? allEntriesResult.data
               : [];
 
-            const result = await generateSummaryPDF(user!, allEntries, licenses);
+            const result = await generateSummaryPDF(
+              user!,
+              allEntries,
+              licenses,
+              requirementBreakdowns,
+              currentYearProgress?.carriedOverCredits || 0
+            );
             setIsExporting(false);
 
             if (result.success) {
@@ -372,7 +424,7 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
               ? allEntriesResult.data
               : [];
 
-            const result = await generateLicenseRenewalPDF(user!, licenses, allEntries);
+            const result = await generateLicenseRenewalPDF(user!, licenses, allEntries, requirementBreakdowns);
             setIsExporting(false);
 
             if (result.success) {
@@ -407,16 +459,46 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
         },
         {
           text: 'Data Only (JSON)',
-          onPress: () => createBackupWithOptions({ includeCertificates: false }),
+          onPress: () => chooseBackupEncryption({ includeCertificates: false }),
         },
         {
           text: 'Complete with Certificates (ZIP)',
-          onPress: () => createBackupWithOptions({ includeCertificates: true }),
+          onPress: () => chooseBackupEncryption({ includeCertificates: true }),
+        },
+      ]
+    );
+  };
+
+  const chooseBackupEncryption = (options: BackupOptions) => {
+    Alert.alert(
+      'Encrypt Backup?',
+      'A passphrase keeps this backup private wherever you store or send it. It cannot be restored without the passphrase, and a forgotten passphrase cannot be recovered.',
+      [
+        {
+          text: 'No Encryption',
+          onPress: () => createBackupWithOptions(options),
+        },
+        {
+          text: 'Use Passphrase',
+          onPress: async () => {
+            const passphrase = await askForPassphrase('create');
+            if (passphrase !== null) {
+              createBackupWithOptions({ ...options, passphrase });
+            }
+          },
         },
       ]
     );
   };
 
+  const askForPassphrase = (mode: 'create' | 'unlock', error: string | null = null) =>
+    new Promise<string | null>(resolve => setPassphrasePrompt({ mode, error, resolve }));
+
+  const closePassphrasePrompt = (passphrase: string | null) => {
+    passphrasePrompt?.resolve(passphrase);
+    setPassphrasePrompt(null);
+  };
+
   const createBackupWithOptions = async (options: BackupOptions) => {
     if (!user) return;
 
@@ -434,6 +516,22 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
         ? certificatesResult.data
         : [];
 
+      const linksResult = await databaseOperations.cme.getAllEntryLicenseLinks();
+      const entryLicenseLinks = linksResult.success && linksResult.data
+        ? linksResult.data
+        : [];
+
+      const [rulesResult, carryOverResult, cyclesResult] = await Promise.all([
+        databaseOperations.requirementRules.getAllRules(),
+        databaseOperations.carryOverRules.getAllRules(),
+        databaseOperations.cycles.getAllCycles(),
+      ]);
+      const requirementRecords = {
+        requirementRules: rulesResult.success && rulesResult.data ? rulesResult.data : [],
+        carryOverRules: carryOverResult.success && carryOverResult.data ? carryOverResult.data : [],
+        complianceCycles: cyclesResult.success && cyclesResult.data ? cyclesResult.data : [],
+      };
+
       // Track progress
       let progressMessage = '';
       const onProgress = (progress: BackupProgress) => {
@@ -446,6 +544,8 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
         allEntries,
         licenses,
         certificates,
+        entryLicenseLinks,
+        requirementRecords,
         options,
         onProgress
       );
@@ -464,6 +564,180 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
     }
   };
 
+  const handleImportBackup = async () => {
+    // An encrypted backup is decrypted once into the cache. Checking and restoring both read
+    // that copy, which is removed when the import finishes or is cancelled.
+    let decryptedUri: string | null = null;
+    let handedOff = false;
+
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/json', 'application/zip', 'application/x-zip-compressed', 'application/octet-stream'],
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled) {
+        return;
+      }
+
+      const pickedUri = result.assets[0].uri;
+
+      // Checked against its checksums before anything is restored
+      setIsRestoring(true);
+      let verification: BackupVerification;
+      try {
+        if (isEncryptedBackupFile(pickedUri)) {
+          decryptedUri = await decryptBackupFile(pickedUri, reason =>
+            askForPassphrase('unlock', reason === 'incorrect' ? 'Incorrect passphrase. Try again.' : null)
+          );
+          if (!decryptedUri) {
+            return;
+          }
+        }
+        verification = await verifyBackupFile(decryptedUri ?? pickedUri);
+      } finally {
+        setIsRestoring(false);
+      }
+
+      if (verification.cancelled) {
+        return;
+      }
+
+      if (!verification.success) {
+        Alert.alert('Backup Unreadable', verification.message);
+        return;
+      }
+
+      const backupUri = decryptedUri ?? pickedUri;
+      const copyUri = decryptedUri;
+      const onFinished = () => {
+        if (copyUri) {
+          discardDecryptedBackup(copyUri);
+        }
+      };
+      handedOff = true;
+
+      if (verification.report && !verification.report.isValid) {
+        Alert.alert(
+          'Backup Has Problems',
+          `${verification.message}\n\nRestoring it may bring back incomplete or damaged records.`,
+          [
+            {
+              text: 'Cancel',
+              style: 'cancel',
+              onPress: onFinished,
+            },
+            {
+              text: 'Restore Anyway',
+              style: 'destructive',
+              onPress: () => chooseRestoreMode(backupUri, onFinished),
+            },
+          ]
+        );
+        return;
+      }
+
+      chooseRestoreMode(backupUri, onFinished, verification.message);
+    } catch (error) {
+      __DEV__ && console.error('Import backup error:', error);
+      Alert.alert('Error', 'Failed to open the backup file. Please try again.');
+    } finally {
+      if (decryptedUri && !handedOff) {
+        discardDecryptedBackup(decryptedUri);
+      }
+    }
+  };
+
+  const chooseRestoreMode = (backupUri: string, onFinished: () => void, verificationNote?: string) => {
+    Alert.alert(
+      'Import Backup',
+      `${verificationNote ? `${verificationNote}\n\n` : ''}Restore the whole backup, or pick the entries, licenses and certificates to bring back?`,
+      [
+        {
+          text: 'Cancel',
+          style: 'cancel',
+          onPress: onFinished,
+        },
+        {
+          text: 'Choose Items',
+          onPress: () => selectiveRestore.openPreview(backupUri).finally(onFinished),
+        },
+        {
+          text: 'Restore Everything',
+          onPress: () => chooseFullRestoreMode(backupUri, onFinished),
+        },
+      ]
+    );
+  };
+
+  const chooseFullRestoreMode = (backupUri: string, onFinished: () => void) => {
+    Alert.alert(
+      'Restore Everything',
+      'How should this backup be restored?',
+      [
+        {
+          text: 'Cancel',
+          style: 'cancel',
+          onPress: onFinished,
+        },
+        {
+          text: 'Merge with Existing',
+          onPress: () => restoreBackupWithMode(backupUri, 'merge', onFinished),
+        },
+        {
+          text: 'Replace Everything',
+          style: 'destructive',
+          onPress: () => confirmReplaceRestore(backupUri, onFinished),
+        },
+      ]
+    );
+  };
+
+  const confirmReplaceRestore = (backupUri: string, onFinished: () => void) => {
+    Alert.alert(
+      'Replace All Data?',
+      'All current CME entries, licenses and certificates will be deleted and replaced with the contents of this backup. This cannot be undone.',
+      [
+        {
+          text: 'Cancel',
+          style: 'cancel',
+          onPress: onFinished,
+        },
+        {
+          text: 'Replace',
+          style: 'destructive',
+          onPress: () => restoreBackupWithMode(backupUri, 'replace', onFinished),
+        },
+      ]
+    );
+  };
+
+  const restoreBackupWithMode = async (backupUri: string, mode: RestoreMode, onFinished: () => void) => {
+    setIsRestoring(true);
+
+    try {
+      const onProgress = (progress: BackupProgress) => {
+        __DEV__ && console.log(`[Restore] ${progress.step}: ${progress.progress}% - ${progress.message}`);
+      };
+
+      const result = await restoreFromBackup(backupUri, mode, onProgress);
+
+      if (result.success) {
+        await refreshAllData();
+        await forceRefreshCMEData();
+        Alert.alert('Success', result.message);
+      } else if (!result.cancelled) {
+        Alert.alert('Error', result.message);
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Failed to restore backup. Please try again.');
+      __DEV__ && console.error('Restore error:', error);
+    } finally {
+      onFinished();
+      setIsRestoring(false);
+    }
+  };
+
   const getExpirationStatus = (expirationDate: string) => {
     const today = new Date();
     const expDate = new Date(expirationDate);
@@ -614,7 +888,7 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
                     />
                   ) : (
                     <View style={styles.profileIconWrapper}>
-                      <SvgIcon name="profile" size={36} color="#1e40af" />
+                      <SvgIcon name="profile" size={36} color={theme.colors.iconTint} />
                     </View>
                   )}
                 </View>
@@ -665,9 +939,9 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
                 <TouchableOpacity
                   style={styles.modernActionButton}
                   onPress={handleExportData}
-                  disabled={isExporting}
+                  disabled={isExporting || isRestoring || selectiveRestore.isBusy}
                 >
-                  <SvgIcon name="export" size={28} color="#1e40af" />
+                  <SvgIcon name="export" size={28} color={theme.colors.iconTint} />
                   <Text style={styles.modernActionText}>Export Data</Text>
                   <Text style={styles.modernActionSubtext}>CSV & Reports</Text>
                 </TouchableOpacity>
@@ -675,13 +949,51 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
                 <TouchableOpacity
                   style={styles.modernActionButton}
                   onPress={handleCreateBackup}
-                  disabled={isExporting}
+                  disabled={isExporting || isRestoring || selectiveRestore.isBusy}
                 >
-                  <SvgIcon name="backup" size={28} color="#1e40af" />
+                  <SvgIcon name="backup" size={28} color={theme.colors.iconTint} />
                   <Text style={styles.modernActionText}>Create Backup</Text>
                   <Text style={styles.modernActionSubtext}>Full Backup</Text>
                 </TouchableOpacity>
               </View>
+
+              <View style={[styles.modernButtonGrid, styles.modernButtonGridRow]}>
+                <TouchableOpacity
+                  style={styles.modernActionButton}
+                  onPress={handleImportBackup}
+                  disabled={isExporting || isRestoring || selectiveRestore.isBusy}
+                >
+                  {isRestoring || selectiveRestore.isBusy ? (
+                    <LoadingSpinner size={28} />
+                  ) : (
+                    <SvgIcon name="sync" size={28} color={theme.colors.iconTint} />
+                  )}
+                  <Text style={styles.modernActionText}>Import Backup</Text>
+                  <Text style={styles.modernActionSubtext}>Restore JSON or ZIP</Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                  style={styles.modernActionButton}
+                  onPress={() => (navigation as any).navigate('BackupSettings')}
+                  disabled={isExporting || isRestoring || selectiveRestore.isBusy}
+                >
+                  <SvgIcon name="clock" size={28} color={theme.colors.iconTint} />
+                  <Text style={styles.modernActionText}>Auto Backups</Text>
+                  <Text style={styles.modernActionSubtext}>Saved on Device</Text>
+                </TouchableOpacity>
+              </View>
+
+              <View style={[styles.modernButtonGrid, styles.modernButtonGridRow]}>
+                <TouchableOpacity
+                  style={styles.modernActionButton}
+                  onPress={() => (navigation as any).navigate('ImportActivities')}
+                  disabled={isExporting || isRestoring || selectiveRestore.isBusy}
+                >
+                  <SvgIcon name="files" size={28} color={theme.colors.iconTint} />
+                  <Text style={styles.modernActionText}>Import Activities</Text>
+                  <Text style={styles.modernActionSubtext}>From CSV or Excel</Text>
+                </TouchableOpacity>
+              </View>
             </View>
             </PremiumCard>
           </View>
@@ -705,18 +1017,62 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
                   onPress={() => (navigation as any).navigate('NotificationSettings')}
                 >
                   <View style={styles.settingIconWrapper}>
-                    <SvgIcon name="bell" size={22} color="#1e40af" />
+                    <SvgIcon name="bell" size={22} color={theme.colors.iconTint} />
                   </View>
                   <View style={styles.settingDetails}>
                     <Text style={styles.modernSettingLabel}>Notifications</Text>
                     <Text style={styles.modernSettingValue}>Reminders & Alerts</Text>
                   </View>
-                  <SvgIcon name="chevron-right" size={16} color="#9ca3af" />
+                  <SvgIcon name="chevron-right" size={16} color={theme.colors.text.disabled} />
+                </TouchableOpacity>
+
+                <TouchableOpacity 
+                  style={styles.modernSettingItem}
+                  onPress={() => (navigation as any).navigate('SecuritySettings')}
+                >
+                  <View style={styles.settingIconWrapper}>
+                    <SvgIcon name="lock" size={22} color={theme.colors.iconTint} />
+                  </View>
+                  <View style={styles.settingDetails}>
+                    <Text style={styles.modernSettingLabel}>App Lock</Text>
+                    <Text style={styles.modernSettingValue}>
+                      {[biometricEnabled && deviceAuth.label, hasPin && 'PIN'].filter(Boolean).join(' + ') || 'Off'}
+                    </Text>
+                  </View>
+                  <SvgIcon name="chevron-right" size={16} color={theme.colors.text.disabled} />
+                </TouchableOpacity>
+
+                <TouchableOpacity 
+                  style={styles.modernSettingItem}
+                  onPress={() => (navigation as any).navigate('RequirementRules')}
+                >
+                  <View style={styles.settingIconWrapper}>
+                    <SvgIcon name="target" size={22} color={theme.colors.iconTint} />
+                  </View>
+                  <View style={styles.settingDetails}>
+                    <Text style={styles.modernSettingLabel}>Category Requirements</Text>
+                    <Text style={styles.modernSettingValue}>Ethics, Patient Safety & more</Text>
+                  </View>
+                  <SvgIcon name="chevron-right" size={16} color={theme.colors.text.disabled} />
+                </TouchableOpacity>
+
+                <TouchableOpacity 
+                  style={styles.modernSettingItem}
+                  onPress={() => (navigation as any).navigate('CycleHistory')}
+                >
+                  <View style={styles.settingIconWrapper}>
+                    <SvgIcon name="history" size={22} color={theme.colors.iconTint} />
+                  </View>
+                  <View style={styles.settingDetails}>
+                    <Text style={styles.modernSettingLabel}>Cycle History</Text>
+                    <Text style={styles.modernSettingValue}>Past cycles and their certificates</Text>
+                  </View>
+                  <SvgIcon name="chevron-right" size={16} color={theme.colors.text.disabled} />
                 </TouchableOpacity>
                 
                 <View style={styles.modernSettingItem}>
                   <View style={styles.settingIconWrapper}>
-                    <SvgIcon name="volume" size={22} color="#1e40af" />
+                    <SvgIcon name="volume" size={22} color={theme.colors.iconTint} />
                   </View>
                   <View style={styles.settingDetails}>
                     <Text style={styles.modernSettingLabel}>Sound Effects</Text>
@@ -736,17 +1092,26 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
                 
                 <View style={styles.modernSettingItem}>
                   <View style={styles.settingIconWrapper}>
-                    <SvgIcon name="theme" size={22} color="#1e40af" />
+                    <SvgIcon name="theme" size={22} color={theme.colors.iconTint} />
                   </View>
                   <View style={styles.settingDetails}>
                     <Text style={styles.modernSettingLabel}>Theme</Text>
-                    <Text style={styles.modernSettingValue}>Light</Text>
+                    <View style={styles.themeChipRow}>
+                      {THEME_MODE_OPTIONS.map(option => (
+                        <Chip
+                          key={option.mode}
+                          label={option.label}
+                          variant={themeMode === option.mode ? 'selected' : 'default'}
+                          onPress={() => handleThemeModeSelect(option.mode)}
+                        />
+                      ))}
+                    </View>
                   </View>
                 </View>
                 
                 <View style={styles.modernSettingItem}>
                   <View style={styles.settingIconWrapper}>
-                    <SvgIcon name="sync" size={22} color="#1e40af" />
+                    <SvgIcon name="sync" size={22} color={theme.colors.iconTint} />
                   </View>
                   <View style={styles.settingDetails}>
                     <Text style={styles.modernSettingLabel}>Auto Backup</Text>
@@ -773,7 +1138,7 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
             <View style={styles.cardContent}>
               <View style={styles.modernAboutInfo}>
                 <View style={styles.aboutIconWrapper}>
-                  <SvgIcon name="medical" size={36} color="#1e40af" />
+                  <SvgIcon name="medical" size={36} color={theme.colors.iconTint} />
                 </View>
                 <Text style={styles.appName}>{APP_CONFIG.NAME}</Text>
                 <Text style={styles.appVersion}>Version {APP_CONFIG.VERSION}</Text>
@@ -802,7 +1167,7 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
             </LinearGradient>
             
             <LinearGradient
-              colors={['#fef2f2', '#fecaca']}
+              colors={[theme.colors.errorBackground, theme.colors.surface]}
               start={{ x: 0, y: 0 }}
               end={{ x: 1, y: 1 }}
               style={styles.cardContent}
@@ -834,11 +1199,25 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
           <View style={styles.bottomSpacing} />
         </ScrollView>
       </Animated.View>
+
+      <PassphrasePrompt
+        visible={passphrasePrompt !== null}
+        mode={passphrasePrompt?.mode ?? 'unlock'}
+        title={passphrasePrompt?.mode === 'create' ? 'Backup Passphrase' : 'Encrypted Backup'}
+        message={passphrasePrompt?.mode === 'create'
+          ? 'Choose a passphrase for this backup. You will need it to restore the backup.'
+          : 'Enter the passphrase this backup was created with.'}
+        error={passphrasePrompt?.error}
+        onSubmit={closePassphrasePrompt}
+        onCancel={() => closePassphrasePrompt(null)}
+      />
+
+      <RestorePreviewModal {...selectiveRestore.previewProps} />
     </View>
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: 'transparent', // Let AnimatedGradientBackground show through
@@ -1058,6 +1437,9 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: theme.spacing[3],
   },
+  modernButtonGridRow: {
+    marginTop: theme.spacing[3],
+  },
   modernActionButton: {
     flex: 1,
     backgroundColor: theme.colors.accent,
@@ -1130,6 +1512,12 @@ const styles = StyleSheet.create({
     color: theme.colors.text.secondary,
     fontWeight: theme.typography.fontWeight.medium,
   },
+  themeChipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing[2],
+    marginTop: theme.spacing[2],
+  },
 
   // Modern About Section
   modernAboutInfo: {
@@ -1283,7 +1671,7 @@ const styles = StyleSheet.create({
   dangerZone: {
     borderColor: '#ff6b6b',
     borderWidth: 2,
-    backgroundColor: '#fff5f5',
+    backgroundColor: theme.colors.errorBackground,
     marginBottom: theme.spacing[4],
     padding: theme.spacing[5],
     shadowColor: '#ff6b6b',
@@ -1304,7 +1692,7 @@ const styles = StyleSheet.create({
   },
   dangerSubtitle: {
     fontSize: theme.typography.fontSize.sm,
-    color: '#636e72',
+    color: theme.colors.text.secondary,
     textAlign: 'center',
     marginBottom: theme.spacing[4],
     lineHeight: 20,
@@ -15,7 +15,7 @@ import Slider from '@react-native-community/slider';
 
 import { StandardHeader, SvgIcon } from '../../components';
 import { AnimatedGradientBackground, PremiumButton, PremiumCard } from '../../components/common/OnboardingComponents';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 import { soundManager } from '../../services/sound/SoundManager';
 import { useSound } from '../../hooks/useSound';
 
@@ -24,6 +24,8 @@ interface Props {
 }
 
 export const SoundSettingsScreen: React.FC<Props> = ({ navigation }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
   const [isEnabled, setIsEnabled] = useState(true);
   const [globalVolume, setGlobalVolume] = useState(0.3);
@@ -357,7 +359,7 @@ export const SoundSettingsScreen: React.FC<Props> = ({ navigation }) => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: 'transparent',
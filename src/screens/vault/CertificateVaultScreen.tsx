@@ -20,7 +20,7 @@ import { Camera } from 'expo-camera';
 
 import { Card, Button, LoadingSpinner, Input, StandardHeader, SvgIcon } from '../../components';
 import { AnimatedGradientBackground, PremiumButton, PremiumCard } from '../../components/common/OnboardingComponents';
-import { theme } from '../../constants/theme';
+import { AppTheme, useTheme, useThemedStyles } from '../../theme';
 import { useAppContext } from '../../contexts/AppContext';
 import { Certificate } from '../../types';
 import { SUPPORTED_FILE_TYPES, MAX_FILE_SIZES, FILE_PATHS } from '../../constants';
@@ -35,6 +35,8 @@ interface Props {
 }
 
 export const CertificateVaultScreen: React.FC<Props> = ({ navigation }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
   const { certificates, isLoadingCertificates, refreshCertificates, refreshCMEData } = useAppContext();
   
@@ -611,7 +613,7 @@ export const CertificateVaultScreen: React.FC<Props> = ({ navigation }) => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: 'transparent', // Let AnimatedGradientBackground show through
@@ -0,0 +1,195 @@
+// App lock - device authentication and an app-specific PIN guarding the app on launch and resume
+import * as LocalAuthentication from 'expo-local-authentication';
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import { APP_CONFIG, APP_LOCK_CONFIG, STORAGE_KEYS } from '../constants';
+import { settingsOperations } from './database';
+
+export interface DeviceAuthSupport {
+  available: boolean;
+  // What the prompt will use, e.g. "Face ID" or "Fingerprint"
+  label: string;
+}
+
+export interface AppLockSettings {
+  biometricEnabled: boolean;
+  hasPin: boolean;
+  autoLockTimeout: number; // seconds, 0 = lock as soon as the app is backgrounded
+}
+
+export interface PinLockout {
+  failedAttempts: number; // Wrong PINs since the last successful unlock or lockout
+  lockedOutUntil: number | null; // Epoch ms
+}
+
+const NO_PIN_LOCKOUT: PinLockout = { failedAttempts: 0, lockedOutUntil: null };
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+export class AppLockService {
+  /**
+   * Check what device authentication is available. Falls back to the device passcode
+   * when no biometrics are enrolled but a screen lock is set.
+   */
+  static async getDeviceAuthSupport(): Promise<DeviceAuthSupport> {
+    try {
+      const level = await LocalAuthentication.getEnrolledLevelAsync();
+      if (level === LocalAuthentication.SecurityLevel.NONE) {
+        return { available: false, label: 'Device Passcode' };
+      }
+
+      const types = await LocalAuthentication.supportedAuthenticationTypesAsync();
+      const isBiometricEnrolled = level !== LocalAuthentication.SecurityLevel.SECRET;
+      let label = 'Device Passcode';
+
+      if (isBiometricEnrolled && types.includes(LocalAuthentication.AuthenticationType.FACIAL_RECOGNITION)) {
+        label = 'Face ID';
+      } else if (isBiometricEnrolled && types.includes(LocalAuthentication.AuthenticationType.FINGERPRINT)) {
+        label = 'Fingerprint';
+      } else if (isBiometricEnrolled && types.includes(LocalAuthentication.AuthenticationType.IRIS)) {
+        label = 'Iris';
+      }
+
+      return { available: true, label };
+    } catch (error) {
+      __DEV__ && console.warn('[WARN] AppLockService: Could not check device authentication:', error);
+      return { available: false, label: 'Device Passcode' };
+    }
+  }
+
+  /**
+   * Show the system biometric prompt, with the device passcode as fallback
+   */
+  static async authenticateWithDevice(): Promise<boolean> {
+    try {
+      const result = await LocalAuthentication.authenticateAsync({
+        promptMessage: `Unlock ${APP_CONFIG.NAME}`,
+        cancelLabel: 'Cancel',
+        disableDeviceFallback: false,
+      });
+      return result.success;
+    } catch (error) {
+      __DEV__ && console.error('[ERROR] AppLockService: Device authentication failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Read the lock settings. Throws when whether the lock is on can't be read, so the
+   * caller can keep the app locked rather than guess.
+   */
+  static async getSettings(): Promise<AppLockSettings> {
+    const [biometricResult, timeoutResult, hasPin] = await Promise.all([
+      settingsOperations.getSetting(STORAGE_KEYS.BIOMETRIC_ENABLED),
+      settingsOperations.getSetting(STORAGE_KEYS.AUTO_LOCK_TIMEOUT),
+      this.hasPin(),
+    ]);
+
+    if (!biometricResult.success) {
+      throw new Error(biometricResult.error || 'Failed to read the app lock setting');
+    }
+
+    const timeout = Number(timeoutResult.data);
+
+    return {
+      biometricEnabled: biometricResult.data === 'true',
+      hasPin,
+      autoLockTimeout: timeoutResult.success && timeoutResult.data !== undefined && Number.isFinite(timeout) && timeout >= 0
+        ? timeout
+        : APP_LOCK_CONFIG.DEFAULT_AUTO_LOCK_TIMEOUT,
+    };
+  }
+
+  static async setBiometricEnabled(enabled: boolean): Promise<void> {
+    const result = await settingsOperations.setSetting(STORAGE_KEYS.BIOMETRIC_ENABLED, enabled ? 'true' : 'false');
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save the app lock setting');
+    }
+  }
+
+  static async setAutoLockTimeout(seconds: number): Promise<void> {
+    const result = await settingsOperations.setSetting(STORAGE_KEYS.AUTO_LOCK_TIMEOUT, String(seconds));
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save the auto-lock timeout');
+    }
+  }
+
+  static isValidPin(pin: string): boolean {
+    return new RegExp(`^\\d{${APP_LOCK_CONFIG.PIN_LENGTH}}$`).test(pin);
+  }
+
+  /**
+   * Store a salted SHA-256 of the PIN in SecureStore - the PIN itself is never saved
+   */
+  static async setPin(pin: string): Promise<void> {
+    if (!this.isValidPin(pin)) {
+      throw new Error(`PIN must be ${APP_LOCK_CONFIG.PIN_LENGTH} digits`);
+    }
+
+    const salt = toHex(Crypto.getRandomBytes(16));
+    const hash = await this.hashPin(pin, salt);
+    await SecureStore.setItemAsync(STORAGE_KEYS.APP_LOCK_PIN, `${salt}:${hash}`);
+  }
+
+  static async hasPin(): Promise<boolean> {
+    return (await SecureStore.getItemAsync(STORAGE_KEYS.APP_LOCK_PIN)) !== null;
+  }
+
+  static async verifyPin(pin: string): Promise<boolean> {
+    const stored = await SecureStore.getItemAsync(STORAGE_KEYS.APP_LOCK_PIN);
+    if (!stored) {
+      return false;
+    }
+
+    const [salt, expected] = stored.split(':');
+    return (await this.hashPin(pin, salt)) === expected;
+  }
+
+  static async removePin(): Promise<void> {
+    await SecureStore.deleteItemAsync(STORAGE_KEYS.APP_LOCK_PIN);
+    await this.clearPinLockout();
+  }
+
+  /**
+   * Wrong PIN attempts are kept in SecureStore next to the PIN, so relaunching the app
+   * neither resets the count nor ends a lockout early
+   */
+  static async getPinLockout(): Promise<PinLockout> {
+    const stored = await SecureStore.getItemAsync(STORAGE_KEYS.APP_LOCK_PIN_LOCKOUT);
+    if (!stored) {
+      return NO_PIN_LOCKOUT;
+    }
+
+    try {
+      const parsed = JSON.parse(stored);
+      return {
+        failedAttempts: Number.isInteger(parsed.failedAttempts) ? parsed.failedAttempts : 0,
+        lockedOutUntil: typeof parsed.lockedOutUntil === 'number' ? parsed.lockedOutUntil : null,
+      };
+    } catch {
+      return NO_PIN_LOCKOUT;
+    }
+  }
+
+  /**
+   * Count a wrong PIN, starting a lockout once APP_LOCK_CONFIG.MAX_PIN_ATTEMPTS is reached
+   */
+  static async recordFailedPinAttempt(now: number = Date.now()): Promise<PinLockout> {
+    const failedAttempts = (await this.getPinLockout()).failedAttempts + 1;
+    const lockout: PinLockout = failedAttempts >= APP_LOCK_CONFIG.MAX_PIN_ATTEMPTS
+      ? { failedAttempts: 0, lockedOutUntil: now + APP_LOCK_CONFIG.LOCKOUT_DURATION }
+      : { failedAttempts, lockedOutUntil: null };
+
+    await SecureStore.setItemAsync(STORAGE_KEYS.APP_LOCK_PIN_LOCKOUT, JSON.stringify(lockout));
+    return lockout;
+  }
+
+  static async clearPinLockout(): Promise<void> {
+    await SecureStore.deleteItemAsync(STORAGE_KEYS.APP_LOCK_PIN_LOCKOUT);
+  }
+
+  private static hashPin(pin: string, salt: string): Promise<string> {
+    return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+  }
+}
@@ -0,0 +1,389 @@
+// Automatic local backups - complete snapshots in the app's backups directory, rotated by age.
+// Snapshots are manifests over the content-addressed store in backupStore.ts; ZIP snapshots
+// written before the store existed are still listed, restored and rotated.
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+import { AUTO_BACKUP_CONFIG, FILE_PATHS, STORAGE_KEYS } from '../constants';
+import { databaseOperations, settingsOperations } from './database';
+import { buildBackupData, verifyBackupFile } from './zipBackupService';
+import {
+  exportSnapshotArchive,
+  findCorruptBlobs,
+  getSnapshotFiles,
+  readSnapshotManifest,
+  removeUnreferencedBlobs,
+  writeSnapshotManifest,
+} from './backupStore';
+import { selectBackupsToKeep } from '../utils/backupRetention';
+import { getSnapshotSize } from '../utils/backupManifest';
+
+// 'pre-change' snapshots hold the data a restore or import is about to replace
+export type SnapshotReason = 'scheduled' | 'pre-change' | 'bulk-change' | 'manual';
+
+// 'manifest' snapshots reference the blob store; 'zip' ones are self-contained archives
+export type SnapshotFormat = 'manifest' | 'zip';
+
+export interface BackupSnapshot {
+  fileName: string;
+  uri: string;
+  createdAt: string;
+  reason: SnapshotReason;
+  format: SnapshotFormat;
+  size: number; // bytes, counting the certificate files a manifest references
+}
+
+export interface AutoBackupSettings {
+  enabled: boolean;
+  intervalHours: number;
+}
+
+export interface SnapshotResult {
+  success: boolean;
+  message: string;
+  snapshot?: BackupSnapshot;
+}
+
+export interface SnapshotVerification {
+  isValid: boolean;
+  message: string;
+}
+
+const SNAPSHOT_PREFIX = 'auto_backup_';
+// auto_backup_2025-10-19T08-30-00-000Z_scheduled.json - colons aren't allowed in file names everywhere
+const SNAPSHOT_NAME_PATTERN = /^auto_backup_(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z_(scheduled|pre-change|bulk-change|manual)\.(json|zip)$/;
+
+const getBackupsDirectory = (): string => `${FileSystem.documentDirectory}${FILE_PATHS.BACKUPS}`;
+
+const parseSnapshotName = (fileName: string): { createdAt: string; reason: SnapshotReason; format: SnapshotFormat } | null => {
+  const match = fileName.match(SNAPSHOT_NAME_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [, date, hours, minutes, seconds, milliseconds, reason, extension] = match;
+  return {
+    createdAt: `${date}T${hours}:${minutes}:${seconds}.${milliseconds}Z`,
+    reason: reason as SnapshotReason,
+    format: extension === 'json' ? 'manifest' : 'zip',
+  };
+};
+
+export class AutoBackupService {
+  // One snapshot at a time - a launch backup and a restore finishing together would otherwise race.
+  // The latest snapshot started or queued, shared with callers asking for the same reason.
+  private static running: { reason: SnapshotReason; promise: Promise<SnapshotResult> } | null = null;
+
+  static async getSettings(): Promise<AutoBackupSettings> {
+    const [enabledResult, intervalResult] = await Promise.all([
+      settingsOperations.getSetting(STORAGE_KEYS.BACKUP_ENABLED),
+      settingsOperations.getSetting(STORAGE_KEYS.BACKUP_INTERVAL_HOURS),
+    ]);
+
+    const interval = Number(intervalResult.data);
+
+    return {
+      // Seeded 'true' by the base migration; missing means it was never turned off
+      enabled: !(enabledResult.success && enabledResult.data === 'false'),
+      intervalHours: intervalResult.success && intervalResult.data !== undefined && Number.isFinite(interval) && interval > 0
+        ? interval
+        : AUTO_BACKUP_CONFIG.DEFAULT_INTERVAL_HOURS,
+    };
+  }
+
+  static async setEnabled(enabled: boolean): Promise<void> {
+    const result = await settingsOperations.setSetting(STORAGE_KEYS.BACKUP_ENABLED, enabled ? 'true' : 'false');
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save the automatic backup setting');
+    }
+  }
+
+  static async setIntervalHours(hours: number): Promise<void> {
+    const result = await settingsOperations.setSetting(STORAGE_KEYS.BACKUP_INTERVAL_HOURS, String(hours));
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save the backup interval');
+    }
+  }
+
+  /**
+   * Retained snapshots, newest first. Files that don't follow the snapshot naming are ignored.
+   */
+  static async listSnapshots(): Promise<BackupSnapshot[]> {
+    const directory = getBackupsDirectory();
+    const dirInfo = await FileSystem.getInfoAsync(directory);
+    if (!dirInfo.exists) {
+      return [];
+    }
+
+    const snapshots: BackupSnapshot[] = [];
+    for (const fileName of await FileSystem.readDirectoryAsync(directory)) {
+      const parsed = parseSnapshotName(fileName);
+      if (!parsed) {
+        continue;
+      }
+
+      const uri = `${directory}${fileName}`;
+      const info = await FileSystem.getInfoAsync(uri);
+      let size = info.exists && 'size' in info ? info.size || 0 : 0;
+
+      if (parsed.format === 'manifest') {
+        try {
+          size += getSnapshotSize(await readSnapshotManifest(uri));
+        } catch (error) {
+          __DEV__ && console.warn(`[WARN] AutoBackupService: Unreadable manifest ${fileName}:`, error);
+        }
+      }
+
+      snapshots.push({ fileName, uri, ...parsed, size });
+    }
+
+    return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Called on launch: backs up when automatic backups are on and the newest
+   * snapshot is older than the configured interval
+   */
+  static async runIfDue(): Promise<SnapshotResult | null> {
+    const settings = await this.getSettings();
+    if (!settings.enabled) {
+      return null;
+    }
+
+    const [latest] = await this.listSnapshots();
+    if (latest && Date.now() - new Date(latest.createdAt).getTime() < settings.intervalHours * 60 * 60 * 1000) {
+      return null;
+    }
+
+    return this.createSnapshot('scheduled');
+  }
+
+  /**
+   * Called right before changes touching many records at once, such as a restore, so the
+   * data they replace can still be restored from this device
+   */
+  static async backupBeforeBulkChange(): Promise<SnapshotResult | null> {
+    const settings = await this.getSettings();
+    return settings.enabled ? this.createSnapshot('pre-change') : null;
+  }
+
+  /**
+   * Called after changes touching many records at once, such as a restore,
+   * so the new state is captured without waiting for the next interval
+   */
+  static async backupAfterBulkChange(): Promise<SnapshotResult | null> {
+    const settings = await this.getSettings();
+    return settings.enabled ? this.createSnapshot('bulk-change') : null;
+  }
+
+  /**
+   * Takes a snapshot once any snapshot in progress has finished. A snapshot for another reason
+   * is never handed back instead - it may hold the data from before or after a bulk change.
+   */
+  static createSnapshot(reason: SnapshotReason): Promise<SnapshotResult> {
+    if (this.running?.reason === reason) {
+      return this.running.promise;
+    }
+
+    const previous = this.running?.promise;
+    const running = {
+      reason,
+      promise: (previous ? previous.then(() => this.writeSnapshot(reason)) : this.writeSnapshot(reason)).finally(() => {
+        if (this.running === running) {
+          this.running = null;
+        }
+      }),
+    };
+    this.running = running;
+    return running.promise;
+  }
+
+  private static async writeSnapshot(reason: SnapshotReason): Promise<SnapshotResult> {
+    try {
+      const userResult = await databaseOperations.user.getCurrentUser();
+      if (!userResult.success || !userResult.data) {
+        return { success: false, message: 'Nothing to back up until your profile is set up' };
+      }
+
+      const [entriesResult, licensesResult, certificatesResult, linksResult] = await Promise.all([
+        databaseOperations.cme.getAllEntries(),
+        databaseOperations.licenses.getAllLicenses(),
+        databaseOperations.certificates.getAllCertificates(),
+        databaseOperations.cme.getAllEntryLicenseLinks(),
+      ]);
+      const [rulesResult, carryOverResult, cyclesResult] = await Promise.all([
+        databaseOperations.requirementRules.getAllRules(),
+        databaseOperations.carryOverRules.getAllRules(),
+        databaseOperations.cycles.getAllCycles(),
+      ]);
+
+      if (!entriesResult.success || !licensesResult.success || !certificatesResult.success || !linksResult.success
+        || !rulesResult.success || !carryOverResult.success || !cyclesResult.success) {
+        return { success: false, message: 'Could not read your records for the backup' };
+      }
+
+      const directory = getBackupsDirectory();
+      const dirInfo = await FileSystem.getInfoAsync(directory);
+      if (!dirInfo.exists) {
+        await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+      }
+
+      const backupData = buildBackupData(
+        userResult.data,
+        entriesResult.data || [],
+        licensesResult.data || [],
+        certificatesResult.data || [],
+        linksResult.data || [],
+        {
+          requirementRules: rulesResult.data || [],
+          carryOverRules: carryOverResult.data || [],
+          complianceCycles: cyclesResult.data || [],
+        },
+        true
+      );
+
+      const stamp = backupData.exportDate.replace(/[:.]/g, '-');
+      const fileName = `${SNAPSHOT_PREFIX}${stamp}_${reason}.json`;
+      const { addedBlobs, addedBytes } = await writeSnapshotManifest(backupData, `${directory}${fileName}`);
+
+      await this.applyRetention();
+
+      const snapshot = (await this.listSnapshots()).find(item => item.fileName === fileName);
+      __DEV__ && console.log(`[INFO] AutoBackupService: Created ${reason} backup ${fileName}, ${addedBlobs} new files (${addedBytes} bytes)`);
+
+      return {
+        success: true,
+        message: addedBlobs > 0 ? `Backup created with ${addedBlobs} new certificate file(s)` : 'Backup created',
+        snapshot,
+      };
+    } catch (error) {
+      __DEV__ && console.error('[ERROR] AutoBackupService: Failed to create backup:', error);
+      return {
+        success: false,
+        message: `Failed to create backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Deletes snapshots that fall outside the retention policy, then the certificate
+   * files only those snapshots referenced
+   */
+  static async applyRetention(): Promise<void> {
+    const { keep, remove } = selectBackupsToKeep(await this.listSnapshots(), {
+      daily: AUTO_BACKUP_CONFIG.RETENTION.DAILY,
+      weekly: AUTO_BACKUP_CONFIG.RETENTION.WEEKLY,
+    });
+
+    for (const snapshot of remove) {
+      await this.deleteSnapshot(snapshot);
+    }
+
+    await removeUnreferencedBlobs(keep.filter(snapshot => snapshot.format === 'manifest').map(snapshot => snapshot.uri));
+  }
+
+  static async deleteSnapshot(snapshot: BackupSnapshot): Promise<void> {
+    try {
+      await FileSystem.deleteAsync(snapshot.uri, { idempotent: true });
+    } catch (error) {
+      __DEV__ && console.warn(`[WARN] AutoBackupService: Failed to delete ${snapshot.fileName}:`, error);
+    }
+  }
+
+  /**
+   * Removes every snapshot, e.g. when the app is reset
+   */
+  static async deleteAllSnapshots(): Promise<void> {
+    await FileSystem.deleteAsync(getBackupsDirectory(), { idempotent: true });
+  }
+
+  /**
+   * Shares the snapshot as a ZIP backup. Manifests are rebuilt into a temporary archive first,
+   * since their certificate files only exist in this device's blob store.
+   */
+  static async shareSnapshot(snapshot: BackupSnapshot): Promise<void> {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+
+    if (snapshot.format === 'zip') {
+      await Sharing.shareAsync(snapshot.uri, {
+        mimeType: 'application/zip',
+        dialogTitle: 'CPD & CME Tracker Backup',
+      });
+      return;
+    }
+
+    const exported = await exportSnapshotArchive(snapshot.uri, {
+      includeCertificates: true,
+      directory: FileSystem.cacheDirectory ?? undefined,
+      baseName: snapshot.fileName.replace(/\.json$/, ''),
+      share: false,
+    });
+
+    if (!exported.success || !exported.fileUri) {
+      throw new Error(exported.message);
+    }
+
+    try {
+      await Sharing.shareAsync(exported.fileUri, {
+        mimeType: 'application/zip',
+        dialogTitle: 'CPD & CME Tracker Backup',
+      });
+    } finally {
+      await FileSystem.deleteAsync(exported.fileUri, { idempotent: true });
+    }
+  }
+
+  /**
+   * Re-hashes the snapshot's contents and reports anything missing, unexpected or corrupt
+   */
+  static async verifySnapshot(snapshot: BackupSnapshot): Promise<SnapshotVerification> {
+    if (snapshot.format === 'manifest') {
+      return this.verifyManifest(snapshot);
+    }
+
+    const verification = await verifyBackupFile(snapshot.uri);
+    return {
+      isValid: verification.success && !!verification.report?.isValid,
+      message: verification.message,
+    };
+  }
+
+  private static async verifyManifest(snapshot: BackupSnapshot): Promise<SnapshotVerification> {
+    let manifest;
+    try {
+      manifest = await readSnapshotManifest(snapshot.uri);
+    } catch (error) {
+      return { isValid: false, message: error instanceof Error ? error.message : 'Unreadable backup manifest' };
+    }
+
+    const { backupData } = manifest;
+    const { files, missing } = await getSnapshotFiles(manifest);
+    const notBackedUp = (backupData.certificates || []).filter(record => !manifest.blobs[record.archiveFileName]);
+    const contents = `${backupData.cmeEntries.length} entries, ${backupData.licenses.length} licenses, ${files.length} certificates`;
+
+    if (missing.length > 0) {
+      return {
+        isValid: false,
+        message: `${contents}.\n\n${missing.length} certificate file(s) are missing from the backup store and can't be restored.`,
+      };
+    }
+
+    const corrupt = await findCorruptBlobs(manifest);
+    if (corrupt.length > 0) {
+      return {
+        isValid: false,
+        message: `${contents}.\n\n${corrupt.length} certificate file(s) no longer match their checksum: ${corrupt.join(', ')}`,
+      };
+    }
+
+    if (notBackedUp.length > 0) {
+      return {
+        isValid: false,
+        message: `${contents}.\n\n${notBackedUp.length} certificate file(s) were missing when this backup was made and can't be restored from it.`,
+      };
+    }
+
+    return { isValid: true, message: `Backup is complete and every file matches its checksum.\n\n${contents}` };
+  }
+}
@@ -20,6 +20,14 @@ export interface IntegrityCheckResult {
   };
 }
 
+export interface EntryValidationResult {
+  errors: string[];
+  warnings: string[];
+  missingRequiredFields: number;
+  invalidCredits: boolean;
+  invalidDate: boolean;
+}
+
 export class DataIntegrityService {
   /**
    * Performs comprehensive data integrity check
@@ -77,56 +85,86 @@ export class DataIntegrityService {
     return result;
   }
 
+  /**
+   * Checks one entry against the CME entry rules. Used for stored entries and for
+   * entries about to be imported, so both are held to the same rules.
+   */
+  static validateEntry(entry: Pick<CMEEntry, 'title' | 'provider' | 'category' | 'creditsEarned' | 'dateAttended'>): EntryValidationResult {
+    const validation: EntryValidationResult = {
+      errors: [],
+      warnings: [],
+      missingRequiredFields: 0,
+      invalidCredits: false,
+      invalidDate: false,
+    };
+
+    // Check required fields
+    if (!entry.title?.trim()) {
+      validation.errors.push('Missing title');
+      validation.missingRequiredFields++;
+    }
+
+    if (!entry.provider?.trim()) {
+      validation.errors.push('Missing provider');
+      validation.missingRequiredFields++;
+    }
+
+    if (!entry.category?.trim()) {
+      validation.errors.push('Missing category');
+      validation.missingRequiredFields++;
+    }
+
+    // Check credits
+    if (entry.creditsEarned <= 0) {
+      validation.errors.push(`Invalid credits (${entry.creditsEarned})`);
+      validation.invalidCredits = true;
+    }
+
+    // Check excessive credits (warning)
+    if (entry.creditsEarned > 100) {
+      validation.warnings.push(`Unusually high credits (${entry.creditsEarned})`);
+    }
+
+    // Check dates
+    const entryDate = new Date(entry.dateAttended);
+    const now = new Date();
+
+    if (isNaN(entryDate.getTime())) {
+      validation.errors.push('Invalid date format');
+      validation.invalidDate = true;
+    } else if (entryDate > now) {
+      validation.warnings.push(`Future date (${entry.dateAttended})`);
+    }
+
+    // Check if date is too old (more than 10 years)
+    const tenYearsAgo = new Date();
+    tenYearsAgo.setFullYear(tenYearsAgo.getFullYear() - 10);
+    if (entryDate < tenYearsAgo) {
+      validation.warnings.push(`Very old entry (${entry.dateAttended})`);
+    }
+
+    return validation;
+  }
+
   /**
    * Validates CME entries for data consistency
    */
   private static async validateCMEEntries(entries: CMEEntry[], result: IntegrityCheckResult): Promise<void> {
     for (const entry of entries) {
-      // Check required fields
-      if (!entry.title?.trim()) {
-        result.errors.push(`Entry ${entry.id}: Missing title`);
-        result.stats.missingRequiredFields++;
-      }
+      const validation = this.validateEntry(entry);
 
-      if (!entry.provider?.trim()) {
-        result.errors.push(`Entry ${entry.id}: Missing provider`);
-        result.stats.missingRequiredFields++;
-      }
+      validation.errors.forEach(error => result.errors.push(`Entry ${entry.id}: ${error}`));
+      validation.warnings.forEach(warning => result.warnings.push(`Entry ${entry.id}: ${warning}`));
+      result.stats.missingRequiredFields += validation.missingRequiredFields;
 
-      if (!entry.category?.trim()) {
-        result.errors.push(`Entry ${entry.id}: Missing category`);
-        result.stats.missingRequiredFields++;
-      }
-
-      // Check credits
-      if (entry.creditsEarned <= 0) {
-        result.errors.push(`Entry ${entry.id}: Invalid credits (${entry.creditsEarned})`);
+      if (validation.invalidCredits) {
         result.stats.negativeCredits++;
       } else {
         result.stats.totalCredits += entry.creditsEarned;
       }
 
-      // Check excessive credits (warning)
-      if (entry.creditsEarned > 100) {
-        result.warnings.push(`Entry ${entry.id}: Unusually high credits (${entry.creditsEarned})`);
-      }
-
-      // Check dates
-      const entryDate = new Date(entry.dateAttended);
-      const now = new Date();
-      
-      if (isNaN(entryDate.getTime())) {
-        result.errors.push(`Entry ${entry.id}: Invalid date format`);
+      if (validation.invalidDate) {
         result.stats.invalidDates++;
-      } else if (entryDate > now) {
-        result.warnings.push(`Entry ${entry.id}: Future date (${entry.dateAttended})`);
-      }
-
-      // Check if date is too old (more than 10 years)
-      const tenYearsAgo = new Date();
-      tenYearsAgo.setFullYear(tenYearsAgo.getFullYear() - 10);
-      if (entryDate < tenYearsAgo) {
-        result.warnings.push(`Entry ${entry.id}: Very old entry (${entry.dateAttended})`);
       }
     }
   }
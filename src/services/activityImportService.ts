@@ -0,0 +1,118 @@
+// Activity Import Service for CME Tracker
+// Reads CSV and Excel files for the import wizard, checks the rows against the entry rules
+// and existing entries, and writes the accepted rows in one transaction
+import * as FileSystem from 'expo-file-system/legacy';
+import { File } from 'expo-file-system';
+import { databaseOperations } from './database';
+import { DataIntegrityService } from './DataIntegrityService';
+import { AuditTrailService } from './AuditTrailService';
+import { AutoBackupService } from './AutoBackupService';
+import { ImportCandidate, ImportedEntry, findDuplicates, parseCsv } from '../utils/activityImport';
+import { readXlsxRows } from '../utils/xlsxReader';
+
+export interface ImportTable {
+  fileName: string;
+  headers: string[];
+  rows: string[][]; // Data rows, without the header
+}
+
+export interface ImportRowReview extends ImportCandidate {
+  warnings: string[];
+  duplicate: boolean; // Matches an existing entry or an earlier row
+}
+
+export interface ImportResult {
+  success: boolean;
+  message: string;
+  imported: number;
+}
+
+/**
+ * Reads the first sheet of an .xlsx workbook, or a CSV file, into a header row and data rows
+ */
+export const readImportFile = async (uri: string, fileName: string): Promise<ImportTable> => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+
+  if (extension === 'xls') {
+    throw new Error('Older .xls workbooks are not supported. Save the sheet as .xlsx or .csv and try again.');
+  }
+
+  const allRows = extension === 'xlsx'
+    ? readXlsxRows(await new File(uri).bytes())
+    : parseCsv(await FileSystem.readAsStringAsync(uri));
+
+  // Blank spreadsheet rows are skipped, as blank CSV lines are
+  const [headers, ...rows] = allRows.filter(row => row.some(cell => cell.trim() !== ''));
+  if (!headers || rows.length === 0) {
+    throw new Error('The file has no rows to import. The first row should hold the column names.');
+  }
+
+  return {
+    fileName,
+    headers: headers.map((header, index) => header.trim() || `Column ${index + 1}`),
+    rows,
+  };
+};
+
+/**
+ * Applies the CME entry rules from DataIntegrityService to each row and flags rows
+ * that duplicate an existing entry or an earlier row of the file
+ */
+export const reviewImport = async (candidates: ImportCandidate[]): Promise<ImportRowReview[]> => {
+  const existingResult = await databaseOperations.cme.getAllEntries();
+  if (!existingResult.success) {
+    throw new Error(existingResult.error || 'Could not read existing entries');
+  }
+
+  const duplicates = findDuplicates(candidates.map(candidate => candidate.entry), existingResult.data || []);
+
+  return candidates.map((candidate, index) => {
+    const validation = DataIntegrityService.validateEntry(candidate.entry);
+    // Unreadable dates and credits are already reported with the cell's value
+    const errors = candidate.errors.length > 0
+      ? [...candidate.errors, ...validation.errors.filter(error => error.startsWith('Missing'))]
+      : validation.errors;
+
+    return {
+      ...candidate,
+      errors,
+      warnings: validation.warnings,
+      duplicate: duplicates[index],
+    };
+  });
+};
+
+/**
+ * Writes the entries in one transaction - either every row is imported or none is
+ */
+export const commitImport = async (entries: ImportedEntry[], fileName: string): Promise<ImportResult> => {
+  // Keep a copy of the history as it was before the import
+  await AutoBackupService.backupBeforeBulkChange().catch(error => {
+    __DEV__ && console.error('[ERROR] commitImport: Automatic backup before import failed:', error);
+  });
+
+  const result = await databaseOperations.cme.importEntries(entries);
+
+  if (!result.success) {
+    await AuditTrailService.logEvent('import_activities', 'system', { fileName, rows: entries.length }, false, undefined, result.error);
+    return {
+      success: false,
+      message: `Import failed and no entries were added: ${result.error || 'Unknown error'}`,
+      imported: 0,
+    };
+  }
+
+  const imported = result.data ?? entries.length;
+  await AuditTrailService.logEvent('import_activities', 'system', { fileName, entriesImported: imported });
+
+  // Capture the imported history now rather than at the next scheduled backup
+  AutoBackupService.backupAfterBulkChange().catch(error => {
+    __DEV__ && console.error('[ERROR] commitImport: Automatic backup after import failed:', error);
+  });
+
+  return {
+    success: true,
+    message: imported === 1 ? '1 entry imported.' : `${imported} entries imported.`,
+    imported,
+  };
+};
@@ -0,0 +1,277 @@
+// Backup encryption for CME Tracker
+// Passphrase-based AES-256-GCM over a backup file, with the key derived by scrypt.
+// Files are sealed in chunks through small I/O adapters, so neither encrypting nor
+// decrypting needs the whole backup in memory.
+import { gcm } from '@noble/ciphers/aes';
+import { bytesToHex, bytesToUtf8, concatBytes, equalBytes, hexToBytes, utf8ToBytes } from '@noble/ciphers/utils';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import * as Crypto from 'expo-crypto';
+
+/**
+ * File layout:
+ * - 8 bytes   "CMEBKENC" magic
+ * - 4 bytes   header length, big-endian
+ * - n bytes   header JSON (EncryptedBackupHeader)
+ * - rest      the plaintext in chunks of `chunkSize` bytes, each sealed with AES-256-GCM
+ *             and followed by its 16-byte tag. Only the last chunk may be shorter.
+ *
+ * Each chunk's nonce is the header's 7-byte prefix, the chunk's index (4 bytes, big-endian)
+ * and a byte that is 1 on the last chunk only, so reordered, dropped or appended chunks fail
+ * authentication. Everything before the first chunk is passed as associated data, so editing
+ * the recorded parameters fails too. The plaintext is the unencrypted .json or .zip backup,
+ * byte for byte.
+ *
+ * Format 1 files sealed the whole plaintext in one piece under `iv`; they are still read.
+ */
+export const ENCRYPTED_BACKUP_EXTENSION = '.cmebackup';
+export const ENCRYPTED_BACKUP_MIME_TYPE = 'application/octet-stream';
+export const MIN_BACKUP_PASSPHRASE_LENGTH = 8;
+
+const MAGIC = utf8ToBytes('CMEBKENC');
+const PREFIX_LENGTH = MAGIC.length + 4;
+const FORMAT_VERSION = 2;
+const MAX_HEADER_LENGTH = 4096; // Anything larger is a corrupt or foreign file
+const CHUNK_SIZE = 256 * 1024;
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024; // Bounds what a crafted header can make us read at once
+const NONCE_PREFIX_LENGTH = 7;
+const TAG_LENGTH = 16;
+
+// Enough leading bytes of a file to read any valid header without loading the ciphertext
+export const ENCRYPTED_BACKUP_HEADER_PEEK_LENGTH = PREFIX_LENGTH + MAX_HEADER_LENGTH;
+
+// Interactive-strength scrypt: 32 MB of memory, a second or two on a mid-range phone
+const DEFAULT_KDF_PARAMS = { N: 2 ** 15, r: 8, p: 1, dkLen: 32 };
+// Upper bound on the memory scrypt takes (128 * N * r bytes) for parameters read from a file,
+// so a crafted header can't get the app killed for running out of memory - 128 MB
+const MAX_KDF_MEMORY = 4 * 128 * DEFAULT_KDF_PARAMS.N * DEFAULT_KDF_PARAMS.r;
+
+interface EncryptedBackupHeaderBase {
+  cipher: 'AES-256-GCM';
+  kdf: {
+    name: 'scrypt';
+    N: number;
+    r: number;
+    p: number;
+    dkLen: number;
+    salt: string; // hex
+  };
+}
+
+export type EncryptedBackupHeader =
+  | EncryptedBackupHeaderBase & {
+    format: 2;
+    noncePrefix: string; // hex, 7 bytes
+    chunkSize: number; // Plaintext bytes per chunk
+  }
+  | EncryptedBackupHeaderBase & {
+    format: 1;
+    iv: string; // hex, 12 bytes
+  };
+
+/**
+ * Random-access source of the bytes being encrypted or decrypted
+ */
+export interface BackupByteSource {
+  readonly size: number;
+  read(offset: number, length: number): Uint8Array;
+}
+
+/**
+ * Sequential sink for the encrypted or decrypted bytes
+ */
+export interface BackupByteSink {
+  write(bytes: Uint8Array): void;
+}
+
+/**
+ * Wraps bytes already in memory, such as a JSON backup, as a BackupByteSource
+ */
+export const bytesBackupSource = (bytes: Uint8Array): BackupByteSource => ({
+  size: bytes.length,
+  read: (offset, length) => bytes.subarray(offset, offset + length),
+});
+
+/**
+ * Cheap check on the first bytes of a file - a full file isn't needed
+ */
+export const hasEncryptedBackupMagic = (bytes: Uint8Array): boolean =>
+  bytes.length >= MAGIC.length && equalBytes(bytes.subarray(0, MAGIC.length), MAGIC);
+
+/**
+ * Reads the header of an encrypted backup.
+ * Returns null when the bytes are not an encrypted backup at all, and throws when they are
+ * but the header can't be understood by this version of the app.
+ */
+export const readEncryptedBackupHeader = (bytes: Uint8Array): { header: EncryptedBackupHeader; headerEnd: number } | null => {
+  if (!hasEncryptedBackupMagic(bytes)) {
+    return null;
+  }
+
+  if (bytes.length < PREFIX_LENGTH) {
+    throw new Error('Encrypted backup is truncated');
+  }
+
+  const headerLength = new DataView(bytes.buffer, bytes.byteOffset + MAGIC.length, 4).getUint32(0, false);
+  const headerEnd = PREFIX_LENGTH + headerLength;
+
+  if (headerLength === 0 || headerLength > MAX_HEADER_LENGTH || bytes.length < headerEnd) {
+    throw new Error('Encrypted backup header is corrupt');
+  }
+
+  let header: any;
+  try {
+    header = JSON.parse(bytesToUtf8(bytes.subarray(PREFIX_LENGTH, headerEnd)));
+  } catch {
+    throw new Error('Encrypted backup header is corrupt');
+  }
+
+  if (!header || typeof header.format !== 'number' || header.format > FORMAT_VERSION) {
+    throw new Error('This encrypted backup was created by a newer version of the app. Please update to restore it.');
+  }
+
+  const { kdf } = header;
+  const isSupportedSealing = header.format === 2
+    ? typeof header.noncePrefix === 'string' && header.noncePrefix.length === NONCE_PREFIX_LENGTH * 2
+      && Number.isInteger(header.chunkSize) && header.chunkSize > 0 && header.chunkSize <= MAX_CHUNK_SIZE
+    : header.format === 1 && typeof header.iv === 'string' && header.iv.length === 24;
+  const isSupported = header.cipher === 'AES-256-GCM'
+    && kdf?.name === 'scrypt'
+    && Number.isInteger(kdf.N) && kdf.N > 1 && (kdf.N & (kdf.N - 1)) === 0
+    && Number.isInteger(kdf.r) && kdf.r > 0 && kdf.r <= 32
+    && 128 * kdf.N * kdf.r <= MAX_KDF_MEMORY
+    && Number.isInteger(kdf.p) && kdf.p > 0 && kdf.p <= 16
+    && kdf.dkLen === 32
+    && typeof kdf.salt === 'string' && isSupportedSealing;
+
+  if (!isSupported) {
+    throw new Error('Encrypted backup uses unsupported encryption settings');
+  }
+
+  return { header, headerEnd };
+};
+
+const deriveKey = (passphrase: string, kdf: EncryptedBackupHeader['kdf']): Promise<Uint8Array> =>
+  scryptAsync(utf8ToBytes(passphrase), hexToBytes(kdf.salt), {
+    N: kdf.N,
+    r: kdf.r,
+    p: kdf.p,
+    dkLen: kdf.dkLen,
+    maxmem: MAX_KDF_MEMORY + 128 * kdf.r * kdf.p, // @noble also counts p blocks on top of N
+  });
+
+const chunkNonce = (prefix: Uint8Array, index: number, isLast: boolean): Uint8Array => {
+  const nonce = new Uint8Array(NONCE_PREFIX_LENGTH + 5);
+  nonce.set(prefix, 0);
+  new DataView(nonce.buffer).setUint32(NONCE_PREFIX_LENGTH, index, false);
+  nonce[NONCE_PREFIX_LENGTH + 4] = isLast ? 1 : 0;
+  return nonce;
+};
+
+/**
+ * Encrypts a complete backup file from `source` into `sink`, one chunk at a time,
+ * with a key derived from the passphrase
+ */
+export const encryptBackup = async (source: BackupByteSource, sink: BackupByteSink, passphrase: string): Promise<void> => {
+  if (passphrase.length < MIN_BACKUP_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const header: EncryptedBackupHeader = {
+    format: FORMAT_VERSION,
+    cipher: 'AES-256-GCM',
+    kdf: {
+      name: 'scrypt',
+      ...DEFAULT_KDF_PARAMS,
+      salt: bytesToHex(Crypto.getRandomBytes(16)),
+    },
+    noncePrefix: bytesToHex(Crypto.getRandomBytes(NONCE_PREFIX_LENGTH)),
+    chunkSize: CHUNK_SIZE,
+  };
+
+  const headerBytes = utf8ToBytes(JSON.stringify(header));
+  const prefix = new Uint8Array(PREFIX_LENGTH);
+  prefix.set(MAGIC, 0);
+  new DataView(prefix.buffer).setUint32(MAGIC.length, headerBytes.length, false);
+
+  const associatedData = concatBytes(prefix, headerBytes);
+  const noncePrefix = hexToBytes(header.noncePrefix);
+  const key = await deriveKey(passphrase, header.kdf);
+
+  try {
+    sink.write(associatedData);
+
+    // An empty file is still one (empty) last chunk, so truncating to the header fails
+    for (let index = 0, offset = 0; ; index++) {
+      const length = Math.min(header.chunkSize, source.size - offset);
+      const isLast = offset + length >= source.size;
+      sink.write(gcm(key, chunkNonce(noncePrefix, index, isLast), associatedData).encrypt(source.read(offset, length)));
+      offset += length;
+
+      if (isLast) {
+        break;
+      }
+    }
+  } finally {
+    key.fill(0);
+  }
+};
+
+/**
+ * Decrypts an encrypted backup from `source` into `sink`, one chunk at a time, giving back
+ * the original .json or .zip bytes. Returns false when the passphrase is wrong or the file was
+ * modified or truncated - GCM can't tell these apart. The sink may then hold the chunks before
+ * the failure, which must be discarded.
+ */
+export const decryptBackup = async (source: BackupByteSource, sink: BackupByteSink, passphrase: string): Promise<boolean> => {
+  const parsed = readEncryptedBackupHeader(source.read(0, Math.min(source.size, ENCRYPTED_BACKUP_HEADER_PEEK_LENGTH)));
+  if (!parsed) {
+    throw new Error('Not an encrypted backup');
+  }
+
+  const { header, headerEnd } = parsed;
+  const associatedData = source.read(0, headerEnd);
+  const key = await deriveKey(passphrase, header.kdf);
+
+  const open = (nonce: Uint8Array, sealed: Uint8Array): Uint8Array | null => {
+    try {
+      return gcm(key, nonce, associatedData).decrypt(sealed);
+    } catch {
+      return null;
+    }
+  };
+
+  try {
+    if (header.format === 1) {
+      // Sealed in one piece, so this older format can only be opened in memory
+      const plaintext = open(hexToBytes(header.iv), source.read(headerEnd, source.size - headerEnd));
+      if (plaintext) {
+        sink.write(plaintext);
+      }
+      return plaintext !== null;
+    }
+
+    const noncePrefix = hexToBytes(header.noncePrefix);
+    const sealedChunkSize = header.chunkSize + TAG_LENGTH;
+
+    for (let index = 0, offset = headerEnd; ; index++) {
+      const length = Math.min(sealedChunkSize, source.size - offset);
+      const isLast = offset + length >= source.size;
+      const plaintext = length >= TAG_LENGTH
+        ? open(chunkNonce(noncePrefix, index, isLast), source.read(offset, length))
+        : null;
+
+      if (!plaintext) {
+        return false;
+      }
+
+      sink.write(plaintext);
+      offset += length;
+
+      if (isLast) {
+        return true;
+      }
+    }
+  } finally {
+    key.fill(0);
+  }
+};
@@ -0,0 +1,123 @@
+// Backup payload migrations for CME Tracker
+// Upgrades backup.json payloads written by older app versions to the current layout
+import { APP_CONFIG } from '../constants';
+import type { BackupData } from './zipBackupService';
+
+/**
+ * Format history:
+ * 1 - Original layout, identified only by the app `version` string
+ * 2 - Adds `backupFormatVersion` and certificate metadata for restore re-linking
+ * 3 - Adds `entryLicenseLinks` attributing entries to specific licenses
+ * 4 - Adds `requirementRules`, `carryOverRules` and `complianceCycles`
+ */
+export const CURRENT_BACKUP_FORMAT_VERSION = APP_CONFIG.BACKUP_FORMAT_VERSION;
+
+type RawBackupPayload = Record<string, any>;
+
+interface BackupMigration {
+  from: number;
+  to: number;
+  description: string;
+  migrate: (payload: RawBackupPayload) => RawBackupPayload;
+}
+
+/**
+ * Ordered chain of pure payload upgrades. Each step takes format `from` to `from + 1`
+ * and must not mutate its input. Add a new step whenever CMEEntry, LicenseRenewal
+ * or User gain or rename fields, and bump APP_CONFIG.BACKUP_FORMAT_VERSION.
+ */
+const BACKUP_MIGRATIONS: BackupMigration[] = [
+  {
+    from: 1,
+    to: 2,
+    description: 'Add certificate metadata and fill defaults for fields older builds omitted',
+    migrate: (payload) => ({
+      ...payload,
+      includedCertificates: payload.includedCertificates ?? false,
+      certificates: Array.isArray(payload.certificates) ? payload.certificates : [],
+      user: payload.user
+        ? { ...payload.user, requirementPeriod: payload.user.requirementPeriod || 1 }
+        : payload.user,
+      cmeEntries: (Array.isArray(payload.cmeEntries) ? payload.cmeEntries : []).map((entry: RawBackupPayload) => ({
+        ...entry,
+        category: entry.category || 'Other',
+      })),
+      licenses: (Array.isArray(payload.licenses) ? payload.licenses : []).map((license: RawBackupPayload) => ({
+        ...license,
+        requiredCredits: license.requiredCredits ?? 0,
+        completedCredits: license.completedCredits ?? 0,
+        status: license.status || 'active',
+      })),
+    }),
+  },
+  {
+    from: 2,
+    to: 3,
+    description: 'Add entry to license attribution links',
+    migrate: (payload) => ({
+      ...payload,
+      entryLicenseLinks: Array.isArray(payload.entryLicenseLinks) ? payload.entryLicenseLinks : [],
+    }),
+  },
+  {
+    from: 3,
+    to: 4,
+    description: 'Add requirement rules, carry-over rules and cycle history',
+    migrate: (payload) => ({
+      ...payload,
+      requirementRules: Array.isArray(payload.requirementRules) ? payload.requirementRules : [],
+      carryOverRules: Array.isArray(payload.carryOverRules) ? payload.carryOverRules : [],
+      complianceCycles: Array.isArray(payload.complianceCycles) ? payload.complianceCycles : [],
+    }),
+  },
+];
+
+/**
+ * Reads the format version of a raw payload; payloads without one predate versioning
+ */
+export const getBackupFormatVersion = (payload: RawBackupPayload): number => {
+  const version = Number(payload?.backupFormatVersion);
+  return Number.isInteger(version) && version > 0 ? version : 1;
+};
+
+/**
+ * Explains why a payload cannot be read by this build, or returns null if it can
+ */
+export const checkBackupCompatibility = (payload: RawBackupPayload): string | null => {
+  const version = getBackupFormatVersion(payload);
+
+  if (version > CURRENT_BACKUP_FORMAT_VERSION) {
+    return `This backup was created by a newer version of the app (backup format ${version}, this app supports up to ${CURRENT_BACKUP_FORMAT_VERSION}). Please update ${APP_CONFIG.NAME} and try again.`;
+  }
+
+  return null;
+};
+
+/**
+ * Upgrades a raw payload step by step to the current format
+ */
+export const migrateBackupPayload = (payload: RawBackupPayload): {
+  success: boolean;
+  data?: BackupData;
+  error?: string;
+} => {
+  const incompatibility = checkBackupCompatibility(payload);
+  if (incompatibility) {
+    return { success: false, error: incompatibility };
+  }
+
+  let current = payload;
+  let version = getBackupFormatVersion(payload);
+
+  while (version < CURRENT_BACKUP_FORMAT_VERSION) {
+    const migration = BACKUP_MIGRATIONS.find(step => step.from === version);
+    if (!migration) {
+      return { success: false, error: `No migration available for backup format ${version}` };
+    }
+
+    current = { ...migration.migrate(current), backupFormatVersion: migration.to };
+    version = migration.to;
+  }
+
+  return { success: true, data: current as BackupData };
+};
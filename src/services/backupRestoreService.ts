@@ -0,0 +1,480 @@
+// Backup Restore Service for CME Tracker
+// Writes JSON and ZIP backups back into SQLite and the certificates directory
+import * as FileSystem from 'expo-file-system/legacy';
+import { CMEEntry, RestoreCertificateInput, RestoreMode, RestoreSummary } from '../types';
+import { FILE_PATHS, SUPPORTED_FILE_TYPES } from '../constants';
+import { databaseOperations } from './database';
+import { ThumbnailService } from './thumbnailService';
+import { AuditTrailService } from './AuditTrailService';
+import { AutoBackupService } from './AutoBackupService';
+import { migrateBackupPayload } from './backupMigrations';
+import { getSnapshotFiles, readSnapshotManifest } from './backupStore';
+import { buildRestorePreview, RestorePreview } from '../utils/restorePreview';
+import {
+  BackupData,
+  BackupFileType,
+  BackupProgress,
+  extractZipBackup,
+  isValidBackupFile,
+  PassphraseRequest,
+} from './zipBackupService';
+
+export interface RestoreResult {
+  success: boolean;
+  cancelled?: boolean; // The user dismissed the passphrase prompt of an encrypted backup
+  message: string;
+  summary?: RestoreSummary;
+}
+
+/**
+ * A backup read into memory with its certificate files ready to copy, so it can be
+ * previewed before restoring. Pass it to closeBackup() once done.
+ */
+export interface OpenedBackup {
+  fileType: BackupFileType;
+  backupData: BackupData;
+  // Certificate files extracted from the archive or held in the blob store
+  files: Array<{ fileName: string; sourceUri: string }>;
+  extractedDirectory?: string; // Temporary copies extracted from a ZIP backup
+}
+
+export interface OpenBackupResult {
+  success: boolean;
+  cancelled?: boolean;
+  message: string;
+  backup?: OpenedBackup;
+}
+
+/**
+ * The records to restore from a backup, by their ids in the backup. Records that match
+ * one on this device are mapped to it, see RestorePayload.existingEntryIds.
+ */
+export interface RestoreSelection {
+  entryIds: number[];
+  licenseIds: number[];
+  certificateIds: number[];
+  existingEntryIds: Record<number, number>;
+  existingLicenseIds: Record<number, number>;
+}
+
+/**
+ * Restores a JSON, ZIP or encrypted backup, or an automatic backup's manifest rebuilt
+ * from the blob store. Encrypted backups ask for their passphrase through `requestPassphrase`.
+ * 'replace' wipes existing entries, licenses and certificates first; 'merge' keeps them
+ * and skips records that already exist. Database changes run in one transaction - if it
+ * fails, every certificate file written by this restore is removed again.
+ */
+export const restoreFromBackup = async (
+  fileUri: string,
+  mode: RestoreMode,
+  onProgress?: (progress: BackupProgress) => void,
+  requestPassphrase?: PassphraseRequest
+): Promise<RestoreResult> => {
+  const opened = await openBackup(fileUri, onProgress, requestPassphrase);
+  if (!opened.success || !opened.backup) {
+    return { success: false, cancelled: opened.cancelled, message: opened.message };
+  }
+
+  try {
+    return await restoreOpenedBackup(opened.backup, mode, onProgress);
+  } finally {
+    await closeBackup(opened.backup);
+  }
+};
+
+/**
+ * Reads a backup's records and makes its certificate files available without changing
+ * anything on the device. Opening covers the first half of a restore's progress.
+ */
+export const openBackup = async (
+  fileUri: string,
+  onProgress?: (progress: BackupProgress) => void,
+  requestPassphrase?: PassphraseRequest
+): Promise<OpenBackupResult> => {
+  let extractedDirectory: string | undefined;
+
+  try {
+    onProgress?.({
+      step: 'preparing',
+      progress: 5,
+      message: 'Checking backup file...',
+    });
+
+    const validation = await isValidBackupFile(fileUri);
+    if (!validation.isValid) {
+      return { success: false, message: validation.message };
+    }
+
+    let backupData: BackupData;
+    let files: OpenedBackup['files'] = [];
+
+    if (validation.type === 'snapshot') {
+      const manifest = await readSnapshotManifest(fileUri);
+      const snapshotFiles = await getSnapshotFiles(manifest);
+      if (snapshotFiles.missing.length > 0) {
+        __DEV__ && console.warn(`[WARN] openBackup: ${snapshotFiles.missing.length} certificate file(s) missing from the backup store`);
+      }
+
+      backupData = manifest.backupData;
+      files = snapshotFiles.files.map(file => ({ fileName: file.archiveFileName, sourceUri: file.uri }));
+    } else if (validation.type === 'zip' || validation.type === 'encrypted') {
+      const extracted = await extractZipBackup(fileUri, progress => {
+        onProgress?.({
+          ...progress,
+          step: progress.step === 'complete' ? 'preparing' : progress.step,
+          progress: Math.floor(progress.progress / 2),
+        });
+      }, requestPassphrase);
+
+      extractedDirectory = extracted.extractedDirectory;
+      if (!extracted.success || !extracted.backupData) {
+        if (extractedDirectory) {
+          await deleteFiles([extractedDirectory]);
+        }
+        return { success: false, cancelled: extracted.cancelled, message: extracted.message };
+      }
+
+      backupData = extracted.backupData;
+      files = (extracted.certificates || []).map(file => ({ fileName: file.fileName, sourceUri: file.uri }));
+    } else {
+      const content = await FileSystem.readAsStringAsync(fileUri);
+      const migrated = migrateBackupPayload(JSON.parse(content));
+
+      if (!migrated.success || !migrated.data) {
+        return { success: false, message: migrated.error || 'Unsupported backup format' };
+      }
+
+      backupData = migrated.data;
+    }
+
+    if (!Array.isArray(backupData.cmeEntries) && !backupData.user) {
+      if (extractedDirectory) {
+        await deleteFiles([extractedDirectory]);
+      }
+      return { success: false, message: 'Backup does not contain any data to restore' };
+    }
+
+    return {
+      success: true,
+      message: 'Backup opened',
+      backup: { fileType: validation.type, backupData, files, extractedDirectory },
+    };
+  } catch (error) {
+    __DEV__ && console.error('[ERROR] openBackup: Failed to open backup:', error);
+
+    if (extractedDirectory) {
+      await deleteFiles([extractedDirectory]);
+    }
+
+    return {
+      success: false,
+      message: `Failed to restore backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+};
+
+/**
+ * Compares an opened backup with the entries, licenses and certificates on this device
+ */
+export const previewBackup = async (backup: OpenedBackup): Promise<RestorePreview> => {
+  const [entries, licenses, certificates] = await Promise.all([
+    databaseOperations.cme.getAllEntries(),
+    databaseOperations.licenses.getAllLicenses(),
+    databaseOperations.certificates.getAllCertificates(),
+  ]);
+
+  if (!entries.success || !licenses.success || !certificates.success) {
+    throw new Error(entries.error || licenses.error || certificates.error || 'Could not read current records');
+  }
+
+  return buildRestorePreview(backup.backupData, {
+    entries: entries.data || [],
+    licenses: licenses.data || [],
+    certificates: certificates.data || [],
+  });
+};
+
+/**
+ * Removes the temporary files of an opened backup
+ */
+export const closeBackup = async (backup: OpenedBackup): Promise<void> => {
+  if (backup.extractedDirectory) {
+    await deleteFiles([backup.extractedDirectory]);
+  }
+};
+
+/**
+ * Writes an opened backup into the database. With a `selection` only the chosen records
+ * are restored and the mode is always 'merge': the profile is left alone, matched records
+ * are updated in place, and restored certificates are re-linked to their entries whether
+ * those come from the backup or already exist on this device.
+ */
+export const restoreOpenedBackup = async (
+  backup: OpenedBackup,
+  mode: RestoreMode,
+  onProgress?: (progress: BackupProgress) => void,
+  selection?: RestoreSelection
+): Promise<RestoreResult> => {
+  const writtenFiles: string[] = [];
+  const restoreMode: RestoreMode = selection ? 'merge' : mode;
+
+  try {
+    const backupData = backup.backupData;
+    const allEntries: CMEEntry[] = Array.isArray(backupData.cmeEntries) ? backupData.cmeEntries : [];
+    const allLicenses = Array.isArray(backupData.licenses) ? backupData.licenses : [];
+    const allRecords = backupData.certificates || [];
+
+    const entryIds = new Set(selection ? selection.entryIds : allEntries.map(entry => entry.id));
+    const licenseIds = new Set(selection ? selection.licenseIds : allLicenses.map(license => license.id));
+    const certificateIds = new Set(selection ? selection.certificateIds : allRecords.map(record => record.id));
+
+    const entries = allEntries.filter(entry => entryIds.has(entry.id));
+    const licenses = allLicenses.filter(license => licenseIds.has(license.id));
+    const records = allRecords.filter(record => certificateIds.has(record.id));
+    const recordedNames = new Set(allRecords.map(record => record.archiveFileName));
+    const selectedNames = new Set(records.map(record => record.archiveFileName));
+
+    // A selection only lists certificates that have a record, so unrecorded files are left out
+    const archivedFiles = selection
+      ? backup.files.filter(file => selectedNames.has(file.fileName))
+      : backup.files;
+
+    // Write certificate files into the certificates directory
+    onProgress?.({
+      step: 'certificates',
+      progress: 55,
+      message: `Restoring ${archivedFiles.length} certificates...`,
+    });
+
+    const certificatesDir = `${FileSystem.documentDirectory}${FILE_PATHS.CERTIFICATES}`;
+    const dirInfo = await FileSystem.getInfoAsync(certificatesDir);
+    if (!dirInfo.exists) {
+      await FileSystem.makeDirectoryAsync(certificatesDir, { intermediates: true });
+    }
+
+    const restoredPaths = new Map<string, string>(); // archive file name -> new path
+    const timestamp = Date.now();
+
+    for (let i = 0; i < archivedFiles.length; i++) {
+      const archived = archivedFiles[i];
+      const newFilePath = `${certificatesDir}restored_${timestamp}_${i}_${archived.fileName}`;
+
+      await FileSystem.copyAsync({ from: archived.sourceUri, to: newFilePath });
+      writtenFiles.push(newFilePath);
+      restoredPaths.set(archived.fileName, newFilePath);
+
+      onProgress?.({
+        step: 'certificates',
+        progress: 55 + Math.floor(((i + 1) / archivedFiles.length) * 25),
+        message: `Restored ${i + 1}/${archivedFiles.length} certificates...`,
+      });
+    }
+
+    // Build certificate rows and the old path -> new path lookup for entries
+    const certificateInputs: RestoreCertificateInput[] = [];
+    const pathRemap = new Map<string, string>();
+
+    for (const record of records) {
+      const newFilePath = restoredPaths.get(record.archiveFileName);
+      if (!newFilePath) {
+        continue; // File was missing when the backup was made
+      }
+
+      pathRemap.set(record.filePath, newFilePath);
+      const linkedEntry = allEntries.find(entry => entry.certificatePath === record.filePath);
+
+      certificateInputs.push({
+        filePath: newFilePath,
+        fileName: record.fileName,
+        fileSize: record.fileSize,
+        mimeType: record.mimeType,
+        sourceEntryId: record.cmeEntryId ?? linkedEntry?.id,
+        sourceFilePath: record.filePath,
+      });
+    }
+
+    // Backups made before certificate metadata existed only carry the files,
+    // so fall back to matching file names against each entry's certificatePath
+    for (const [archiveFileName, newFilePath] of restoredPaths) {
+      if (recordedNames.has(archiveFileName)) {
+        continue;
+      }
+
+      const linkedEntry = entries.find(entry => getBaseName(entry.certificatePath) === archiveFileName);
+      if (linkedEntry?.certificatePath) {
+        pathRemap.set(linkedEntry.certificatePath, newFilePath);
+      }
+
+      const fileInfo = await FileSystem.getInfoAsync(newFilePath);
+      certificateInputs.push({
+        filePath: newFilePath,
+        fileName: archiveFileName,
+        fileSize: fileInfo.exists && 'size' in fileInfo ? fileInfo.size || 0 : 0,
+        mimeType: getMimeType(archiveFileName),
+        sourceEntryId: linkedEntry?.id,
+      });
+    }
+
+    // Thumbnails are not part of the backup - regenerate them for images
+    for (const input of certificateInputs) {
+      if (!SUPPORTED_FILE_TYPES.IMAGES.includes(input.mimeType)) {
+        continue;
+      }
+      try {
+        const thumbnail = await ThumbnailService.generateThumbnail(input.filePath, input.fileName);
+        input.thumbnailPath = thumbnail.thumbnailUri;
+        writtenFiles.push(thumbnail.thumbnailUri);
+      } catch (thumbnailError) {
+        __DEV__ && console.warn('[WARN] Thumbnail generation failed during restore:', thumbnailError);
+      }
+    }
+
+    // Point entries at the restored files; drop paths that no longer exist on this device
+    const restoredEntries: CMEEntry[] = [];
+    for (const entry of entries) {
+      let certificatePath = entry.certificatePath;
+      if (certificatePath) {
+        const remapped = pathRemap.get(certificatePath);
+        if (remapped) {
+          certificatePath = remapped;
+        } else {
+          const existing = await FileSystem.getInfoAsync(certificatePath).catch(() => ({ exists: false }));
+          certificatePath = existing.exists ? certificatePath : undefined;
+        }
+      }
+      restoredEntries.push({ ...entry, certificatePath });
+    }
+
+    onProgress?.({
+      step: 'saving',
+      progress: 85,
+      message: 'Writing records to database...',
+    });
+
+    // Keep a copy of what the restore replaces. Certificate files are already copied out,
+    // so rotating older snapshots here can't remove files this restore still needs.
+    await AutoBackupService.backupBeforeBulkChange().catch(error => {
+      __DEV__ && console.error('[ERROR] restoreOpenedBackup: Automatic backup before restore failed:', error);
+    });
+
+    const result = await databaseOperations.restore.restoreBackup({
+      user: selection ? undefined : backupData.user,
+      cmeEntries: restoredEntries,
+      licenses,
+      certificates: certificateInputs,
+      // Links between two records that are both left as they are stay untouched
+      entryLicenseLinks: (backupData.entryLicenseLinks || [])
+        .filter(link => entryIds.has(link.cmeEntryId) || licenseIds.has(link.licenseId)),
+      // Rules come back with their license; the cycle's own rules and history with the profile
+      requirementRules: (backupData.requirementRules || [])
+        .filter(rule => rule.licenseId === undefined ? !selection : licenseIds.has(rule.licenseId)),
+      carryOverRules: (backupData.carryOverRules || [])
+        .filter(rule => rule.licenseId === undefined ? !selection : licenseIds.has(rule.licenseId)),
+      complianceCycles: selection ? [] : backupData.complianceCycles || [],
+      existingEntryIds: selection?.existingEntryIds,
+      existingLicenseIds: selection?.existingLicenseIds,
+    }, restoreMode);
+
+    if (!result.success || !result.data) {
+      await deleteFiles(writtenFiles);
+      await AuditTrailService.logEvent('restore_backup', 'system', {
+        mode: restoreMode,
+        fileType: backup.fileType,
+        selective: !!selection,
+      }, false, undefined, result.error);
+      return {
+        success: false,
+        message: `Restore failed and no changes were made: ${result.error || 'Unknown error'}`,
+      };
+    }
+
+    const summary = result.data;
+
+    // Files replaced or duplicated by the restore are only removed after the commit
+    await deleteFiles(summary.discardedFilePaths);
+
+    await AuditTrailService.logEvent('restore_backup', 'system', {
+      mode: restoreMode,
+      fileType: backup.fileType,
+      selective: !!selection,
+      backupVersion: backupData.version,
+      backupFormatVersion: backupData.backupFormatVersion,
+      entriesRestored: summary.entriesRestored,
+      licensesRestored: summary.licensesRestored,
+      certificatesRestored: summary.certificatesRestored,
+    });
+
+    onProgress?.({
+      step: 'complete',
+      progress: 100,
+      message: 'Restore complete!',
+    });
+
+    // Capture the restored state now rather than at the next scheduled backup
+    AutoBackupService.backupAfterBulkChange().catch(error => {
+      __DEV__ && console.error('[ERROR] restoreOpenedBackup: Automatic backup after restore failed:', error);
+    });
+
+    const skipped = summary.entriesSkipped + summary.licensesSkipped + summary.certificatesSkipped;
+
+    return {
+      success: true,
+      summary,
+      message: `Backup restored successfully!\n\n${summary.entriesRestored} entries\n${summary.licensesRestored} licenses\n${summary.certificatesRestored} certificates`
+        + (skipped > 0 ? `\n\n${skipped} existing items were skipped` : ''),
+    };
+  } catch (error) {
+    __DEV__ && console.error('Error restoring backup:', error);
+
+    await deleteFiles(writtenFiles);
+
+    onProgress?.({
+      step: 'complete',
+      progress: 0,
+      message: 'Failed to restore backup',
+    });
+
+    return {
+      success: false,
+      message: `Failed to restore backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+};
+
+/**
+ * Best-effort removal of files written or orphaned by a restore
+ */
+async function deleteFiles(paths: string[]): Promise<void> {
+  for (const path of paths) {
+    try {
+      await FileSystem.deleteAsync(path, { idempotent: true });
+    } catch (error) {
+      __DEV__ && console.warn(`Failed to delete ${path}:`, error);
+    }
+  }
+}
+
+/**
+ * Last path segment of a file URI
+ */
+function getBaseName(path?: string): string | undefined {
+  return path ? path.split('/').pop() : undefined;
+}
+
+/**
+ * Get MIME type from file extension
+ */
+function getMimeType(fileName: string): string {
+  const mimeTypes: Record<string, string> = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    heic: 'image/heic',
+    pdf: 'application/pdf',
+  };
+
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  return mimeTypes[extension] || 'application/octet-stream';
+}
@@ -0,0 +1,282 @@
+// Content-addressed backup store for automatic backups.
+// Certificate files are copied once each into backups/blobs/, named by their SHA-256,
+// and every snapshot is a manifest of its records plus the blobs it references.
+// A new snapshot only copies files the store doesn't hold yet.
+import * as FileSystem from 'expo-file-system/legacy';
+import { File } from 'expo-file-system';
+import { FILE_PATHS } from '../constants';
+import { migrateBackupPayload } from './backupMigrations';
+import {
+  BackupArchiveFile,
+  BackupData,
+  BackupOptions,
+  BackupProgress,
+  writeZipBackup,
+} from './zipBackupService';
+import {
+  ManifestBlob,
+  SNAPSHOT_MANIFEST_VERSION,
+  SnapshotManifest,
+  findMissingBlobs,
+  findUnreferencedBlobs,
+  isBlobHash,
+  isSnapshotManifest,
+} from '../utils/backupManifest';
+import { createSha256 } from '../utils/backupIntegrity';
+import { ZIP_CHUNK_SIZE } from '../utils/zipStream';
+
+export interface SnapshotWriteResult {
+  manifest: SnapshotManifest;
+  addedBlobs: number; // Files copied into the store by this snapshot
+  addedBytes: number;
+}
+
+// Certificate file path -> hash when the file last had this size and modification time
+type HashIndex = Record<string, { size: number; modificationTime: number; hash: string }>;
+
+const HASH_INDEX_FILE = 'hash-index.json';
+// Suffix of files being written; they are renamed once complete
+const PARTIAL_SUFFIX = '.partial';
+
+const getBlobDirectory = (): string => `${FileSystem.documentDirectory}${FILE_PATHS.BACKUP_BLOBS}`;
+
+export const getBlobUri = (hash: string): string => `${getBlobDirectory()}${hash}`;
+
+/**
+ * Copies any certificate file of `backupData` the store doesn't hold yet, then writes the
+ * snapshot's manifest to `manifestUri`. Files whose size and modification time match the
+ * previous snapshot keep their known hash and aren't read again.
+ */
+export const writeSnapshotManifest = async (
+  backupData: BackupData,
+  manifestUri: string,
+  onProgress?: (progress: BackupProgress) => void
+): Promise<SnapshotWriteResult> => {
+  const blobDirectory = getBlobDirectory();
+  const dirInfo = await FileSystem.getInfoAsync(blobDirectory);
+  if (!dirInfo.exists) {
+    await FileSystem.makeDirectoryAsync(blobDirectory, { intermediates: true });
+  }
+
+  const previousIndex = await readHashIndex();
+  const hashIndex: HashIndex = {};
+  const stored = new Set(await listStoredBlobs());
+  const blobs: Record<string, ManifestBlob> = {};
+  const records = backupData.certificates || [];
+  let addedBlobs = 0;
+  let addedBytes = 0;
+
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    const info = await FileSystem.getInfoAsync(record.filePath);
+
+    if (!info.exists || info.isDirectory) {
+      // Left out like a ZIP backup would; the record stays so verification can report it
+      __DEV__ && console.warn(`[WARN] backupStore: Certificate file not found: ${record.filePath}`);
+      continue;
+    }
+
+    const cached = previousIndex[record.filePath];
+    const hash = cached && cached.size === info.size && cached.modificationTime === info.modificationTime
+      ? cached.hash
+      : hashFile(record.filePath);
+    hashIndex[record.filePath] = { size: info.size, modificationTime: info.modificationTime, hash };
+
+    if (!stored.has(hash)) {
+      const partialUri = `${getBlobUri(hash)}${PARTIAL_SUFFIX}`;
+      await FileSystem.copyAsync({ from: record.filePath, to: partialUri });
+      await FileSystem.moveAsync({ from: partialUri, to: getBlobUri(hash) });
+      stored.add(hash);
+      addedBlobs++;
+      addedBytes += info.size;
+    }
+
+    blobs[record.archiveFileName] = { hash, size: info.size };
+
+    onProgress?.({
+      step: 'certificates',
+      progress: 10 + Math.floor(((i + 1) / records.length) * 80),
+      message: `Stored ${i + 1}/${records.length} certificates...`,
+    });
+  }
+
+  onProgress?.({
+    step: 'saving',
+    progress: 90,
+    message: 'Saving backup manifest...',
+  });
+
+  const manifest: SnapshotManifest = {
+    manifestVersion: SNAPSHOT_MANIFEST_VERSION,
+    createdAt: backupData.exportDate,
+    backupData,
+    blobs,
+  };
+
+  // Written aside and renamed, so a snapshot never references blobs that weren't stored
+  const partialUri = `${manifestUri}${PARTIAL_SUFFIX}`;
+  await FileSystem.writeAsStringAsync(partialUri, JSON.stringify(manifest));
+  await FileSystem.moveAsync({ from: partialUri, to: manifestUri });
+
+  // Only files in this snapshot are kept, so deleted certificates drop out of the index
+  await FileSystem.writeAsStringAsync(`${blobDirectory}${HASH_INDEX_FILE}`, JSON.stringify(hashIndex));
+
+  return { manifest, addedBlobs, addedBytes };
+};
+
+/**
+ * Reads a snapshot manifest, upgrading its records to the current backup format
+ */
+export const readSnapshotManifest = async (manifestUri: string): Promise<SnapshotManifest> => {
+  const data = JSON.parse(await FileSystem.readAsStringAsync(manifestUri));
+  if (!isSnapshotManifest(data)) {
+    throw new Error('Not an automatic backup manifest');
+  }
+
+  const migrated = migrateBackupPayload(data.backupData);
+  if (!migrated.success || !migrated.data) {
+    throw new Error(migrated.error || 'Unsupported backup format');
+  }
+
+  return { ...data, backupData: migrated.data };
+};
+
+/**
+ * The certificate files a snapshot can be rebuilt from, and the archive file names
+ * whose blob is no longer in the store
+ */
+export const getSnapshotFiles = async (manifest: SnapshotManifest): Promise<{
+  files: BackupArchiveFile[];
+  missing: string[];
+}> => {
+  const missing = findMissingBlobs(manifest, await listStoredBlobs());
+  const missingNames = new Set(missing);
+
+  const files = Object.entries(manifest.blobs)
+    .filter(([archiveFileName]) => !missingNames.has(archiveFileName))
+    .map(([archiveFileName, blob]) => ({ archiveFileName, uri: getBlobUri(blob.hash) }));
+
+  return { files, missing };
+};
+
+/**
+ * Re-hashes every blob a snapshot references and returns the archive file names whose
+ * contents no longer match their hash. Blobs missing from the store are not included.
+ */
+export const findCorruptBlobs = async (manifest: SnapshotManifest): Promise<string[]> => {
+  const stored = new Set(await listStoredBlobs());
+  const results = new Map<string, boolean>(); // hash -> intact
+  const corrupt: string[] = [];
+
+  for (const [archiveFileName, blob] of Object.entries(manifest.blobs)) {
+    if (!stored.has(blob.hash)) {
+      continue;
+    }
+
+    if (!results.has(blob.hash)) {
+      results.set(blob.hash, hashFile(getBlobUri(blob.hash)) === blob.hash);
+      // Hashing is synchronous, so let the UI update between files
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    if (!results.get(blob.hash)) {
+      corrupt.push(archiveFileName);
+    }
+  }
+
+  return corrupt;
+};
+
+/**
+ * Rebuilds a snapshot as a standalone ZIP backup, e.g. to share it off the device
+ */
+export const exportSnapshotArchive = async (
+  manifestUri: string,
+  options: BackupOptions,
+  onProgress?: (progress: BackupProgress) => void
+): Promise<{ success: boolean; message: string; fileUri?: string }> => {
+  const manifest = await readSnapshotManifest(manifestUri);
+  const { files } = await getSnapshotFiles(manifest);
+  return writeZipBackup(manifest.backupData, files, options, onProgress);
+};
+
+/**
+ * Deletes blobs no manifest in `manifestUris` references, along with interrupted copies.
+ * Nothing is deleted if a manifest can't be read, since its blobs would be unknown.
+ */
+export const removeUnreferencedBlobs = async (manifestUris: string[]): Promise<number> => {
+  const blobDirectory = getBlobDirectory();
+  const dirInfo = await FileSystem.getInfoAsync(blobDirectory);
+  if (!dirInfo.exists) {
+    return 0;
+  }
+
+  const manifests: SnapshotManifest[] = [];
+  for (const uri of manifestUris) {
+    try {
+      manifests.push(await readSnapshotManifest(uri));
+    } catch (error) {
+      __DEV__ && console.warn(`[WARN] backupStore: Skipping blob cleanup, unreadable manifest ${uri}:`, error);
+      return 0;
+    }
+  }
+
+  const names = await FileSystem.readDirectoryAsync(blobDirectory);
+  const unreferenced = [
+    ...findUnreferencedBlobs(manifests, names.filter(isBlobHash)),
+    ...names.filter(name => name.endsWith(PARTIAL_SUFFIX)),
+  ];
+
+  for (const name of unreferenced) {
+    try {
+      await FileSystem.deleteAsync(`${blobDirectory}${name}`, { idempotent: true });
+    } catch (error) {
+      __DEV__ && console.warn(`[WARN] backupStore: Failed to delete blob ${name}:`, error);
+    }
+  }
+
+  return unreferenced.length;
+};
+
+async function listStoredBlobs(): Promise<string[]> {
+  const blobDirectory = getBlobDirectory();
+  const dirInfo = await FileSystem.getInfoAsync(blobDirectory);
+  if (!dirInfo.exists) {
+    return [];
+  }
+
+  return (await FileSystem.readDirectoryAsync(blobDirectory)).filter(isBlobHash);
+}
+
+async function readHashIndex(): Promise<HashIndex> {
+  try {
+    const uri = `${getBlobDirectory()}${HASH_INDEX_FILE}`;
+    const info = await FileSystem.getInfoAsync(uri);
+    return info.exists ? JSON.parse(await FileSystem.readAsStringAsync(uri)) : {};
+  } catch (error) {
+    // Only a cache - every file gets hashed again
+    __DEV__ && console.warn('[WARN] backupStore: Unreadable hash index:', error);
+    return {};
+  }
+}
+
+/**
+ * SHA-256 of a file's contents, hex, read a chunk at a time
+ */
+function hashFile(uri: string): string {
+  const handle = new File(uri).open();
+  try {
+    const hash = createSha256();
+    const size = handle.size ?? 0;
+    for (let read = 0; read < size;) {
+      const chunk = handle.readBytes(Math.min(ZIP_CHUNK_SIZE, size - read));
+      if (chunk.length === 0) {
+        break;
+      }
+      hash.update(chunk);
+      read += chunk.length;
+    }
+    return hash.digest();
+  } finally {
+    handle.close();
+  }
+}
@@ -1,12 +1,13 @@
 // Database service exports
 export * from './schema';
+export * from './migrations';
 export * from './operations';
 
 // Re-export commonly used functions
 export {
   setupDatabase,
-  createTables,
   initializeDatabase,
+  checkDatabaseSchema,
 } from './schema';
 
 export {
@@ -16,6 +17,10 @@ export {
   licenseOperations,
   settingsOperations,
   userOperations,
+  requirementRuleOperations,
+  carryOverRuleOperations,
+  complianceCycleOperations,
+  restoreOperations,
 } from './operations';
 
 // Export database recovery functions
@@ -24,4 +29,5 @@ export {
   getDatabaseStatus,
   recoverFromCorruption,
   checkDatabaseHealth,
+  verifyDatabaseSchema,
 } from './singleton';
\ No newline at end of file
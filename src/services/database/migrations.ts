@@ -0,0 +1,681 @@
+// Numbered schema migrations for CME Tracker
+// Each migration runs in its own transaction and is recorded in schema_migrations
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+/**
+ * Schema history:
+ * 1 - Base schema: users, CME entries, certificates, licenses and app settings
+ * 2 - CME event reminders
+ * 3 - Entry to license attribution links
+ * 4 - Category requirement rules
+ * 5 - Percentage caps on requirement rules
+ * 6 - Compliance cycle history and carry-over rules
+ * 7 - Event details, attendance status and per-event reminder offsets (cme_event_reminder_offsets)
+ * 8 - Typed event deadlines (cme_event_deadlines); registration_deadline from 7 is left unused
+ *
+ * Migrations must be idempotent (CREATE ... IF NOT EXISTS, column checks before ALTER)
+ * so a database can be repaired by re-running them. Run scripts/check-migrations.js
+ * after adding one, update EXPECTED_SCHEMA, and bump APP_CONFIG.DATABASE_VERSION.
+ */
+export interface SchemaMigration {
+  version: number;
+  name: string;
+  up: (db: SQLiteDatabase) => Promise<void>;
+}
+
+export type MigrationStatus = 'applied' | 'baseline' | 'failed';
+
+export interface MigrationRecord {
+  version: number;
+  name: string;
+  status: MigrationStatus;
+  error: string | null;
+  durationMs: number | null;
+  appliedAt: string;
+}
+
+export interface MigrationRunResult {
+  fromVersion: number;
+  toVersion: number;
+  dryRun: boolean;
+  // Versions applied, or in a dry run the versions that would be applied
+  migrations: { version: number; name: string }[];
+}
+
+export interface SchemaVerification {
+  currentVersion: number;
+  targetVersion: number;
+  pendingMigrations: { version: number; name: string }[];
+  failedMigrations: MigrationRecord[];
+  missingTables: string[];
+  missingColumns: string[]; // table.column
+  missingIndexes: string[];
+  missingTriggers: string[];
+  isValid: boolean;
+}
+
+const MIGRATIONS_TABLE = 'schema_migrations';
+
+const getColumnNames = async (db: SQLiteDatabase, table: string): Promise<string[]> => {
+  const columns = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+  return columns.map(column => column.name);
+};
+
+const addMissingColumns = async (
+  db: SQLiteDatabase,
+  table: string,
+  columns: [name: string, definition: string][]
+): Promise<void> => {
+  const existing = await getColumnNames(db, table);
+  for (const [name, definition] of columns) {
+    if (!existing.includes(name)) {
+      await db.execAsync(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition}`);
+    }
+  }
+};
+
+const createTimestampTrigger = (db: SQLiteDatabase, table: string): Promise<void> => db.execAsync(`
+  CREATE TRIGGER IF NOT EXISTS update_${table}_timestamp
+  AFTER UPDATE ON ${table}
+  FOR EACH ROW
+  BEGIN
+    UPDATE ${table} SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+  END;
+`);
+
+/**
+ * Ordered registry - versions start at 1 and increase by one. Never edit a shipped
+ * migration; add a new one instead.
+ */
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    name: 'Base schema',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          profession TEXT,
+          credit_system TEXT,
+          annual_requirement INTEGER,
+          requirement_period INTEGER DEFAULT 1,
+          cycle_start_date DATE,
+          cycle_end_date DATE,
+          profile_name TEXT,
+          age INTEGER,
+          profile_picture_path TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+
+      // Installs from before schema versioning have a users table without these columns.
+      // A legacy country column is left in place - SQLite cannot drop it without a rebuild.
+      await addMissingColumns(db, 'users', [
+        ['requirement_period', 'INTEGER NOT NULL DEFAULT 1'],
+        ['cycle_start_date', 'DATE'],
+        ['cycle_end_date', 'DATE'],
+        ['profile_name', 'TEXT'],
+        ['age', 'INTEGER'],
+        ['profile_picture_path', 'TEXT'],
+        ['updated_at', 'DATETIME'], // ALTER TABLE cannot add a CURRENT_TIMESTAMP default
+      ]);
+
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS cme_entries (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          title TEXT NOT NULL,
+          provider TEXT NOT NULL,
+          date_attended DATE NOT NULL,
+          credits_earned REAL NOT NULL,
+          category TEXT NOT NULL,
+          notes TEXT,
+          certificate_path TEXT,
+          user_id INTEGER DEFAULT 1,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+        );
+      `);
+
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS certificates (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          file_path TEXT NOT NULL,
+          file_name TEXT NOT NULL,
+          file_size INTEGER NOT NULL,
+          mime_type TEXT NOT NULL,
+          thumbnail_path TEXT,
+          cme_entry_id INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (cme_entry_id) REFERENCES cme_entries (id) ON DELETE CASCADE
+        );
+      `);
+
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS license_renewals (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          license_type TEXT NOT NULL,
+          issuing_authority TEXT NOT NULL,
+          license_number TEXT,
+          expiration_date DATE NOT NULL,
+          renewal_date DATE,
+          required_credits REAL NOT NULL DEFAULT 0,
+          completed_credits REAL NOT NULL DEFAULT 0,
+          status TEXT NOT NULL DEFAULT 'active',
+          user_id INTEGER DEFAULT 1,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+        );
+      `);
+
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS app_settings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          key TEXT UNIQUE NOT NULL,
+          value TEXT NOT NULL,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_cme_entries_date_attended ON cme_entries (date_attended);
+        CREATE INDEX IF NOT EXISTS idx_cme_entries_user_id ON cme_entries (user_id);
+        CREATE INDEX IF NOT EXISTS idx_certificates_cme_entry_id ON certificates (cme_entry_id);
+        CREATE INDEX IF NOT EXISTS idx_license_renewals_expiration_date ON license_renewals (expiration_date);
+        CREATE INDEX IF NOT EXISTS idx_license_renewals_user_id ON license_renewals (user_id);
+        CREATE INDEX IF NOT EXISTS idx_app_settings_key ON app_settings (key);
+      `);
+
+      await createTimestampTrigger(db, 'users');
+      await createTimestampTrigger(db, 'cme_entries');
+      await createTimestampTrigger(db, 'license_renewals');
+      await createTimestampTrigger(db, 'app_settings');
+
+      // Note: User will be created during onboarding flow - no default user needed
+      await db.execAsync(`
+        INSERT OR IGNORE INTO app_settings (key, value) VALUES
+        ('onboarding_completed', 'false'),
+        ('notification_enabled', 'true'),
+        ('biometric_enabled', 'false'),
+        ('theme_mode', 'light'),
+        ('backup_enabled', 'true'),
+        ('auto_scan_enabled', 'true');
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'CME event reminders',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS cme_event_reminders (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          event_name TEXT NOT NULL,
+          event_date DATE NOT NULL,
+          user_id INTEGER DEFAULT 1,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+        );
+      `);
+
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_cme_event_reminders_event_date ON cme_event_reminders (event_date);
+        CREATE INDEX IF NOT EXISTS idx_cme_event_reminders_user_id ON cme_event_reminders (user_id);
+      `);
+
+      await createTimestampTrigger(db, 'cme_event_reminders');
+    },
+  },
+  {
+    version: 3,
+    name: 'Entry to license attribution',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS cme_entry_licenses (
+          cme_entry_id INTEGER NOT NULL,
+          license_id INTEGER NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (cme_entry_id, license_id),
+          FOREIGN KEY (cme_entry_id) REFERENCES cme_entries (id) ON DELETE CASCADE,
+          FOREIGN KEY (license_id) REFERENCES license_renewals (id) ON DELETE CASCADE
+        );
+      `);
+
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_cme_entry_licenses_license_id ON cme_entry_licenses (license_id);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: 'Category requirement rules',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS requirement_rules (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          license_id INTEGER,
+          category TEXT NOT NULL,
+          minimum_credits REAL NOT NULL DEFAULT 0,
+          maximum_credits REAL,
+          user_id INTEGER DEFAULT 1,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (license_id) REFERENCES license_renewals (id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+        );
+      `);
+
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_requirement_rules_license_id ON requirement_rules (license_id);
+      `);
+
+      await createTimestampTrigger(db, 'requirement_rules');
+    },
+  },
+  {
+    version: 5,
+    name: 'Percentage caps on requirement rules',
+    up: async (db) => {
+      await addMissingColumns(db, 'requirement_rules', [['maximum_percent', 'REAL']]);
+    },
+  },
+  {
+    version: 6,
+    name: 'Cycle history and carry-over rules',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS compliance_cycles (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          start_date TEXT NOT NULL,
+          end_date TEXT NOT NULL,
+          required_credits REAL NOT NULL DEFAULT 0,
+          claimed_credits REAL NOT NULL DEFAULT 0,
+          counted_credits REAL NOT NULL DEFAULT 0,
+          carried_in_credits REAL NOT NULL DEFAULT 0,
+          carried_out_credits REAL NOT NULL DEFAULT 0,
+          status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'closed')),
+          closed_at DATETIME,
+          user_id INTEGER DEFAULT 1,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (user_id, start_date),
+          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+        );
+      `);
+
+      // How much surplus may roll into the next cycle - license_id NULL = user cycle
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS carry_over_rules (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          license_id INTEGER UNIQUE,
+          maximum_credits REAL NOT NULL,
+          window_months INTEGER,
+          user_id INTEGER DEFAULT 1,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (license_id) REFERENCES license_renewals (id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+        );
+      `);
+
+      await createTimestampTrigger(db, 'compliance_cycles');
+      await createTimestampTrigger(db, 'carry_over_rules');
+    },
+  },
+  {
+    version: 7,
+    name: 'Event details and reminder offsets',
+    up: async (db) => {
+      await addMissingColumns(db, 'cme_event_reminders', [
+        ['end_date', 'DATE'],
+        ['location', 'TEXT'],
+        ['url', 'TEXT'],
+        ['expected_credits', 'REAL'],
+        ['registration_deadline', 'DATE'],
+        ['attendance_status', "TEXT NOT NULL DEFAULT 'pending'"],
+      ]);
+
+      // Days before the event to remind - events without rows use the notification settings default
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS cme_event_reminder_offsets (
+          event_reminder_id INTEGER NOT NULL,
+          days_before INTEGER NOT NULL,
+          PRIMARY KEY (event_reminder_id, days_before),
+          FOREIGN KEY (event_reminder_id) REFERENCES cme_event_reminders (id) ON DELETE CASCADE
+        );
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'Event deadlines',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS cme_event_deadlines (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          event_reminder_id INTEGER NOT NULL,
+          deadline_type TEXT NOT NULL CHECK (deadline_type IN ('abstract', 'early_bird', 'registration', 'other')),
+          deadline_date DATE NOT NULL,
+          label TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (event_reminder_id) REFERENCES cme_event_reminders (id) ON DELETE CASCADE
+        );
+      `);
+
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_cme_event_deadlines_event_reminder_id ON cme_event_deadlines (event_reminder_id);
+      `);
+
+      // The single registration deadline from version 7 becomes a deadline row. The column stays
+      // behind unused since SQLite cannot drop it without a rebuild, so it is cleared - otherwise
+      // re-running this migration would bring back deadlines the user has since deleted
+      await db.execAsync(`
+        INSERT INTO cme_event_deadlines (event_reminder_id, deadline_type, deadline_date)
+        SELECT id, 'registration', registration_deadline
+        FROM cme_event_reminders
+        WHERE registration_deadline IS NOT NULL
+          AND NOT EXISTS (
+            SELECT 1 FROM cme_event_deadlines
+            WHERE event_reminder_id = cme_event_reminders.id AND deadline_type = 'registration'
+          );
+      `);
+
+      await db.execAsync(`
+        UPDATE cme_event_reminders SET registration_deadline = NULL WHERE registration_deadline IS NOT NULL;
+      `);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+/**
+ * The shape the database must have once every migration up to LATEST_SCHEMA_VERSION has run.
+ * Only the columns the app reads and writes are listed; extra legacy columns are allowed.
+ */
+export const EXPECTED_SCHEMA = {
+  tables: {
+    users: [
+      'id', 'profession', 'credit_system', 'annual_requirement', 'requirement_period',
+      'cycle_start_date', 'cycle_end_date', 'profile_name', 'age', 'profile_picture_path',
+      'created_at', 'updated_at',
+    ],
+    cme_entries: [
+      'id', 'title', 'provider', 'date_attended', 'credits_earned', 'category', 'notes',
+      'certificate_path', 'user_id', 'created_at', 'updated_at',
+    ],
+    certificates: [
+      'id', 'file_path', 'file_name', 'file_size', 'mime_type', 'thumbnail_path', 'cme_entry_id', 'created_at',
+    ],
+    license_renewals: [
+      'id', 'license_type', 'issuing_authority', 'license_number', 'expiration_date', 'renewal_date',
+      'required_credits', 'completed_credits', 'status', 'user_id', 'created_at', 'updated_at',
+    ],
+    app_settings: ['id', 'key', 'value', 'updated_at'],
+    cme_event_reminders: [
+      'id', 'event_name', 'event_date', 'end_date', 'location', 'url', 'expected_credits',
+      'attendance_status', 'user_id', 'created_at', 'updated_at',
+    ],
+    cme_event_reminder_offsets: ['event_reminder_id', 'days_before'],
+    cme_event_deadlines: ['id', 'event_reminder_id', 'deadline_type', 'deadline_date', 'label', 'created_at'],
+    cme_entry_licenses: ['cme_entry_id', 'license_id', 'created_at'],
+    requirement_rules: [
+      'id', 'license_id', 'category', 'minimum_credits', 'maximum_credits', 'maximum_percent',
+      'user_id', 'created_at', 'updated_at',
+    ],
+    compliance_cycles: [
+      'id', 'start_date', 'end_date', 'required_credits', 'claimed_credits', 'counted_credits',
+      'carried_in_credits', 'carried_out_credits', 'status', 'closed_at', 'user_id', 'created_at', 'updated_at',
+    ],
+    carry_over_rules: ['id', 'license_id', 'maximum_credits', 'window_months', 'user_id', 'created_at', 'updated_at'],
+    [MIGRATIONS_TABLE]: ['version', 'name', 'status', 'error', 'duration_ms', 'applied_at'],
+  } as Record<string, string[]>,
+  indexes: [
+    'idx_cme_entries_date_attended',
+    'idx_cme_entries_user_id',
+    'idx_certificates_cme_entry_id',
+    'idx_license_renewals_expiration_date',
+    'idx_license_renewals_user_id',
+    'idx_app_settings_key',
+    'idx_cme_event_reminders_event_date',
+    'idx_cme_event_reminders_user_id',
+    'idx_cme_entry_licenses_license_id',
+    'idx_requirement_rules_license_id',
+    'idx_cme_event_deadlines_event_reminder_id',
+  ],
+  triggers: [
+    'update_users_timestamp',
+    'update_cme_entries_timestamp',
+    'update_license_renewals_timestamp',
+    'update_app_settings_timestamp',
+    'update_cme_event_reminders_timestamp',
+    'update_requirement_rules_timestamp',
+    'update_compliance_cycles_timestamp',
+    'update_carry_over_rules_timestamp',
+  ],
+};
+
+const getMigrationsUpTo = (targetVersion: number): SchemaMigration[] => {
+  if (!Number.isInteger(targetVersion) || targetVersion < 0 || targetVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(`No schema migration registered for version ${targetVersion} (latest is ${LATEST_SCHEMA_VERSION})`);
+  }
+
+  SCHEMA_MIGRATIONS.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(`Schema migrations are out of order: expected version ${index + 1}, found ${migration.version}`);
+    }
+  });
+
+  return SCHEMA_MIGRATIONS.slice(0, targetVersion);
+};
+
+const hasMigrationsTable = async (db: SQLiteDatabase): Promise<boolean> => {
+  const table = await db.getFirstAsync<{ name: string }>(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name=?",
+    [MIGRATIONS_TABLE]
+  );
+  return !!table;
+};
+
+const ensureMigrationsTable = async (db: SQLiteDatabase): Promise<void> => {
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      status TEXT NOT NULL CHECK (status IN ('applied', 'baseline', 'failed')),
+      error TEXT,
+      duration_ms INTEGER,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+};
+
+const recordMigration = async (
+  db: SQLiteDatabase,
+  migration: SchemaMigration,
+  status: MigrationStatus,
+  durationMs: number | null,
+  error: string | null = null
+): Promise<void> => {
+  await db.runAsync(
+    `INSERT OR REPLACE INTO ${MIGRATIONS_TABLE} (version, name, status, error, duration_ms, applied_at)
+     VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+    [migration.version, migration.name, status, error, durationMs]
+  );
+};
+
+/**
+ * Migration history, oldest first. Empty before the first run.
+ */
+export const getMigrationHistory = async (db: SQLiteDatabase): Promise<MigrationRecord[]> => {
+  if (!(await hasMigrationsTable(db))) {
+    return [];
+  }
+
+  const rows = await db.getAllAsync<{
+    version: number;
+    name: string;
+    status: MigrationStatus;
+    error: string | null;
+    duration_ms: number | null;
+    applied_at: string;
+  }>(`SELECT version, name, status, error, duration_ms, applied_at FROM ${MIGRATIONS_TABLE} ORDER BY version`);
+
+  return rows.map(row => ({
+    version: Number(row.version),
+    name: row.name,
+    status: row.status,
+    error: row.error,
+    durationMs: row.duration_ms === null ? null : Number(row.duration_ms),
+    appliedAt: row.applied_at,
+  }));
+};
+
+/**
+ * Highest migration recorded as applied. Databases from before the registry only
+ * carry PRAGMA user_version, which is used until their history is baselined.
+ */
+export const getSchemaVersion = async (db: SQLiteDatabase): Promise<number> => {
+  const history = await getMigrationHistory(db);
+  const completed = history.filter(record => record.status !== 'failed').map(record => record.version);
+
+  if (completed.length > 0) {
+    return Math.max(...completed);
+  }
+
+  const result = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  return Number(result?.user_version) || 0;
+};
+
+const runMigration = async (db: SQLiteDatabase, migration: SchemaMigration): Promise<void> => {
+  const startedAt = Date.now();
+
+  try {
+    await db.execAsync('BEGIN TRANSACTION');
+    await migration.up(db);
+    await recordMigration(db, migration, 'applied', Date.now() - startedAt);
+    await db.runAsync(
+      'INSERT OR REPLACE INTO app_settings (key, value) VALUES (?, ?)',
+      ['schema_version', String(migration.version)]
+    );
+    await db.execAsync(`PRAGMA user_version = ${migration.version}`);
+    await db.execAsync('COMMIT');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    __DEV__ && console.error(`[ERROR] runMigrations: Migration ${migration.version} failed, rolling back:`, error);
+
+    try {
+      await db.execAsync('ROLLBACK');
+    } catch (rollbackError) {
+      __DEV__ && console.error('[ERROR] runMigrations: Rollback failed:', rollbackError);
+    }
+
+    try {
+      await recordMigration(db, migration, 'failed', Date.now() - startedAt, message);
+    } catch (recordError) {
+      __DEV__ && console.error('[ERROR] runMigrations: Could not record failed migration:', recordError);
+    }
+
+    throw new Error(`Schema migration ${migration.version} (${migration.name}) failed: ${message}`);
+  }
+};
+
+/**
+ * Applies every pending migration up to targetVersion, in order, stopping at the first failure.
+ * dryRun reports what would run without touching the database; reapplyAll re-runs migrations
+ * that are already recorded, which repairs missing tables since every migration is idempotent.
+ */
+export const runMigrations = async (
+  db: SQLiteDatabase,
+  options: { targetVersion?: number; dryRun?: boolean; reapplyAll?: boolean } = {}
+): Promise<MigrationRunResult> => {
+  const { targetVersion = LATEST_SCHEMA_VERSION, dryRun = false, reapplyAll = false } = options;
+  const migrations = getMigrationsUpTo(targetVersion);
+  const fromVersion = await getSchemaVersion(db);
+
+  if (fromVersion > LATEST_SCHEMA_VERSION) {
+    __DEV__ && console.warn(`[WARN] runMigrations: Database is at schema ${fromVersion}, newer than this build (${LATEST_SCHEMA_VERSION})`);
+    return { fromVersion, toVersion: fromVersion, dryRun, migrations: [] };
+  }
+
+  const pending = migrations.filter(migration => reapplyAll || migration.version > fromVersion);
+  const summary = pending.map(({ version, name }) => ({ version, name }));
+
+  if (dryRun) {
+    return { fromVersion, toVersion: Math.max(fromVersion, targetVersion), dryRun, migrations: summary };
+  }
+
+  await ensureMigrationsTable(db);
+
+  // Databases tracked only by user_version already have these migrations applied
+  if (fromVersion > 0 && (await getMigrationHistory(db)).length === 0) {
+    for (const migration of migrations.filter(step => step.version <= fromVersion)) {
+      await recordMigration(db, migration, 'baseline', null);
+    }
+  }
+
+  for (const migration of pending) {
+    await runMigration(db, migration);
+  }
+
+  return { fromVersion, toVersion: Math.max(fromVersion, targetVersion), dryRun, migrations: summary };
+};
+
+/**
+ * Read-only check of the live database against EXPECTED_SCHEMA and the migration history
+ */
+export const verifySchema = async (
+  db: SQLiteDatabase,
+  targetVersion: number = LATEST_SCHEMA_VERSION
+): Promise<SchemaVerification> => {
+  const { fromVersion: currentVersion, migrations: pendingMigrations } = await runMigrations(db, {
+    targetVersion,
+    dryRun: true,
+  });
+  const failedMigrations = (await getMigrationHistory(db)).filter(record => record.status === 'failed');
+
+  const objects = await db.getAllAsync<{ type: string; name: string }>(
+    "SELECT type, name FROM sqlite_master WHERE type IN ('table', 'index', 'trigger')"
+  );
+  const namesOfType = (type: string) => objects.filter(object => object.type === type).map(object => object.name);
+  const tables = namesOfType('table');
+  const indexes = namesOfType('index');
+  const triggers = namesOfType('trigger');
+
+  const missingTables: string[] = [];
+  const missingColumns: string[] = [];
+
+  for (const [table, columns] of Object.entries(EXPECTED_SCHEMA.tables)) {
+    if (!tables.includes(table)) {
+      missingTables.push(table);
+      continue;
+    }
+
+    const existing = await getColumnNames(db, table);
+    columns
+      .filter(column => !existing.includes(column))
+      .forEach(column => missingColumns.push(`${table}.${column}`));
+  }
+
+  const missingIndexes = EXPECTED_SCHEMA.indexes.filter(index => !indexes.includes(index));
+  const missingTriggers = EXPECTED_SCHEMA.triggers.filter(trigger => !triggers.includes(trigger));
+
+  return {
+    currentVersion,
+    targetVersion,
+    pendingMigrations,
+    failedMigrations,
+    missingTables,
+    missingColumns,
+    missingIndexes,
+    missingTriggers,
+    isValid: pendingMigrations.length === 0
+      && missingTables.length === 0
+      && missingColumns.length === 0
+      && missingIndexes.length === 0
+      && missingTriggers.length === 0,
+  };
+};
@@ -5,8 +5,18 @@ import {
   Certificate, 
   LicenseRenewal, 
   CMEEventReminder,
+  EventDeadline,
+  CMEEntryLicenseLink,
+  RequirementRule,
+  RequirementRuleUpdate,
   User,
-  DatabaseOperationResult 
+  DatabaseOperationResult,
+  RestoreMode,
+  RestorePayload,
+  RestoreSummary,
+  TemplateCategoryRule,
+  ComplianceCycle,
+  CarryOverRule
 } from '../../types';
 import { dbMutex } from '../../utils/AsyncMutex';
 import { getDatabase, resetDatabaseForAppReset } from './singleton';
@@ -16,6 +26,8 @@ import {
   runSafe,
   runInTransaction
 } from '../../utils/DatabaseUtils';
+import { applyLicenseCompletedCredits } from '../../utils/licenseCredits';
+import { addYearsToDate, summarizeCycle } from '../../utils/complianceCycles';
 
 // Development logging helper
 const isDevelopment = __DEV__;
@@ -25,6 +37,105 @@ const devLog = (...args: unknown[]) => {
   }
 };
 
+// Replace the set of licenses a CME entry is attributed to
+const replaceEntryLicenseLinks = async (
+  db: SQLite.SQLiteDatabase,
+  entryId: number,
+  licenseIds: number[]
+): Promise<void> => {
+  await runSafe(db, 'DELETE FROM cme_entry_licenses WHERE cme_entry_id = ?', [entryId]);
+
+  for (const licenseId of new Set(licenseIds)) {
+    await runSafe(db,
+      'INSERT OR IGNORE INTO cme_entry_licenses (cme_entry_id, license_id) VALUES (?, ?)',
+      [entryId, licenseId]);
+  }
+};
+
+// Replace the days before an event that it is reminded on
+const replaceEventReminderOffsets = async (
+  db: SQLite.SQLiteDatabase,
+  reminderId: number,
+  offsets: number[]
+): Promise<void> => {
+  await runSafe(db, 'DELETE FROM cme_event_reminder_offsets WHERE event_reminder_id = ?', [reminderId]);
+
+  for (const daysBefore of new Set(offsets)) {
+    await runSafe(db,
+      'INSERT OR IGNORE INTO cme_event_reminder_offsets (event_reminder_id, days_before) VALUES (?, ?)',
+      [reminderId, daysBefore]);
+  }
+};
+
+// Replace an event's deadlines - saved rows are rewritten, so ids change on every save
+const replaceEventDeadlines = async (
+  db: SQLite.SQLiteDatabase,
+  reminderId: number,
+  deadlines: EventDeadline[]
+): Promise<void> => {
+  await runSafe(db, 'DELETE FROM cme_event_deadlines WHERE event_reminder_id = ?', [reminderId]);
+
+  for (const deadline of deadlines) {
+    await runSafe(db,
+      'INSERT INTO cme_event_deadlines (event_reminder_id, deadline_type, deadline_date, label) VALUES (?, ?, ?, ?)',
+      [reminderId, deadline.type, deadline.date, deadline.label || null]);
+  }
+};
+
+// Read all requirement rules, cycle rules first
+const selectRequirementRules = async (db: SQLite.SQLiteDatabase): Promise<RequirementRule[]> => {
+  const rows = await getAllSafe<RequirementRule & {
+    licenseId: number | null;
+    maximumCredits: number | null;
+    maximumPercent: number | null;
+  }>(db, `
+    SELECT
+      id,
+      license_id as licenseId,
+      category,
+      minimum_credits as minimumCredits,
+      maximum_credits as maximumCredits,
+      maximum_percent as maximumPercent,
+      created_at as createdAt,
+      updated_at as updatedAt
+    FROM requirement_rules
+    WHERE user_id = 1
+    ORDER BY license_id IS NOT NULL, license_id, category COLLATE NOCASE
+  `);
+
+  return rows.map(rule => ({
+    ...rule,
+    licenseId: rule.licenseId ?? undefined,
+    maximumCredits: rule.maximumCredits ?? undefined,
+    maximumPercent: rule.maximumPercent ?? undefined,
+  }));
+};
+
+// Read all carry-over rules, the cycle rule first
+const selectCarryOverRules = async (db: SQLite.SQLiteDatabase): Promise<CarryOverRule[]> => {
+  const rows = await getAllSafe<CarryOverRule & {
+    licenseId: number | null;
+    windowMonths: number | null;
+  }>(db, `
+    SELECT
+      id,
+      license_id as licenseId,
+      maximum_credits as maximumCredits,
+      window_months as windowMonths,
+      created_at as createdAt,
+      updated_at as updatedAt
+    FROM carry_over_rules
+    WHERE user_id = 1
+    ORDER BY license_id IS NOT NULL, license_id
+  `);
+
+  return rows.map(rule => ({
+    ...rule,
+    licenseId: rule.licenseId ?? undefined,
+    windowMonths: rule.windowMonths ?? undefined,
+  }));
+};
+
 // Reset database instance (for complete app reset) - delegates to singleton
 export const resetDatabaseInstance = async (): Promise<void> => {
   await resetDatabaseForAppReset();
@@ -439,6 +550,10 @@ export const cmeOperations = {
           entry.certificatePath || null,
         ]);
 
+        if (entry.licenseIds && entry.licenseIds.length > 0) {
+          await replaceEntryLicenseLinks(db, result.lastInsertRowId, entry.licenseIds);
+        }
+
         return {
           success: true,
           data: result.lastInsertRowId,
@@ -453,6 +568,53 @@ export const cmeOperations = {
     }
   },
 
+  // Add many CME entries at once, e.g. from a spreadsheet import. All or none are written.
+  importEntries: async (entries: Array<Omit<CMEEntry, 'id' | 'createdAt' | 'updatedAt'>>): Promise<DatabaseOperationResult<number>> => {
+    return dbMutex.runDatabaseWrite('importEntries', async () => {
+      try {
+        const db = await getDatabase();
+
+        const userCheck = await getFirstSafe<{ id: number }>(db, 'SELECT id FROM users WHERE id = 1');
+        if (!userCheck) {
+          return {
+            success: false,
+            error: 'User profile not found. Please complete onboarding first.',
+          };
+        }
+
+        await runInTransaction(db, async () => {
+          for (const entry of entries) {
+            await runSafe(db, `
+              INSERT INTO cme_entries (
+                title, provider, date_attended, credits_earned,
+                category, notes, certificate_path, user_id
+              ) VALUES (?, ?, ?, ?, ?, ?, ?, 1)
+            `, [
+              entry.title,
+              entry.provider,
+              entry.dateAttended,
+              entry.creditsEarned,
+              entry.category,
+              entry.notes || null,
+              entry.certificatePath || null,
+            ]);
+          }
+        });
+
+        return {
+          success: true,
+          data: entries.length,
+        };
+      } catch (error) {
+        __DEV__ && console.error('[ERROR] cmeOperations.importEntries: Import rolled back:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to import CME entries',
+        };
+      }
+    });
+  },
+
   // Update CME entry
   updateEntry: async (id: number, entry: Partial<CMEEntry>): Promise<DatabaseOperationResult> => {
     return dbMutex.runDatabaseWrite('updateEntry', async () => {
@@ -508,6 +670,10 @@ export const cmeOperations = {
           values.push(entry.certificatePath);
         }
 
+        if (entry.licenseIds !== undefined) {
+          await replaceEntryLicenseLinks(db, id, entry.licenseIds);
+        }
+
         if (fields.length === 0) {
 
           return { success: true };
@@ -564,6 +730,51 @@ export const cmeOperations = {
     });
   },
 
+  // Get the licenses an entry has been attributed to (empty means it counts toward all)
+  getEntryLicenseIds: async (entryId: number): Promise<DatabaseOperationResult<number[]>> => {
+    try {
+      const db = await getDatabase();
+
+      const rows = await db.getAllAsync<{ licenseId: number }>(`
+        SELECT license_id as licenseId
+        FROM cme_entry_licenses
+        WHERE cme_entry_id = ?
+      `, [entryId]);
+
+      return {
+        success: true,
+        data: rows.map(row => row.licenseId),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get entry licenses',
+      };
+    }
+  },
+
+  // Get every entry <-> license link
+  getAllEntryLicenseLinks: async (): Promise<DatabaseOperationResult<CMEEntryLicenseLink[]>> => {
+    try {
+      const db = await getDatabase();
+
+      const links = await db.getAllAsync<CMEEntryLicenseLink>(`
+        SELECT cme_entry_id as cmeEntryId, license_id as licenseId
+        FROM cme_entry_licenses
+      `);
+
+      return {
+        success: true,
+        data: links,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get entry license links',
+      };
+    }
+  },
+
   // Get total credits for current year
   getTotalCredits: async (year?: number): Promise<DatabaseOperationResult<number>> => {
     try {
@@ -765,10 +976,26 @@ export const licenseOperations = {
         WHERE user_id = 1
         ORDER BY expiration_date ASC
       `);
-      
+
+      // completed_credits is not kept up to date - derive it from the entries instead
+      const entries = await db.getAllAsync<Pick<CMEEntry, 'id' | 'dateAttended' | 'creditsEarned' | 'category'>>(`
+        SELECT id, date_attended as dateAttended, credits_earned as creditsEarned, category
+        FROM cme_entries
+        WHERE user_id = 1
+      `);
+      const links = await db.getAllAsync<CMEEntryLicenseLink>(`
+        SELECT cme_entry_id as cmeEntryId, license_id as licenseId
+        FROM cme_entry_licenses
+      `);
+      const user = await db.getFirstAsync<{ requirementPeriod: number | null }>(
+        'SELECT requirement_period as requirementPeriod FROM users WHERE id = 1'
+      );
+      const rules = await selectRequirementRules(db);
+      const carryOverRules = await selectCarryOverRules(db);
+
       return {
         success: true,
-        data: licenses,
+        data: applyLicenseCompletedCredits(licenses, entries, links, user?.requirementPeriod || 1, rules, carryOverRules),
       };
     } catch (error) {
       return {
@@ -966,12 +1193,24 @@ export const settingsOperations = {
 
         // Delete all data from all tables using transaction
         await runInTransaction(db, async () => {
+          await runSafe(db, 'DELETE FROM cme_entry_licenses');
+
+          await runSafe(db, 'DELETE FROM requirement_rules');
+
+          await runSafe(db, 'DELETE FROM carry_over_rules');
+
+          await runSafe(db, 'DELETE FROM compliance_cycles');
+
           await runSafe(db, 'DELETE FROM cme_entries');
 
           await runSafe(db, 'DELETE FROM certificates');
 
           await runSafe(db, 'DELETE FROM license_renewals');
 
+          await runSafe(db, 'DELETE FROM cme_event_reminder_offsets');
+
+          await runSafe(db, 'DELETE FROM cme_event_deadlines');
+
           await runSafe(db, 'DELETE FROM cme_event_reminders');
 
           await runSafe(db, 'DELETE FROM users');
@@ -980,7 +1219,8 @@ export const settingsOperations = {
 
         });
         
-        // Reset database version to 0 to force recreation of tables and data
+        // Reset database version to 0 so every migration runs again and restores default settings
+        await runSafe(db, 'DELETE FROM schema_migrations');
 
         await db.execAsync('PRAGMA user_version = 0');
         
@@ -1089,11 +1329,21 @@ export const eventReminderOperations = {
         try {
           const db = await getDatabase();
           
-          const reminders = await getAllSafe<any>(db, `
+          const reminders = await getAllSafe<Omit<CMEEventReminder, 'reminderOffsets' | 'deadlines'> & {
+            endDate: string | null;
+            location: string | null;
+            url: string | null;
+            expectedCredits: number | null;
+          }>(db, `
             SELECT 
               id,
               event_name as eventName,
               event_date as eventDate,
+              end_date as endDate,
+              location,
+              url,
+              expected_credits as expectedCredits,
+              attendance_status as attendanceStatus,
               created_at as createdAt,
               updated_at as updatedAt
             FROM cme_event_reminders
@@ -1101,9 +1351,38 @@ export const eventReminderOperations = {
             ORDER BY event_date ASC
           `);
 
+          const offsets = await getAllSafe<{ reminderId: number; daysBefore: number }>(db, `
+            SELECT event_reminder_id as reminderId, days_before as daysBefore
+            FROM cme_event_reminder_offsets
+            ORDER BY days_before DESC
+          `);
+
+          const deadlines = await getAllSafe<EventDeadline & { reminderId: number; label: string | null }>(db, `
+            SELECT
+              id,
+              event_reminder_id as reminderId,
+              deadline_type as type,
+              deadline_date as date,
+              label
+            FROM cme_event_deadlines
+            ORDER BY deadline_date ASC, id ASC
+          `);
+
           return {
             success: true,
-            data: reminders as CMEEventReminder[],
+            data: reminders.map(reminder => ({
+              ...reminder,
+              endDate: reminder.endDate ?? undefined,
+              location: reminder.location ?? undefined,
+              url: reminder.url ?? undefined,
+              expectedCredits: reminder.expectedCredits ?? undefined,
+              deadlines: deadlines
+                .filter(deadline => deadline.reminderId === reminder.id)
+                .map(({ reminderId, label, ...deadline }) => ({ ...deadline, label: label ?? undefined })),
+              reminderOffsets: offsets
+                .filter(offset => offset.reminderId === reminder.id)
+                .map(offset => offset.daysBefore),
+            })),
           };
           
         } catch (error) {
@@ -1132,12 +1411,27 @@ export const eventReminderOperations = {
 
         const db = await getDatabase();
 
-        const result = await runSafe(db, `
-          INSERT INTO cme_event_reminders (event_name, event_date, user_id)
-          VALUES (?, ?, 1)
-        `, [reminder.eventName, reminder.eventDate]);
-        
-        const newId = result.lastInsertRowId as number;
+        let newId = 0;
+        await runInTransaction(db, async () => {
+          const result = await runSafe(db, `
+            INSERT INTO cme_event_reminders (
+              event_name, event_date, end_date, location, url, expected_credits,
+              attendance_status, user_id
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, 1)
+          `, [
+            reminder.eventName,
+            reminder.eventDate,
+            reminder.endDate || null,
+            reminder.location || null,
+            reminder.url || null,
+            reminder.expectedCredits ?? null,
+            reminder.attendanceStatus,
+          ]);
+
+          newId = result.lastInsertRowId as number;
+          await replaceEventReminderOffsets(db, newId, reminder.reminderOffsets);
+          await replaceEventDeadlines(db, newId, reminder.deadlines);
+        });
 
         return {
           success: true,
@@ -1161,8 +1455,8 @@ export const eventReminderOperations = {
 
         const db = await getDatabase();
         
-        const setParts = [];
-        const values = [];
+        const setParts: string[] = [];
+        const values: (string | number | null)[] = [];
         
         if (updates.eventName !== undefined) {
           setParts.push('event_name = ?');
@@ -1172,19 +1466,52 @@ export const eventReminderOperations = {
           setParts.push('event_date = ?');
           values.push(updates.eventDate);
         }
+        // Optional fields are cleared by an empty value
+        if ('endDate' in updates) {
+          setParts.push('end_date = ?');
+          values.push(updates.endDate || null);
+        }
+        if ('location' in updates) {
+          setParts.push('location = ?');
+          values.push(updates.location || null);
+        }
+        if ('url' in updates) {
+          setParts.push('url = ?');
+          values.push(updates.url || null);
+        }
+        if ('expectedCredits' in updates) {
+          setParts.push('expected_credits = ?');
+          values.push(updates.expectedCredits ?? null);
+        }
+        if (updates.attendanceStatus !== undefined) {
+          setParts.push('attendance_status = ?');
+          values.push(updates.attendanceStatus);
+        }
         
-        if (setParts.length === 0) {
+        if (setParts.length === 0 && updates.reminderOffsets === undefined && updates.deadlines === undefined) {
 
           return { success: true };
         }
         
         values.push(id);
         
-        await runSafe(db, `
-          UPDATE cme_event_reminders 
-          SET ${setParts.join(', ')}, updated_at = CURRENT_TIMESTAMP
-          WHERE id = ? AND user_id = 1
-        `, values);
+        await runInTransaction(db, async () => {
+          if (setParts.length > 0) {
+            await runSafe(db, `
+              UPDATE cme_event_reminders 
+              SET ${setParts.join(', ')}, updated_at = CURRENT_TIMESTAMP
+              WHERE id = ? AND user_id = 1
+            `, values);
+          }
+
+          if (updates.reminderOffsets !== undefined) {
+            await replaceEventReminderOffsets(db, id, updates.reminderOffsets);
+          }
+
+          if (updates.deadlines !== undefined) {
+            await replaceEventDeadlines(db, id, updates.deadlines);
+          }
+        });
 
         return { success: true };
         
@@ -1233,6 +1560,744 @@ export const eventReminderOperations = {
   },
 };
 
+// Category requirement rule operations
+export const requirementRuleOperations = {
+  // Get all rules, cycle rules first
+  getAllRules: async (): Promise<DatabaseOperationResult<RequirementRule[]>> => {
+    return dbMutex.runDatabaseRead('getAllRequirementRules', async () => {
+      try {
+        const db = await getDatabase();
+
+        return {
+          success: true,
+          data: await selectRequirementRules(db),
+        };
+      } catch (error) {
+        __DEV__ && console.error('[ERROR] requirementRuleOperations.getAllRules: Error occurred:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to fetch requirement rules',
+        };
+      }
+    });
+  },
+
+  // Add a new rule
+  addRule: async (rule: Omit<RequirementRule, 'id' | 'createdAt' | 'updatedAt'>): Promise<DatabaseOperationResult<number>> => {
+    return dbMutex.runDatabaseWrite('addRequirementRule', async () => {
+      try {
+        const db = await getDatabase();
+
+        const result = await runSafe(db, `
+          INSERT INTO requirement_rules (license_id, category, minimum_credits, maximum_credits, maximum_percent, user_id)
+          VALUES (?, ?, ?, ?, ?, 1)
+        `, [
+          rule.licenseId ?? null,
+          rule.category,
+          rule.minimumCredits,
+          rule.maximumCredits ?? null,
+          rule.maximumPercent ?? null,
+        ]);
+
+        return {
+          success: true,
+          data: result.lastInsertRowId as number,
+        };
+      } catch (error) {
+        __DEV__ && console.error('[ERROR] requirementRuleOperations.addRule: Error occurred:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to add requirement rule',
+        };
+      }
+    });
+  },
+
+  // Update a rule - pass null for a cap to remove it
+  updateRule: async (
+    id: number,
+    updates: RequirementRuleUpdate
+  ): Promise<DatabaseOperationResult> => {
+    return dbMutex.runDatabaseWrite('updateRequirementRule', async () => {
+      try {
+        const db = await getDatabase();
+
+        const setParts = [];
+        const values = [];
+
+        if (updates.category !== undefined) {
+          setParts.push('category = ?');
+          values.push(updates.category);
+        }
+        if (updates.minimumCredits !== undefined) {
+          setParts.push('minimum_credits = ?');
+          values.push(updates.minimumCredits);
+        }
+        if (updates.maximumCredits !== undefined) {
+          setParts.push('maximum_credits = ?');
+          values.push(updates.maximumCredits);
+        }
+        if (updates.maximumPercent !== undefined) {
+          setParts.push('maximum_percent = ?');
+          values.push(updates.maximumPercent);
+        }
+
+        if (setParts.length === 0) {
+          return { success: true };
+        }
+
+        values.push(id);
+
+        await runSafe(db, `
+          UPDATE requirement_rules
+          SET ${setParts.join(', ')}
+          WHERE id = ? AND user_id = 1
+        `, values);
+
+        return { success: true };
+      } catch (error) {
+        __DEV__ && console.error('[ERROR] requirementRuleOperations.updateRule: Error occurred:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to update requirement rule',
+        };
+      }
+    });
+  },
+
+  // Replace every rule in one scope - used when applying a requirement template
+  replaceScopeRules: async (
+    licenseId: number | undefined,
+    rules: TemplateCategoryRule[]
+  ): Promise<DatabaseOperationResult> => {
+    return dbMutex.runDatabaseWrite('replaceScopeRequirementRules', async () => {
+      try {
+        const db = await getDatabase();
+
+        await runInTransaction(db, async () => {
+          if (licenseId === undefined) {
+            await runSafe(db, 'DELETE FROM requirement_rules WHERE license_id IS NULL AND user_id = 1');
+          } else {
+            await runSafe(db, 'DELETE FROM requirement_rules WHERE license_id = ? AND user_id = 1', [licenseId]);
+          }
+
+          for (const rule of rules) {
+            await runSafe(db, `
+              INSERT INTO requirement_rules (license_id, category, minimum_credits, maximum_credits, maximum_percent, user_id)
+              VALUES (?, ?, ?, ?, ?, 1)
+            `, [
+              licenseId ?? null,
+              rule.category,
+              rule.minimumCredits,
+              rule.maximumCredits ?? null,
+              rule.maximumPercent ?? null,
+            ]);
+          }
+        });
+
+        return { success: true };
+      } catch (error) {
+        __DEV__ && console.error('[ERROR] requirementRuleOperations.replaceScopeRules: Error occurred:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to replace requirement rules',
+        };
+      }
+    });
+  },
+
+  // Delete a rule
+  deleteRule: async (id: number): Promise<DatabaseOperationResult> => {
+    return dbMutex.runDatabaseWrite('deleteRequirementRule', async () => {
+      try {
+        const db = await getDatabase();
+
+        await runSafe(db, 'DELETE FROM requirement_rules WHERE id = ? AND user_id = 1', [id]);
+
+        return { success: true };
+      } catch (error) {
+        __DEV__ && console.error('[ERROR] requirementRuleOperations.deleteRule: Error occurred:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to delete requirement rule',
+        };
+      }
+    });
+  },
+};
+
+// Carry-over rule operations - at most one rule per scope
+export const carryOverRuleOperations = {
+  // Get all rules, the cycle rule first
+  getAllRules: async (): Promise<DatabaseOperationResult<CarryOverRule[]>> => {
+    return dbMutex.runDatabaseRead('getAllCarryOverRules', async () => {
+      try {
+        const db = await getDatabase();
+
+        return {
+          success: true,
+          data: await selectCarryOverRules(db),
+        };
+      } catch (error) {
+        __DEV__ && console.error('[ERROR] carryOverRuleOperations.getAllRules: Error occurred:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to fetch carry-over rules',
+        };
+      }
+    });
+  },
+
+  // Set the rule for a scope - pass null to remove it
+  setRule: async (
+    licenseId: number | undefined,
+    rule: Pick<CarryOverRule, 'maximumCredits' | 'windowMonths'> | null
+  ): Promise<DatabaseOperationResult> => {
+    return dbMutex.runDatabaseWrite('setCarryOverRule', async () => {
+      try {
+        const db = await getDatabase();
+
+        await runInTransaction(db, async () => {
+          if (licenseId === undefined) {
+            await runSafe(db, 'DELETE FROM carry_over_rules WHERE license_id IS NULL AND user_id = 1');
+          } else {
+            await runSafe(db, 'DELETE FROM carry_over_rules WHERE license_id = ? AND user_id = 1', [licenseId]);
+          }
+
+          if (rule) {
+            await runSafe(db, `
+              INSERT INTO carry_over_rules (license_id, maximum_credits, window_months, user_id)
+              VALUES (?, ?, ?, 1)
+            `, [licenseId ?? null, rule.maximumCredits, rule.windowMonths ?? null]);
+          }
+        });
+
+        return { success: true };
+      } catch (error) {
+        __DEV__ && console.error('[ERROR] carryOverRuleOperations.setRule: Error occurred:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to save carry-over rule',
+        };
+      }
+    });
+  },
+};
+
+// Requirement cycle history operations
+export const complianceCycleOperations = {
+  // Get every recorded cycle, newest first
+  getAllCycles: async (): Promise<DatabaseOperationResult<ComplianceCycle[]>> => {
+    return dbMutex.runDatabaseRead('getAllComplianceCycles', async () => {
+      try {
+        const db = await getDatabase();
+
+        const rows = await getAllSafe<ComplianceCycle & { closedAt: string | null }>(db, `
+          SELECT
+            id,
+            start_date as startDate,
+            end_date as endDate,
+            required_credits as requiredCredits,
+            claimed_credits as claimedCredits,
+            counted_credits as countedCredits,
+            carried_in_credits as carriedInCredits,
+            carried_out_credits as carriedOutCredits,
+            status,
+            closed_at as closedAt,
+            created_at as createdAt,
+            updated_at as updatedAt
+          FROM compliance_cycles
+          WHERE user_id = 1
+          ORDER BY start_date DESC
+        `);
+
+        return {
+          success: true,
+          data: rows.map(cycle => ({ ...cycle, closedAt: cycle.closedAt ?? undefined })),
+        };
+      } catch (error) {
+        __DEV__ && console.error('[ERROR] complianceCycleOperations.getAllCycles: Error occurred:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to fetch compliance cycles',
+        };
+      }
+    });
+  },
+
+  // Close every cycle whose end date has passed and start the next one.
+  // Returns how many cycles were closed - more than one if the app was not opened for a while.
+  rolloverExpiredCycles: async (
+    today: string = new Date().toISOString().split('T')[0]
+  ): Promise<DatabaseOperationResult<number>> => {
+    return dbMutex.runDatabaseWrite('rolloverExpiredCycles', async () => {
+      try {
+        const db = await getDatabase();
+
+        const user = await getFirstSafe<{
+          annualRequirement: number;
+          requirementPeriod: number | null;
+          cycleStartDate: string | null;
+          cycleEndDate: string | null;
+        }>(db, `
+          SELECT
+            annual_requirement as annualRequirement,
+            requirement_period as requirementPeriod,
+            cycle_start_date as cycleStartDate,
+            cycle_end_date as cycleEndDate
+          FROM users WHERE id = 1
+        `);
+
+        // Without a start date progress uses calendar years, which need no archiving
+        if (!user?.cycleStartDate) {
+          return { success: true, data: 0 };
+        }
+
+        const periodYears = user.requirementPeriod || 1;
+        let startDate = user.cycleStartDate;
+        let endDate = user.cycleEndDate || addYearsToDate(startDate, periodYears);
+
+        if (endDate > today) {
+          return { success: true, data: 0 };
+        }
+
+        const cycleRules = (await selectRequirementRules(db)).filter(rule => rule.licenseId === undefined);
+        const carryOverRule = (await selectCarryOverRules(db)).find(rule => rule.licenseId === undefined);
+
+        let closedCount = 0;
+
+        await runInTransaction(db, async () => {
+          while (endDate <= today) {
+            const activeCycle = await getFirstSafe<{ carriedInCredits: number }>(db, `
+              SELECT carried_in_credits as carriedInCredits
+              FROM compliance_cycles
+              WHERE user_id = 1 AND start_date = ?
+            `, [startDate]);
+            const carriedInCredits = activeCycle?.carriedInCredits || 0;
+
+            const entries = await getAllSafe<Pick<CMEEntry, 'id' | 'dateAttended' | 'creditsEarned' | 'category'>>(db, `
+              SELECT id, date_attended as dateAttended, credits_earned as creditsEarned, category
+              FROM cme_entries
+              WHERE user_id = 1 AND date_attended >= ? AND date_attended < ?
+            `, [startDate, endDate]);
+
+            const totals = summarizeCycle(
+              entries,
+              cycleRules,
+              user.annualRequirement,
+              carriedInCredits,
+              endDate,
+              carryOverRule
+            );
+
+            await runSafe(db, `
+              INSERT INTO compliance_cycles (
+                start_date, end_date, required_credits, claimed_credits, counted_credits,
+                carried_in_credits, carried_out_credits, status, closed_at, user_id
+              ) VALUES (?, ?, ?, ?, ?, ?, ?, 'closed', CURRENT_TIMESTAMP, 1)
+              ON CONFLICT (user_id, start_date) DO UPDATE SET
+                end_date = excluded.end_date,
+                required_credits = excluded.required_credits,
+                claimed_credits = excluded.claimed_credits,
+                counted_credits = excluded.counted_credits,
+                carried_out_credits = excluded.carried_out_credits,
+                status = 'closed',
+                closed_at = CURRENT_TIMESTAMP
+            `, [
+              startDate,
+              endDate,
+              user.annualRequirement,
+              totals.claimedCredits,
+              totals.countedCredits,
+              carriedInCredits,
+              totals.carriedOutCredits,
+            ]);
+
+            startDate = endDate;
+            endDate = addYearsToDate(startDate, periodYears);
+
+            await runSafe(db, `
+              INSERT INTO compliance_cycles (start_date, end_date, required_credits, carried_in_credits, status, user_id)
+              VALUES (?, ?, ?, ?, 'active', 1)
+              ON CONFLICT (user_id, start_date) DO UPDATE SET
+                end_date = excluded.end_date,
+                carried_in_credits = excluded.carried_in_credits
+            `, [startDate, endDate, user.annualRequirement, totals.carriedOutCredits]);
+
+            closedCount++;
+          }
+
+          await runSafe(db, `
+            UPDATE users SET cycle_start_date = ?, cycle_end_date = ? WHERE id = 1
+          `, [startDate, endDate]);
+        });
+
+        return { success: true, data: closedCount };
+      } catch (error) {
+        __DEV__ && console.error('[ERROR] complianceCycleOperations.rolloverExpiredCycles: Rollover rolled back:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to roll over cycles',
+        };
+      }
+    });
+  },
+};
+
+// Backup restore operations
+export const restoreOperations = {
+  // Write a backup payload back into the database in a single transaction.
+  // Entries are re-keyed on insert and certificates re-linked to the new ids.
+  restoreBackup: async (payload: RestorePayload, mode: RestoreMode): Promise<DatabaseOperationResult<RestoreSummary>> => {
+    return dbMutex.runDatabaseWrite('restoreBackup', async () => {
+      try {
+        const db = await getDatabase();
+
+        const summary = await runInTransaction(db, async () => {
+          const result: RestoreSummary = {
+            entriesRestored: 0,
+            entriesSkipped: 0,
+            licensesRestored: 0,
+            licensesSkipped: 0,
+            certificatesRestored: 0,
+            certificatesSkipped: 0,
+            userRestored: false,
+            entryIdMap: {},
+            discardedFilePaths: [],
+          };
+
+          if (mode === 'replace') {
+            // Remember the files owned by the rows we are about to drop so the caller
+            // can remove them once the transaction has committed
+            const existingCertificates = await getAllSafe<{ filePath: string; thumbnailPath: string | null }>(db,
+              'SELECT file_path as filePath, thumbnail_path as thumbnailPath FROM certificates');
+            existingCertificates.forEach(cert => {
+              result.discardedFilePaths.push(cert.filePath);
+              if (cert.thumbnailPath) {
+                result.discardedFilePaths.push(cert.thumbnailPath);
+              }
+            });
+
+            await runSafe(db, 'DELETE FROM certificates');
+            await runSafe(db, 'DELETE FROM cme_entries WHERE user_id = 1');
+            await runSafe(db, 'DELETE FROM license_renewals WHERE user_id = 1');
+            await runSafe(db, 'DELETE FROM requirement_rules WHERE user_id = 1');
+            await runSafe(db, 'DELETE FROM carry_over_rules WHERE user_id = 1');
+            await runSafe(db, 'DELETE FROM compliance_cycles WHERE user_id = 1');
+          }
+
+          // User profile - replace overwrites it, merge only fills in a missing profile
+          const existingUser = await getFirstSafe<{ id: number }>(db, 'SELECT id FROM users WHERE id = 1');
+          const user = payload.user;
+
+          if (user && (mode === 'replace' || !existingUser)) {
+            const userValues = [
+              user.profession ?? null,
+              user.creditSystem ?? null,
+              user.annualRequirement ?? null,
+              user.requirementPeriod ?? 1,
+              user.cycleStartDate ?? null,
+              user.cycleEndDate ?? null,
+              user.profileName ?? null,
+              user.age ?? null,
+            ];
+
+            if (existingUser) {
+              await runSafe(db, `
+                UPDATE users SET
+                  profession = ?, credit_system = ?, annual_requirement = ?, requirement_period = ?,
+                  cycle_start_date = ?, cycle_end_date = ?, profile_name = ?, age = ?
+                WHERE id = 1
+              `, userValues);
+            } else {
+              await runSafe(db, `
+                INSERT INTO users (
+                  id, profession, credit_system, annual_requirement, requirement_period,
+                  cycle_start_date, cycle_end_date, profile_name, age
+                ) VALUES (1, ?, ?, ?, ?, ?, ?, ?, ?)
+              `, userValues);
+            }
+            result.userRestored = true;
+          }
+
+          const userCheck = await getFirstSafe<{ id: number }>(db, 'SELECT id FROM users WHERE id = 1');
+          if (!userCheck) {
+            throw new Error('Backup does not contain a user profile and none exists on this device');
+          }
+
+          // Records matched on this device by a selective restore
+          Object.assign(result.entryIdMap, payload.existingEntryIds);
+          const licenseIdMap: Record<number, number> = { ...payload.existingLicenseIds };
+
+          // CME entries
+          for (const entry of payload.cmeEntries) {
+            const existingEntryId = payload.existingEntryIds?.[entry.id];
+            if (existingEntryId !== undefined) {
+              // Bring the entry back to its backed-up version, keeping its certificate unless one was restored
+              await runSafe(db, `
+                UPDATE cme_entries SET
+                  title = ?, provider = ?, date_attended = ?, credits_earned = ?, category = ?, notes = ?,
+                  certificate_path = COALESCE(?, certificate_path), updated_at = CURRENT_TIMESTAMP
+                WHERE id = ? AND user_id = 1
+              `, [
+                entry.title,
+                entry.provider,
+                entry.dateAttended,
+                entry.creditsEarned,
+                entry.category,
+                entry.notes || null,
+                entry.certificatePath || null,
+                existingEntryId,
+              ]);
+              result.entriesRestored++;
+              continue;
+            }
+
+            if (mode === 'merge') {
+              const duplicate = await getFirstSafe<{ id: number }>(db, `
+                SELECT id FROM cme_entries
+                WHERE user_id = 1 AND title = ? AND provider = ? AND date_attended = ? AND credits_earned = ?
+                LIMIT 1
+              `, [entry.title, entry.provider, entry.dateAttended, entry.creditsEarned]);
+
+              if (duplicate) {
+                result.entryIdMap[entry.id] = duplicate.id;
+                result.entriesSkipped++;
+                continue;
+              }
+            }
+
+            const inserted = await runSafe(db, `
+              INSERT INTO cme_entries (
+                title, provider, date_attended, credits_earned,
+                category, notes, certificate_path, user_id, created_at
+              ) VALUES (?, ?, ?, ?, ?, ?, ?, 1, COALESCE(?, CURRENT_TIMESTAMP))
+            `, [
+              entry.title,
+              entry.provider,
+              entry.dateAttended,
+              entry.creditsEarned,
+              entry.category,
+              entry.notes || null,
+              entry.certificatePath || null,
+              entry.createdAt || null,
+            ]);
+
+            result.entryIdMap[entry.id] = inserted.lastInsertRowId;
+            result.entriesRestored++;
+          }
+
+          // Licenses
+          for (const license of payload.licenses) {
+            const existingLicenseId = payload.existingLicenseIds?.[license.id];
+            if (existingLicenseId !== undefined) {
+              // completed_credits is recomputed from entries, so it is left as it is
+              await runSafe(db, `
+                UPDATE license_renewals SET
+                  license_type = ?, issuing_authority = ?, license_number = ?, expiration_date = ?,
+                  renewal_date = ?, required_credits = ?, status = ?, updated_at = CURRENT_TIMESTAMP
+                WHERE id = ? AND user_id = 1
+              `, [
+                license.licenseType,
+                license.issuingAuthority,
+                license.licenseNumber || null,
+                license.expirationDate,
+                license.renewalDate || null,
+                license.requiredCredits ?? 0,
+                license.status || 'active',
+                existingLicenseId,
+              ]);
+              result.licensesRestored++;
+              continue;
+            }
+
+            if (mode === 'merge') {
+              const duplicate = await getFirstSafe<{ id: number }>(db, `
+                SELECT id FROM license_renewals
+                WHERE user_id = 1 AND license_type = ? AND issuing_authority = ?
+                AND COALESCE(license_number, '') = ?
+                LIMIT 1
+              `, [license.licenseType, license.issuingAuthority, license.licenseNumber || '']);
+
+              if (duplicate) {
+                licenseIdMap[license.id] = duplicate.id;
+                result.licensesSkipped++;
+                continue;
+              }
+            }
+
+            const insertedLicense = await runSafe(db, `
+              INSERT INTO license_renewals (
+                license_type, issuing_authority, license_number,
+                expiration_date, renewal_date, required_credits,
+                completed_credits, status, user_id
+              ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 1)
+            `, [
+              license.licenseType,
+              license.issuingAuthority,
+              license.licenseNumber || null,
+              license.expirationDate,
+              license.renewalDate || null,
+              license.requiredCredits ?? 0,
+              license.completedCredits ?? 0,
+              license.status || 'active',
+            ]);
+            licenseIdMap[license.id] = insertedLicense.lastInsertRowId;
+            result.licensesRestored++;
+          }
+
+          // Entry <-> license attribution, translated to the re-keyed ids
+          for (const link of payload.entryLicenseLinks) {
+            const cmeEntryId = result.entryIdMap[link.cmeEntryId];
+            const licenseId = licenseIdMap[link.licenseId];
+            if (cmeEntryId === undefined || licenseId === undefined) {
+              continue;
+            }
+            await runSafe(db,
+              'INSERT OR IGNORE INTO cme_entry_licenses (cme_entry_id, license_id) VALUES (?, ?)',
+              [cmeEntryId, licenseId]);
+          }
+
+          // Requirement and carry-over rules - license rules follow their license's new id,
+          // and a merge keeps the rules already set for a scope
+          for (const rule of payload.requirementRules) {
+            const licenseId = rule.licenseId === undefined ? null : licenseIdMap[rule.licenseId];
+            if (licenseId === undefined) {
+              continue;
+            }
+
+            if (mode === 'merge') {
+              const duplicate = await getFirstSafe<{ id: number }>(db, `
+                SELECT id FROM requirement_rules
+                WHERE user_id = 1 AND COALESCE(license_id, 0) = ? AND category = ?
+                LIMIT 1
+              `, [licenseId ?? 0, rule.category]);
+
+              if (duplicate) {
+                continue;
+              }
+            }
+
+            await runSafe(db, `
+              INSERT INTO requirement_rules (license_id, category, minimum_credits, maximum_credits, maximum_percent, user_id)
+              VALUES (?, ?, ?, ?, ?, 1)
+            `, [
+              licenseId,
+              rule.category,
+              rule.minimumCredits,
+              rule.maximumCredits ?? null,
+              rule.maximumPercent ?? null,
+            ]);
+          }
+
+          for (const rule of payload.carryOverRules) {
+            const licenseId = rule.licenseId === undefined ? null : licenseIdMap[rule.licenseId];
+            if (licenseId === undefined) {
+              continue;
+            }
+
+            const existingRule = await getFirstSafe<{ id: number }>(db, `
+              SELECT id FROM carry_over_rules WHERE user_id = 1 AND COALESCE(license_id, 0) = ? LIMIT 1
+            `, [licenseId ?? 0]);
+
+            if (!existingRule) {
+              await runSafe(db, `
+                INSERT INTO carry_over_rules (license_id, maximum_credits, window_months, user_id)
+                VALUES (?, ?, ?, 1)
+              `, [licenseId, rule.maximumCredits, rule.windowMonths ?? null]);
+            }
+          }
+
+          // Cycle history - a merge keeps the cycles this device already recorded
+          for (const cycle of payload.complianceCycles) {
+            await runSafe(db, `
+              INSERT OR IGNORE INTO compliance_cycles (
+                start_date, end_date, required_credits, claimed_credits, counted_credits,
+                carried_in_credits, carried_out_credits, status, closed_at, user_id, created_at
+              ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 1, COALESCE(?, CURRENT_TIMESTAMP))
+            `, [
+              cycle.startDate,
+              cycle.endDate,
+              cycle.requiredCredits ?? 0,
+              cycle.claimedCredits ?? 0,
+              cycle.countedCredits ?? 0,
+              cycle.carriedInCredits ?? 0,
+              cycle.carriedOutCredits ?? 0,
+              cycle.status === 'closed' ? 'closed' : 'active',
+              cycle.closedAt || null,
+              cycle.createdAt || null,
+            ]);
+          }
+
+          // Certificates - re-link to the re-keyed entries
+          for (const certificate of payload.certificates) {
+            const cmeEntryId = certificate.sourceEntryId !== undefined
+              ? result.entryIdMap[certificate.sourceEntryId] ?? null
+              : null;
+
+            if (mode === 'merge') {
+              const duplicate = await getFirstSafe<{ id: number; filePath: string }>(db, `
+                SELECT id, file_path as filePath FROM certificates
+                WHERE file_name = ? AND file_size = ? AND COALESCE(cme_entry_id, 0) = ?
+                LIMIT 1
+              `, [certificate.fileName, certificate.fileSize, cmeEntryId ?? 0]);
+
+              if (duplicate) {
+                // Entries restored alongside this certificate keep pointing at the copy we already have
+                await runSafe(db, 'UPDATE cme_entries SET certificate_path = ? WHERE certificate_path = ? AND user_id = 1',
+                  [duplicate.filePath, certificate.filePath]);
+                result.discardedFilePaths.push(certificate.filePath);
+                if (certificate.thumbnailPath) {
+                  result.discardedFilePaths.push(certificate.thumbnailPath);
+                }
+                result.certificatesSkipped++;
+                continue;
+              }
+            }
+
+            await runSafe(db, `
+              INSERT INTO certificates (
+                file_path, file_name, file_size, mime_type,
+                thumbnail_path, cme_entry_id
+              ) VALUES (?, ?, ?, ?, ?, ?)
+            `, [
+              certificate.filePath,
+              certificate.fileName,
+              certificate.fileSize,
+              certificate.mimeType,
+              certificate.thumbnailPath || null,
+              cmeEntryId,
+            ]);
+
+            // An entry that wasn't restored alongside its certificate gets it back,
+            // unless it has been given a different certificate since the backup
+            if (cmeEntryId !== null && certificate.sourceFilePath) {
+              await runSafe(db, `
+                UPDATE cme_entries SET certificate_path = ?
+                WHERE id = ? AND user_id = 1 AND (certificate_path IS NULL OR certificate_path = ?)
+              `, [certificate.filePath, cmeEntryId, certificate.sourceFilePath]);
+            }
+            result.certificatesRestored++;
+          }
+
+          return result;
+        });
+
+        return {
+          success: true,
+          data: summary,
+        };
+      } catch (error) {
+        __DEV__ && console.error('[ERROR] restoreOperations.restoreBackup: Restore rolled back:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to restore backup',
+        };
+      }
+    });
+  },
+};
+
 // Export all operations
 export const databaseOperations = {
   user: userOperations,
@@ -1244,7 +2309,12 @@ export const databaseOperations = {
   licenses: licenseOperations,
   licenseOperations,
   eventReminders: eventReminderOperations,
+  requirementRules: requirementRuleOperations,
+  carryOverRules: carryOverRuleOperations,
+  cycles: complianceCycleOperations,
   eventReminderOperations,
   settings: settingsOperations,
   settingsOperations,
+  restore: restoreOperations,
+  restoreOperations,
 };
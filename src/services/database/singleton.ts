@@ -1,7 +1,8 @@
 // True singleton database - opens once per app lifetime, never closes
 import * as SQLite from 'expo-sqlite';
 import * as FileSystem from 'expo-file-system/legacy';
-import { setupDatabase } from './schema';
+import { checkDatabaseSchema, setupDatabase } from './schema';
+import type { SchemaVerification } from './migrations';
 import { testDatabaseHealthSafe } from '../../utils/DatabaseUtils';
 
 // Singleton state - module level, imported once at top level
@@ -184,6 +185,12 @@ export async function checkDatabaseHealth(): Promise<boolean> {
   }
 }
 
+// Dry-run check of the live database - pending migrations and missing tables, nothing is changed
+export async function verifyDatabaseSchema(): Promise<SchemaVerification> {
+  const handle = await getDatabase();
+  return checkDatabaseSchema(handle);
+}
+
 // Export read-only status for debugging
 export function getDatabaseStatus() {
   return {
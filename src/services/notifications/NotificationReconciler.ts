@@ -0,0 +1,131 @@
+// Brings the scheduled notifications in line with the desired set without clearing them first.
+// Only stale notifications are cancelled, missing ones added and changed ones rescheduled, so
+// reminders that are already correct stay scheduled throughout a refresh.
+// Talks to the OS and storage through NotificationBackend so it can be run against a fake.
+import { ScheduledNotification, NotificationType } from './NotificationTypes';
+
+/**
+ * A notification as the OS reports it
+ */
+export interface SystemScheduledNotification {
+  id: string;
+  type?: string; // data.type of the scheduled content
+  remindLaterOf?: string; // Set on "Remind Later" copies: the id of the notification they repeat
+}
+
+/**
+ * The OS scheduler and our record of what was scheduled
+ */
+export interface NotificationBackend {
+  getSystemScheduled(): Promise<SystemScheduledNotification[]>;
+  getStored(): Promise<ScheduledNotification[]>;
+  saveStored(notifications: ScheduledNotification[]): Promise<void>;
+  schedule(notification: ScheduledNotification): Promise<void>;
+  cancel(id: string): Promise<void>;
+}
+
+export interface ReconcileResult {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  unchanged: string[];
+  failed: string[];
+}
+
+const MANAGED_TYPES: string[] = Object.values(NotificationType);
+
+export class NotificationReconciler {
+  /**
+   * Schedule `desired` and cancel every other notification this app manages.
+   * A "Remind Later" copy is kept only while its original is in `deliveredIds` - already shown,
+   * and still called for by its record. When the license is renewed or the event moved, the
+   * original is back in `desired`; when the record is deleted or the event logged, it is gone.
+   * Either way the copy is cancelled. Other OS notifications are left alone.
+   * A failed schedule or cancel is reported and retried on the next pass.
+   */
+  static async reconcile(
+    desired: ScheduledNotification[],
+    backend: NotificationBackend,
+    deliveredIds: string[] = []
+  ): Promise<ReconcileResult> {
+    const [systemScheduled, stored] = await Promise.all([
+      backend.getSystemScheduled(),
+      backend.getStored(),
+    ]);
+
+    const storedById = new Map(stored.map(notification => [notification.id, notification]));
+    const systemIds = new Set(systemScheduled.map(notification => notification.id));
+    const desiredIds = new Set(desired.map(notification => notification.id));
+    const snoozableIds = new Set(deliveredIds.filter(id => !desiredIds.has(id)));
+
+    const result: ReconcileResult = { added: [], updated: [], removed: [], unchanged: [], failed: [] };
+    const nextStored: ScheduledNotification[] = [];
+
+    // Stale: scheduled by us, or of a type we manage, but no longer wanted
+    const staleIds = new Set<string>();
+    for (const notification of systemScheduled) {
+      if (notification.remindLaterOf !== undefined) {
+        if (!snoozableIds.has(notification.remindLaterOf)) {
+          staleIds.add(notification.id);
+        }
+      } else if (!desiredIds.has(notification.id)
+        && (storedById.has(notification.id) || (notification.type !== undefined && MANAGED_TYPES.includes(notification.type)))) {
+        staleIds.add(notification.id);
+      }
+    }
+
+    for (const id of staleIds) {
+      try {
+        await backend.cancel(id);
+        result.removed.push(id);
+      } catch (error) {
+        __DEV__ && console.error(`[ERROR] NotificationReconciler: Failed to cancel ${id}:`, error);
+        result.failed.push(id);
+        // Keep the record so the next pass tries again
+        const record = storedById.get(id);
+        if (record) {
+          nextStored.push(record);
+        }
+      }
+    }
+
+    for (const notification of desired) {
+      const previous = storedById.get(notification.id);
+      const isScheduled = systemIds.has(notification.id);
+
+      if (isScheduled && previous && this.isSameContent(previous, notification)) {
+        result.unchanged.push(notification.id);
+        nextStored.push(previous);
+        continue;
+      }
+
+      try {
+        if (isScheduled) {
+          // Replace rather than add alongside; platforms differ on reused identifiers
+          await backend.cancel(notification.id);
+        }
+        await backend.schedule(notification);
+        (isScheduled ? result.updated : result.added).push(notification.id);
+        nextStored.push(notification);
+      } catch (error) {
+        __DEV__ && console.error(`[ERROR] NotificationReconciler: Failed to schedule ${notification.id}:`, error);
+        result.failed.push(notification.id);
+      }
+    }
+
+    await backend.saveStored(nextStored);
+    return result;
+  }
+
+  /**
+   * Whether two notifications would show the same thing at the same time.
+   * createdAt and isActive are bookkeeping and don't count.
+   */
+  static isSameContent(a: ScheduledNotification, b: ScheduledNotification): boolean {
+    return a.type === b.type
+      && a.title === b.title
+      && a.body === b.body
+      && new Date(a.scheduledFor).getTime() === new Date(b.scheduledFor).getTime()
+      && JSON.stringify(a.data ?? null) === JSON.stringify(b.data ?? null);
+  }
+}
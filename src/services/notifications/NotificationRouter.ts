@@ -0,0 +1,89 @@
+// Maps notification taps and action buttons to screens in the main navigator
+import { NotificationData, NotificationType } from './NotificationTypes';
+import type { MainTabParamList } from '../../types/navigation';
+
+/**
+ * Action button identifiers registered with the notification categories
+ */
+export const NOTIFICATION_ACTIONS = {
+  VIEW_PROGRESS: 'view_progress',
+  ADD_ENTRY: 'add_entry',
+  VIEW_LICENSE: 'view_license',
+  REMIND_LATER: 'set_reminder',
+  VIEW_EVENT: 'view_event',
+  LOG_EVENT: 'log_event',
+} as const;
+
+/**
+ * A screen in MainTabParamList together with its params
+ */
+export type NotificationRoute = {
+  [Name in keyof MainTabParamList]: { name: Name; params?: MainTabParamList[Name] };
+}[keyof MainTabParamList];
+
+const DASHBOARD_ROUTE: NotificationRoute = { name: 'Tabs', params: { screen: 'Dashboard' } };
+
+export class NotificationRouter {
+  /**
+   * The screen to open for a notification response, or null when the response opens nothing.
+   * Action buttons pick their own screen; a plain tap opens the screen for the notification's type.
+   */
+  static resolveRoute(actionIdentifier: string, data: Partial<NotificationData> | null | undefined): NotificationRoute | null {
+    switch (actionIdentifier) {
+      case NOTIFICATION_ACTIONS.VIEW_PROGRESS:
+      case NOTIFICATION_ACTIONS.VIEW_EVENT:
+        return DASHBOARD_ROUTE;
+      case NOTIFICATION_ACTIONS.ADD_ENTRY:
+        return { name: 'AddCME' };
+      case NOTIFICATION_ACTIONS.VIEW_LICENSE:
+        return this.licenseRoute(data?.entityId);
+      case NOTIFICATION_ACTIONS.LOG_EVENT:
+        return this.eventEntryRoute(data?.entityId);
+      case NOTIFICATION_ACTIONS.REMIND_LATER:
+        return null;
+      default:
+        return this.routeForType(data);
+    }
+  }
+
+  /**
+   * Whether the response asks for the notification to be shown again later
+   */
+  static isRemindLater(actionIdentifier: string): boolean {
+    return actionIdentifier === NOTIFICATION_ACTIONS.REMIND_LATER;
+  }
+
+  private static routeForType(data: Partial<NotificationData> | null | undefined): NotificationRoute | null {
+    switch (data?.type) {
+      case NotificationType.CYCLE_ENDING:
+      case NotificationType.PROGRESS_MILESTONE:
+      case NotificationType.PROGRESS_PACE:
+      // Event reminders and their deadlines are listed on the dashboard
+      case NotificationType.CME_EVENT_REMINDER:
+      case NotificationType.EVENT_DEADLINE:
+        return DASHBOARD_ROUTE;
+      case NotificationType.LICENSE_EXPIRING:
+        return this.licenseRoute(data.entityId);
+      case NotificationType.EVENT_ATTENDANCE:
+        return this.eventEntryRoute(data.entityId);
+      default:
+        return null;
+    }
+  }
+
+  // Licenses open in their edit screen; without a usable id, the licenses list in Settings
+  private static licenseRoute(entityId: string | undefined): NotificationRoute {
+    const licenseId = Number(entityId);
+    return Number.isInteger(licenseId) && licenseId > 0
+      ? { name: 'AddLicense', params: { licenseId } }
+      : { name: 'Tabs', params: { screen: 'Settings' } };
+  }
+
+  // A new CME entry prefilled from the event; a blank one without a usable id
+  private static eventEntryRoute(entityId: string | undefined): NotificationRoute {
+    const eventReminderId = Number(entityId);
+    return Number.isInteger(eventReminderId) && eventReminderId > 0
+      ? { name: 'AddCME', params: { eventReminderId } }
+      : { name: 'AddCME' };
+  }
+}
@@ -5,8 +5,24 @@ import {
   NotificationSettings,
   NotificationData
 } from './NotificationTypes';
-import { User, LicenseRenewal, CMEEventReminder } from '../../types';
-import { getCreditUnit } from '../../utils/creditTerminology';
+import { User, LicenseRenewal, CMEEventReminder, EventDeadline } from '../../types';
+import { getCreditPlural, getCreditSingular, getCreditUnit } from '../../utils/creditTerminology';
+import { calculatePace } from '../../utils/progressPace';
+import { getDeadlineLabel, getEventLastDay, parseEventDate } from '../../utils/eventReminders';
+
+// Percentages of the requirement celebrated once each per cycle
+export const PROGRESS_MILESTONES = [25, 50, 75, 100];
+
+// Pace nudges are planned this far ahead; each refresh re-plans them from current credits
+const PACE_NUDGE_HORIZON_DAYS = 28;
+const PACE_NUDGE_HOUR = 10;
+
+// Celebrations go out shortly after the credits that earned them are saved
+const MILESTONE_DELAY_MS = 60 * 1000;
+
+// Event reminders go out in the morning; "did you attend?" the morning after the last day
+const EVENT_REMINDER_HOUR = 9;
+const EVENT_FOLLOW_UP_HOUR = 10;
 
 export class NotificationScheduler {
   /**
@@ -15,7 +31,8 @@ export class NotificationScheduler {
   static calculateCycleEndingNotifications(
     user: User,
     currentProgress: number,
-    settings: NotificationSettings
+    settings: NotificationSettings,
+    now: Date = new Date()
   ): ScheduledNotification[] {
     if (!settings.enabled || !settings.cycleReminders.enabled || !user.cycleEndDate) {
       return [];
@@ -38,7 +55,7 @@ export class NotificationScheduler {
       notificationDate.setDate(cycleEndDate.getDate() - days);
       
       // Only schedule future notifications
-      if (notificationDate > new Date()) {
+      if (notificationDate > now) {
         const progressPercent = user.annualRequirement ? 
           Math.round((currentProgress / user.annualRequirement) * 100) : 0;
 
@@ -79,7 +96,8 @@ export class NotificationScheduler {
    */
   static calculateLicenseExpiringNotifications(
     licenses: LicenseRenewal[],
-    settings: NotificationSettings
+    settings: NotificationSettings,
+    now: Date = new Date()
   ): ScheduledNotification[] {
     if (!settings.enabled || !settings.licenseReminders.enabled) {
       return [];
@@ -109,7 +127,7 @@ export class NotificationScheduler {
         notificationDate.setDate(expiryDate.getDate() - days);
 
         // Only schedule future notifications
-        if (notificationDate > new Date()) {
+        if (notificationDate > now) {
           const { title, body } = this.generateLicenseExpiringContent(
             license,
             days
@@ -144,11 +162,14 @@ export class NotificationScheduler {
   }
 
   /**
-   * Calculate CME event reminder notifications
+   * Calculate CME event reminder notifications: one for each of the event's reminder offsets
+   * (or the settings default), one the day before each of its deadlines, and a "did you attend?"
+   * follow-up after the last day
    */
   static calculateEventReminders(
     events: CMEEventReminder[],
-    settings: NotificationSettings
+    settings: NotificationSettings,
+    now: Date = new Date()
   ): ScheduledNotification[] {
     if (!settings.enabled || !settings.eventReminders.enabled) {
       return [];
@@ -156,55 +177,299 @@ export class NotificationScheduler {
 
     const notifications: ScheduledNotification[] = [];
 
-    events.forEach(event => {
-      // Validate event date exists
-      if (!event.eventDate) {
-        __DEV__ && console.warn('[WARN] NotificationScheduler: Event missing date:', event.id);
+    const addNotification = (
+      id: string,
+      type: NotificationType,
+      scheduledFor: Date,
+      content: { title: string; body: string },
+      data: Partial<NotificationData>
+    ) => {
+      // Only schedule future notifications
+      if (scheduledFor <= now) {
         return;
       }
 
-      const eventDate = new Date(event.eventDate);
+      notifications.push({
+        id,
+        type,
+        title: content.title,
+        body: content.body,
+        scheduledFor: this.adjustForQuietHours(scheduledFor, settings),
+        data: { type, ...data } as NotificationData,
+        isActive: true,
+        createdAt: new Date(),
+      });
+    };
 
-      // Validate date - prevent crash on invalid dates
-      if (isNaN(eventDate.getTime())) {
-        __DEV__ && console.warn('[WARN] NotificationScheduler: Invalid event date:', event.eventDate);
+    events.forEach(event => {
+      const eventDate = parseEventDate(event.eventDate);
+
+      // Validate date - prevent crash on missing or invalid dates
+      if (!eventDate) {
+        __DEV__ && console.warn('[WARN] NotificationScheduler: Invalid event date:', event.id, event.eventDate);
         return;
       }
 
-      const reminderDate = new Date(eventDate);
-      reminderDate.setDate(eventDate.getDate() - settings.eventReminders.defaultInterval);
-
-      // Only schedule future notifications
-      if (reminderDate > new Date()) {
-        const { title, body } = this.generateEventReminderContent(
-          event,
-          settings.eventReminders.defaultInterval
+      const eventData = {
+        entityId: event.id.toString(),
+        eventName: event.eventName,
+        eventDate: event.eventDate,
+      };
+
+      const offsets = event.reminderOffsets.length > 0
+        ? event.reminderOffsets
+        : [settings.eventReminders.defaultInterval];
+
+      offsets.forEach(days => {
+        const reminderDate = new Date(eventDate);
+        reminderDate.setDate(eventDate.getDate() - days);
+        reminderDate.setHours(EVENT_REMINDER_HOUR, 0, 0, 0);
+
+        addNotification(
+          this.generateNotificationId(NotificationType.CME_EVENT_REMINDER, event.id.toString(), days),
+          NotificationType.CME_EVENT_REMINDER,
+          reminderDate,
+          this.generateEventReminderContent(event, days),
+          { ...eventData, daysRemaining: days }
         );
+      });
 
-        const notification: ScheduledNotification = {
-          id: this.generateNotificationId(NotificationType.CME_EVENT_REMINDER, event.id.toString(), settings.eventReminders.defaultInterval),
-          type: NotificationType.CME_EVENT_REMINDER,
-          title,
-          body,
-          scheduledFor: this.adjustForQuietHours(reminderDate, settings),
-          data: {
-            type: NotificationType.CME_EVENT_REMINDER,
-            entityId: event.id.toString(),
-            eventName: event.eventName,
-            eventDate: event.eventDate,
-            daysRemaining: settings.eventReminders.defaultInterval
-          } as NotificationData,
-          isActive: true,
-          createdAt: new Date(),
-        };
+      event.deadlines.forEach(deadline => {
+        const deadlineDate = parseEventDate(deadline.date);
+        if (!deadlineDate) {
+          __DEV__ && console.warn('[WARN] NotificationScheduler: Invalid deadline date:', event.id, deadline.date);
+          return;
+        }
 
-        notifications.push(notification);
+        const reminderDate = new Date(deadlineDate);
+        reminderDate.setDate(deadlineDate.getDate() - 1);
+        reminderDate.setHours(EVENT_REMINDER_HOUR, 0, 0, 0);
+
+        // Keyed by type and date, since deadline rows get new ids whenever the event is saved
+        addNotification(
+          `${NotificationType.EVENT_DEADLINE}_${event.id}_${deadline.type}_${deadline.date}`,
+          NotificationType.EVENT_DEADLINE,
+          reminderDate,
+          this.generateEventDeadlineContent(event, deadline),
+          { ...eventData, deadlineType: deadline.type, deadlineDate: deadline.date }
+        );
+      });
+
+      const lastDay = getEventLastDay(event);
+      if (lastDay && event.attendanceStatus === 'pending') {
+        const followUpDate = new Date(lastDay);
+        followUpDate.setDate(lastDay.getDate() + 1);
+        followUpDate.setHours(EVENT_FOLLOW_UP_HOUR, 0, 0, 0);
+
+        addNotification(
+          `${NotificationType.EVENT_ATTENDANCE}_${event.id}`,
+          NotificationType.EVENT_ATTENDANCE,
+          followUpDate,
+          {
+            title: 'Did You Attend?',
+            body: `Did you attend "${event.eventName}"? Log it as a CME entry so it counts toward your requirement.`,
+          },
+          eventData
+        );
       }
     });
 
     return notifications;
   }
 
+  /**
+   * Calculate "falling behind" nudges from the same expected-vs-actual pacing as the dashboard.
+   * Nudges fall on fixed slots counted from the cycle start, at most maxNudgesPerWeek a week,
+   * so re-planning on every refresh never adds extra ones. A slot gets a nudge only if the
+   * current credits would be behind pace on that day.
+   */
+  static calculatePaceNudges(
+    user: User,
+    currentProgress: number,
+    settings: NotificationSettings,
+    now: Date = new Date()
+  ): ScheduledNotification[] {
+    const nudgesPerWeek = Math.floor(settings.progressReminders.maxNudgesPerWeek);
+    if (!settings.enabled || !settings.progressReminders.enabled || nudgesPerWeek < 1 || !(user.annualRequirement > 0)) {
+      return [];
+    }
+
+    const currentPace = calculatePace(user, currentProgress, now);
+    if (currentPace.status === 'completed' || currentPace.remainingDays <= 0) {
+      return [];
+    }
+
+    const notifications: ScheduledNotification[] = [];
+    const anchor = new Date(currentPace.startOfPeriod);
+    anchor.setHours(PACE_NUDGE_HOUR, 0, 0, 0);
+
+    const slotSpacingDays = 7 / nudgesPerWeek;
+    const horizon = new Date(now.getTime() + PACE_NUDGE_HORIZON_DAYS * 24 * 60 * 60 * 1000);
+    const daysSinceAnchor = Math.max(0, Math.floor((now.getTime() - anchor.getTime()) / (24 * 60 * 60 * 1000)));
+
+    for (let slot = Math.floor(daysSinceAnchor / slotSpacingDays); ; slot++) {
+      const nudgeDate = new Date(anchor);
+      nudgeDate.setDate(anchor.getDate() + Math.floor(slot * slotSpacingDays));
+
+      if (nudgeDate > horizon || nudgeDate >= currentPace.endOfPeriod) {
+        break;
+      }
+      if (nudgeDate <= now) {
+        continue;
+      }
+
+      const pace = calculatePace(user, currentProgress, nudgeDate);
+      if (pace.status !== 'behind') {
+        continue;
+      }
+
+      const { title, body } = this.generatePaceNudgeContent(
+        pace.creditsBehind,
+        Math.max(0, user.annualRequirement - currentProgress),
+        pace.remainingDays,
+        user
+      );
+      const dateKey = `${nudgeDate.getFullYear()}-${String(nudgeDate.getMonth() + 1).padStart(2, '0')}-${String(nudgeDate.getDate()).padStart(2, '0')}`;
+
+      notifications.push({
+        id: `${NotificationType.PROGRESS_PACE}_${dateKey}`,
+        type: NotificationType.PROGRESS_PACE,
+        title,
+        body,
+        scheduledFor: this.adjustForQuietHours(nudgeDate, settings),
+        data: {
+          type: NotificationType.PROGRESS_PACE,
+          userId: user.id,
+          creditsBehind: Math.round(pace.creditsBehind * 10) / 10,
+          daysRemaining: pace.remainingDays,
+          currentProgress: Math.round(pace.percentage),
+          expectedProgress: Math.round(pace.expectedProgress),
+        } as NotificationData,
+        isActive: true,
+        createdAt: new Date(),
+      });
+    }
+
+    return notifications;
+  }
+
+  /**
+   * Milestones the current credits have reached, lowest first
+   */
+  static getReachedMilestones(user: User, currentProgress: number): number[] {
+    if (!(user.annualRequirement > 0)) {
+      return [];
+    }
+    const percentage = (currentProgress / user.annualRequirement) * 100;
+    return PROGRESS_MILESTONES.filter(milestone => percentage >= milestone);
+  }
+
+  /**
+   * Key identifying the user's current cycle, so celebrations reset when a new cycle starts
+   */
+  static getMilestoneCycleKey(user: User, now: Date = new Date()): string {
+    return calculatePace(user, 0, now).startOfPeriod.toISOString().split('T')[0];
+  }
+
+  /**
+   * Celebration for the highest milestone reached and not yet celebrated, or null.
+   * Milestones passed together (e.g. a large entry taking progress from 20% to 80%)
+   * share one celebration.
+   */
+  static calculateMilestoneNotification(
+    user: User,
+    currentProgress: number,
+    celebrated: number[],
+    settings: NotificationSettings,
+    now: Date = new Date()
+  ): ScheduledNotification | null {
+    if (!settings.enabled || !settings.progressReminders.celebrateMilestones) {
+      return null;
+    }
+
+    const milestone = this.getReachedMilestones(user, currentProgress)
+      .filter(reached => !celebrated.includes(reached))
+      .pop();
+    if (milestone === undefined) {
+      return null;
+    }
+
+    const { title, body } = this.generateMilestoneContent(milestone, currentProgress, user);
+
+    return {
+      id: `${NotificationType.PROGRESS_MILESTONE}_${this.getMilestoneCycleKey(user, now)}_${milestone}`,
+      type: NotificationType.PROGRESS_MILESTONE,
+      title,
+      body,
+      scheduledFor: this.adjustForQuietHours(new Date(now.getTime() + MILESTONE_DELAY_MS), settings),
+      data: {
+        type: NotificationType.PROGRESS_MILESTONE,
+        userId: user.id,
+        milestone,
+        currentProgress: Math.round((currentProgress / user.annualRequirement) * 100),
+      } as NotificationData,
+      isActive: true,
+      createdAt: new Date(),
+    };
+  }
+
+  /**
+   * Generate notification content for pace nudges
+   */
+  private static generatePaceNudgeContent(
+    creditsBehind: number,
+    remaining: number,
+    remainingDays: number,
+    user: User
+  ): { title: string; body: string } {
+    const behind = Math.max(1, Math.round(creditsBehind));
+    const creditSystem = user.creditSystem || 'CME';
+    const behindUnit = behind === 1 ? getCreditSingular(creditSystem) : getCreditPlural(creditSystem);
+    const remainingUnit = remaining === 1 ? getCreditSingular(creditSystem) : getCreditPlural(creditSystem);
+    const remainingCredits = Math.round(remaining * 10) / 10;
+
+    return {
+      title: 'Falling Behind Pace',
+      body: `You're ${behind} ${behindUnit} behind pace for this point in your cycle. ` +
+        `${remainingCredits} ${remainingUnit} to go with ${remainingDays} day${remainingDays !== 1 ? 's' : ''} left.`,
+    };
+  }
+
+  /**
+   * Generate notification content for milestone celebrations
+   */
+  private static generateMilestoneContent(
+    milestone: number,
+    currentProgress: number,
+    user: User
+  ): { title: string; body: string } {
+    const earned = Math.round(currentProgress * 10) / 10;
+    const units = getCreditPlural(user.creditSystem || 'CME');
+
+    switch (milestone) {
+      case 100:
+        return {
+          title: 'Requirement Complete!',
+          body: `Congratulations! You've earned all ${user.annualRequirement} ${units} for this cycle.`,
+        };
+      case 75:
+        return {
+          title: 'Three Quarters There',
+          body: `You've earned ${earned} of ${user.annualRequirement} ${units}. The finish line is in sight.`,
+        };
+      case 50:
+        return {
+          title: 'Halfway There',
+          body: `You've earned ${earned} of ${user.annualRequirement} ${units} this cycle. Keep it up!`,
+        };
+      default:
+        return {
+          title: `${milestone}% Complete`,
+          body: `You've earned ${earned} of ${user.annualRequirement} ${units} this cycle. Great start!`,
+        };
+    }
+  }
+
   /**
    * Generate notification content for cycle ending reminders
    */
@@ -272,18 +537,53 @@ export class NotificationScheduler {
   ): { title: string; body: string } {
     let title = 'CME Event Reminder';
     let body = '';
+    const location = event.location ? ` at ${event.location}` : '';
 
-    if (days === 1) {
+    if (days === 0) {
+      title = 'CME Event Today';
+      body = `"${event.eventName}" starts today${location}.`;
+    } else if (days === 1) {
       title = 'CME Event Tomorrow';
-      body = `Don't forget: "${event.eventName}" is tomorrow!`;
+      body = `Don't forget: "${event.eventName}" is tomorrow${location}!`;
     } else {
       title = 'Upcoming CME Event';
-      body = `Reminder: "${event.eventName}" is in ${days} day${days !== 1 ? 's' : ''}.`;
+      body = `Reminder: "${event.eventName}" is in ${days} day${days !== 1 ? 's' : ''}${location}.`;
     }
 
     return { title, body };
   }
 
+  /**
+   * Generate notification content for event deadlines, sent the day before
+   */
+  private static generateEventDeadlineContent(
+    event: CMEEventReminder,
+    deadline: EventDeadline
+  ): { title: string; body: string } {
+    switch (deadline.type) {
+      case 'abstract':
+        return {
+          title: 'Abstracts Due Tomorrow',
+          body: `Abstract submissions for "${event.eventName}" close tomorrow.`,
+        };
+      case 'early_bird':
+        return {
+          title: 'Early-Bird Pricing Ends Tomorrow',
+          body: `Register for "${event.eventName}" by tomorrow to get the early-bird rate.`,
+        };
+      case 'registration':
+        return {
+          title: 'Registration Closes Tomorrow',
+          body: `Registration for "${event.eventName}" closes tomorrow. Register now to keep your spot.`,
+        };
+      default:
+        return {
+          title: 'Event Deadline Tomorrow',
+          body: `${getDeadlineLabel(deadline)} for "${event.eventName}" is due tomorrow.`,
+        };
+    }
+  }
+
   /**
    * Check if a given time is within quiet hours
    */
@@ -5,12 +5,15 @@ import {
   ScheduledNotification, 
   NotificationSettings, 
   NotificationType,
+  CelebratedMilestones,
   NotificationPriority,
   DEFAULT_NOTIFICATION_SETTINGS
 } from './NotificationTypes';
 import { NotificationPermissions } from './NotificationPermissions';
 import { NotificationStorage } from './NotificationStorage';
 import { NotificationScheduler } from './NotificationScheduler';
+import { NotificationBackend, NotificationReconciler, ReconcileResult } from './NotificationReconciler';
+import { NOTIFICATION_ACTIONS, NotificationRoute, NotificationRouter } from './NotificationRouter';
 import { User, LicenseRenewal, CMEEventReminder } from '../../types';
 
 // Configure notification behavior
@@ -24,9 +27,38 @@ Notifications.setNotificationHandler({
   }),
 });
 
+interface RefreshInput {
+  user?: User;
+  licenses?: LicenseRenewal[];
+  events?: CMEEventReminder[];
+  currentProgress?: number;
+}
+
 export class NotificationService {
   private static initialized = false;
   private static isRefreshing = false;
+  private static pendingRefresh: RefreshInput | null = null;
+  private static routeHandler: ((route: NotificationRoute) => void) | null = null;
+  private static pendingRoute: NotificationRoute | null = null;
+  private static lastHandledResponse: string | null = null;
+
+  // The OS scheduler and NotificationStorage, as seen by NotificationReconciler
+  private static readonly backend: NotificationBackend = {
+    getSystemScheduled: async () => {
+      const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+      return scheduled.map(request => ({
+        id: request.identifier,
+        type: typeof request.content.data?.type === 'string' ? request.content.data.type : undefined,
+        remindLaterOf: typeof request.content.data?.remindLaterOf === 'string' ? request.content.data.remindLaterOf : undefined,
+      }));
+    },
+    getStored: () => NotificationStorage.getScheduledNotifications(),
+    saveStored: notifications => NotificationStorage.saveScheduledNotifications(notifications),
+    schedule: async notification => {
+      await NotificationService.scheduleWithSystem(notification);
+    },
+    cancel: id => Notifications.cancelScheduledNotificationAsync(id),
+  };
 
   /**
    * Initialize the notification service
@@ -45,6 +77,12 @@ export class NotificationService {
       // Set up notification response handlers
       this.setupNotificationHandlers();
 
+      // A tap that launched the app from killed arrived before the listener existed
+      const launchResponse = Notifications.getLastNotificationResponse();
+      if (launchResponse) {
+        this.handleNotificationResponse(launchResponse);
+      }
+
       this.initialized = true;
 
     } catch (error) {
@@ -60,12 +98,12 @@ export class NotificationService {
     try {
       await Notifications.setNotificationCategoryAsync('cycle_ending', [
         {
-          identifier: 'view_progress',
+          identifier: NOTIFICATION_ACTIONS.VIEW_PROGRESS,
           buttonTitle: 'View Progress',
           options: { opensAppToForeground: true },
         },
         {
-          identifier: 'add_entry',
+          identifier: NOTIFICATION_ACTIONS.ADD_ENTRY,
           buttonTitle: 'Add Entry',
           options: { opensAppToForeground: true },
         },
@@ -73,12 +111,12 @@ export class NotificationService {
 
       await Notifications.setNotificationCategoryAsync('license_expiring', [
         {
-          identifier: 'view_license',
+          identifier: NOTIFICATION_ACTIONS.VIEW_LICENSE,
           buttonTitle: 'View License',
           options: { opensAppToForeground: true },
         },
         {
-          identifier: 'set_reminder',
+          identifier: NOTIFICATION_ACTIONS.REMIND_LATER,
           buttonTitle: 'Remind Later',
           options: { opensAppToForeground: false },
         },
@@ -86,12 +124,25 @@ export class NotificationService {
 
       await Notifications.setNotificationCategoryAsync('cme_event', [
         {
-          identifier: 'view_event',
+          identifier: NOTIFICATION_ACTIONS.VIEW_EVENT,
           buttonTitle: 'View Event',
           options: { opensAppToForeground: true },
         },
       ]);
 
+      await Notifications.setNotificationCategoryAsync('event_attendance', [
+        {
+          identifier: NOTIFICATION_ACTIONS.LOG_EVENT,
+          buttonTitle: 'Log as CME',
+          options: { opensAppToForeground: true },
+        },
+        {
+          identifier: NOTIFICATION_ACTIONS.REMIND_LATER,
+          buttonTitle: 'Remind Later',
+          options: { opensAppToForeground: false },
+        },
+      ]);
+
     } catch (error) {
       __DEV__ && console.error('[ERROR] NotificationService: Error setting up categories:', error);
     }
@@ -106,40 +157,92 @@ export class NotificationService {
 
     });
 
-    // Handle notification tapped
+    // Handle notification tapped or action button pressed
     Notifications.addNotificationResponseReceivedListener(response => {
-
-      const { notification } = response;
-      const data = notification.request.content.data;
-      
-      // Handle different action types
-      switch (response.actionIdentifier) {
-        case 'view_progress':
-          // Navigate to dashboard
-          break;
-        case 'add_entry':
-          // Navigate to add CME screen
-          break;
-        case 'view_license':
-          // Navigate to license details
-          break;
-        case 'view_event':
-          // Navigate to event details
-          break;
-        default:
-          // Default action (tapping notification)
-          this.handleDefaultNotificationAction(data);
-          break;
-      }
+      this.handleNotificationResponse(response);
     });
   }
 
   /**
-   * Handle default notification tap action
+   * Open the screen for a notification response, or snooze it for "Remind Later".
+   * Routes wait in pendingRoute until the main navigator registers a handler,
+   * which covers cold starts, the lock screen and onboarding.
    */
-  private static handleDefaultNotificationAction(data: any): void {
-    // This will be used by the app's navigation system
+  private static handleNotificationResponse(response: Notifications.NotificationResponse): void {
+    const { request } = response.notification;
+
+    // The launch response can also reach the listener; handle it once
+    const responseKey = `${request.identifier}:${response.actionIdentifier}:${response.notification.date}`;
+    if (responseKey === this.lastHandledResponse) {
+      return;
+    }
+    this.lastHandledResponse = responseKey;
+    Notifications.clearLastNotificationResponse();
 
+    if (NotificationRouter.isRemindLater(response.actionIdentifier)) {
+      this.remindLater(request).catch(error => {
+        __DEV__ && console.error('[ERROR] NotificationService: Error scheduling remind later:', error);
+      });
+      return;
+    }
+
+    const route = NotificationRouter.resolveRoute(response.actionIdentifier, request.content.data);
+    if (!route) {
+      return;
+    }
+
+    if (this.routeHandler) {
+      this.routeHandler(route);
+    } else {
+      this.pendingRoute = route;
+    }
+  }
+
+  /**
+   * Register the navigator that opens notification routes, delivering any route that
+   * arrived before it was ready. Pass null when the navigator unmounts.
+   */
+  static setRouteHandler(handler: ((route: NotificationRoute) => void) | null): void {
+    this.routeHandler = handler;
+
+    if (handler && this.pendingRoute) {
+      const route = this.pendingRoute;
+      this.pendingRoute = null;
+      handler(route);
+    }
+  }
+
+  /**
+   * Show a delivered notification again after the "Remind Later" delay from settings.
+   * The copy keeps the original's content and actions, and repeated snoozes replace it.
+   */
+  static async remindLater(request: Notifications.NotificationRequest): Promise<void> {
+    const settings = await this.getSettings();
+    const { content } = request;
+    const originalId = typeof content.data?.remindLaterOf === 'string' ? content.data.remindLaterOf : request.identifier;
+
+    const remindAt = NotificationScheduler.adjustForQuietHours(
+      new Date(Date.now() + settings.remindLater.delayHours * 60 * 60 * 1000),
+      settings
+    );
+
+    await Notifications.scheduleNotificationAsync({
+      identifier: `${originalId}_later`,
+      content: {
+        title: content.title ?? undefined,
+        body: content.body ?? undefined,
+        data: { ...content.data, remindLaterOf: originalId },
+        categoryIdentifier: content.categoryIdentifier ?? undefined,
+        sound: 'default',
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: remindAt,
+      },
+    });
+
+    // Action buttons that don't open the app leave the notification in the tray on Android
+    await Notifications.dismissNotificationAsync(request.identifier);
   }
 
   /**
@@ -174,21 +277,7 @@ export class NotificationService {
         return '';
       }
 
-      const notificationId = await Notifications.scheduleNotificationAsync({
-        identifier: notification.id,
-        content: {
-          title: notification.title,
-          body: notification.body,
-          data: notification.data,
-          categoryIdentifier: this.getCategoryForType(notification.type),
-          priority: this.getPriorityForType(notification.type),
-          sound: 'default',
-        },
-        trigger: {
-          type: Notifications.SchedulableTriggerInputTypes.DATE,
-          date: notification.scheduledFor,
-        },
-      });
+      const notificationId = await this.scheduleWithSystem(notification);
 
       // Store in our local storage
       await NotificationStorage.saveScheduledNotification(notification);
@@ -200,6 +289,27 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Hand a notification to the OS scheduler without recording it
+   */
+  private static async scheduleWithSystem(notification: ScheduledNotification): Promise<string> {
+    return await Notifications.scheduleNotificationAsync({
+      identifier: notification.id,
+      content: {
+        title: notification.title,
+        body: notification.body,
+        data: notification.data,
+        categoryIdentifier: this.getCategoryForType(notification.type),
+        priority: this.getPriorityForType(notification.type),
+        sound: 'default',
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: notification.scheduledFor,
+      },
+    });
+  }
+
   /**
    * Cancel a scheduled notification
    */
@@ -227,7 +337,9 @@ export class NotificationService {
   }
 
   /**
-   * Refresh all notifications based on current data
+   * Refresh all notifications based on current data.
+   * Only notifications that changed are cancelled or scheduled. A refresh requested while
+   * one is running is queued and runs with the latest data once the current one finishes.
    */
   static async refreshAllNotifications(
     user?: User,
@@ -235,79 +347,182 @@ export class NotificationService {
     events?: CMEEventReminder[],
     currentProgress?: number
   ): Promise<void> {
-    if (this.isRefreshing) {
+    const input: RefreshInput = { user, licenses, events, currentProgress };
 
+    if (this.isRefreshing) {
+      this.pendingRefresh = input;
       return;
     }
 
     this.isRefreshing = true;
 
     try {
+      let next: RefreshInput | null = input;
+      while (next) {
+        this.pendingRefresh = null;
+        await this.reconcileNotifications(next);
+        next = this.pendingRefresh;
+      }
+    } finally {
+      this.isRefreshing = false;
+    }
+  }
 
+  /**
+   * One refresh pass: build the desired notifications and reconcile the OS schedule with them
+   */
+  private static async reconcileNotifications(input: RefreshInput): Promise<ReconcileResult | null> {
+    try {
       const settings = await this.getSettings();
-      if (!settings.enabled) {
-
-        await this.cancelAllNotifications();
-        return;
-      }
 
       const hasPermissions = await this.hasPermissions();
-      if (!hasPermissions) {
-
-        return;
+      if (!hasPermissions && settings.enabled) {
+        return null;
       }
 
-      // Cancel all existing notifications
-      await this.cancelAllNotifications();
-
-      const allNotifications: ScheduledNotification[] = [];
-
-      // Generate cycle ending notifications
-      if (user && currentProgress !== undefined) {
-        const cycleNotifications = NotificationScheduler.calculateCycleEndingNotifications(
-          user,
-          currentProgress,
-          settings
-        );
-        allNotifications.push(...cycleNotifications);
+      const desired = settings.enabled ? this.buildDesiredNotifications(input, settings) : [];
+      const milestones = settings.enabled ? await this.planMilestoneCelebration(input, settings) : null;
+      if (milestones) {
+        desired.push(...milestones.notifications);
       }
 
-      // Generate license expiring notifications
-      if (licenses && licenses.length > 0) {
-        const licenseNotifications = NotificationScheduler.calculateLicenseExpiringNotifications(
-          licenses,
-          settings
-        );
-        allNotifications.push(...licenseNotifications);
-      }
+      const delivered = settings.enabled ? this.buildDeliveredIds(input, settings) : [];
+      const result = await NotificationReconciler.reconcile(desired, this.backend, delivered);
 
-      // Generate event reminder notifications
-      if (events && events.length > 0) {
-        const eventNotifications = NotificationScheduler.calculateEventReminders(
-          events,
-          settings
-        );
-        allNotifications.push(...eventNotifications);
-      }
-
-      // Schedule all notifications
-      let scheduledCount = 0;
-      for (const notification of allNotifications) {
-        try {
-          await this.scheduleNotification(notification);
-          scheduledCount++;
-        } catch (error) {
-      __DEV__ && console.error(`[ERROR] NotificationService: Failed to schedule notification ${notification.id}:`, error);
-        }
+      // A celebration that failed to schedule stays uncelebrated and is tried again next refresh
+      if (milestones?.record && !(milestones.celebrationId && result.failed.includes(milestones.celebrationId))) {
+        await NotificationStorage.saveCelebratedMilestones(milestones.record);
       }
 
       await NotificationStorage.saveLastRefresh();
 
+      __DEV__ && console.log(
+        `[INFO] NotificationService: Reconciled notifications - ${result.added.length} added, ` +
+        `${result.updated.length} updated, ${result.removed.length} removed, ` +
+        `${result.unchanged.length} unchanged, ${result.failed.length} failed`
+      );
+      return result;
     } catch (error) {
       __DEV__ && console.error('[ERROR] NotificationService: Error refreshing notifications:', error);
-    } finally {
-      this.isRefreshing = false;
+      return null;
+    }
+  }
+
+  /**
+   * Every notification that should currently be scheduled
+   */
+  private static buildDesiredNotifications(
+    { user, licenses, events, currentProgress }: RefreshInput,
+    settings: NotificationSettings
+  ): ScheduledNotification[] {
+    const allNotifications: ScheduledNotification[] = [];
+
+    // Generate cycle ending notifications
+    if (user && currentProgress !== undefined) {
+      allNotifications.push(...NotificationScheduler.calculateCycleEndingNotifications(
+        user,
+        currentProgress,
+        settings
+      ));
+    }
+
+    // Generate license expiring notifications
+    if (licenses && licenses.length > 0) {
+      allNotifications.push(...NotificationScheduler.calculateLicenseExpiringNotifications(
+        licenses,
+        settings
+      ));
+    }
+
+    // Generate event reminder notifications
+    if (events && events.length > 0) {
+      allNotifications.push(...NotificationScheduler.calculateEventReminders(
+        events,
+        settings
+      ));
+    }
+
+    // Generate "falling behind" pace nudges
+    if (user && currentProgress !== undefined) {
+      allNotifications.push(...NotificationScheduler.calculatePaceNudges(
+        user,
+        currentProgress,
+        settings
+      ));
     }
+
+    return allNotifications;
+  }
+
+  /**
+   * Every cycle, license and event reminder their records call for, including those whose
+   * time has passed. The passed ones may have a "Remind Later" copy that should stay.
+   */
+  private static buildDeliveredIds(
+    { user, licenses, events, currentProgress }: RefreshInput,
+    settings: NotificationSettings
+  ): string[] {
+    const sinceEver = new Date(0);
+    const reminders: ScheduledNotification[] = [];
+
+    if (user && currentProgress !== undefined) {
+      reminders.push(...NotificationScheduler.calculateCycleEndingNotifications(user, currentProgress, settings, sinceEver));
+    }
+    if (licenses && licenses.length > 0) {
+      reminders.push(...NotificationScheduler.calculateLicenseExpiringNotifications(licenses, settings, sinceEver));
+    }
+    if (events && events.length > 0) {
+      reminders.push(...NotificationScheduler.calculateEventReminders(events, settings, sinceEver));
+    }
+
+    return reminders.map(notification => notification.id);
+  }
+
+  /**
+   * The milestone celebrations to keep scheduled - a new one for a milestone just reached,
+   * plus any from earlier refreshes that haven't shown yet - and the celebrated record to
+   * save once they are scheduled. Returns a null record when nothing changed.
+   */
+  private static async planMilestoneCelebration(
+    { user, currentProgress }: RefreshInput,
+    settings: NotificationSettings
+  ): Promise<{ notifications: ScheduledNotification[]; record: CelebratedMilestones | null; celebrationId?: string }> {
+    if (!user || currentProgress === undefined) {
+      return { notifications: [], record: null };
+    }
+
+    const now = new Date();
+    const cycleKey = NotificationScheduler.getMilestoneCycleKey(user, now);
+    const reached = NotificationScheduler.getReachedMilestones(user, currentProgress);
+    const stored = await NotificationStorage.getCelebratedMilestones();
+
+    // First run: progress made before celebrations existed isn't celebrated after the fact
+    if (!stored) {
+      return { notifications: [], record: { cycleKey, milestones: reached } };
+    }
+
+    const celebrated = stored.cycleKey === cycleKey ? stored.milestones : [];
+    const pending = settings.progressReminders.celebrateMilestones
+      ? (await NotificationStorage.getNotificationsByType(NotificationType.PROGRESS_MILESTONE))
+        .filter(notification => notification.scheduledFor > now)
+      : [];
+
+    // Milestones reached while celebrations are off count as celebrated too
+    const milestones = [...new Set([...celebrated, ...reached])].sort((a, b) => a - b);
+    const record = stored.cycleKey !== cycleKey || milestones.length !== stored.milestones.length
+      ? { cycleKey, milestones }
+      : null;
+
+    const celebration = NotificationScheduler.calculateMilestoneNotification(user, currentProgress, celebrated, settings, now);
+    if (!celebration) {
+      return { notifications: pending, record };
+    }
+
+    return {
+      notifications: [...pending.filter(notification => notification.id !== celebration.id), celebration],
+      record,
+      celebrationId: celebration.id,
+    };
   }
 
   /**
@@ -381,16 +596,19 @@ export class NotificationService {
   }
 
   /**
-   * Cancel notification for a specific event reminder
+   * Cancel every notification for a specific event reminder
    */
   static async cancelEventNotification(reminderId: number): Promise<void> {
     try {
       const allNotifications = await Notifications.getAllScheduledNotificationsAsync();
 
-      // Filter notifications for this event
+      // Filter notifications for this event. "Remind Later" copies keep the original's data,
+      // so they match too.
       const eventNotifs = allNotifications.filter(n =>
-        n.content.data?.type === 'cme_event' &&
-        n.content.data?.reminderId === reminderId
+        (n.content.data?.type === NotificationType.CME_EVENT_REMINDER ||
+          n.content.data?.type === NotificationType.EVENT_DEADLINE ||
+          n.content.data?.type === NotificationType.EVENT_ATTENDANCE) &&
+        n.content.data?.entityId === reminderId.toString()
       );
 
       // Cancel each notification
@@ -410,11 +628,15 @@ export class NotificationService {
   private static getCategoryForType(type: NotificationType): string {
     switch (type) {
       case NotificationType.CYCLE_ENDING:
+      case NotificationType.PROGRESS_PACE:
         return 'cycle_ending';
       case NotificationType.LICENSE_EXPIRING:
         return 'license_expiring';
       case NotificationType.CME_EVENT_REMINDER:
+      case NotificationType.EVENT_DEADLINE:
         return 'cme_event';
+      case NotificationType.EVENT_ATTENDANCE:
+        return 'event_attendance';
       default:
         return 'default';
     }
@@ -428,6 +650,7 @@ export class NotificationService {
       case NotificationType.CYCLE_ENDING:
         return Notifications.AndroidNotificationPriority.HIGH;
       case NotificationType.LICENSE_EXPIRING:
+      case NotificationType.EVENT_DEADLINE:
         return Notifications.AndroidNotificationPriority.HIGH;
       case NotificationType.CME_EVENT_REMINDER:
         return Notifications.AndroidNotificationPriority.DEFAULT;
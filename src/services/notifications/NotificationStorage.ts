@@ -1,11 +1,12 @@
 // Notification storage management using AsyncStorage
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { ScheduledNotification, NotificationSettings, DEFAULT_NOTIFICATION_SETTINGS } from './NotificationTypes';
+import { ScheduledNotification, NotificationSettings, CelebratedMilestones, DEFAULT_NOTIFICATION_SETTINGS } from './NotificationTypes';
 
 const STORAGE_KEYS = {
   SCHEDULED_NOTIFICATIONS: '@cme_tracker_scheduled_notifications',
   NOTIFICATION_SETTINGS: '@cme_tracker_notification_settings',
   LAST_REFRESH: '@cme_tracker_notifications_last_refresh',
+  CELEBRATED_MILESTONES: '@cme_tracker_celebrated_milestones',
 } as const;
 
 export class NotificationStorage {
@@ -29,6 +30,21 @@ export class NotificationStorage {
     }
   }
 
+  /**
+   * Replace the stored notifications with `notifications`
+   */
+  static async saveScheduledNotifications(notifications: ScheduledNotification[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        STORAGE_KEYS.SCHEDULED_NOTIFICATIONS,
+        JSON.stringify(notifications)
+      );
+    } catch (error) {
+      __DEV__ && console.error('[ERROR] NotificationStorage: Error saving notifications:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get all scheduled notifications
    */
@@ -169,10 +185,18 @@ export class NotificationStorage {
           ...DEFAULT_NOTIFICATION_SETTINGS.eventReminders,
           ...settings.eventReminders,
         },
+        progressReminders: {
+          ...DEFAULT_NOTIFICATION_SETTINGS.progressReminders,
+          ...settings.progressReminders,
+        },
         quietHours: {
           ...DEFAULT_NOTIFICATION_SETTINGS.quietHours,
           ...settings.quietHours,
         },
+        remindLater: {
+          ...DEFAULT_NOTIFICATION_SETTINGS.remindLater,
+          ...settings.remindLater,
+        },
       };
       
       return merged;
@@ -209,6 +233,30 @@ export class NotificationStorage {
     }
   }
 
+  /**
+   * Save the milestones celebrated in the current cycle
+   */
+  static async saveCelebratedMilestones(record: CelebratedMilestones): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.CELEBRATED_MILESTONES, JSON.stringify(record));
+    } catch (error) {
+      __DEV__ && console.error('[ERROR] NotificationStorage: Error saving celebrated milestones:', error);
+    }
+  }
+
+  /**
+   * Get the milestones celebrated in the current cycle, or null if none were ever recorded
+   */
+  static async getCelebratedMilestones(): Promise<CelebratedMilestones | null> {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.CELEBRATED_MILESTONES);
+      return stored ? JSON.parse(stored) as CelebratedMilestones : null;
+    } catch (error) {
+      __DEV__ && console.error('[ERROR] NotificationStorage: Error getting celebrated milestones:', error);
+      return null;
+    }
+  }
+
   /**
    * Get storage statistics
    */
@@ -3,7 +3,10 @@ export enum NotificationType {
   CYCLE_ENDING = 'cycle_ending',
   LICENSE_EXPIRING = 'license_expiring',
   CME_EVENT_REMINDER = 'cme_event_reminder',
-  PROGRESS_MILESTONE = 'progress_milestone'
+  PROGRESS_MILESTONE = 'progress_milestone',
+  PROGRESS_PACE = 'progress_pace',
+  EVENT_ATTENDANCE = 'event_attendance',
+  EVENT_DEADLINE = 'event_deadline'
 }
 
 export interface ScheduledNotification {
@@ -29,13 +32,21 @@ export interface NotificationSettings {
   };
   eventReminders: {
     enabled: boolean;
-    defaultInterval: number; // Days before event [1]
+    defaultInterval: number; // Days before events that have no reminders of their own [1]
+  };
+  progressReminders: {
+    enabled: boolean; // Nudges when credits fall behind the pace the cycle needs
+    maxNudgesPerWeek: number;
+    celebrateMilestones: boolean; // 25/50/75/100%, once each per cycle
   };
   quietHours: {
     enabled: boolean;
     startTime: string; // "22:00"
     endTime: string;   // "08:00"
   };
+  remindLater: {
+    delayHours: number; // Hours until a notification snoozed with "Remind Later" shows again
+  };
 }
 
 export interface NotificationAction {
@@ -51,9 +62,16 @@ export interface NotificationData {
   currentProgress?: number;
   licenseType?: string;
   eventName?: string;
+  remindLaterOf?: string; // Set on "Remind Later" copies: the id of the original notification
   [key: string]: any;
 }
 
+// Milestones already celebrated in a cycle
+export interface CelebratedMilestones {
+  cycleKey: string; // Start date of the cycle
+  milestones: number[];
+}
+
 // Default notification settings
 export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
   enabled: true,
@@ -69,10 +87,18 @@ export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
     enabled: true,
     defaultInterval: 1
   },
+  progressReminders: {
+    enabled: true,
+    maxNudgesPerWeek: 1,
+    celebrateMilestones: true
+  },
   quietHours: {
     enabled: true,
     startTime: '22:00',
     endTime: '08:00'
+  },
+  remindLater: {
+    delayHours: 24
   }
 };
 
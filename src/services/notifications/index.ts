@@ -3,5 +3,8 @@ export { NotificationService } from './NotificationService';
 export { NotificationPermissions } from './NotificationPermissions';
 export { NotificationStorage } from './NotificationStorage';
 export { NotificationScheduler } from './NotificationScheduler';
+export { NotificationReconciler } from './NotificationReconciler';
+export { NotificationRouter, NOTIFICATION_ACTIONS } from './NotificationRouter';
+export type { NotificationRoute } from './NotificationRouter';
 
 export * from './NotificationTypes';
\ No newline at end of file
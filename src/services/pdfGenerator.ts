@@ -1,7 +1,7 @@
 // PDF Generation Service for CPD & CME Tracker
 import * as Print from 'expo-print';
 import * as Sharing from 'expo-sharing';
-import { CMEEntry, LicenseRenewal, User } from '../types';
+import { CMEEntry, LicenseRenewal, RequirementBreakdown, User } from '../types';
 import { getCreditUnit } from '../utils/creditTerminology';
 import { APP_CONFIG } from '../constants';
 
@@ -216,6 +216,26 @@ const getPDFStyles = (): string => {
         border-bottom: 1px solid #e0e0e0;
       }
 
+      .requirement-group {
+        margin-bottom: 15px;
+      }
+
+      .requirement-group-title {
+        font-weight: bold;
+        color: #003087;
+        margin-bottom: 5px;
+      }
+
+      .requirement-missing {
+        color: #b45309;
+        font-weight: bold;
+      }
+
+      .requirement-met {
+        color: #047857;
+        font-weight: bold;
+      }
+
       .license-card {
         background: #f8f9fa;
         border-left: 4px solid #003087;
@@ -248,12 +268,72 @@ const getPDFStyles = (): string => {
   `;
 };
 
+/**
+ * Generates the per-category requirement section, listing what is still missing
+ */
+const getRequirementBreakdownHTML = (
+  breakdowns: RequirementBreakdown[],
+  creditUnit: string
+): string => {
+  if (breakdowns.length === 0) {
+    return '';
+  }
+
+  const groups = breakdowns
+    .map(breakdown => {
+      const rows = breakdown.categories
+        .map(category => `
+          <tr>
+            <td><strong>${category.category}</strong></td>
+            <td style="text-align: center;">${category.minimumCredits > 0 ? category.minimumCredits : '-'}${category.effectiveCap !== undefined ? ` (max ${category.effectiveCap})` : ''}</td>
+            <td style="text-align: center;">${category.countedCredits}</td>
+            <td style="text-align: center;">
+              ${!category.isMet
+                ? `<span class="requirement-missing">${category.remainingCredits} ${creditUnit} missing</span>`
+                : category.discountedCredits > 0
+                  ? `<span class="requirement-met">Met</span> (${category.discountedCredits} over cap not counted)`
+                  : '<span class="requirement-met">Met</span>'}
+            </td>
+          </tr>
+        `)
+        .join('');
+
+      return `
+        <div class="requirement-group">
+          <div class="requirement-group-title">${breakdown.label}</div>
+          <table>
+            <thead>
+              <tr>
+                <th>Category</th>
+                <th style="text-align: center;">Required</th>
+                <th style="text-align: center;">Completed</th>
+                <th style="text-align: center;">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${rows}
+            </tbody>
+          </table>
+        </div>
+      `;
+    })
+    .join('');
+
+  return `
+    <div class="section">
+      <div class="section-title">Category Requirements</div>
+      ${groups}
+    </div>
+  `;
+};
+
 /**
  * Generates a professional PDF report of CME entries
  */
 export const generateCMEEntriesPDF = async (
   entries: CMEEntry[],
-  user: User
+  user: User,
+  requirementBreakdowns: RequirementBreakdown[] = []
 ): Promise<{ success: boolean; message: string }> => {
   try {
     const creditUnit = getCreditUnit(user.creditSystem || 'CME');
@@ -372,6 +452,8 @@ export const generateCMEEntriesPDF = async (
           </div>
           ` : ''}
 
+          ${getRequirementBreakdownHTML(requirementBreakdowns, creditUnit)}
+
           <div class="section">
             <div class="section-title">All CME Entries (${entries.length} total)</div>
             <table>
@@ -434,7 +516,9 @@ export const generateCMEEntriesPDF = async (
 export const generateSummaryPDF = async (
   user: User,
   entries: CMEEntry[],
-  licenses: LicenseRenewal[]
+  licenses: LicenseRenewal[],
+  requirementBreakdowns: RequirementBreakdown[] = [],
+  carriedOverCredits: number = 0
 ): Promise<{ success: boolean; message: string }> => {
   try {
     const creditUnit = getCreditUnit(user.creditSystem || 'CME');
@@ -448,8 +532,9 @@ export const generateSummaryPDF = async (
       0
     );
 
+    // Carried-over credits count toward the requirement but are shown apart from what was earned
     const progressPercentage = user.annualRequirement > 0
-      ? ((totalCredits / user.annualRequirement) * 100).toFixed(1)
+      ? (((totalCredits + carriedOverCredits) / user.annualRequirement) * 100).toFixed(1)
       : '0';
 
     // License status helper
@@ -540,10 +625,13 @@ export const generateSummaryPDF = async (
             <div class="progress-card">
               <div class="label">Total ${creditUnit} Earned</div>
               <div class="big-number">${totalCredits.toFixed(1)}</div>
+              ${carriedOverCredits > 0 ? `<div class="label">+ ${carriedOverCredits.toFixed(1)} ${creditUnit} Carried Over from Previous Cycle</div>` : ''}
               <div class="label">${progressPercentage}% of ${user.annualRequirement} ${creditUnit} Annual Requirement</div>
             </div>
           </div>
 
+          ${getRequirementBreakdownHTML(requirementBreakdowns, creditUnit)}
+
           ${licenses.length > 0 ? `
           <div class="section">
             <div class="section-title">License Management (${licenses.length} licenses)</div>
@@ -613,7 +701,8 @@ export const generateSummaryPDF = async (
 export const generateLicenseRenewalPDF = async (
   user: User,
   licenses: LicenseRenewal[],
-  relevantEntries: CMEEntry[]
+  relevantEntries: CMEEntry[],
+  requirementBreakdowns: RequirementBreakdown[] = []
 ): Promise<{ success: boolean; message: string }> => {
   try {
     const creditUnit = getCreditUnit(user.creditSystem || 'CME');
@@ -720,6 +809,8 @@ export const generateLicenseRenewalPDF = async (
             </table>
           </div>
 
+          ${getRequirementBreakdownHTML(requirementBreakdowns, creditUnit)}
+
           ${entryRows.length > 0 ? `
           <div class="section">
             <div class="section-title">Supporting CME Activities (${relevantEntries.length} entries)</div>
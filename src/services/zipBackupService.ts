@@ -1,22 +1,136 @@
 // ZIP Backup Service for CME Tracker
-// Handles complete backup with certificates using JSZip
-import JSZip from 'jszip';
+// Handles complete backup with certificates, streamed to and from disk one file at a time
 import * as FileSystem from 'expo-file-system/legacy';
 import { Paths, File } from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
-import { CMEEntry, LicenseRenewal, User, Certificate } from '../types';
+import { bytesToUtf8, utf8ToBytes } from '@noble/ciphers/utils';
+import {
+  CarryOverRule,
+  CMEEntry,
+  CMEEntryLicenseLink,
+  ComplianceCycle,
+  LicenseRenewal,
+  RequirementRule,
+  User,
+  Certificate,
+} from '../types';
 import { APP_CONFIG } from '../constants';
+import { checkBackupCompatibility, migrateBackupPayload } from './backupMigrations';
+import { isSnapshotManifest } from '../utils/backupManifest';
+import {
+  INTEGRITY_MANIFEST_FILE,
+  IntegrityFile,
+  IntegrityManifest,
+  IntegrityReport,
+  UNVERIFIED_ARCHIVE_FILES,
+  buildIntegrityManifest,
+  compareIntegrity,
+  createSha256,
+  describeIntegrityReport,
+  isIntegrityManifest,
+  sha256Hex,
+} from '../utils/backupIntegrity';
+import {
+  ZIP_CHUNK_SIZE,
+  ZipEntry,
+  ZipInput,
+  ZipStreamWriter,
+  readZipEntries,
+  readZipEntry,
+  readZipEntryBytes,
+} from '../utils/zipStream';
+import {
+  BackupByteSource,
+  ENCRYPTED_BACKUP_EXTENSION,
+  ENCRYPTED_BACKUP_HEADER_PEEK_LENGTH,
+  ENCRYPTED_BACKUP_MIME_TYPE,
+  bytesBackupSource,
+  decryptBackup,
+  encryptBackup,
+  hasEncryptedBackupMagic,
+  readEncryptedBackupHeader,
+} from './backupEncryption';
 
 export interface BackupOptions {
   includeCertificates: boolean;
+  passphrase?: string; // Encrypts the whole backup file when set
+  directory?: string; // Where the file is written, defaults to the documents directory
+  baseName?: string; // File name without extension, defaults to a dated name
+  share?: boolean; // Open the share sheet once written, defaults to true
 }
 
+// 'snapshot' is an automatic backup's manifest, restored from the local blob store
+export type BackupFileType = 'json' | 'zip' | 'encrypted' | 'snapshot' | 'unknown';
+
+/**
+ * Asks the user for the passphrase of an encrypted backup. Resolve null to cancel.
+ * 'incorrect' means the previous passphrase failed to decrypt the file.
+ */
+export type PassphraseRequest = (reason: 'required' | 'incorrect') => Promise<string | null>;
+
 export interface BackupProgress {
   step: 'preparing' | 'certificates' | 'zipping' | 'saving' | 'complete';
   progress: number; // 0-100
   message: string;
 }
 
+/**
+ * Certificate metadata stored in backup.json so a restore can re-link
+ * each file in certificates/ to the CME entry it belonged to
+ */
+export interface BackupCertificateRecord {
+  id: number;
+  archiveFileName: string; // Name of the file inside certificates/
+  filePath: string; // Original on-device path, matched against CMEEntry.certificatePath
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  cmeEntryId?: number;
+  createdAt: string;
+}
+
+/**
+ * A file to store under certificates/ in a ZIP backup
+ */
+export interface BackupArchiveFile {
+  archiveFileName: string;
+  uri: string; // Where the file is read from
+}
+
+/**
+ * Requirement rules, carry-over rules and cycle history. License-scoped rules refer
+ * to licenses by their ids in the backup.
+ */
+export interface BackupRequirementRecords {
+  requirementRules: RequirementRule[];
+  carryOverRules: CarryOverRule[];
+  complianceCycles: ComplianceCycle[];
+}
+
+export interface BackupData {
+  backupFormatVersion: number; // Layout of this payload, see backupMigrations.ts
+  version: string; // App version that wrote the backup
+  exportDate: string;
+  includedCertificates?: boolean;
+  user: User;
+  cmeEntries: CMEEntry[];
+  licenses: LicenseRenewal[];
+  certificates?: BackupCertificateRecord[]; // Absent in backups made before restore support
+  entryLicenseLinks?: CMEEntryLicenseLink[]; // Which licenses each entry counts toward
+  requirementRules?: RequirementRule[];
+  carryOverRules?: CarryOverRule[];
+  complianceCycles?: ComplianceCycle[]; // Archived and active requirement cycles
+  integrity?: IntegrityManifest; // Plain JSON backups only - ZIP backups carry integrity.json
+}
+
+export interface BackupVerification {
+  success: boolean; // The backup could be opened and checked
+  cancelled?: boolean; // The passphrase prompt was dismissed
+  hasManifest?: boolean; // False for backups made before integrity manifests
+  report?: IntegrityReport;
+  message: string;
+}
+
 /**
  * Creates a complete backup with optional certificates
  */
@@ -25,6 +139,8 @@ export const createCompleteBackup = async (
   entries: CMEEntry[],
   licenses: LicenseRenewal[],
   certificates: Certificate[],
+  entryLicenseLinks: CMEEntryLicenseLink[],
+  requirementRecords: BackupRequirementRecords,
   options: BackupOptions,
   onProgress?: (progress: BackupProgress) => void
 ): Promise<{ success: boolean; message: string; fileUri?: string }> => {
@@ -36,14 +152,18 @@ export const createCompleteBackup = async (
       message: 'Preparing backup data...',
     });
 
-    const backupData = {
-      version: APP_CONFIG.VERSION,
-      exportDate: new Date().toISOString(),
-      includedCertificates: options.includeCertificates,
+    const outputDirectory = options.directory ?? Paths.document.uri;
+    const shouldShare = options.share ?? true;
+    const dateStamp = new Date().toISOString().split('T')[0];
+    const backupData = buildBackupData(
       user,
-      cmeEntries: entries,
+      entries,
       licenses,
-    };
+      certificates,
+      entryLicenseLinks,
+      requirementRecords,
+      options.includeCertificates
+    );
 
     if (!options.includeCertificates) {
       // Simple JSON backup without certificates
@@ -53,13 +173,17 @@ export const createCompleteBackup = async (
         message: 'Creating backup file...',
       });
 
-      const backupContent = JSON.stringify(backupData, null, 2);
-      const timestamp = new Date().toISOString().split('T')[0];
-      const fileName = `cme_backup_${timestamp}.json`;
-      const file = new File(Paths.document, fileName);
+      const backupContent = JSON.stringify({ ...backupData, integrity: buildIntegrityManifest(backupData, {}) }, null, 2);
+      const baseName = options.baseName ?? `cme_backup_${dateStamp}`;
+      let file: File;
 
-      await file.create();
-      file.write(backupContent, { encoding: 'utf8' });
+      if (options.passphrase) {
+        file = await saveEncryptedBackup(outputDirectory, baseName, bytesBackupSource(utf8ToBytes(backupContent)), options.passphrase, onProgress);
+      } else {
+        file = new File(outputDirectory, `${baseName}.json`);
+        await file.create();
+        file.write(backupContent, { encoding: 'utf8' });
+      }
 
       onProgress?.({
         step: 'complete',
@@ -68,40 +192,131 @@ export const createCompleteBackup = async (
       });
 
       // Share file
-      if (await Sharing.isAvailableAsync()) {
+      if (shouldShare && await Sharing.isAvailableAsync()) {
         await Sharing.shareAsync(file.uri, {
-          mimeType: 'application/json',
+          mimeType: options.passphrase ? ENCRYPTED_BACKUP_MIME_TYPE : 'application/json',
           dialogTitle: 'CPD & CME Tracker Backup',
         });
       }
 
       return {
         success: true,
-        message: `Backup created successfully (${entries.length} entries, ${licenses.length} licenses)`,
+        message: `${options.passphrase ? 'Encrypted backup' : 'Backup'} created successfully (${entries.length} entries, ${licenses.length} licenses)`,
         fileUri: file.uri,
       };
     }
 
-    // Create ZIP backup with certificates
-    const zip = new JSZip();
+    return await writeZipBackup(
+      backupData,
+      (backupData.certificates || []).map(record => ({ archiveFileName: record.archiveFileName, uri: record.filePath })),
+      { ...options, baseName: options.baseName ?? `cme_complete_backup_${dateStamp}` },
+      onProgress
+    );
+  } catch (error) {
+    __DEV__ && console.error('Error creating complete backup:', error);
 
-    // Add backup.json to root
     onProgress?.({
-      step: 'preparing',
-      progress: 20,
-      message: 'Adding data to backup...',
+      step: 'complete',
+      progress: 0,
+      message: 'Failed to create backup',
     });
 
-    zip.file('backup.json', JSON.stringify(backupData, null, 2));
+    return {
+      success: false,
+      message: `Failed to create backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+};
 
-    // Add README
-    const readme = `CME TRACKER COMPLETE BACKUP
+/**
+ * The records a backup carries. Certificate records name the file each certificate
+ * is stored under, so a restore can re-link it to its entry.
+ */
+export const buildBackupData = (
+  user: User,
+  entries: CMEEntry[],
+  licenses: LicenseRenewal[],
+  certificates: Certificate[],
+  entryLicenseLinks: CMEEntryLicenseLink[],
+  requirementRecords: BackupRequirementRecords,
+  includeCertificates: boolean
+): BackupData => {
+  const archiveFileNames = getArchiveFileNames(certificates);
+
+  return {
+    backupFormatVersion: APP_CONFIG.BACKUP_FORMAT_VERSION,
+    version: APP_CONFIG.VERSION,
+    exportDate: new Date().toISOString(),
+    includedCertificates: includeCertificates,
+    user,
+    cmeEntries: entries,
+    licenses,
+    certificates: includeCertificates
+      ? certificates.map(cert => ({
+          id: cert.id,
+          archiveFileName: archiveFileNames.get(cert.id)!,
+          filePath: cert.filePath,
+          fileName: cert.fileName,
+          fileSize: cert.fileSize,
+          mimeType: cert.mimeType,
+          cmeEntryId: cert.cmeEntryId,
+          createdAt: cert.createdAt,
+        }))
+      : [],
+    entryLicenseLinks,
+    requirementRules: requirementRecords.requirementRules,
+    carryOverRules: requirementRecords.carryOverRules,
+    complianceCycles: requirementRecords.complianceCycles,
+  };
+};
+
+/**
+ * Writes a ZIP backup of `backupData` with each file stored under certificates/.
+ * Files are read from `uri`, which need not be the path recorded in the backup.
+ */
+export const writeZipBackup = async (
+  backupData: BackupData,
+  files: BackupArchiveFile[],
+  options: BackupOptions,
+  onProgress?: (progress: BackupProgress) => void
+): Promise<{ success: boolean; message: string; fileUri?: string }> => {
+  try {
+    const outputDirectory = options.directory ?? Paths.document.uri;
+    const shouldShare = options.share ?? true;
+    const entries = backupData.cmeEntries;
+    const licenses = backupData.licenses;
+
+    const baseName = options.baseName ?? `cme_complete_backup_${new Date().toISOString().split('T')[0]}`;
+    // Encrypted backups are sealed from a finished ZIP, so it is staged in the cache first
+    const zipFile = new File(options.passphrase ? Paths.cache : outputDirectory, `${baseName}.zip`);
+    zipFile.create({ overwrite: true });
+    const handle = zipFile.open();
+
+    try {
+      const writer = new ZipStreamWriter({ write: bytes => handle.writeBytes(bytes) });
+      const hashedFiles: Record<string, IntegrityFile> = {};
+
+      // Add backup.json to root
+      onProgress?.({
+        step: 'preparing',
+        progress: 20,
+        message: 'Adding data to backup...',
+      });
+
+      const backupJson = utf8ToBytes(JSON.stringify(backupData, null, 2));
+      writer.addBytes('backup.json', backupJson);
+      hashedFiles['backup.json'] = { sha256: sha256Hex(backupJson), size: backupJson.length };
+
+      // Add README
+      const readme = `CME TRACKER COMPLETE BACKUP
 Generated: ${new Date().toLocaleString()}
 Version: ${APP_CONFIG.VERSION}
+Backup format: ${APP_CONFIG.BACKUP_FORMAT_VERSION}
 
 CONTENTS:
 - backup.json: All your CME entries, licenses, and user data
-- certificates/: ${certificates.length} certificate images
+- certificates/: ${files.length} certificate images
+- integrity.json: SHA-256 checksums of everything above
 
 TO RESTORE:
 1. Open CME Tracker app
@@ -112,88 +327,99 @@ TO RESTORE:
 This backup includes:
 - ${entries.length} CME entries
 - ${licenses.length} licenses
-- ${certificates.length} certificates
+- ${files.length} certificates
 - User profile data
 
 IMPORTANT: Keep this file secure as it contains your professional records.
 `;
 
-    zip.file('README.txt', readme);
-
-    // Add certificates if any exist
-    if (certificates.length > 0) {
-      onProgress?.({
-        step: 'certificates',
-        progress: 30,
-        message: `Adding ${certificates.length} certificates...`,
-      });
+      writer.addBytes('README.txt', utf8ToBytes(readme));
 
-      const certificatesFolder = zip.folder('certificates');
-      let processedCount = 0;
+      // Certificates are copied into the archive a chunk at a time
+      if (files.length > 0) {
+        onProgress?.({
+          step: 'certificates',
+          progress: 30,
+          message: `Adding ${files.length} certificates...`,
+        });
 
-      for (const cert of certificates) {
-        try {
-          // Read certificate file
-          const fileInfo = await FileSystem.getInfoAsync(cert.filePath);
+        let processedCount = 0;
 
-          if (fileInfo.exists) {
-            // Read file as base64
-            const fileContent = await FileSystem.readAsStringAsync(cert.filePath, {
-              encoding: FileSystem.EncodingType.Base64,
-            });
+        for (const file of files) {
+          const fileInfo = await FileSystem.getInfoAsync(file.uri);
+          if (!fileInfo.exists) {
+            __DEV__ && console.warn(`Certificate file not found: ${file.uri}`);
+            continue;
+          }
 
-            // Add to ZIP with original filename
-            const fileName = cert.fileName || `certificate_${cert.id}${getFileExtension(cert.mimeType)}`;
-            certificatesFolder?.file(fileName, fileContent, { base64: true });
+          let source;
+          try {
+            source = new File(file.uri).open();
+          } catch (error) {
+            __DEV__ && console.error(`Error adding certificate ${file.archiveFileName}:`, error);
+            continue; // Nothing written yet, so the other certificates can still go in
+          }
 
-            processedCount++;
+          const archivePath = `certificates/${file.archiveFileName}`;
+          const hash = createSha256();
 
-            // Update progress
-            const certProgress = 30 + Math.floor((processedCount / certificates.length) * 40);
-            onProgress?.({
-              step: 'certificates',
-              progress: certProgress,
-              message: `Added ${processedCount}/${certificates.length} certificates...`,
+          try {
+            const size = source.size ?? 0;
+            let read = 0;
+            writer.addStream(archivePath, () => {
+              if (read >= size) {
+                return null;
+              }
+              const chunk = source.readBytes(Math.min(ZIP_CHUNK_SIZE, size - read));
+              read += chunk.length;
+              hash.update(chunk);
+              return chunk.length > 0 ? chunk : null;
             });
-          } else {
-            __DEV__ && console.warn(`Certificate file not found: ${cert.filePath}`);
+            hashedFiles[archivePath] = { sha256: hash.digest(), size: read };
+          } finally {
+            source.close();
           }
-        } catch (error) {
-          __DEV__ && console.error(`Error adding certificate ${cert.id}:`, error);
-          // Continue with other certificates
+
+          processedCount++;
+
+          // Update progress
+          const certProgress = 30 + Math.floor((processedCount / files.length) * 40);
+          onProgress?.({
+            step: 'certificates',
+            progress: certProgress,
+            message: `Added ${processedCount}/${files.length} certificates...`,
+          });
         }
       }
-    }
 
-    // Generate ZIP
-    onProgress?.({
-      step: 'zipping',
-      progress: 75,
-      message: 'Compressing backup...',
-    });
-
-    const zipContent = await zip.generateAsync({
-      type: 'base64',
-      compression: 'DEFLATE',
-      compressionOptions: {
-        level: 6, // Medium compression (1-9)
-      },
-    });
+      onProgress?.({
+        step: 'zipping',
+        progress: 75,
+        message: 'Finishing backup...',
+      });
 
-    // Save ZIP file
-    onProgress?.({
-      step: 'saving',
-      progress: 90,
-      message: 'Saving backup file...',
-    });
+      const integrity = buildIntegrityManifest(backupData, hashedFiles);
+      writer.addBytes(INTEGRITY_MANIFEST_FILE, utf8ToBytes(JSON.stringify(integrity, null, 2)));
+      writer.finish();
+    } catch (error) {
+      // Never leave a truncated archive behind that looks like a backup
+      handle.close();
+      zipFile.delete();
+      throw error;
+    }
+    handle.close();
 
-    const timestamp = new Date().toISOString().split('T')[0];
-    const fileName = `cme_complete_backup_${timestamp}.zip`;
-    const zipPath = `${FileSystem.documentDirectory}${fileName}`;
+    let zipPath = zipFile.uri;
 
-    await FileSystem.writeAsStringAsync(zipPath, zipContent, {
-      encoding: FileSystem.EncodingType.Base64,
-    });
+    if (options.passphrase) {
+      const archive = openFileInput(zipFile.uri);
+      try {
+        zipPath = (await saveEncryptedBackup(outputDirectory, baseName, archive.input, options.passphrase, onProgress)).uri;
+      } finally {
+        archive.close();
+        zipFile.delete();
+      }
+    }
 
     onProgress?.({
       step: 'complete',
@@ -202,9 +428,9 @@ IMPORTANT: Keep this file secure as it contains your professional records.
     });
 
     // Share ZIP file
-    if (await Sharing.isAvailableAsync()) {
+    if (shouldShare && await Sharing.isAvailableAsync()) {
       await Sharing.shareAsync(zipPath, {
-        mimeType: 'application/zip',
+        mimeType: options.passphrase ? ENCRYPTED_BACKUP_MIME_TYPE : 'application/zip',
         dialogTitle: 'CPD & CME Tracker Complete Backup',
       });
     }
@@ -217,7 +443,7 @@ IMPORTANT: Keep this file secure as it contains your professional records.
 
     return {
       success: true,
-      message: `Complete backup created successfully!\n\n${entries.length} entries\n${licenses.length} licenses\n${certificates.length} certificates\n\nFile size: ${fileSizeMB} MB`,
+      message: `${options.passphrase ? 'Encrypted complete backup' : 'Complete backup'} created successfully!\n\n${entries.length} entries\n${licenses.length} licenses\n${files.length} certificates\n\nFile size: ${fileSizeMB} MB`,
       fileUri: zipPath,
     };
   } catch (error) {
@@ -236,6 +462,57 @@ IMPORTANT: Keep this file secure as it contains your professional records.
   }
 };
 
+/**
+ * Encrypts a finished .json or .zip backup and writes it in its place, a chunk at a time
+ */
+async function saveEncryptedBackup(
+  directory: string,
+  baseName: string,
+  plaintext: BackupByteSource,
+  passphrase: string,
+  onProgress?: (progress: BackupProgress) => void
+): Promise<File> {
+  onProgress?.({
+    step: 'saving',
+    progress: 85,
+    message: 'Encrypting backup...',
+  });
+
+  const file = new File(directory, `${baseName}${ENCRYPTED_BACKUP_EXTENSION}`);
+  file.create({ overwrite: true });
+  const handle = file.open();
+
+  try {
+    await encryptBackup(plaintext, { write: bytes => handle.writeBytes(bytes) }, passphrase);
+  } catch (error) {
+    handle.close();
+    file.delete();
+    throw error;
+  }
+  handle.close();
+  return file;
+}
+
+/**
+ * Names each certificate is stored under inside the certificates/ folder.
+ * Uploaded documents keep their original names, so clashes are prefixed with the id.
+ */
+function getArchiveFileNames(certificates: Certificate[]): Map<number, string> {
+  const names = new Map<number, string>();
+  const used = new Set<string>();
+
+  for (const cert of certificates) {
+    let name = cert.fileName || `certificate_${cert.id}${getFileExtension(cert.mimeType)}`;
+    if (used.has(name)) {
+      name = `${cert.id}_${name}`;
+    }
+    used.add(name);
+    names.set(cert.id, name);
+  }
+
+  return names;
+}
+
 /**
  * Get file extension from MIME type
  */
@@ -253,11 +530,12 @@ function getFileExtension(mimeType: string): string {
 }
 
 /**
- * Validates if a file is a valid backup (JSON or ZIP)
+ * Validates if a file is a valid backup (JSON, ZIP or encrypted).
+ * Encrypted backups can only be checked as far as their header without the passphrase.
  */
 export const isValidBackupFile = async (fileUri: string): Promise<{
   isValid: boolean;
-  type: 'json' | 'zip' | 'unknown';
+  type: BackupFileType;
   message: string;
 }> => {
   try {
@@ -267,6 +545,22 @@ export const isValidBackupFile = async (fileUri: string): Promise<{
       return { isValid: false, type: 'unknown', message: 'File not found' };
     }
 
+    // Detected by content, since share targets don't always keep an unfamiliar extension
+    const leadingBytes = readLeadingBytes(fileUri, ENCRYPTED_BACKUP_HEADER_PEEK_LENGTH);
+    if (hasEncryptedBackupMagic(leadingBytes)) {
+      try {
+        readEncryptedBackupHeader(leadingBytes);
+      } catch (error) {
+        return {
+          isValid: false,
+          type: 'encrypted',
+          message: error instanceof Error ? error.message : 'Unreadable encrypted backup',
+        };
+      }
+
+      return { isValid: true, type: 'encrypted', message: 'Encrypted backup - the passphrase is needed to restore it' };
+    }
+
     // Check file extension
     const fileName = fileUri.toLowerCase();
 
@@ -275,53 +569,403 @@ export const isValidBackupFile = async (fileUri: string): Promise<{
       const content = await FileSystem.readAsStringAsync(fileUri);
       const data = JSON.parse(content);
 
-      // Validate structure
-      if (data.version && data.exportDate && (data.user || data.cmeEntries)) {
-        return { isValid: true, type: 'json', message: 'Valid JSON backup' };
+      if (isSnapshotManifest(data)) {
+        return validateBackupPayload(data.backupData, 'snapshot');
       }
 
-      return { isValid: false, type: 'json', message: 'Invalid backup structure' };
+      return validateBackupPayload(data, 'json');
     }
 
     if (fileName.endsWith('.zip')) {
-      return { isValid: true, type: 'zip', message: 'Valid ZIP backup (certificates included)' };
+      const archive = openFileInput(fileUri);
+      try {
+        const data = readBackupJson(archive.input, readZipEntries(archive.input));
+
+        if (data === null) {
+          return { isValid: false, type: 'zip', message: 'Invalid backup: backup.json not found in ZIP file' };
+        }
+
+        return validateBackupPayload(data, 'zip');
+      } finally {
+        archive.close();
+      }
     }
 
-    return { isValid: false, type: 'unknown', message: 'Unsupported file format. Please select a .json or .zip backup file.' };
+    return {
+      isValid: false,
+      type: 'unknown',
+      message: `Unsupported file format. Please select a .json, .zip or ${ENCRYPTED_BACKUP_EXTENSION} backup file.`,
+    };
   } catch (error) {
     return { isValid: false, type: 'unknown', message: 'Unable to read backup file' };
   }
 };
 
 /**
- * Extracts backup data from ZIP file
+ * Opens a file, such as a ZIP archive or an encrypted backup, for random-access reads
+ */
+function openFileInput(fileUri: string): { input: ZipInput; close: () => void } {
+  const handle = new File(fileUri).open();
+  return {
+    input: {
+      size: handle.size ?? 0,
+      read: (offset, length) => {
+        handle.offset = offset;
+        return handle.readBytes(length);
+      },
+    },
+    close: () => handle.close(),
+  };
+}
+
+/**
+ * Parsed backup.json of an archive, or null if it has none
+ */
+function readBackupJson(input: ZipInput, entries: ZipEntry[]): any {
+  const entry = entries.find(item => item.name === 'backup.json');
+  return entry ? JSON.parse(bytesToUtf8(readZipEntryBytes(input, entry))) : null;
+}
+
+/**
+ * Streams one archive entry into a new file
+ */
+function extractZipEntry(input: ZipInput, entry: ZipEntry, fileUri: string): void {
+  const file = new File(fileUri);
+  file.create({ overwrite: true });
+  const handle = file.open();
+  try {
+    readZipEntry(input, entry, chunk => handle.writeBytes(chunk));
+  } finally {
+    handle.close();
+  }
+}
+
+// File handles are synchronous, so yield between files to let progress updates render
+const yieldToUi = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Reads up to `length` bytes from the start of a file
+ */
+function readLeadingBytes(fileUri: string, length: number): Uint8Array {
+  const handle = new File(fileUri).open();
+  try {
+    return handle.readBytes(Math.min(length, handle.size ?? 0));
+  } finally {
+    handle.close();
+  }
+}
+
+/**
+ * ZIP archives start with a local file header signature, "PK\x03\x04"
+ */
+function isZipArchive(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
+
+/**
+ * Whether a file is an encrypted backup, judged by its first bytes
+ */
+export const isEncryptedBackupFile = (fileUri: string): boolean =>
+  hasEncryptedBackupMagic(readLeadingBytes(fileUri, ENCRYPTED_BACKUP_HEADER_PEEK_LENGTH));
+
+/**
+ * Decrypts an encrypted backup into a temporary .json or .zip file in the cache, a chunk at
+ * a time, prompting for the passphrase until it opens. Verifying and restoring read that file
+ * like any other backup, so an import only decrypts once; the caller removes it afterwards
+ * with discardDecryptedBackup. Returns null when the prompt is cancelled.
+ */
+export const decryptBackupFile = async (
+  fileUri: string,
+  requestPassphrase: PassphraseRequest | undefined,
+  onProgress?: (progress: BackupProgress) => void
+): Promise<string | null> => {
+  if (!requestPassphrase) {
+    throw new Error('This backup is encrypted and needs its passphrase');
+  }
+
+  const source = openFileInput(fileUri);
+  const decrypted = new File(Paths.cache, `backup_decrypted_${Date.now()}`);
+  let opened = false;
+
+  try {
+    let reason: 'required' | 'incorrect' = 'required';
+    while (!opened) {
+      const passphrase = await requestPassphrase(reason);
+      if (passphrase === null) {
+        return null;
+      }
+
+      onProgress?.({
+        step: 'preparing',
+        progress: 20,
+        message: 'Decrypting backup...',
+      });
+
+      decrypted.create({ overwrite: true });
+      const handle = decrypted.open();
+      try {
+        opened = await decryptBackup(source.input, { write: bytes => handle.writeBytes(bytes) }, passphrase);
+      } finally {
+        handle.close();
+      }
+      reason = 'incorrect';
+    }
+
+    // Named by content so isValidBackupFile and restores treat it like the unencrypted backup
+    decrypted.rename(`${decrypted.name}${isZipArchive(readLeadingBytes(decrypted.uri, 4)) ? '.zip' : '.json'}`);
+    return decrypted.uri;
+  } finally {
+    source.close();
+    if (!opened && decrypted.exists) {
+      decrypted.delete();
+    }
+  }
+};
+
+/**
+ * Removes a file written by decryptBackupFile
+ */
+export const discardDecryptedBackup = async (fileUri: string): Promise<void> => {
+  await FileSystem.deleteAsync(fileUri, { idempotent: true }).catch(() => {});
+};
+
+/**
+ * Checks the structure and format version of a parsed backup.json
+ */
+function validateBackupPayload(data: any, type: 'json' | 'zip' | 'snapshot'): {
+  isValid: boolean;
+  type: 'json' | 'zip' | 'snapshot';
+  message: string;
+} {
+  if (!data || !data.version || !data.exportDate || !(data.user || data.cmeEntries)) {
+    return { isValid: false, type, message: 'Invalid backup structure' };
+  }
+
+  const incompatibility = checkBackupCompatibility(data);
+  if (incompatibility) {
+    return { isValid: false, type, message: incompatibility };
+  }
+
+  return {
+    isValid: true,
+    type,
+    message: type === 'zip'
+      ? 'Valid ZIP backup (certificates included)'
+      : type === 'snapshot' ? 'Valid automatic backup (certificates included)' : 'Valid JSON backup',
+  };
+}
+
+/**
+ * Re-hashes a backup's contents against its integrity manifest and reports missing, extra
+ * or corrupt items, without restoring anything. Backups made before manifests existed are
+ * only checked against the ZIP's own CRCs.
+ */
+export const verifyBackupFile = async (
+  fileUri: string,
+  requestPassphrase?: PassphraseRequest,
+  onProgress?: (progress: BackupProgress) => void
+): Promise<BackupVerification> => {
+  let closeArchive = () => {};
+  let decryptedUri: string | null = null;
+
+  try {
+    onProgress?.({
+      step: 'preparing',
+      progress: 10,
+      message: 'Reading backup file...',
+    });
+
+    let backupUri = fileUri;
+    if (isEncryptedBackupFile(fileUri)) {
+      decryptedUri = await decryptBackupFile(fileUri, requestPassphrase, onProgress);
+      if (!decryptedUri) {
+        return { success: false, cancelled: true, message: 'Verification cancelled' };
+      }
+      backupUri = decryptedUri;
+    }
+
+    let archive: ZipInput | null = null;
+    let json: any = null;
+
+    if (isZipArchive(readLeadingBytes(backupUri, 4))) {
+      const opened = openFileInput(backupUri);
+      archive = opened.input;
+      closeArchive = opened.close;
+    } else {
+      json = JSON.parse(await FileSystem.readAsStringAsync(backupUri));
+    }
+
+    if (!archive) {
+      if (isSnapshotManifest(json)) {
+        return { success: false, message: 'Automatic backups are verified from the Auto Backups screen' };
+      }
+
+      const { integrity, ...backupData } = json;
+      if (!isIntegrityManifest(integrity)) {
+        return {
+          success: true,
+          hasManifest: false,
+          message: 'This backup was made before checksums were added, so it can be read but not checked for changes.',
+        };
+      }
+
+      const report = compareIntegrity(integrity, buildIntegrityManifest(backupData, {}));
+      return { success: true, hasManifest: true, report, message: describeIntegrityReport(report) };
+    }
+
+    const entries = readZipEntries(archive).filter(entry => !entry.name.endsWith('/'));
+    const actualFiles: Record<string, IntegrityFile> = {};
+    const unreadable: string[] = [];
+    let expected: IntegrityManifest | null = null;
+    let backupJson: any = null;
+
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+
+      try {
+        if (entry.name === INTEGRITY_MANIFEST_FILE) {
+          const manifest = JSON.parse(bytesToUtf8(readZipEntryBytes(archive, entry)));
+          expected = isIntegrityManifest(manifest) ? manifest : null;
+        } else if (entry.name === 'backup.json') {
+          const bytes = readZipEntryBytes(archive, entry);
+          actualFiles[entry.name] = { sha256: sha256Hex(bytes), size: bytes.length };
+          backupJson = JSON.parse(bytesToUtf8(bytes));
+        } else if (!UNVERIFIED_ARCHIVE_FILES.includes(entry.name)) {
+          const hash = createSha256();
+          let size = 0;
+          readZipEntry(archive, entry, chunk => {
+            hash.update(chunk);
+            size += chunk.length;
+          });
+          actualFiles[entry.name] = { sha256: hash.digest(), size };
+        }
+      } catch (error) {
+        // Failed CRC, bad compressed data or unparseable JSON
+        __DEV__ && console.warn(`[WARN] verifyBackupFile: ${entry.name} is unreadable:`, error);
+        unreadable.push(entry.name);
+        actualFiles[entry.name] = { sha256: '', size: 0 };
+      }
+
+      onProgress?.({
+        step: 'certificates',
+        progress: 10 + Math.floor(((i + 1) / entries.length) * 85),
+        message: `Checked ${i + 1}/${entries.length} files...`,
+      });
+      await yieldToUi();
+    }
+
+    let report: IntegrityReport;
+    if (expected) {
+      // A damaged backup.json is already reported, so its records are left out rather than all listed as missing
+      const actual = backupJson ? buildIntegrityManifest(backupJson, actualFiles) : { ...expected, files: actualFiles };
+      report = compareIntegrity(expected, actual);
+    } else {
+      report = {
+        isValid: unreadable.length === 0,
+        checked: Object.keys(actualFiles).length,
+        missing: [],
+        extra: [],
+        corrupt: unreadable,
+      };
+    }
+
+    // Certificates whose file was already gone when the backup was made
+    const notArchived = (backupJson?.certificates || [])
+      .filter((record: BackupCertificateRecord) => !(`certificates/${record.archiveFileName}` in actualFiles))
+      .map((record: BackupCertificateRecord) => `certificates/${record.archiveFileName} (not found when backed up)`);
+    if (notArchived.length > 0) {
+      report = { ...report, isValid: false, missing: [...report.missing, ...notArchived] };
+    }
+
+    onProgress?.({
+      step: 'complete',
+      progress: 100,
+      message: 'Verification complete',
+    });
+
+    const message = expected
+      ? describeIntegrityReport(report)
+      : report.isValid
+        ? `This backup was made before checksums were added. All ${report.checked} files are readable, but they can't be checked for changes.`
+        : describeIntegrityReport(report);
+
+    return { success: true, hasManifest: expected !== null, report, message };
+  } catch (error) {
+    __DEV__ && console.error('Error verifying backup:', error);
+
+    return {
+      success: false,
+      message: `Unable to read backup file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  } finally {
+    closeArchive();
+    if (decryptedUri) {
+      await discardDecryptedBackup(decryptedUri);
+    }
+  }
+};
+
+/**
+ * Extracts backup data from a ZIP file, or from an encrypted backup after asking for
+ * its passphrase. An encrypted backup may hold a plain backup.json instead of a ZIP.
+ * Certificates are streamed into `extractedDirectory` in the cache one at a time;
+ * the caller deletes it once the files have been copied where they belong.
  */
 export const extractZipBackup = async (
   zipUri: string,
-  onProgress?: (progress: BackupProgress) => void
+  onProgress?: (progress: BackupProgress) => void,
+  requestPassphrase?: PassphraseRequest
 ): Promise<{
   success: boolean;
-  backupData?: {
-    version: string;
-    exportDate: string;
-    user: User;
-    cmeEntries: CMEEntry[];
-    licenses: LicenseRenewal[];
-  };
-  certificates?: Array<{ fileName: string; base64Data: string }>;
+  cancelled?: boolean; // The passphrase prompt was dismissed
+  backupData?: BackupData;
+  certificates?: Array<{ fileName: string; uri: string }>;
+  extractedDirectory?: string;
   message: string;
 }> => {
+  let closeArchive = () => {};
+  let decryptedUri: string | null = null;
+  let extractedDirectory: string | undefined;
+
   try {
     onProgress?.({
       step: 'preparing',
       progress: 10,
-      message: 'Reading ZIP file...',
+      message: 'Reading backup file...',
     });
 
-    // Read ZIP file
-    const zipContent = await FileSystem.readAsStringAsync(zipUri, {
-      encoding: FileSystem.EncodingType.Base64,
-    });
+    let archiveUri = zipUri;
+
+    if (isEncryptedBackupFile(zipUri)) {
+      decryptedUri = await decryptBackupFile(zipUri, requestPassphrase, onProgress);
+      if (!decryptedUri) {
+        return { success: false, cancelled: true, message: 'Restore cancelled' };
+      }
+
+      if (!isZipArchive(readLeadingBytes(decryptedUri, 4))) {
+        const migrated = migrateBackupPayload(JSON.parse(await FileSystem.readAsStringAsync(decryptedUri)));
+
+        if (!migrated.success || !migrated.data) {
+          return {
+            success: false,
+            message: migrated.error || 'Unsupported backup format',
+          };
+        }
+
+        return {
+          success: true,
+          backupData: migrated.data,
+          certificates: [],
+          message: 'Successfully decrypted backup',
+        };
+      }
+
+      archiveUri = decryptedUri;
+    }
+
+    const opened = openFileInput(archiveUri);
+    const archive = opened.input;
+    closeArchive = opened.close;
 
     onProgress?.({
       step: 'zipping',
@@ -329,13 +973,10 @@ export const extractZipBackup = async (
       message: 'Extracting backup...',
     });
 
-    // Load ZIP
-    const zip = await JSZip.loadAsync(zipContent, { base64: true });
-
-    // Extract backup.json
-    const backupFile = zip.file('backup.json');
+    const entries = readZipEntries(archive);
+    const backupJson = readBackupJson(archive, entries);
 
-    if (!backupFile) {
+    if (backupJson === null) {
       return {
         success: false,
         message: 'Invalid backup: backup.json not found in ZIP file',
@@ -348,40 +989,47 @@ export const extractZipBackup = async (
       message: 'Reading backup data...',
     });
 
-    const backupContent = await backupFile.async('string');
-    const backupData = JSON.parse(backupContent);
+    const migrated = migrateBackupPayload(backupJson);
+
+    if (!migrated.success || !migrated.data) {
+      return {
+        success: false,
+        message: migrated.error || 'Unsupported backup format',
+      };
+    }
+
+    const backupData = migrated.data;
 
     // Extract certificates if they exist
-    const certificates: Array<{ fileName: string; base64Data: string }> = [];
-    const certFolder = zip.folder('certificates');
+    const certificates: Array<{ fileName: string; uri: string }> = [];
+    const certEntries = entries.filter(entry => entry.name.startsWith('certificates/') && !entry.name.endsWith('/'));
 
-    if (certFolder) {
+    if (certEntries.length > 0) {
       onProgress?.({
         step: 'certificates',
         progress: 60,
         message: 'Extracting certificates...',
       });
 
-      const certFiles = Object.keys(zip.files).filter(name => name.startsWith('certificates/') && !name.endsWith('/'));
+      extractedDirectory = `${FileSystem.cacheDirectory}backup_extract_${Date.now()}/`;
+      await FileSystem.makeDirectoryAsync(extractedDirectory, { intermediates: true });
 
-      let processedCount = 0;
-      for (const fileName of certFiles) {
-        const file = zip.file(fileName);
-        if (file) {
-          const base64Data = await file.async('base64');
-          certificates.push({
-            fileName: fileName.replace('certificates/', ''),
-            base64Data,
-          });
+      for (let i = 0; i < certEntries.length; i++) {
+        // Archive names can contain anything, so extracted files are numbered instead
+        const uri = `${extractedDirectory}${i}`;
+        extractZipEntry(archive, certEntries[i], uri);
+        certificates.push({
+          fileName: certEntries[i].name.replace('certificates/', ''),
+          uri,
+        });
 
-          processedCount++;
-          const certProgress = 60 + Math.floor((processedCount / certFiles.length) * 30);
-          onProgress?.({
-            step: 'certificates',
-            progress: certProgress,
-            message: `Extracted ${processedCount}/${certFiles.length} certificates...`,
-          });
-        }
+        const certProgress = 60 + Math.floor(((i + 1) / certEntries.length) * 30);
+        onProgress?.({
+          step: 'certificates',
+          progress: certProgress,
+          message: `Extracted ${i + 1}/${certEntries.length} certificates...`,
+        });
+        await yieldToUi();
       }
     }
 
@@ -395,14 +1043,24 @@ export const extractZipBackup = async (
       success: true,
       backupData,
       certificates,
+      extractedDirectory,
       message: `Successfully extracted backup with ${certificates.length} certificates`,
     };
   } catch (error) {
     __DEV__ && console.error('Error extracting ZIP backup:', error);
 
+    if (extractedDirectory) {
+      await FileSystem.deleteAsync(extractedDirectory, { idempotent: true }).catch(() => {});
+    }
+
     return {
       success: false,
       message: `Failed to extract backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
     };
+  } finally {
+    closeArchive();
+    if (decryptedUri) {
+      await discardDecryptedBackup(decryptedUri);
+    }
   }
 };
@@ -1,3 +1,9 @@
 // Export theme tokens and utilities - simplified for backwards compatibility
 export { tokens, getColor } from './tokens';
-export type { ColorToken } from './tokens';
\ No newline at end of file
+export type { ColorToken } from './tokens';
+export { lightColors, darkColors } from './palettes';
+export type { ThemeColors } from './palettes';
+export { lightTheme, darkTheme } from '../constants/theme';
+export type { AppTheme } from '../constants/theme';
+export { ThemeProvider, useTheme, useThemeContext, useThemedStyles } from '../contexts/ThemeContext';
+export type { ThemeMode } from '../contexts/ThemeContext';
\ No newline at end of file
@@ -0,0 +1,293 @@
+// Color palettes for each theme mode. Components read these through useTheme(),
+// so every key here must exist in both palettes.
+import { tokens } from './tokens';
+
+export interface ThemeColors {
+  primary: string;
+  primaryDark: string;
+  primaryLight: string;
+
+  secondary: string;
+  secondaryDark: string;
+  secondaryLight: string;
+
+  // Literal white and black - text on colored buttons stays white in both modes
+  white: string;
+  black: string;
+
+  // Runs from the background end (50) to the text end (900), so it flips in dark mode
+  gray: {
+    50: string;
+    100: string;
+    200: string;
+    300: string;
+    400: string;
+    500: string;
+    600: string;
+    700: string;
+    800: string;
+    900: string;
+    light: string;
+    medium: string;
+    dark: string;
+  };
+
+  success: string;
+  warning: string;
+  error: string;
+  info: string;
+
+  background: string;
+  surface: string;
+  card: string;
+  accent: string;
+
+  purple: string;
+  blue: string;
+  emerald: string;
+  orange: string;
+
+  text: {
+    primary: string;
+    secondary: string;
+    disabled: string;
+    inverse: string;
+  };
+
+  button: {
+    primary: string;
+    primaryPressed: string;
+    secondary: string;
+    secondaryPressed: string;
+    disabled: string;
+    text: string;
+    textSecondary: string;
+    textDisabled: string;
+  };
+
+  border: {
+    light: string;
+    medium: string;
+    dark: string;
+  };
+
+  // Semantic surfaces
+  iconBackground: string;   // Rounded square behind settings and list icons
+  iconTint: string;         // Icon color on iconBackground
+  selectedBackground: string;
+  successBackground: string;
+  warningBackground: string;
+  warningText: string;
+  errorBackground: string;
+  overlay: string;          // Modal backdrops
+  tabActive: string;        // Focused tab icon, label and indicator
+
+  // Indigo-violet brand used by the onboarding and premium components
+  brand: {
+    primary: string;
+    secondary: string;
+    pressed: [string, string];
+    disabled: [string, string];
+    text: string;           // Brand-colored text on surface
+    soft: string;           // Tinted fill for selected chips and cards
+    border: string;
+  };
+
+  // AnimatedGradientBackground base and floating orbs
+  backgroundGradient: [string, string, string];
+  backgroundOrbs: {
+    primary: [string, string];
+    secondary: [string, string];
+    accent: [string, string];
+  };
+}
+
+export const lightColors: ThemeColors = {
+  primary: tokens.color.primary,
+  primaryDark: tokens.color.primaryDark,
+  primaryLight: tokens.color.primaryLight,
+
+  secondary: tokens.color.success,
+  secondaryDark: 'hsl(158 64% 42%)',
+  secondaryLight: 'hsl(158 64% 62%)',
+
+  white: tokens.color.white,
+  black: tokens.color.black,
+
+  gray: {
+    50: tokens.color.gray50,
+    100: tokens.color.gray100,
+    200: tokens.color.gray200,
+    300: tokens.color.gray300,
+    400: tokens.color.gray400,
+    500: tokens.color.gray500,
+    600: tokens.color.gray600,
+    700: tokens.color.gray700,
+    800: tokens.color.gray800,
+    900: tokens.color.gray900,
+    light: tokens.color.gray100,
+    medium: tokens.color.gray400,
+    dark: tokens.color.gray600,
+  },
+
+  success: tokens.color.success,
+  warning: tokens.color.warningBorder,
+  error: tokens.color.error,
+  info: tokens.color.info,
+
+  background: '#FAFBFC',
+  surface: '#FFFFFF',
+  card: '#FFFFFF',
+  accent: '#F8FAFC',
+
+  purple: '#8B5CF6',
+  blue: '#3B82F6',
+  emerald: '#10B981',
+  orange: '#F59E0B',
+
+  text: {
+    primary: tokens.color.gray900,
+    secondary: tokens.color.gray500,
+    disabled: tokens.color.gray400,
+    inverse: tokens.color.white,
+  },
+
+  button: {
+    primary: tokens.color.primary,
+    primaryPressed: tokens.color.primaryDark,
+    secondary: tokens.color.gray100,
+    secondaryPressed: tokens.color.gray200,
+    disabled: tokens.color.gray200,
+    text: tokens.color.white,
+    textSecondary: tokens.color.gray700,
+    textDisabled: tokens.color.gray400,
+  },
+
+  border: {
+    light: tokens.color.gray200,
+    medium: tokens.color.gray300,
+    dark: tokens.color.gray400,
+  },
+
+  iconBackground: '#EFF6FF',
+  iconTint: '#1e40af',
+  selectedBackground: tokens.color.selectedBg,
+  successBackground: '#ECFDF5',
+  warningBackground: tokens.color.warningBg,
+  warningText: tokens.color.warningText,
+  errorBackground: '#FEF2F2',
+  overlay: 'rgba(0, 0, 0, 0.4)',
+  tabActive: '#003087',
+
+  brand: {
+    primary: '#667EEA',
+    secondary: '#764BA2',
+    pressed: ['#5A67D8', '#6B46C1'],
+    disabled: ['#C3DAFE', '#A3BFFA'],
+    text: '#4C51BF',
+    soft: 'rgba(102, 126, 234, 0.12)',
+    border: 'rgba(102, 126, 234, 0.3)',
+  },
+
+  backgroundGradient: ['#EBF4FF', '#E0E7FF', '#DDD6FE'],
+  backgroundOrbs: {
+    primary: ['rgba(102, 126, 234, 0.25)', 'rgba(118, 75, 162, 0.15)'],
+    secondary: ['rgba(139, 92, 246, 0.2)', 'rgba(236, 72, 153, 0.12)'],
+    accent: ['rgba(59, 130, 246, 0.18)', 'rgba(147, 51, 234, 0.1)'],
+  },
+};
+
+export const darkColors: ThemeColors = {
+  primary: 'hsl(212 100% 62%)',
+  primaryDark: 'hsl(212 100% 50%)',
+  primaryLight: 'hsl(212 90% 72%)',
+
+  secondary: 'hsl(158 64% 52%)',
+  secondaryDark: 'hsl(158 64% 42%)',
+  secondaryLight: 'hsl(158 64% 62%)',
+
+  white: tokens.color.white,
+  black: tokens.color.black,
+
+  gray: {
+    50: '#0F172A',
+    100: '#1E293B',
+    200: '#334155',
+    300: '#475569',
+    400: '#64748B',
+    500: '#94A3B8',
+    600: '#CBD5E1',
+    700: '#E2E8F0',
+    800: '#F1F5F9',
+    900: '#F8FAFC',
+    light: '#1E293B',
+    medium: '#64748B',
+    dark: '#CBD5E1',
+  },
+
+  success: '#34D399',
+  warning: '#FBBF24',
+  error: '#F87171',
+  info: '#60A5FA',
+
+  background: '#0B1120',
+  surface: '#111827',
+  card: '#1F2937',
+  accent: '#1E293B',
+
+  purple: '#A78BFA',
+  blue: '#60A5FA',
+  emerald: '#34D399',
+  orange: '#FBBF24',
+
+  text: {
+    primary: '#F1F5F9',
+    secondary: '#94A3B8',
+    disabled: '#64748B',
+    inverse: '#0B1120',
+  },
+
+  button: {
+    primary: 'hsl(212 100% 50%)',
+    primaryPressed: 'hsl(212 100% 40%)',
+    secondary: '#1E293B',
+    secondaryPressed: '#334155',
+    disabled: '#334155',
+    text: tokens.color.white,
+    textSecondary: '#E2E8F0',
+    textDisabled: '#64748B',
+  },
+
+  border: {
+    light: '#273449',
+    medium: '#3B4A63',
+    dark: '#64748B',
+  },
+
+  iconBackground: 'rgba(59, 130, 246, 0.16)',
+  iconTint: '#93C5FD',
+  selectedBackground: 'rgba(59, 130, 246, 0.22)',
+  successBackground: 'rgba(16, 185, 129, 0.15)',
+  warningBackground: 'rgba(245, 158, 11, 0.15)',
+  warningText: '#FCD34D',
+  errorBackground: 'rgba(239, 68, 68, 0.15)',
+  overlay: 'rgba(0, 0, 0, 0.6)',
+  tabActive: '#93C5FD',
+
+  brand: {
+    primary: '#7F9CF5',
+    secondary: '#9F7AEA',
+    pressed: ['#5A67D8', '#6B46C1'],
+    disabled: ['#2D3748', '#3C366B'],
+    text: '#A3BFFA',
+    soft: 'rgba(127, 156, 245, 0.16)',
+    border: 'rgba(127, 156, 245, 0.35)',
+  },
+
+  backgroundGradient: ['#0B1120', '#111827', '#1E1B4B'],
+  backgroundOrbs: {
+    primary: ['rgba(102, 126, 234, 0.16)', 'rgba(118, 75, 162, 0.1)'],
+    secondary: ['rgba(139, 92, 246, 0.14)', 'rgba(236, 72, 153, 0.08)'],
+    accent: ['rgba(59, 130, 246, 0.12)', 'rgba(147, 51, 234, 0.08)'],
+  },
+};
@@ -24,10 +24,17 @@ export interface CMEEntry {
   category: string;
   notes?: string;
   certificatePath?: string;
+  licenseIds?: number[]; // Licenses this activity counts toward - none means every license
   createdAt: string;
   updatedAt: string;
 }
 
+// Many-to-many link between cme_entries and license_renewals
+export interface CMEEntryLicenseLink {
+  cmeEntryId: number;
+  licenseId: number;
+}
+
 export interface Certificate {
   id: number;
   filePath: string;
@@ -47,20 +54,134 @@ export interface LicenseRenewal {
   expirationDate: string;
   renewalDate?: string;
   requiredCredits: number;
-  completedCredits: number;
+  completedCredits: number; // Computed from CME entries dated inside the renewal window, plus carried-over credits
+  carriedOverCredits?: number; // Surplus carried in from the previous renewal window
   status: LicenseStatus;
   createdAt: string;
   updatedAt: string;
 }
 
+// Category-specific minimum inside a license's or the user's cycle total
+export interface RequirementRule {
+  id: number;
+  licenseId?: number; // Unset = applies to the user's requirement cycle
+  category: string; // Matched against CMEEntry.category
+  minimumCredits: number; // 0 for a cap-only rule
+  maximumCredits?: number; // Optional cap on how much of this category counts
+  maximumPercent?: number; // Optional cap as a percentage of the total requirement
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Partial rule update - null clears a cap
+export type RequirementRuleUpdate = Partial<Omit<RequirementRule, 'maximumCredits' | 'maximumPercent'>> & {
+  maximumCredits?: number | null;
+  maximumPercent?: number | null;
+};
+
+export interface CategoryRequirementProgress {
+  ruleId: number;
+  category: string;
+  minimumCredits: number;
+  effectiveCap?: number; // Lower of maximumCredits and maximumPercent of the total
+  earnedCredits: number;
+  countedCredits: number; // earnedCredits limited by effectiveCap
+  discountedCredits: number; // earnedCredits that do not count because of the cap
+  remainingCredits: number;
+  isMet: boolean;
+}
+
+// Per-category progress for one scope - the user cycle or a single license
+export interface RequirementBreakdown {
+  licenseId?: number;
+  label: string;
+  categories: CategoryRequirementProgress[];
+}
+
+// One requirement cycle - the current one is 'active', past ones are 'closed'
+export type ComplianceCycleStatus = 'active' | 'closed';
+
+export interface ComplianceCycle {
+  id: number;
+  startDate: string;
+  endDate: string; // Exclusive, like User.cycleEndDate
+  requiredCredits: number;
+  claimedCredits: number; // Credits as entered - filled in when the cycle closes
+  countedCredits: number; // After category caps - filled in when the cycle closes
+  carriedInCredits: number; // Surplus brought forward from the previous cycle
+  carriedOutCredits: number; // Surplus passed on to the next cycle
+  status: ComplianceCycleStatus;
+  closedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Limit on surplus credits that roll into the next cycle
+export interface CarryOverRule {
+  id: number;
+  licenseId?: number; // Unset = applies to the user's requirement cycle
+  maximumCredits: number;
+  windowMonths?: number; // Only surplus earned in the cycle's final N months; unset = any time
+  createdAt: string;
+  updatedAt: string;
+}
+
+// How a template's cycles line up on the calendar
+export type CycleAlignment =
+  | { type: 'anniversary' } // Runs from the user's own start or renewal date
+  | { type: 'fixed'; month: number; day: number; anchorYear?: number }; // Starts on a fixed date; multi-year cycles count from anchorYear
+
+export interface TemplateCategoryRule {
+  category: string; // One of CME_CATEGORIES
+  minimumCredits: number;
+  maximumCredits?: number;
+  maximumPercent?: number;
+}
+
+// Bundled board/regulator requirement preset
+export interface RequirementTemplate {
+  id: string;
+  version: number; // Bumped whenever the template's numbers change
+  name: string;
+  country: string; // One of COUNTRIES
+  profession: Profession;
+  issuingAuthority: string;
+  creditSystem: CreditSystem;
+  totalCredits: number; // Over the whole period
+  periodYears: number;
+  cycleAlignment: CycleAlignment;
+  categoryRules: TemplateCategoryRule[];
+  notes?: string;
+}
+
 export interface CMEEventReminder {
   id: number;
   eventName: string;
-  eventDate: string;
+  eventDate: string; // First day of the event
+  endDate?: string; // Last day of a multi-day event
+  location?: string;
+  url?: string;
+  expectedCredits?: number;
+  deadlines: EventDeadline[]; // Earliest first
+  reminderOffsets: number[]; // Days before eventDate to remind, 0 = day-of. Empty = the default from notification settings
+  attendanceStatus: EventAttendanceStatus;
   createdAt: string;
   updatedAt: string;
 }
 
+// Abstract, early-bird and registration deadlines ahead of an event, each with its own reminder
+export interface EventDeadline {
+  id?: number; // Unset until saved
+  type: EventDeadlineType;
+  date: string;
+  label?: string; // Names an 'other' deadline
+}
+
+export type EventDeadlineType = 'abstract' | 'early_bird' | 'registration' | 'other';
+
+// Whether a past event has been logged as a CME entry - 'pending' events prompt "Did you attend?"
+export type EventAttendanceStatus = 'pending' | 'logged' | 'dismissed';
+
 export interface AppSetting {
   id: number;
   key: string;
@@ -109,16 +230,60 @@ export interface DatabaseOperationResult<T = any> {
 }
 
 // OCR types
+export type OCRField = 'title' | 'provider' | 'date' | 'credits' | 'category';
+
 export interface OCRResult {
   text: string;
-  confidence: number;
+  confidence: number; // Mean confidence of the fields in extractedData, 0-1
   extractedData?: {
     title?: string;
     provider?: string;
-    date?: string;
+    date?: string; // YYYY-MM-DD
     credits?: number;
     category?: string;
   };
+  fieldConfidence?: Partial<Record<OCRField, number>>; // Every field found, including those below the threshold
+}
+
+// Backup restore types
+export type RestoreMode = 'replace' | 'merge';
+
+export interface RestoreCertificateInput {
+  filePath: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  thumbnailPath?: string;
+  sourceEntryId?: number; // cme_entries.id as recorded in the backup
+  sourceFilePath?: string; // Path recorded in the backup, as referenced by CMEEntry.certificatePath
+}
+
+export interface RestorePayload {
+  user?: Partial<User>;
+  cmeEntries: CMEEntry[];
+  licenses: LicenseRenewal[];
+  certificates: RestoreCertificateInput[];
+  entryLicenseLinks: CMEEntryLicenseLink[]; // Ids as recorded in the backup
+  requirementRules: RequirementRule[]; // License ids as recorded in the backup
+  carryOverRules: CarryOverRule[];
+  complianceCycles: ComplianceCycle[];
+  // Selective restores: backup id -> id of the matching record already on this device.
+  // Matched records in the payload are updated in place; the rest of the map only
+  // re-links certificates and license links to records that are not being restored.
+  existingEntryIds?: Record<number, number>;
+  existingLicenseIds?: Record<number, number>;
+}
+
+export interface RestoreSummary {
+  entriesRestored: number;
+  entriesSkipped: number;
+  licensesRestored: number;
+  licensesSkipped: number;
+  certificatesRestored: number;
+  certificatesSkipped: number;
+  userRestored: boolean;
+  entryIdMap: Record<number, number>; // backup id -> new cme_entries.id
+  discardedFilePaths: string[]; // files no longer referenced once the restore commits
 }
 
 // File types
@@ -132,7 +297,9 @@ export interface FileInfo {
 // Progress tracking
 export interface Progress {
   totalRequired: number;
-  totalCompleted: number;
+  totalCompleted: number; // Counted credits, after category caps
+  totalClaimed: number; // Credits as entered, before category caps
+  carriedOverCredits: number; // Surplus carried in from the previous cycle, included in totalCompleted
   percentage: number;
   remainingDays: number;
   status: 'on_track' | 'behind' | 'completed' | 'overdue';
@@ -12,6 +12,7 @@ export type OnboardingStackParamList = {
   Privacy: undefined;
   Profession: undefined;
   Country: undefined;
+  RequirementTemplate: undefined;
   CreditSystem: undefined;
   AnnualTarget: undefined;
   CycleStartDate: undefined;
@@ -35,12 +36,18 @@ export type MainTabParamList = {
       category?: string;
       certificatePath?: string;
     };
+    eventReminderId?: number; // Log an attended event
   } | undefined;
-  AddLicense: { editLicense?: any } | undefined;
-  AddReminder: undefined;
+  AddLicense: { editLicense?: any; licenseId?: number } | undefined;
+  AddReminder: { reminderId?: number } | undefined;
   CertificateViewer: { imageUri: string };
   ProfileEdit: undefined;
   NotificationSettings: undefined;
+  SecuritySettings: undefined;
+  BackupSettings: undefined;
+  ImportActivities: undefined;
+  RequirementRules: { licenseId?: number } | undefined;
+  CycleHistory: undefined;
   CMEHistory: undefined;
 };
 
@@ -0,0 +1,12 @@
+// pako 1.x ships without type definitions - only what utils/zipStream.ts uses is declared
+declare module 'pako' {
+  export function deflateRaw(data: Uint8Array, options?: { level?: number }): Uint8Array;
+
+  export class Inflate {
+    constructor(options?: { raw?: boolean; chunkSize?: number });
+    err: number; // 0 unless the data is corrupt
+    msg: string;
+    onData(chunk: Uint8Array): void;
+    push(data: Uint8Array, last?: boolean): boolean;
+  }
+}
@@ -0,0 +1,241 @@
+import type { CertificateFields } from '../certificateParser';
+import type { OCRField } from '../../types';
+
+/**
+ * Sample certificate texts, as on-device OCR returns them, with what the parser should read.
+ * Run scripts/check-certificate-parser.js after changing the parser - add a fixture for every
+ * certificate wording that gets fixed.
+ */
+export interface CertificateFixture {
+  name: string;
+  text: string;
+  expected: CertificateFields & { accreditor?: string };
+  // Fields the parser may find but must not be confident about
+  lowConfidence?: OCRField[];
+}
+
+export const CERTIFICATE_FIXTURES: CertificateFixture[] = [
+  {
+    name: 'ACCME enduring material with AMA PRA credits',
+    text: [
+      'CERTIFICATE OF COMPLETION',
+      'This certifies that',
+      'Jane Doe, MD',
+      'has participated in the enduring material activity titled',
+      '"Advances in Heart Failure Management 2024"',
+      'on March 5, 2024 and is awarded 2.5 AMA PRA Category 1 Credits™',
+      'Provided by: American College of Cardiology',
+      'The American College of Cardiology is accredited by the ACCME to provide continuing medical education for physicians.',
+    ].join('\n'),
+    expected: {
+      title: 'Advances in Heart Failure Management 2024',
+      provider: 'American College of Cardiology',
+      date: '2024-03-05',
+      credits: 2.5,
+      category: 'Online Course',
+      accreditor: 'accme',
+    },
+  },
+  {
+    name: 'ACCME live conference with a date range and designation statement',
+    text: [
+      'Certificate of Attendance',
+      'Annual Scientific Meeting of the Society of Hospital Medicine',
+      'John Smith, DO',
+      'Dates of Activity: April 14-17, 2024',
+      'Location: Boston, MA',
+      'The Society of Hospital Medicine designates this live activity for a maximum of 18.75 AMA PRA Category 1 Credit(s)™.',
+      'Physicians should claim only the credit commensurate with the extent of their participation in the activity.',
+      'The Society of Hospital Medicine is accredited by the Accreditation Council for Continuing Medical Education.',
+    ].join('\n'),
+    expected: {
+      provider: 'Society of Hospital Medicine',
+      date: '2024-04-14',
+      credits: 18.75,
+      category: 'Conference',
+      accreditor: 'accme',
+    },
+    lowConfidence: ['title'],
+  },
+  {
+    name: 'ANCC nursing contact hours',
+    text: [
+      'Certificate of Successful Completion',
+      'Jane Smith, RN',
+      'attended Wound Care Workshop',
+      'Date: 12/03/2023',
+      'This activity has been awarded 6.0 contact hours.',
+      'The Ohio Nurses Association is accredited as a provider of nursing continuing professional development by the American Nurses Credentialing Center\'s Commission on Accreditation.',
+    ].join('\n'),
+    expected: {
+      title: 'Wound Care Workshop',
+      provider: 'Ohio Nurses Association',
+      date: '2023-12-03',
+      credits: 6,
+      category: 'Workshop',
+      accreditor: 'ancc',
+    },
+  },
+  {
+    name: 'ANCC webinar with a labelled course title',
+    text: [
+      'CERTIFICATE',
+      'Course Title: Sepsis Recognition in the Emergency Department',
+      'Participant: Maria Lopez, BSN, RN',
+      'Completion Date: 2024-01-22',
+      'Format: Live webinar',
+      'Contact Hours: 1.5',
+      'Provider: Emergency Nurses Association',
+      'ENA is accredited as a provider of nursing continuing professional development by the ANCC.',
+    ].join('\n'),
+    expected: {
+      title: 'Sepsis Recognition in the Emergency Department',
+      provider: 'Emergency Nurses Association',
+      date: '2024-01-22',
+      credits: 1.5,
+      category: 'Webinar',
+      accreditor: 'ancc',
+    },
+  },
+  {
+    name: 'ACPE pharmacy CEUs',
+    text: [
+      'Statement of Credit',
+      'This is to certify that Alex Chen, PharmD',
+      'has successfully completed: Opioid Stewardship for Pharmacists',
+      'UAN: 0012-0000-24-041-H08-P',
+      'Date Completed: 08/09/2024',
+      'Credit awarded: 0.2 CEUs',
+      'Jointly provided by Pharmacy Times Continuing Education and the State Pharmacists Association',
+      'The Accreditation Council for Pharmacy Education (ACPE) accredits this provider.',
+    ].join('\n'),
+    expected: {
+      title: 'Opioid Stewardship for Pharmacists',
+      provider: 'Pharmacy Times Continuing Education and the State Pharmacists Association',
+      date: '2024-08-09',
+      credits: 0.2,
+      category: 'Opioid Prescribing',
+      accreditor: 'acpe',
+    },
+  },
+  {
+    name: 'RCP CPD points with a day-first date',
+    text: [
+      'Royal College of Physicians',
+      'Certificate of Attendance',
+      'This is to certify that Dr Priya Patel attended',
+      'Acute Medicine Update',
+      'held on 04/06/2024',
+      'This event has been approved by the Federation of the Royal Colleges of Physicians of the United Kingdom for 6 category 1 (external) CPD credits.',
+    ].join('\n'),
+    expected: {
+      title: 'Acute Medicine Update',
+      provider: 'Royal College of Physicians',
+      date: '2024-06-04',
+      credits: 6,
+      accreditor: 'rcp',
+    },
+    lowConfidence: ['provider'],
+  },
+  {
+    name: 'RCPSC Section 1 with a written-out date',
+    text: [
+      'Certificate of Participation',
+      'for attending Grand Rounds: Perioperative Anticoagulation',
+      'Date: 21st of February, 2024',
+      'This event is an Accredited Group Learning Activity (Section 1) as defined by the Maintenance of Certification Program of the Royal College of Physicians and Surgeons of Canada.',
+      'You may claim a maximum of 1.0 hours (credits) under Section 1 of the MOC Program.',
+      'Organized by: Department of Medicine, University of Toronto',
+    ].join('\n'),
+    expected: {
+      title: 'Grand Rounds: Perioperative Anticoagulation',
+      provider: 'Department of Medicine, University of Toronto',
+      date: '2024-02-21',
+      credits: 1,
+      accreditor: 'rcpsc',
+    },
+  },
+  {
+    name: 'CFPC Mainpro+ certified credits',
+    text: [
+      'Certificate of Completion',
+      'Program: Practical Approaches to Chronic Pain',
+      'Completed on Nov 3, 2023',
+      'This one-credit-per-hour Group Learning program meets the certification criteria of the College of Family Physicians of Canada and has been certified by the Ontario College of Family Physicians for up to 3 Mainpro+ credits.',
+    ].join('\n'),
+    expected: {
+      title: 'Practical Approaches to Chronic Pain',
+      date: '2023-11-03',
+      credits: 3,
+      accreditor: 'cfpc',
+    },
+  },
+  {
+    name: 'EACCME European CME credits with a dotted date',
+    text: [
+      'CERTIFICATE',
+      'European Congress of Cardiology',
+      'Attended on 25.08.2023',
+      'The European Congress of Cardiology is accredited by the European Accreditation Council for Continuing Medical Education (EACCME) to provide the following CME activity for medical specialists.',
+      'Participant was awarded 5 European CME credits (ECMEC®s).',
+    ].join('\n'),
+    expected: {
+      provider: 'European Congress of Cardiology',
+      date: '2023-08-25',
+      credits: 5,
+      category: 'Conference',
+      accreditor: 'eaccme',
+    },
+    lowConfidence: ['title'],
+  },
+  {
+    name: 'AOA Category 1-A with a two-digit year',
+    text: [
+      'American Osteopathic Association',
+      'Certificate of Credit',
+      'Activity: Osteopathic Manipulative Treatment Review',
+      'Date: 9/14/23',
+      'This program is approved for 4 AOA Category 1-A credits.',
+      'Sponsored by the State Osteopathic Medical Society',
+    ].join('\n'),
+    expected: {
+      title: 'Osteopathic Manipulative Treatment Review',
+      provider: 'State Osteopathic Medical Society',
+      date: '2023-09-14',
+      credits: 4,
+      accreditor: 'aoa',
+    },
+  },
+  {
+    name: 'Activity date preferred over the issue date',
+    text: [
+      'Certificate of Completion',
+      'Activity Title: Ethics in End-of-Life Care',
+      'Issue Date: June 30, 2024',
+      'Activity Date: June 12, 2024',
+      'Credits: 2',
+      'Presented by: Northwest Hospital Education Center',
+    ].join('\n'),
+    expected: {
+      title: 'Ethics in End-of-Life Care',
+      provider: 'Northwest Hospital Education Center',
+      date: '2024-06-12',
+      credits: 2,
+      category: 'Ethics',
+    },
+  },
+  {
+    name: 'Sparse certificate with nothing to anchor on',
+    text: [
+      'CERTIFICATE',
+      'Clinical Skills Refresher Session',
+      'Midtown Medical Group',
+      '2 hours',
+    ].join('\n'),
+    expected: {
+      title: 'Clinical Skills Refresher Session',
+      credits: 2,
+    },
+    lowConfidence: ['title', 'credits'],
+  },
+];
@@ -0,0 +1,351 @@
+// Importing CME activities from CSV and spreadsheet rows.
+// Covers the steps of the import wizard that don't touch the device: reading CSV text,
+// guessing which column holds which field, detecting the date format, mapping free-text
+// categories onto the app's categories and spotting duplicates.
+// Kept free of React Native imports so scripts/check-activity-import.js can run it in Node.
+import type { CMEEntry } from '../types';
+
+export type ImportField = 'title' | 'provider' | 'dateAttended' | 'creditsEarned' | 'category' | 'notes';
+
+// Column index for each field, null when the file has no such column
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export type ImportedEntry = Pick<CMEEntry, 'title' | 'provider' | 'dateAttended' | 'creditsEarned' | 'category' | 'notes'>;
+
+export interface ImportCandidate {
+  rowNumber: number; // 1-based line in the file, counting the header
+  entry: ImportedEntry;
+  errors: string[]; // Values that couldn't be read; the rules in DataIntegrityService come on top
+}
+
+export type DateFormat = 'ymd' | 'mdy' | 'dmy' | 'serial';
+
+export interface DetectedDateFormat {
+  format: DateFormat;
+  ambiguous: boolean; // Every value also reads as another format, e.g. 03/04/2024
+}
+
+export const IMPORT_FIELDS: Array<{ field: ImportField; label: string; required: boolean }> = [
+  { field: 'title', label: 'Title', required: true },
+  { field: 'provider', label: 'Provider', required: false },
+  { field: 'dateAttended', label: 'Date', required: true },
+  { field: 'creditsEarned', label: 'Credits', required: true },
+  { field: 'category', label: 'Category', required: false },
+  { field: 'notes', label: 'Notes', required: false },
+];
+
+export const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  ymd: 'YYYY-MM-DD',
+  mdy: 'MM/DD/YYYY',
+  dmy: 'DD/MM/YYYY',
+  serial: 'Spreadsheet date',
+};
+
+// Used when the provider column is missing or empty, as providers are required
+export const UNKNOWN_PROVIDER = 'Unknown provider';
+
+// Header words for each field, checked in order; the first field to claim a column keeps it
+const HEADER_PATTERNS: Array<[ImportField, RegExp]> = [
+  ['dateAttended', /\b(date|attended|completed|completion|when)\b/i],
+  ['creditsEarned', /\b(credits?|cme|cpd|ce|hours?|points?|units?)\b/i],
+  ['category', /\b(category|type|kind|activity type)\b/i],
+  ['provider', /\b(provider|organi[sz]er|organi[sz]ation|sponsor|accreditor|host|institution)\b/i],
+  ['notes', /\b(notes?|comments?|description|remarks?)\b/i],
+  ['title', /\b(title|activity|course|event|name|topic|subject)\b/i],
+];
+
+// Free-text words that point to one of the app's categories
+const CATEGORY_KEYWORDS: Array<[RegExp, string]> = [
+  [/opioid/i, 'Opioid Prescribing'],
+  [/ethic/i, 'Ethics'],
+  [/safety/i, 'Patient Safety'],
+  [/quality/i, 'Quality Improvement'],
+  [/committee|board/i, 'Committee Work'],
+  [/teach|lectur|present|precept/i, 'Teaching'],
+  [/research|publication/i, 'Research'],
+  [/journal|article|reading/i, 'Journal Reading'],
+  [/webinar|webcast/i, 'Webinar'],
+  [/online|e-?learning|self[- ]study|module|podcast/i, 'Online Course'],
+  [/workshop|hands[- ]on|simulation|skills/i, 'Workshop'],
+  [/conference|congress|meeting|symposium|summit|convention|grand rounds/i, 'Conference'],
+];
+
+// Serial numbers of 1950-01-01 and 2099-12-31 in the 1900 date system
+const MIN_DATE_SERIAL = 18264;
+const MAX_DATE_SERIAL = 73050;
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells with embedded delimiters,
+ * quotes and line breaks, and detects comma, semicolon or tab delimiters from the header.
+ * Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      cell = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Guesses the column of each field from the header row. Columns nobody claims stay unmapped.
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {
+    title: null,
+    provider: null,
+    dateAttended: null,
+    creditsEarned: null,
+    category: null,
+    notes: null,
+  };
+  const claimed = new Set<number>();
+
+  for (const [field, pattern] of HEADER_PATTERNS) {
+    const index = headers.findIndex((header, column) => !claimed.has(column) && pattern.test(header));
+    if (index >= 0) {
+      mapping[field] = index;
+      claimed.add(index);
+    }
+  }
+
+  // Exported files carry a "Created Date" column after the attended date; prefer the first
+  if (mapping.dateAttended !== null && /created/i.test(headers[mapping.dateAttended])) {
+    const attended = headers.findIndex(header => /attended|completed/i.test(header));
+    if (attended >= 0 && !claimed.has(attended)) {
+      claimed.delete(mapping.dateAttended);
+      mapping.dateAttended = attended;
+      claimed.add(attended);
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Picks the date format that reads the most values. Between month-first and day-first,
+ * a day above 12 decides; without one the format is month-first and flagged as ambiguous.
+ */
+export function detectDateFormat(values: string[]): DetectedDateFormat {
+  const samples = values.map(value => value.trim()).filter(Boolean);
+  const formats: DateFormat[] = ['ymd', 'mdy', 'dmy', 'serial'];
+  const counts = formats.map(format => samples.filter(value => parseImportDate(value, format) !== null).length);
+  const best = Math.max(...counts);
+
+  if (best === 0) {
+    return { format: 'ymd', ambiguous: false };
+  }
+
+  const format = formats[counts.indexOf(best)];
+  const ambiguous = (format === 'mdy' || format === 'dmy') && counts[1] === counts[2];
+  return { format, ambiguous };
+}
+
+/**
+ * Reads a date cell as YYYY-MM-DD, or null if it isn't a valid date in `format`.
+ * Year-first dates are accepted whatever the chosen format, and two-digit years are 20xx.
+ */
+export function parseImportDate(value: string, format: DateFormat): string | null {
+  const text = value.trim();
+
+  if (format === 'serial') {
+    const serial = Number(text);
+    if (!/^\d+(\.\d+)?$/.test(text) || serial < MIN_DATE_SERIAL || serial > MAX_DATE_SERIAL) {
+      return null;
+    }
+    // Day 0 is 1899-12-30 once the 1900 leap year bug is accounted for
+    const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(serial) * 86400000);
+    return formatDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+  }
+
+  const ymd = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T ].*)?$/);
+  if (ymd) {
+    return validDate(Number(ymd[1]), Number(ymd[2]), Number(ymd[3]));
+  }
+  if (format === 'ymd') {
+    return null;
+  }
+
+  const parts = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+  if (!parts) {
+    return null;
+  }
+
+  const year = parts[3].length === 2 ? 2000 + Number(parts[3]) : Number(parts[3]);
+  return format === 'mdy'
+    ? validDate(year, Number(parts[1]), Number(parts[2]))
+    : validDate(year, Number(parts[2]), Number(parts[1]));
+}
+
+/**
+ * Reads a credits cell, accepting a decimal comma and trailing units ("1,5 h")
+ */
+export function parseCredits(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:[.,]\d+)?)/);
+  return match ? Number(match[1].replace(',', '.')) : null;
+}
+
+/**
+ * The app category for a free-text category. Exact names win, then keywords; anything
+ * unrecognised becomes 'Other'.
+ */
+export function guessCategory(value: string, categories: readonly string[]): string {
+  const text = value.trim();
+  const exact = categories.find(category => category.toLowerCase() === text.toLowerCase());
+  if (exact) {
+    return exact;
+  }
+
+  const keyword = CATEGORY_KEYWORDS.find(([pattern, category]) => pattern.test(text) && categories.includes(category));
+  return keyword ? keyword[1] : 'Other';
+}
+
+/**
+ * Distinct category values in the file, for the category mapping step
+ */
+export function collectCategoryValues(rows: string[][], mapping: ColumnMapping): string[] {
+  if (mapping.category === null) {
+    return [];
+  }
+  const column = mapping.category;
+  const values = new Set(rows.map(row => (row[column] || '').trim()).filter(Boolean));
+  return [...values].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Turns data rows (without the header) into entries. `categoryMap` maps each file
+ * category value to an app category; rows without one get `defaultCategory`.
+ */
+export function buildImportCandidates(
+  rows: string[][],
+  mapping: ColumnMapping,
+  dateFormat: DateFormat,
+  categoryMap: Record<string, string>,
+  defaultCategory: string
+): ImportCandidate[] {
+  const cell = (row: string[], field: ImportField): string => {
+    const column = mapping[field];
+    return column === null ? '' : (row[column] || '').trim();
+  };
+
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+    const rawDate = cell(row, 'dateAttended');
+    const rawCredits = cell(row, 'creditsEarned');
+    const rawCategory = cell(row, 'category');
+
+    const dateAttended = parseImportDate(rawDate, dateFormat);
+    if (!dateAttended) {
+      errors.push(rawDate ? `Unreadable date "${rawDate}"` : 'Missing date');
+    }
+
+    const creditsEarned = parseCredits(rawCredits);
+    if (creditsEarned === null) {
+      errors.push(rawCredits ? `Unreadable credits "${rawCredits}"` : 'Missing credits');
+    }
+
+    return {
+      rowNumber: index + 2,
+      entry: {
+        title: cell(row, 'title'),
+        provider: cell(row, 'provider') || UNKNOWN_PROVIDER,
+        dateAttended: dateAttended || rawDate,
+        creditsEarned: creditsEarned ?? 0,
+        category: (rawCategory && categoryMap[rawCategory]) || defaultCategory,
+        notes: cell(row, 'notes') || undefined,
+      },
+      errors,
+    };
+  });
+}
+
+/**
+ * For each candidate, whether it matches an existing entry or an earlier row of the file.
+ * Entries match on title, provider, date and credits, as in a merge restore.
+ */
+export function findDuplicates(
+  entries: ImportedEntry[],
+  existing: Array<Pick<CMEEntry, 'title' | 'provider' | 'dateAttended' | 'creditsEarned'>>
+): boolean[] {
+  const seen = new Set(existing.map(duplicateKey));
+  return entries.map(entry => {
+    const key = duplicateKey(entry);
+    if (seen.has(key)) {
+      return true;
+    }
+    seen.add(key);
+    return false;
+  });
+}
+
+function duplicateKey(entry: Pick<CMEEntry, 'title' | 'provider' | 'dateAttended' | 'creditsEarned'>): string {
+  return JSON.stringify([
+    entry.title.trim().toLowerCase(),
+    entry.provider.trim().toLowerCase(),
+    entry.dateAttended.split(/[T ]/)[0],
+    Number(entry.creditsEarned),
+  ]);
+}
+
+function detectDelimiter(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0];
+  const counts = [',', ';', '\t'].map(delimiter => ({ delimiter, count: header.split(delimiter).length - 1 }));
+  counts.sort((a, b) => b.count - a.count);
+  return counts[0].count > 0 ? counts[0].delimiter : ',';
+}
+
+function validDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (month < 1 || month > 12 || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return formatDate(year, month, day);
+}
+
+function formatDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
@@ -0,0 +1,193 @@
+// Integrity manifests for backups.
+// A manifest lists every entry, license and archived file with its SHA-256, so a backup
+// can be checked for missing, extra or corrupt items before anything is restored from it.
+// Free of React Native imports so scripts/check-backup-integrity.js can run it in Node.
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import type { BackupData } from '../services/zipBackupService';
+
+// Written last in ZIP backups; plain JSON backups carry the manifest as their `integrity` field
+export const INTEGRITY_MANIFEST_FILE = 'integrity.json';
+// Archive files that are informational and not covered by the manifest
+export const UNVERIFIED_ARCHIVE_FILES = ['README.txt', INTEGRITY_MANIFEST_FILE];
+
+export interface IntegrityFile {
+  sha256: string;
+  size: number; // bytes
+}
+
+export interface IntegrityManifest {
+  algorithm: 'SHA-256';
+  createdAt: string;
+  counts: {
+    entries: number;
+    licenses: number;
+    certificates: number;
+  };
+  entries: Record<string, string>; // CME entry id -> hash of the record
+  licenses: Record<string, string>; // License id -> hash of the record
+  files: Record<string, IntegrityFile>; // Archive path -> hash of its contents
+}
+
+export interface IntegrityReport {
+  isValid: boolean;
+  checked: number; // Items compared against the manifest
+  missing: string[];
+  extra: string[];
+  corrupt: string[];
+}
+
+/**
+ * Incremental SHA-256, for hashing files a chunk at a time
+ */
+export function createSha256(): { update: (chunk: Uint8Array) => void; digest: () => string } {
+  const hash = sha256.create();
+  return {
+    update: chunk => {
+      hash.update(chunk);
+    },
+    digest: () => bytesToHex(hash.digest()),
+  };
+}
+
+export function sha256Hex(bytes: Uint8Array): string {
+  return bytesToHex(sha256(bytes));
+}
+
+/**
+ * Hash of a record's JSON with keys sorted, so it doesn't depend on property order
+ */
+export function hashRecord(record: unknown): string {
+  return sha256Hex(utf8ToBytes(canonicalJson(record)));
+}
+
+/**
+ * Manifest for `backupData` and the archive files already hashed while writing it
+ */
+export function buildIntegrityManifest(
+  backupData: BackupData,
+  files: Record<string, IntegrityFile>
+): IntegrityManifest {
+  return {
+    algorithm: 'SHA-256',
+    createdAt: new Date().toISOString(),
+    counts: {
+      entries: backupData.cmeEntries.length,
+      licenses: backupData.licenses.length,
+      certificates: Object.keys(files).filter(path => path.startsWith('certificates/')).length,
+    },
+    entries: hashRecordsById(backupData.cmeEntries),
+    licenses: hashRecordsById(backupData.licenses),
+    files,
+  };
+}
+
+/**
+ * Compares what a backup is meant to hold with what was found in it.
+ * `actual` is built from the backup's contents the same way the manifest was.
+ */
+export function compareIntegrity(expected: IntegrityManifest, actual: IntegrityManifest): IntegrityReport {
+  const missing: string[] = [];
+  const extra: string[] = [];
+  const corrupt: string[] = [];
+
+  const compare = (
+    expectedItems: Record<string, string>,
+    actualItems: Record<string, string>,
+    label: (key: string) => string
+  ) => {
+    for (const [key, hash] of Object.entries(expectedItems)) {
+      if (!(key in actualItems)) {
+        missing.push(label(key));
+      } else if (actualItems[key] !== hash) {
+        corrupt.push(label(key));
+      }
+    }
+    for (const key of Object.keys(actualItems)) {
+      if (!(key in expectedItems)) {
+        extra.push(label(key));
+      }
+    }
+  };
+
+  compare(expected.entries, actual.entries, id => `CME entry #${id}`);
+  compare(expected.licenses, actual.licenses, id => `License #${id}`);
+  compare(
+    mapValues(expected.files, file => `${file.sha256}:${file.size}`),
+    mapValues(actual.files, file => `${file.sha256}:${file.size}`),
+    path => path
+  );
+
+  return {
+    isValid: missing.length === 0 && extra.length === 0 && corrupt.length === 0,
+    checked: Object.keys(expected.entries).length + Object.keys(expected.licenses).length + Object.keys(expected.files).length,
+    missing,
+    extra,
+    corrupt,
+  };
+}
+
+/**
+ * Short summary of a report for an alert
+ */
+export function describeIntegrityReport(report: IntegrityReport, maxItems = 5): string {
+  if (report.isValid) {
+    return `All ${report.checked} items match their checksums.`;
+  }
+
+  const section = (title: string, items: string[]) => {
+    if (items.length === 0) {
+      return null;
+    }
+    const shown = items.slice(0, maxItems).map(item => `• ${item}`);
+    if (items.length > maxItems) {
+      shown.push(`• ...and ${items.length - maxItems} more`);
+    }
+    return `${title} (${items.length}):\n${shown.join('\n')}`;
+  };
+
+  return [
+    section('Corrupt', report.corrupt),
+    section('Missing', report.missing),
+    section('Unexpected', report.extra),
+  ].filter(Boolean).join('\n\n');
+}
+
+export function isIntegrityManifest(data: unknown): data is IntegrityManifest {
+  return typeof data === 'object' && data !== null
+    && 'algorithm' in data && data.algorithm === 'SHA-256'
+    && 'counts' in data && typeof data.counts === 'object' && data.counts !== null
+    && 'entries' in data && typeof data.entries === 'object' && data.entries !== null
+    && 'licenses' in data && typeof data.licenses === 'object' && data.licenses !== null
+    && 'files' in data && typeof data.files === 'object' && data.files !== null;
+}
+
+function hashRecordsById(records: Array<{ id: number }>): Record<string, string> {
+  const hashes: Record<string, string> = {};
+  for (const record of records) {
+    hashes[String(record.id)] = hashRecord(record);
+  }
+  return hashes;
+}
+
+function mapValues<T>(items: Record<string, T>, map: (item: T) => string): Record<string, string> {
+  const mapped: Record<string, string> = {};
+  for (const [key, item] of Object.entries(items)) {
+    mapped[key] = map(item);
+  }
+  return mapped;
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
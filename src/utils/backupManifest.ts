@@ -0,0 +1,86 @@
+// Snapshot manifests for the content-addressed backup store.
+// A manifest holds a snapshot's records plus the hash of every certificate file it
+// references; the files themselves live once each in the blob store, named by hash.
+// Kept free of React Native imports so scripts/check-backup-manifest.js can run it in Node.
+import type { BackupData } from '../services/zipBackupService';
+
+export const SNAPSHOT_MANIFEST_VERSION = 1;
+
+export interface ManifestBlob {
+  hash: string; // SHA-256 of the file contents, hex
+  size: number; // bytes
+}
+
+export interface SnapshotManifest {
+  manifestVersion: number;
+  createdAt: string;
+  backupData: BackupData;
+  blobs: Record<string, ManifestBlob>; // BackupCertificateRecord.archiveFileName -> blob
+}
+
+const BLOB_HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Blob files are named by their hash; anything else in the blob directory
+ * (such as a copy interrupted before it was renamed) is not a blob
+ */
+export function isBlobHash(name: string): boolean {
+  return BLOB_HASH_PATTERN.test(name);
+}
+
+function isManifestBlob(blob: unknown): blob is ManifestBlob {
+  return typeof blob === 'object' && blob !== null
+    && 'hash' in blob && typeof blob.hash === 'string' && isBlobHash(blob.hash)
+    && 'size' in blob && typeof blob.size === 'number';
+}
+
+export function isSnapshotManifest(data: unknown): data is SnapshotManifest {
+  return typeof data === 'object' && data !== null
+    && 'manifestVersion' in data && typeof data.manifestVersion === 'number'
+    && 'createdAt' in data && typeof data.createdAt === 'string'
+    && 'backupData' in data && typeof data.backupData === 'object' && data.backupData !== null
+    && 'blobs' in data && typeof data.blobs === 'object' && data.blobs !== null
+    && Object.values(data.blobs).every(isManifestBlob);
+}
+
+/**
+ * Hashes of every blob the given manifests reference
+ */
+export function collectReferencedHashes(manifests: SnapshotManifest[]): Set<string> {
+  const hashes = new Set<string>();
+  for (const manifest of manifests) {
+    for (const blob of Object.values(manifest.blobs)) {
+      hashes.add(blob.hash);
+    }
+  }
+  return hashes;
+}
+
+/**
+ * Stored blobs no retained manifest references, safe to delete once those manifests are final
+ */
+export function findUnreferencedBlobs(manifests: SnapshotManifest[], storedHashes: string[]): string[] {
+  const referenced = collectReferencedHashes(manifests);
+  return storedHashes.filter(hash => !referenced.has(hash));
+}
+
+/**
+ * Archive file names whose blob is not in the store
+ */
+export function findMissingBlobs(manifest: SnapshotManifest, storedHashes: Iterable<string>): string[] {
+  const stored = new Set(storedHashes);
+  return Object.entries(manifest.blobs)
+    .filter(([, blob]) => !stored.has(blob.hash))
+    .map(([archiveFileName]) => archiveFileName);
+}
+
+/**
+ * Bytes a snapshot would take as a standalone backup. Identical files are only counted once.
+ */
+export function getSnapshotSize(manifest: SnapshotManifest): number {
+  const sizes = new Map<string, number>();
+  for (const blob of Object.values(manifest.blobs)) {
+    sizes.set(blob.hash, blob.size);
+  }
+  return Array.from(sizes.values()).reduce((total, size) => total + size, 0);
+}
@@ -0,0 +1,74 @@
+/**
+ * Decides which automatic backups to keep. Kept free of React Native and Expo so the
+ * rotation rules can be checked anywhere - AutoBackupService deletes whatever is not kept.
+ *
+ * Buckets are calendar days and Monday-based weeks in local time. The newest backup in
+ * each of the most recent `daily` days and `weekly` weeks is kept, so a day with several
+ * backups (e.g. after a restore) collapses to its last one. The newest backup overall is
+ * always kept.
+ *
+ * Backups taken right before a restore or import ('pre-change') hold the data that change
+ * replaced, so they don't collapse into their day - each is kept while its day is one of
+ * the `daily` days kept.
+ */
+
+export interface RetentionPolicy {
+  daily: number;
+  weekly: number;
+}
+
+export interface RetentionResult<T> {
+  keep: T[];
+  remove: T[];
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toDayKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const toWeekKey = (date: Date): string => {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return toDayKey(monday);
+};
+
+export const selectBackupsToKeep = <T extends { createdAt: string; reason?: string }>(
+  backups: T[],
+  policy: RetentionPolicy
+): RetentionResult<T> => {
+  const newestFirst = [...backups].sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+
+  const keep = new Set<T>(newestFirst.slice(0, 1));
+  const days = new Set<string>();
+  const weeks = new Set<string>();
+
+  for (const backup of newestFirst) {
+    const createdAt = new Date(backup.createdAt);
+    const dayKey = toDayKey(createdAt);
+    const weekKey = toWeekKey(createdAt);
+
+    if (!days.has(dayKey) && days.size < policy.daily) {
+      days.add(dayKey);
+      keep.add(backup);
+    }
+
+    if (!weeks.has(weekKey) && weeks.size < policy.weekly) {
+      weeks.add(weekKey);
+      keep.add(backup);
+    }
+  }
+
+  for (const backup of newestFirst) {
+    if (backup.reason === 'pre-change' && days.has(toDayKey(new Date(backup.createdAt)))) {
+      keep.add(backup);
+    }
+  }
+
+  return {
+    keep: newestFirst.filter(backup => keep.has(backup)),
+    remove: newestFirst.filter(backup => !keep.has(backup)),
+  };
+};
@@ -0,0 +1,383 @@
+import type { CME_CATEGORIES } from '../constants';
+import type { OCRField, OCRResult } from '../types';
+
+/**
+ * Turns raw certificate text into CME entry fields with a confidence for each.
+ * Kept free of React Native and Expo so it can run anywhere - OCRService feeds it
+ * recognized text and decides which fields are confident enough to prefill.
+ */
+
+export type CertificateFields = NonNullable<OCRResult['extractedData']>;
+
+export interface CertificateAccreditor {
+  id: string;
+  name: string;
+  dayFirstDates: boolean; // Numeric dates on these certificates are usually DD/MM/YYYY
+}
+
+export interface CertificateParseResult {
+  extractedData: CertificateFields; // Every field found, whatever its confidence
+  fieldConfidence: Partial<Record<OCRField, number>>; // 0-1 per field in extractedData
+  accreditor?: CertificateAccreditor;
+}
+
+interface Candidate<T> {
+  value: T;
+  confidence: number;
+}
+
+interface FoundDate {
+  index: number;
+  value: string; // YYYY-MM-DD
+  ambiguous: boolean; // Day and month could be swapped
+}
+
+type CMECategory = typeof CME_CATEGORIES[number];
+
+// Most specific first - e.g. the Canadian Royal College before the UK one
+const ACCREDITORS: Array<CertificateAccreditor & { pattern: RegExp }> = [
+  { id: 'joint', name: 'Joint Accreditation', dayFirstDates: false, pattern: /joint accreditation|jointly accredited/i },
+  { id: 'eaccme', name: 'EACCME', dayFirstDates: true, pattern: /\bEACCME\b|European Accreditation Council for Continuing Medical Education|European CME credits?/i },
+  { id: 'accme', name: 'ACCME', dayFirstDates: false, pattern: /\bACCME\b|Accreditation Council for Continuing Medical Education|AMA PRA Category 1/i },
+  { id: 'ancc', name: 'ANCC', dayFirstDates: false, pattern: /\bANCC\b|American Nurses Credentialing Center/i },
+  { id: 'acpe', name: 'ACPE', dayFirstDates: false, pattern: /\bACPE\b|Accreditation Council for Pharmacy Education/i },
+  { id: 'aafp', name: 'AAFP', dayFirstDates: false, pattern: /\bAAFP\b|American Academy of Family Physicians/i },
+  { id: 'aoa', name: 'AOA', dayFirstDates: false, pattern: /American Osteopathic Association|\bAOA Category/i },
+  { id: 'rcpsc', name: 'Royal College of Physicians and Surgeons of Canada', dayFirstDates: false, pattern: /Royal College of Physicians and Surgeons of Canada|\bRCPSC\b|Maintenance of Certification Program/i },
+  { id: 'cfpc', name: 'College of Family Physicians of Canada', dayFirstDates: false, pattern: /College of Family Physicians of Canada|\bCFPC\b|Mainpro\+?/i },
+  { id: 'rcp', name: 'Royal College of Physicians', dayFirstDates: true, pattern: /Royal College of Physicians(?! and Surgeons of Canada)|\bRCP\b|Federation of the Royal Colleges/i },
+];
+
+const MONTH_NAMES = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const ORDINAL = '(?:st|nd|rd|th)?';
+const RANGE_SEPARATOR = '\\s*(?:-|–|—|to|through|until)\\s*';
+const CREDIT_NUMBER = '(\\d{1,3}(?:[.,]\\d{1,2})?)';
+
+// Lines that are certificate boilerplate rather than the activity title
+const BOILERPLATE_PATTERN = /certificate of|this (?:is to )?certif(?:y|ies)|awarded to|presented to|^\s*(?:date|signature|signed)\b/i;
+
+// Accreditation and designation sentences - never a title or provider on their own
+const STATEMENT_PATTERN = /\b(?:accredited|accredits|designates|certified|approved|credits?|claim)\b/i;
+
+const MAX_CREDITS = 100;
+const MAX_NAME_LENGTH = 100;
+
+const normalizeText = (text: string): string =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[™®©]/g, ' ')
+    .replace(/\(TM\)|\(R\)/gi, ' ')
+    .replace(/[ \t]+/g, ' ');
+
+const cleanValue = (value: string): string =>
+  value.trim().replace(/^["'“‘(]+|["'”’.,;:)]+$/g, '').trim();
+
+const toNumber = (value: string): number => parseFloat(value.replace(',', '.'));
+
+const monthFromName = (name: string): number => {
+  const prefix = name.toLowerCase().slice(0, 3);
+  return ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'].indexOf(prefix) + 1;
+};
+
+const formatDate = (year: number, month: number, day: number): string | undefined => {
+  const fullYear = year < 100 ? 2000 + year : year;
+  if (month < 1 || month > 12 || day < 1 || fullYear < 1990 || fullYear > 2100) {
+    return undefined;
+  }
+
+  const lastDay = new Date(Date.UTC(fullYear, month, 0)).getUTCDate();
+  if (day > lastDay) {
+    return undefined;
+  }
+
+  return `${fullYear}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Identify who accredited the activity, which hints at the credit wording and date order
+ */
+export const detectAccreditor = (text: string): CertificateAccreditor | undefined => {
+  const match = ACCREDITORS.find(accreditor => accreditor.pattern.test(text));
+  return match ? { id: match.id, name: match.name, dayFirstDates: match.dayFirstDates } : undefined;
+};
+
+/**
+ * Find every date in the text, in reading order.
+ * Ranges give their first day; numeric dates follow dayFirst unless the numbers only fit one way.
+ */
+export const findCertificateDates = (text: string, dayFirst: boolean = false): FoundDate[] => {
+  const found: FoundDate[] = [];
+  let remaining = text;
+
+  // Each pattern blanks out what it matched so a later, looser pattern can't read it twice
+  const scan = (pattern: RegExp, read: (match: RegExpMatchArray) => { value?: string; ambiguous?: boolean }) => {
+    for (const match of remaining.matchAll(pattern)) {
+      const index = match.index ?? 0;
+      const { value, ambiguous = false } = read(match);
+      if (value) {
+        found.push({ index, value, ambiguous });
+      }
+      remaining = remaining.slice(0, index) + ' '.repeat(match[0].length) + remaining.slice(index + match[0].length);
+    }
+  };
+
+  // March 4-6, 2024 / March 30 - April 2, 2024
+  scan(
+    new RegExp(`\\b${MONTH_NAMES}\\s+(\\d{1,2})${ORDINAL}${RANGE_SEPARATOR}(?:${MONTH_NAMES}\\s+)?\\d{1,2}${ORDINAL},?\\s+(\\d{4})\\b`, 'gi'),
+    match => ({ value: formatDate(Number(match[4]), monthFromName(match[1]), Number(match[2])) })
+  );
+
+  // 4-6 March 2024 / 30 March - 2 April 2024
+  scan(
+    new RegExp(`\\b(\\d{1,2})${ORDINAL}(?:\\s+${MONTH_NAMES})?${RANGE_SEPARATOR}\\d{1,2}${ORDINAL}\\s+${MONTH_NAMES},?\\s+(\\d{4})\\b`, 'gi'),
+    match => ({ value: formatDate(Number(match[4]), monthFromName(match[2] || match[3]), Number(match[1])) })
+  );
+
+  // 2024-03-05 / 2024/03/05
+  scan(/\b(\d{4})[-/](\d{1,2})[-/](\d{1,2})\b/g, match => ({
+    value: formatDate(Number(match[1]), Number(match[2]), Number(match[3])),
+  }));
+
+  // March 5, 2024 / Mar. 5th 2024
+  scan(new RegExp(`\\b${MONTH_NAMES}\\s+(\\d{1,2})${ORDINAL},?\\s+(\\d{4})\\b`, 'gi'), match => ({
+    value: formatDate(Number(match[3]), monthFromName(match[1]), Number(match[2])),
+  }));
+
+  // 5 March 2024 / 5th of March, 2024 / 05-Mar-2024
+  scan(new RegExp(`\\b(\\d{1,2})${ORDINAL}(?:\\s+of)?[\\s-]+${MONTH_NAMES},?[\\s-]+(\\d{4})\\b`, 'gi'), match => ({
+    value: formatDate(Number(match[3]), monthFromName(match[2]), Number(match[1])),
+  }));
+
+  // 03/05/2024, 05.03.2024, 3/5/24
+  scan(/\b(\d{1,2})([/.-])(\d{1,2})\2(\d{4}|\d{2})\b/g, match => {
+    const first = Number(match[1]);
+    const second = Number(match[3]);
+    const year = Number(match[4]);
+    // Dotted dates are day-first across Europe regardless of the accreditor
+    const readDayFirst = first > 12 || (second <= 12 && (dayFirst || match[2] === '.'));
+
+    return readDayFirst
+      ? { value: formatDate(year, second, first), ambiguous: first <= 12 && first !== second }
+      : { value: formatDate(year, first, second), ambiguous: second <= 12 && first !== second };
+  });
+
+  return found.sort((a, b) => a.index - b.index);
+};
+
+const extractTitle = (lines: string[]): Candidate<string> | undefined => {
+  // "Activity: ...", "Course Title: ..."
+  for (const line of lines) {
+    const labelled = line.match(/^(?:activity|course|program(?:me)?|event|session|module)(?:\s+(?:title|name))?\s*:\s*(.{4,})$/i)
+      || line.match(/^title\s*:\s*(.{4,})$/i);
+    if (labelled) {
+      return { value: cleanValue(labelled[1]), confidence: 0.9 };
+    }
+  }
+
+  // "...for completing / has attended / participated in ..." - the title follows on the same or next line
+  const completionPattern = /(?:for (?:successfully )?(?:completing|completion of|attending|attendance at|participating in|participation in)|has (?:successfully )?(?:completed|attended|participated in)|successfully completed|participated in|attended)\s*:?\s*(.*)$/i;
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(completionPattern);
+    if (!match) {
+      continue;
+    }
+
+    // "...the live activity titled" names the kind of activity - the title comes after it
+    const rest = /\b(?:titled|entitled)\b/i.test(match[1])
+      ? match[1].replace(/^.*?\b(?:titled|entitled)\b\s*:?/i, '')
+      : match[1];
+    const raw = cleanValue(rest).length >= 4 ? rest : (lines[i + 1] || '');
+    const candidate = cleanValue(raw);
+    if (candidate.length >= 4 && !BOILERPLATE_PATTERN.test(candidate) && findCertificateDates(candidate).length === 0) {
+      return { value: candidate, confidence: /^\s*["“]/.test(raw) ? 0.9 : 0.8 };
+    }
+  }
+
+  // A quoted line is usually the activity
+  const quoted = lines.find(line => /^["“].{4,}["”]$/.test(line));
+  if (quoted) {
+    return { value: cleanValue(quoted), confidence: 0.8 };
+  }
+
+  // Fall back to the longest line near the top - often right, but not trusted enough to prefill
+  const longestLine = lines
+    .slice(0, 5)
+    .filter(line =>
+      line.length > 10 &&
+      line.length <= MAX_NAME_LENGTH &&
+      !BOILERPLATE_PATTERN.test(line) &&
+      !STATEMENT_PATTERN.test(line) &&
+      findCertificateDates(line).length === 0
+    )
+    .reduce((longest, line) => (line.length > longest.length ? line : longest), '');
+
+  return longestLine ? { value: longestLine, confidence: 0.5 } : undefined;
+};
+
+const extractProvider = (lines: string[], text: string): Candidate<string> | undefined => {
+  // "Provided by", "Jointly provided by", "Accredited provider: ..."
+  const sponsorMatch = text.match(/(?:provided by|sponsored by|presented by|offered by|organi[sz]ed by|hosted by|issued by)\s*:?\s*([^\n]+)/i)
+    || text.match(/(?:^|\n)\s*(?:accredited provider|provider|organi[sz]ation|host)\s*:\s*([^\n]+)/i);
+  if (sponsorMatch && cleanValue(sponsorMatch[1]).length >= 3) {
+    const provider = sponsorMatch[1].split(/\s+(?:in (?:partnership|collaboration) with|and is accredited)\b/i)[0];
+    return { value: cleanValue(provider.replace(/^the\s+/i, '')), confidence: 0.85 };
+  }
+
+  // Accreditation statements name the provider: "The X is accredited by the ACCME..."
+  const accreditedMatch = text.match(/(?:^|\n)\s*(?:the\s+)?([^\n]{3,80}?)\s+is accredited (?:by|as)/i);
+  if (accreditedMatch && !/^this\b/i.test(accreditedMatch[1])) {
+    return { value: cleanValue(accreditedMatch[1]), confidence: 0.8 };
+  }
+
+  const providerKeywords = [
+    'hospital', 'university', 'college', 'institute', 'academy',
+    'association', 'society', 'foundation', 'school of medicine', 'health system',
+  ];
+
+  const keywordLine = lines.find(line =>
+    line.length <= MAX_NAME_LENGTH &&
+    providerKeywords.some(keyword => line.toLowerCase().includes(keyword)) &&
+    !BOILERPLATE_PATTERN.test(line) &&
+    !STATEMENT_PATTERN.test(line)
+  );
+  return keywordLine ? { value: cleanValue(keywordLine), confidence: 0.6 } : undefined;
+};
+
+const extractDate = (text: string, dayFirst: boolean): Candidate<string> | undefined => {
+  // Activity and completion dates say when the learning happened; issue dates are a weaker stand-in
+  const labels: Array<{ pattern: RegExp; confidence: number }> = [
+    { pattern: /(?:date\(?s?\)? of (?:the )?(?:activity|event|course|completion|attendance)|activity dates?|event dates?|completion date|date completed|completed on|held on|attended on)\s*:?\s*([^\n]+)/i, confidence: 0.9 },
+    { pattern: /(?:^|\n)\s*dates?\s*:\s*([^\n]+)/i, confidence: 0.85 },
+    { pattern: /(?:date (?:of )?issue|issue date|date issued|issued on|awarded on)\s*:?\s*([^\n]+)/i, confidence: 0.7 },
+  ];
+
+  for (const { pattern, confidence } of labels) {
+    const match = text.match(pattern);
+    const labelled = match ? findCertificateDates(match[1], dayFirst)[0] : undefined;
+    if (labelled) {
+      return { value: labelled.value, confidence: labelled.ambiguous ? confidence - 0.15 : confidence };
+    }
+  }
+
+  const dates = findCertificateDates(text, dayFirst);
+  if (dates.length === 0) {
+    return undefined;
+  }
+
+  // A single date is probably the activity; several (e.g. activity and issue dates) are less certain
+  const distinct = new Set(dates.map(date => date.value));
+  const confidence = (distinct.size === 1 ? 0.75 : 0.6) - (dates[0].ambiguous ? 0.1 : 0);
+  return { value: dates[0].value, confidence };
+};
+
+const extractCredits = (text: string): Candidate<number> | undefined => {
+  const n = CREDIT_NUMBER;
+  // Accreditor phrasing first, then generic wording, then bare numbers
+  const creditPatterns: Array<{ pattern: RegExp; confidence: number }> = [
+    // "a maximum of 3.5 AMA PRA Category 1 Credits"
+    { pattern: new RegExp(`${n}\\s*AMA\\s+PRA\\s+Category\\s+1\\s+Credit`, 'i'), confidence: 0.95 },
+    { pattern: new RegExp(`AMA\\s+PRA\\s+Category\\s+1\\s+Credits?\\s*(?:\\(s\\))?\\s*:\\s*${n}`, 'i'), confidence: 0.95 },
+    // "awarded 2.0 contact hours" (ANCC, ACPE)
+    { pattern: new RegExp(`(?:awarded|earned|approved for|provides?|worth)\\s+${n}\\s*(?:nursing\\s+)?contact\\s+hours?`, 'i'), confidence: 0.95 },
+    { pattern: new RegExp(`${n}\\s*(?:nursing\\s+)?contact\\s+hours?`, 'i'), confidence: 0.9 },
+    { pattern: new RegExp(`contact\\s+hours?\\s*:\\s*${n}`, 'i'), confidence: 0.9 },
+    // RCPSC "3 hours (credits) under Section 1", CFPC Mainpro+, AOA, AAFP, EACCME
+    { pattern: new RegExp(`${n}\\s*(?:hours?\\s*\\(credits?\\)|credits?)\\s*(?:under|in|toward)\\s+Section\\s+[123]`, 'i'), confidence: 0.9 },
+    { pattern: new RegExp(`${n}\\s*(?:certified\\s+)?Mainpro\\+?\\s*(?:certified\\s+)?credits?`, 'i'), confidence: 0.9 },
+    { pattern: new RegExp(`${n}\\s*AOA\\s+Category\\s+1-?A\\s+credits?`, 'i'), confidence: 0.9 },
+    { pattern: new RegExp(`${n}\\s*(?:AAFP\\s+)?Prescribed\\s+credits?`, 'i'), confidence: 0.9 },
+    { pattern: new RegExp(`${n}\\s*European\\s+CME\\s+credits?`, 'i'), confidence: 0.9 },
+    // RCP "6 CPD points", "6 category 1 (external) CPD credits"
+    { pattern: new RegExp(`${n}\\s*(?:category\\s+[12]\\s*(?:\\((?:external|internal)\\))?\\s*)?CPD\\s+(?:credits?|points?|hours?)`, 'i'), confidence: 0.9 },
+    // ACPE "0.2 CEUs" - kept as CEUs, since that is the unit printed
+    { pattern: new RegExp(`${n}\\s*CEUs?\\b`, 'i'), confidence: 0.8 },
+    { pattern: new RegExp(`${n}\\s*(?:CME|CE)\\s+(?:credits?|hours?|points?|units?)`, 'i'), confidence: 0.85 },
+    { pattern: new RegExp(`(?:credits?|points?|CEUs?)(?:\\s+(?:awarded|earned|claimed))?\\s*:\\s*${n}`, 'i'), confidence: 0.8 },
+    { pattern: new RegExp(`${n}\\s*(?:credits?|points?)\\b`, 'i'), confidence: 0.7 },
+    // Bare "N hours" is often the session length rather than the credit
+    { pattern: new RegExp(`${n}\\s*hours?\\b`, 'i'), confidence: 0.6 },
+  ];
+
+  for (const { pattern, confidence } of creditPatterns) {
+    const match = text.match(pattern);
+    if (match) {
+      const credits = toNumber(match[1]);
+      if (credits > 0 && credits <= MAX_CREDITS) {
+        return { value: credits, confidence };
+      }
+    }
+  }
+
+  return undefined;
+};
+
+const extractCategory = (lowerText: string): Candidate<CMECategory> | undefined => {
+  const categoryKeywords: Array<{ category: CMECategory; keywords: string[]; confidence: number }> = [
+    { category: 'Patient Safety', keywords: ['patient safety'], confidence: 0.8 },
+    { category: 'Opioid Prescribing', keywords: ['opioid'], confidence: 0.8 },
+    { category: 'Quality Improvement', keywords: ['quality improvement', 'performance improvement'], confidence: 0.8 },
+    { category: 'Ethics', keywords: ['ethics', 'ethical'], confidence: 0.75 },
+    { category: 'Webinar', keywords: ['webinar', 'live stream', 'livestream'], confidence: 0.75 },
+    { category: 'Workshop', keywords: ['workshop', 'hands-on'], confidence: 0.75 },
+    { category: 'Journal Reading', keywords: ['journal-based', 'journal based', 'journal cme'], confidence: 0.75 },
+    { category: 'Conference', keywords: ['conference', 'annual meeting', 'scientific meeting', 'congress', 'symposium', 'summit'], confidence: 0.7 },
+    { category: 'Online Course', keywords: ['online course', 'e-learning', 'elearning', 'enduring material', 'online module'], confidence: 0.7 },
+  ];
+
+  const match = categoryKeywords.find(({ keywords }) => keywords.some(keyword => lowerText.includes(keyword)));
+  return match ? { value: match.category, confidence: match.confidence } : undefined;
+};
+
+/**
+ * Parse certificate text into entry fields, each with its own confidence
+ */
+export const parseCertificateText = (rawText: string): CertificateParseResult => {
+  const text = normalizeText(rawText);
+  const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+  const accreditor = detectAccreditor(text);
+
+  const candidates: { [K in OCRField]?: Candidate<NonNullable<CertificateFields[K]>> } = {
+    title: extractTitle(lines),
+    provider: extractProvider(lines, text),
+    date: extractDate(text, accreditor?.dayFirstDates ?? false),
+    credits: extractCredits(text),
+    category: extractCategory(text.toLowerCase()),
+  };
+
+  const extractedData: CertificateFields = {};
+  const fieldConfidence: Partial<Record<OCRField, number>> = {};
+
+  (Object.keys(candidates) as OCRField[]).forEach(field => {
+    const candidate = candidates[field];
+    if (candidate) {
+      (extractedData as Record<OCRField, unknown>)[field] = candidate.value;
+      fieldConfidence[field] = Math.round(candidate.confidence * 100) / 100;
+    }
+  });
+
+  return { extractedData, fieldConfidence, accreditor };
+};
+
+/**
+ * Keep only the fields at or above the confidence threshold
+ */
+export const selectConfidentFields = (
+  result: CertificateParseResult,
+  threshold: number
+): { extractedData: CertificateFields; confidence: number } => {
+  const extractedData: CertificateFields = {};
+  const kept: number[] = [];
+
+  (Object.keys(result.extractedData) as OCRField[]).forEach(field => {
+    const confidence = result.fieldConfidence[field] ?? 0;
+    if (confidence >= threshold) {
+      (extractedData as Record<OCRField, unknown>)[field] = result.extractedData[field];
+      kept.push(confidence);
+    }
+  });
+
+  return {
+    extractedData,
+    confidence: kept.length > 0 ? kept.reduce((sum, value) => sum + value, 0) / kept.length : 0,
+  };
+};
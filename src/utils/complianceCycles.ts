@@ -0,0 +1,73 @@
+import { CarryOverRule, CMEEntry, RequirementRule } from '../types';
+import { applyCreditCaps } from './creditCaps';
+
+type CycleEntry = Pick<CMEEntry, 'id' | 'dateAttended' | 'creditsEarned' | 'category'>;
+type CarryOverLimit = Pick<CarryOverRule, 'maximumCredits' | 'windowMonths'>;
+
+export interface CycleTotals {
+  claimedCredits: number;
+  countedCredits: number;
+  carriedOutCredits: number;
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Shift a YYYY-MM-DD date by whole months, clamping to the end of shorter months
+ */
+export const addMonthsToDate = (date: string, months: number): string => {
+  const [year, month, day] = date.split('T')[0].split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().split('T')[0];
+};
+
+export const addYearsToDate = (date: string, years: number): string => addMonthsToDate(date, years * 12);
+
+/**
+ * Work out how much surplus rolls into the next cycle.
+ * Only this cycle's own counted credits can carry - with a window, only those dated in its final months.
+ */
+export const calculateCarryOver = (
+  entries: CycleEntry[],
+  countedByEntry: Record<number, number>,
+  cycleEndDate: string,
+  surplusCredits: number,
+  rule?: CarryOverLimit
+): number => {
+  if (!rule || surplusCredits <= 0 || rule.maximumCredits <= 0) {
+    return 0;
+  }
+
+  const windowStart = rule.windowMonths
+    ? addMonthsToDate(cycleEndDate, -rule.windowMonths)
+    : undefined;
+
+  const eligibleCredits = entries
+    .filter(entry => !windowStart || entry.dateAttended.split('T')[0] >= windowStart)
+    .reduce((sum, entry) => sum + (countedByEntry[entry.id] ?? (entry.creditsEarned || 0)), 0);
+
+  return round(Math.max(Math.min(surplusCredits, rule.maximumCredits, eligibleCredits), 0));
+};
+
+/**
+ * Total up a finished cycle from the entries dated inside it
+ */
+export const summarizeCycle = (
+  entries: CycleEntry[],
+  rules: RequirementRule[],
+  requiredCredits: number,
+  carriedInCredits: number,
+  cycleEndDate: string,
+  carryOverRule?: CarryOverLimit
+): CycleTotals => {
+  const caps = applyCreditCaps(entries, rules, requiredCredits);
+  const surplus = caps.countedCredits + carriedInCredits - requiredCredits;
+
+  return {
+    claimedCredits: caps.claimedCredits,
+    countedCredits: caps.countedCredits,
+    carriedOutCredits: calculateCarryOver(entries, caps.countedByEntry, cycleEndDate, surplus, carryOverRule),
+  };
+};
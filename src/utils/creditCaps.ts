@@ -0,0 +1,90 @@
+import { CMEEntry, RequirementRule } from '../types';
+
+type CappableEntry = Pick<CMEEntry, 'id' | 'dateAttended' | 'creditsEarned' | 'category'>;
+type CapRule = Pick<RequirementRule, 'category' | 'maximumCredits' | 'maximumPercent'>;
+
+export interface CreditCapResult {
+  claimedCredits: number; // Sum of creditsEarned
+  countedCredits: number; // What the caps allow toward the total
+  countedByEntry: Record<number, number>; // Only entries that were partially or fully discounted
+}
+
+const normalizeCategory = (category: string): string => category.trim().toLowerCase();
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Get the most a rule lets its category count toward the total.
+ * A percentage cap is taken of the total requirement; with both set the lower one wins.
+ */
+export const getEffectiveCap = (rule: CapRule, totalRequired: number): number | undefined => {
+  const caps: number[] = [];
+
+  if (rule.maximumCredits !== undefined) {
+    caps.push(rule.maximumCredits);
+  }
+  if (rule.maximumPercent !== undefined && totalRequired > 0) {
+    caps.push(round((totalRequired * rule.maximumPercent) / 100));
+  }
+
+  return caps.length > 0 ? Math.min(...caps) : undefined;
+};
+
+/**
+ * Apply category caps to a set of entries already scoped to one cycle or license.
+ * Entries are counted in date order, so the earliest activities use up a cap first
+ * and later ones are the ones discounted.
+ */
+export const applyCreditCaps = (
+  entries: CappableEntry[],
+  rules: CapRule[],
+  totalRequired: number
+): CreditCapResult => {
+  const caps = new Map<string, number>();
+  rules.forEach(rule => {
+    const cap = getEffectiveCap(rule, totalRequired);
+    if (cap === undefined) {
+      return;
+    }
+    const category = normalizeCategory(rule.category);
+    const existing = caps.get(category);
+    caps.set(category, existing === undefined ? cap : Math.min(existing, cap));
+  });
+
+  const sorted = [...entries].sort((a, b) =>
+    a.dateAttended.localeCompare(b.dateAttended) || a.id - b.id
+  );
+
+  const used = new Map<string, number>();
+  const countedByEntry: Record<number, number> = {};
+  let claimedCredits = 0;
+  let countedCredits = 0;
+
+  sorted.forEach(entry => {
+    const credits = entry.creditsEarned || 0;
+    const category = normalizeCategory(entry.category || '');
+    const cap = caps.get(category);
+
+    claimedCredits += credits;
+
+    if (cap === undefined) {
+      countedCredits += credits;
+      return;
+    }
+
+    const alreadyUsed = used.get(category) || 0;
+    const counted = round(Math.min(credits, Math.max(cap - alreadyUsed, 0)));
+    used.set(category, alreadyUsed + counted);
+    countedCredits += counted;
+
+    if (counted < credits) {
+      countedByEntry[entry.id] = counted;
+    }
+  });
+
+  return {
+    claimedCredits: round(claimedCredits),
+    countedCredits: round(countedCredits),
+    countedByEntry,
+  };
+};
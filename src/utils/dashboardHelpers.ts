@@ -1,4 +1,5 @@
 import { theme } from '../constants/theme';
+import type { ThemeColors } from '../theme/palettes';
 
 /**
  * Get greeting based on time of day
@@ -11,20 +12,20 @@ export const getGreeting = (): string => {
 };
 
 /**
- * Get color based on progress status
+ * Get color based on progress status. Pass the active theme's colors from components.
  */
-export const getProgressColor = (status: string): string => {
+export const getProgressColor = (status: string, colors: ThemeColors = theme.colors): string => {
   switch (status) {
     case 'completed':
-      return theme.colors.success;
+      return colors.success;
     case 'on_track':
-      return theme.colors.primary;
+      return colors.primary;
     case 'behind':
-      return theme.colors.warning;
+      return colors.warning;
     case 'overdue':
-      return theme.colors.error;
+      return colors.error;
     default:
-      return theme.colors.gray.medium;
+      return colors.gray.medium;
   }
 };
 
@@ -21,10 +21,25 @@ export {
   createCompleteBackup,
   isValidBackupFile,
   extractZipBackup,
+  verifyBackupFile,
+  isEncryptedBackupFile,
+  decryptBackupFile,
+  discardDecryptedBackup,
   type BackupOptions,
-  type BackupProgress
+  type BackupProgress,
+  type BackupVerification,
+  type PassphraseRequest
 } from '../services/zipBackupService';
 
+// Re-export backup encryption limits for passphrase prompts
+export { MIN_BACKUP_PASSPHRASE_LENGTH } from '../services/backupEncryption';
+
+// Re-export backup restore
+export {
+  restoreFromBackup,
+  type RestoreResult
+} from '../services/backupRestoreService';
+
 // CSV Export functionality
 export const exportCMEToCSV = async (entries: CMEEntry[], user: User): Promise<boolean> => {
   try {
@@ -216,11 +231,17 @@ export const createBackup = async (
 ): Promise<boolean> => {
   try {
     const backupData = {
+      backupFormatVersion: APP_CONFIG.BACKUP_FORMAT_VERSION,
       version: APP_CONFIG.VERSION,
       exportDate: new Date().toISOString(),
       user,
       cmeEntries: entries,
       licenses,
+      certificates: [],
+      entryLicenseLinks: [],
+      requirementRules: [],
+      carryOverRules: [],
+      complianceCycles: [],
     };
 
     const backupContent = JSON.stringify(backupData, null, 2);
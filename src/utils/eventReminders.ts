@@ -0,0 +1,126 @@
+import { CMEEventReminder, EventDeadline, EventDeadlineType } from '../types';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export const EVENT_DEADLINE_LABELS: Record<EventDeadlineType, string> = {
+  abstract: 'Abstract submission',
+  early_bird: 'Early-bird registration',
+  registration: 'Registration',
+  other: 'Deadline',
+};
+
+export interface NextDeadline {
+  event: CMEEventReminder;
+  deadline: EventDeadline;
+  daysUntil: number; // 0 = due today
+}
+
+/**
+ * Reads a stored event date (YYYY-MM-DD) as local midnight, so it doesn't shift a day
+ * west of UTC. Returns null for missing or invalid dates.
+ */
+export const parseEventDate = (value?: string): Date | null => {
+  if (!value) {
+    return null;
+  }
+
+  const isoMatch = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const date = isoMatch
+    ? new Date(Number(isoMatch[1]), Number(isoMatch[2]) - 1, Number(isoMatch[3]))
+    : new Date(value);
+
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Local YYYY-MM-DD for a date picked in the UI
+ */
+export const formatEventDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Last day of the event - the start date for single-day events
+ */
+export const getEventLastDay = (event: Pick<CMEEventReminder, 'eventDate' | 'endDate'>): Date | null => {
+  const startDate = parseEventDate(event.eventDate);
+  const endDate = parseEventDate(event.endDate);
+  return endDate && startDate && endDate > startDate ? endDate : startDate;
+};
+
+/**
+ * Whether the event is over and the user hasn't said yet if they attended
+ */
+export const isAwaitingAttendance = (
+  event: Pick<CMEEventReminder, 'eventDate' | 'endDate' | 'attendanceStatus'>,
+  now: Date = new Date()
+): boolean => {
+  const lastDay = getEventLastDay(event);
+  if (!lastDay || event.attendanceStatus !== 'pending') {
+    return false;
+  }
+
+  const dayAfter = new Date(lastDay);
+  dayAfter.setDate(lastDay.getDate() + 1);
+  return now >= dayAfter;
+};
+
+/**
+ * "Mar 3, 2026" or "Mar 3, 2026 - Mar 5, 2026" for multi-day events
+ */
+export const getEventDateLabel = (event: Pick<CMEEventReminder, 'eventDate' | 'endDate'>): string => {
+  const startDate = parseEventDate(event.eventDate);
+  const lastDay = getEventLastDay(event);
+  if (!startDate || !lastDay) {
+    return event.eventDate;
+  }
+
+  const options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', year: 'numeric' };
+  const start = startDate.toLocaleDateString(undefined, options);
+  return lastDay > startDate ? `${start} - ${lastDay.toLocaleDateString(undefined, options)}` : start;
+};
+
+/**
+ * AddCME form values for logging an attended event
+ */
+export const getEventEntryPrefill = (event: CMEEventReminder): {
+  title: string;
+  date: string;
+  credits?: number;
+  notes: string;
+} => ({
+  title: event.eventName,
+  date: event.eventDate,
+  credits: event.expectedCredits,
+  notes: [event.location, event.url].filter(Boolean).join('\n'),
+});
+
+/**
+ * What a deadline is called - its own label for 'other' deadlines
+ */
+export const getDeadlineLabel = (deadline: Pick<EventDeadline, 'type' | 'label'>): string =>
+  deadline.type === 'other' && deadline.label?.trim() ? deadline.label.trim() : EVENT_DEADLINE_LABELS[deadline.type];
+
+/**
+ * The soonest deadline due today or later across all events, or null
+ */
+export const getNextDeadline = (events: CMEEventReminder[], now: Date = new Date()): NextDeadline | null => {
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+
+  let next: NextDeadline | null = null;
+  events.forEach(event => {
+    event.deadlines.forEach(deadline => {
+      const date = parseEventDate(deadline.date);
+      if (!date || date < today) {
+        return;
+      }
+
+      const daysUntil = Math.round((date.getTime() - today.getTime()) / DAY_MS);
+      if (!next || daysUntil < next.daysUntil) {
+        next = { event, deadline, daysUntil };
+      }
+    });
+  });
+
+  return next;
+};
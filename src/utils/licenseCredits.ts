@@ -0,0 +1,155 @@
+import { CarryOverRule, CMEEntry, CMEEntryLicenseLink, LicenseRenewal, RequirementRule } from '../types';
+import { applyCreditCaps } from './creditCaps';
+import { summarizeCycle } from './complianceCycles';
+
+type CreditedEntry = Pick<CMEEntry, 'id' | 'dateAttended' | 'creditsEarned' | 'category'>;
+
+/**
+ * Get the renewal window a license's credits are counted in.
+ * Starts at the last renewal date, or one requirement period before expiry if unknown.
+ */
+export const getLicenseRenewalWindow = (
+  license: Pick<LicenseRenewal, 'expirationDate' | 'renewalDate'>,
+  fallbackPeriodYears: number = 1
+): { startDate: string; endDate: string } => {
+  const endDate = license.expirationDate;
+
+  if (license.renewalDate) {
+    return { startDate: license.renewalDate, endDate };
+  }
+
+  const start = new Date(`${license.expirationDate}T00:00:00`);
+  start.setFullYear(start.getFullYear() - Math.max(fallbackPeriodYears, 1));
+
+  return { startDate: formatDate(start), endDate };
+};
+
+/**
+ * Get the entries that count toward a license.
+ * Entries linked to specific licenses only count toward those; entries with no links
+ * count toward every license whose renewal window contains their date.
+ */
+export const getLicenseEntries = <T extends CreditedEntry>(
+  license: LicenseRenewal,
+  entries: T[],
+  links: CMEEntryLicenseLink[],
+  fallbackPeriodYears: number = 1
+): T[] => {
+  const { startDate, endDate } = getLicenseRenewalWindow(license, fallbackPeriodYears);
+  return filterLicenseEntries(license, entries, links, date => date >= startDate && date <= endDate);
+};
+
+/**
+ * Get the window before the current renewal window, assumed to be the same length.
+ * endDate is exclusive - it is the current window's start date.
+ */
+export const getPreviousLicenseRenewalWindow = (
+  license: Pick<LicenseRenewal, 'expirationDate' | 'renewalDate'>,
+  fallbackPeriodYears: number = 1
+): { startDate: string; endDate: string } => {
+  const { startDate, endDate } = getLicenseRenewalWindow(license, fallbackPeriodYears);
+  const start = new Date(`${startDate}T00:00:00`);
+  const end = new Date(`${endDate}T00:00:00`);
+
+  // The current window's end is inclusive, so it spans one day more than end - start
+  const windowDays = Math.round((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+  const previousStart = new Date(start);
+  previousStart.setDate(previousStart.getDate() - windowDays);
+
+  return { startDate: formatDate(previousStart), endDate: startDate };
+};
+
+/**
+ * Sum the credits that count toward a license, after the license's category caps
+ */
+export const calculateLicenseCompletedCredits = (
+  license: LicenseRenewal,
+  entries: CreditedEntry[],
+  links: CMEEntryLicenseLink[],
+  fallbackPeriodYears: number = 1,
+  rules: RequirementRule[] = []
+): number => {
+  const licenseEntries = getLicenseEntries(license, entries, links, fallbackPeriodYears);
+  const licenseRules = rules.filter(rule => rule.licenseId === license.id);
+
+  return applyCreditCaps(licenseEntries, licenseRules, license.requiredCredits).countedCredits;
+};
+
+/**
+ * Work out how much of the previous renewal window's surplus carries into the current one.
+ * The previous window has no archive of its own, so nothing is assumed to have carried into it.
+ */
+export const calculateLicenseCarriedInCredits = (
+  license: LicenseRenewal,
+  entries: CreditedEntry[],
+  links: CMEEntryLicenseLink[],
+  fallbackPeriodYears: number = 1,
+  rules: RequirementRule[] = [],
+  carryOverRule?: Pick<CarryOverRule, 'maximumCredits' | 'windowMonths'>
+): number => {
+  if (!carryOverRule) {
+    return 0;
+  }
+
+  const { startDate, endDate } = getPreviousLicenseRenewalWindow(license, fallbackPeriodYears);
+  const previousEntries = filterLicenseEntries(license, entries, links, date => date >= startDate && date < endDate);
+  const licenseRules = rules.filter(rule => rule.licenseId === license.id);
+
+  return summarizeCycle(previousEntries, licenseRules, license.requiredCredits, 0, endDate, carryOverRule).carriedOutCredits;
+};
+
+/**
+ * Return licenses with completedCredits recomputed from CME entries, including any carried-over credits
+ */
+export const applyLicenseCompletedCredits = (
+  licenses: LicenseRenewal[],
+  entries: CreditedEntry[],
+  links: CMEEntryLicenseLink[],
+  fallbackPeriodYears: number = 1,
+  rules: RequirementRule[] = [],
+  carryOverRules: CarryOverRule[] = []
+): LicenseRenewal[] => {
+  return licenses.map(license => {
+    const carryOverRule = carryOverRules.find(rule => rule.licenseId === license.id);
+    const carriedOverCredits = calculateLicenseCarriedInCredits(
+      license, entries, links, fallbackPeriodYears, rules, carryOverRule
+    );
+    const countedCredits = calculateLicenseCompletedCredits(license, entries, links, fallbackPeriodYears, rules);
+
+    return {
+      ...license,
+      completedCredits: Math.round((countedCredits + carriedOverCredits) * 100) / 100,
+      carriedOverCredits,
+    };
+  });
+};
+
+function filterLicenseEntries<T extends CreditedEntry>(
+  license: LicenseRenewal,
+  entries: T[],
+  links: CMEEntryLicenseLink[],
+  isInWindow: (date: string) => boolean
+): T[] {
+  const linkedLicenses = new Map<number, Set<number>>();
+  links.forEach(link => {
+    const set = linkedLicenses.get(link.cmeEntryId) || new Set<number>();
+    set.add(link.licenseId);
+    linkedLicenses.set(link.cmeEntryId, set);
+  });
+
+  return entries.filter(entry => {
+    if (!isInWindow(entry.dateAttended.split('T')[0])) {
+      return false;
+    }
+
+    const licenseIds = linkedLicenses.get(entry.id);
+    return !licenseIds || licenseIds.has(license.id);
+  });
+}
+
+function formatDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
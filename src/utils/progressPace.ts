@@ -0,0 +1,102 @@
+import { Progress, User } from '../types';
+
+type PaceUser = Pick<User, 'cycleStartDate' | 'cycleEndDate' | 'requirementPeriod' | 'annualRequirement'>;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Below this share of the expected progress, the user is behind
+export const BEHIND_PACE_RATIO = 0.8;
+
+export interface CyclePace {
+  startOfPeriod: Date;
+  endOfPeriod: Date;
+  totalDaysInPeriod: number;
+  daysPassed: number;
+  remainingDays: number;
+  percentage: number; // Not capped at 100
+  expectedProgress: number; // Percentage of the requirement expected by `now`
+  expectedCredits: number;
+  creditsBehind: number; // Credits short of the expected pace, 0 when ahead
+  status: Progress['status'];
+}
+
+/**
+ * The user's current cycle as dates. Falls back to the calendar year when no valid
+ * cycle dates are set.
+ */
+export const getCyclePeriod = (
+  user: Pick<User, 'cycleStartDate' | 'cycleEndDate' | 'requirementPeriod'>,
+  now: Date = new Date()
+): { startOfPeriod: Date; endOfPeriod: Date } => {
+  const periodYears = user.requirementPeriod || 1;
+  const currentYear = now.getFullYear();
+
+  if (user.cycleStartDate && user.cycleEndDate) {
+    const startOfPeriod = new Date(user.cycleStartDate);
+    const endOfPeriod = new Date(user.cycleEndDate);
+
+    // Validate dates to prevent NaN in calculations
+    if (isNaN(startOfPeriod.getTime()) || isNaN(endOfPeriod.getTime())) {
+      return { startOfPeriod: new Date(currentYear, 0, 1), endOfPeriod: new Date(currentYear + periodYears, 0, 1) };
+    }
+    return { startOfPeriod, endOfPeriod };
+  }
+
+  if (user.cycleStartDate) {
+    let startOfPeriod = new Date(user.cycleStartDate);
+    if (isNaN(startOfPeriod.getTime())) {
+      startOfPeriod = new Date(currentYear, 0, 1);
+    }
+
+    const endOfPeriod = new Date(startOfPeriod);
+    endOfPeriod.setFullYear(startOfPeriod.getFullYear() + periodYears);
+    return { startOfPeriod, endOfPeriod };
+  }
+
+  // No cycle dates set, fall back to current year assumption
+  return { startOfPeriod: new Date(currentYear, 0, 1), endOfPeriod: new Date(currentYear + periodYears, 0, 1) };
+};
+
+/**
+ * Expected-vs-actual progress through the cycle at `now`. Progress is on track while it is
+ * at least BEHIND_PACE_RATIO of the share of the cycle that has passed.
+ */
+export const calculatePace = (
+  user: PaceUser,
+  completedCredits: number,
+  now: Date = new Date()
+): CyclePace => {
+  const { startOfPeriod, endOfPeriod } = getCyclePeriod(user, now);
+
+  const totalDaysInPeriod = Math.ceil((endOfPeriod.getTime() - startOfPeriod.getTime()) / DAY_MS);
+  const daysPassed = Math.ceil((now.getTime() - startOfPeriod.getTime()) / DAY_MS);
+  const remainingDays = Math.max(Math.ceil((endOfPeriod.getTime() - now.getTime()) / DAY_MS), 0);
+
+  const percentage = user.annualRequirement > 0 ? (completedCredits / user.annualRequirement) * 100 : 0;
+  const expectedProgress = daysPassed > 0 ? (daysPassed / totalDaysInPeriod) * 100 : 0;
+  const expectedCredits = Math.min(expectedProgress, 100) / 100 * user.annualRequirement;
+
+  let status: Progress['status'];
+  if (percentage >= 100) {
+    status = 'completed';
+  } else if (percentage >= expectedProgress * BEHIND_PACE_RATIO) {
+    status = 'on_track';
+  } else if (remainingDays <= 0) {
+    status = 'overdue';
+  } else {
+    status = 'behind';
+  }
+
+  return {
+    startOfPeriod,
+    endOfPeriod,
+    totalDaysInPeriod,
+    daysPassed,
+    remainingDays,
+    percentage,
+    expectedProgress,
+    expectedCredits,
+    creditsBehind: Math.max(expectedCredits - completedCredits, 0),
+    status,
+  };
+};
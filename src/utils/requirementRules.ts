@@ -0,0 +1,130 @@
+import {
+  CMEEntry,
+  CMEEntryLicenseLink,
+  CategoryRequirementProgress,
+  LicenseRenewal,
+  RequirementBreakdown,
+  RequirementRule,
+  User,
+} from '../types';
+import { getLicenseEntries } from './licenseCredits';
+import { getEffectiveCap } from './creditCaps';
+
+type CategorizedEntry = Pick<CMEEntry, 'id' | 'dateAttended' | 'creditsEarned' | 'category'>;
+
+/**
+ * Get the user's current requirement cycle.
+ * endDate is exclusive, matching getEntriesInDateRange.
+ */
+export const getUserCycleWindow = (
+  user: Pick<User, 'cycleStartDate' | 'cycleEndDate' | 'requirementPeriod'>
+): { startDate: string; endDate: string } => {
+  const periodYears = user.requirementPeriod || 1;
+
+  if (user.cycleStartDate && user.cycleEndDate) {
+    return { startDate: user.cycleStartDate, endDate: user.cycleEndDate };
+  }
+
+  if (user.cycleStartDate) {
+    const end = new Date(user.cycleStartDate);
+    end.setFullYear(end.getFullYear() + periodYears);
+    return { startDate: user.cycleStartDate, endDate: end.toISOString().split('T')[0] };
+  }
+
+  // No cycle dates set - assume the cycle started this calendar year
+  const currentYear = new Date().getFullYear();
+  return { startDate: `${currentYear}-01-01`, endDate: `${currentYear + periodYears}-01-01` };
+};
+
+const normalizeCategory = (category: string): string => category.trim().toLowerCase();
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Evaluate category rules against a set of entries that are already scoped
+ * to the cycle or license the rules belong to
+ */
+export const evaluateCategoryRequirements = (
+  rules: RequirementRule[],
+  entries: CategorizedEntry[],
+  totalRequired: number
+): CategoryRequirementProgress[] => {
+  return rules.map(rule => {
+    const category = normalizeCategory(rule.category);
+    const earnedCredits = round(entries
+      .filter(entry => normalizeCategory(entry.category || '') === category)
+      .reduce((sum, entry) => sum + (entry.creditsEarned || 0), 0));
+
+    const effectiveCap = getEffectiveCap(rule, totalRequired);
+    const countedCredits = effectiveCap !== undefined
+      ? Math.min(earnedCredits, effectiveCap)
+      : earnedCredits;
+
+    return {
+      ruleId: rule.id,
+      category: rule.category,
+      minimumCredits: rule.minimumCredits,
+      effectiveCap,
+      earnedCredits,
+      countedCredits,
+      discountedCredits: round(earnedCredits - countedCredits),
+      remainingCredits: round(Math.max(rule.minimumCredits - countedCredits, 0)),
+      isMet: countedCredits >= rule.minimumCredits,
+    };
+  });
+};
+
+/**
+ * Get the entries dated inside the user's current requirement cycle
+ */
+export const getCycleEntries = <T extends Pick<CMEEntry, 'dateAttended'>>(user: User, entries: T[]): T[] => {
+  const { startDate, endDate } = getUserCycleWindow(user);
+  return entries.filter(entry => {
+    const date = entry.dateAttended.split('T')[0];
+    return date >= startDate && date < endDate;
+  });
+};
+
+/**
+ * Build the per-category breakdown for the user cycle and every license that has rules
+ */
+export const buildRequirementBreakdowns = (
+  user: User,
+  licenses: LicenseRenewal[],
+  rules: RequirementRule[],
+  entries: CategorizedEntry[],
+  links: CMEEntryLicenseLink[]
+): RequirementBreakdown[] => {
+  const breakdowns: RequirementBreakdown[] = [];
+
+  const cycleRules = rules.filter(rule => rule.licenseId === undefined);
+  if (cycleRules.length > 0) {
+    const cycleEntries = getCycleEntries(user, entries);
+
+    breakdowns.push({
+      label: user.requirementPeriod && user.requirementPeriod > 1
+        ? `${user.requirementPeriod}-Year Cycle`
+        : 'Annual Requirement',
+      categories: evaluateCategoryRequirements(cycleRules, cycleEntries, user.annualRequirement),
+    });
+  }
+
+  licenses.forEach(license => {
+    const licenseRules = rules.filter(rule => rule.licenseId === license.id);
+    if (licenseRules.length === 0) {
+      return;
+    }
+
+    breakdowns.push({
+      licenseId: license.id,
+      label: license.licenseType,
+      categories: evaluateCategoryRequirements(
+        licenseRules,
+        getLicenseEntries(license, entries, links, user.requirementPeriod || 1),
+        license.requiredCredits
+      ),
+    });
+  });
+
+  return breakdowns;
+};
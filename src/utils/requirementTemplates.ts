@@ -0,0 +1,70 @@
+import { REQUIREMENT_TEMPLATES } from '../constants/requirementTemplates';
+import { RequirementTemplate } from '../types';
+import { getCreditPlural } from './creditTerminology';
+
+/**
+ * Find templates for a country and/or profession, keeping catalogue order
+ */
+export const findRequirementTemplates = (filters: {
+  country?: string;
+  profession?: string;
+}): RequirementTemplate[] => {
+  return REQUIREMENT_TEMPLATES.filter(template =>
+    (!filters.country || template.country === filters.country) &&
+    (!filters.profession || template.profession === filters.profession)
+  );
+};
+
+export const getRequirementTemplate = (id: string): RequirementTemplate | undefined => {
+  return REQUIREMENT_TEMPLATES.find(template => template.id === id);
+};
+
+/**
+ * Short summary, e.g. "250 points over 5 years"
+ */
+export const describeRequirementTemplate = (template: RequirementTemplate): string => {
+  const unit = getCreditPlural(template.creditSystem);
+  return template.periodYears === 1
+    ? `${template.totalCredits} ${unit} a year`
+    : `${template.totalCredits} ${unit} over ${template.periodYears} years`;
+};
+
+/**
+ * Get the cycle a fixed-date template is currently in.
+ * Returns undefined for anniversary templates, whose cycle depends on the user's own dates.
+ * endDate is exclusive, matching getUserCycleWindow.
+ */
+export const getTemplateCycleWindow = (
+  template: RequirementTemplate,
+  today: Date = new Date()
+): { startDate: string; endDate: string } | undefined => {
+  const alignment = template.cycleAlignment;
+  if (alignment.type !== 'fixed') {
+    return undefined;
+  }
+
+  const period = Math.max(template.periodYears, 1);
+  let startYear = today.getFullYear();
+  const thisYearStart = new Date(startYear, alignment.month - 1, alignment.day);
+  if (thisYearStart > today) {
+    startYear -= 1;
+  }
+
+  // Multi-year cycles only start in years a whole number of periods from the anchor
+  if (alignment.anchorYear !== undefined && period > 1) {
+    const offset = ((startYear - alignment.anchorYear) % period + period) % period;
+    startYear -= offset;
+  }
+
+  const start = new Date(startYear, alignment.month - 1, alignment.day);
+  const end = new Date(startYear + period, alignment.month - 1, alignment.day);
+
+  return { startDate: formatDate(start), endDate: formatDate(end) };
+};
+
+function formatDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
@@ -0,0 +1,150 @@
+// Restore previews: what a backup holds compared with what's already on this device.
+// Entries and licenses are matched on the fields a merge restore uses to detect duplicates,
+// so a merge would skip every 'identical' one.
+// Kept free of React Native imports so scripts/check-restore-preview.js can run it in Node.
+import type { Certificate, CMEEntry, LicenseRenewal } from '../types';
+import type { BackupCertificateRecord, BackupData } from '../services/zipBackupService';
+
+export type RestoreItemStatus = 'new' | 'changed' | 'identical';
+
+export interface RestorePreviewItem<T> {
+  record: T; // As stored in the backup
+  status: RestoreItemStatus;
+  existingId?: number; // Matching record on this device, for 'changed' and 'identical'
+  changedFields: string[]; // Fields that differ from the matching record
+}
+
+export interface RestorePreview {
+  entries: RestorePreviewItem<CMEEntry>[];
+  licenses: RestorePreviewItem<LicenseRenewal>[];
+  certificates: RestorePreviewItem<BackupCertificateRecord>[];
+}
+
+export interface CurrentRecords {
+  entries: CMEEntry[];
+  licenses: LicenseRenewal[];
+  certificates: Certificate[];
+}
+
+// Fields shown as differences; ids, timestamps and file paths always differ between devices
+const ENTRY_FIELDS: Array<keyof CMEEntry> = ['title', 'provider', 'dateAttended', 'creditsEarned', 'category', 'notes'];
+const LICENSE_FIELDS: Array<keyof LicenseRenewal> = [
+  'licenseType',
+  'issuingAuthority',
+  'licenseNumber',
+  'expirationDate',
+  'renewalDate',
+  'requiredCredits',
+  'status',
+];
+
+/**
+ * Classifies every record in `backupData` against the current database.
+ * Entries match on title, provider, date and credits, or failing that on their creation
+ * time, which survives restores and edits. Licenses match on type, authority and number.
+ * Certificates match on file name and size; they are never 'changed'.
+ */
+export function buildRestorePreview(backupData: BackupData, current: CurrentRecords): RestorePreview {
+  const entriesByKey = indexBy(current.entries, entryKey);
+  const entriesByCreation = indexBy(current.entries.filter(entry => !!entry.createdAt), entry => entry.createdAt);
+  const licensesByKey = indexBy(current.licenses, licenseKey);
+  const certificatesByKey = indexBy(current.certificates, certificateKey);
+
+  return {
+    entries: (backupData.cmeEntries || []).map(entry => classify(
+      entry,
+      entriesByKey.get(entryKey(entry)) ?? (entry.createdAt ? entriesByCreation.get(entry.createdAt) : undefined),
+      ENTRY_FIELDS
+    )),
+    licenses: (backupData.licenses || []).map(license => classify(
+      license,
+      licensesByKey.get(licenseKey(license)),
+      LICENSE_FIELDS
+    )),
+    certificates: (backupData.certificates || []).map(record => classify(
+      record,
+      certificatesByKey.get(certificateKey(record)),
+      []
+    )),
+  };
+}
+
+/**
+ * Backup ids of the certificates that belong to a backup entry
+ */
+export function getEntryCertificateIds(backupData: BackupData, entry: CMEEntry): number[] {
+  return (backupData.certificates || [])
+    .filter(record => record.cmeEntryId === entry.id
+      || (record.cmeEntryId === undefined && !!entry.certificatePath && record.filePath === entry.certificatePath))
+    .map(record => record.id);
+}
+
+/**
+ * Backup id -> id on this device, for every matched record in `items`
+ */
+export function getExistingIds<T extends { id: number }>(items: RestorePreviewItem<T>[]): Record<number, number> {
+  const ids: Record<number, number> = {};
+  for (const item of items) {
+    if (item.existingId !== undefined) {
+      ids[item.record.id] = item.existingId;
+    }
+  }
+  return ids;
+}
+
+/**
+ * Counts of new, changed and identical items, e.g. for a section header
+ */
+export function countByStatus(items: Array<{ status: RestoreItemStatus }>): Record<RestoreItemStatus, number> {
+  const counts: Record<RestoreItemStatus, number> = { new: 0, changed: 0, identical: 0 };
+  for (const item of items) {
+    counts[item.status]++;
+  }
+  return counts;
+}
+
+function classify<T, C extends { id: number }>(
+  record: T,
+  match: C | undefined,
+  fields: Array<keyof T & keyof C>
+): RestorePreviewItem<T> {
+  if (!match) {
+    return { record, status: 'new', changedFields: [] };
+  }
+
+  const changedFields = fields.filter(field => normalize(record[field]) !== normalize(match[field])) as string[];
+  return {
+    record,
+    status: changedFields.length > 0 ? 'changed' : 'identical',
+    existingId: match.id,
+    changedFields,
+  };
+}
+
+// Optional fields come back from SQLite as null and from JSON as undefined or ''
+function normalize(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+function entryKey(entry: Pick<CMEEntry, 'title' | 'provider' | 'dateAttended' | 'creditsEarned'>): string {
+  return JSON.stringify([entry.title, entry.provider, entry.dateAttended, Number(entry.creditsEarned)]);
+}
+
+function licenseKey(license: Pick<LicenseRenewal, 'licenseType' | 'issuingAuthority' | 'licenseNumber'>): string {
+  return JSON.stringify([license.licenseType, license.issuingAuthority, license.licenseNumber || '']);
+}
+
+function certificateKey(certificate: { fileName: string; fileSize: number }): string {
+  return JSON.stringify([certificate.fileName, Number(certificate.fileSize)]);
+}
+
+function indexBy<T>(items: T[], key: (item: T) => string): Map<string, T> {
+  const index = new Map<string, T>();
+  for (const item of items) {
+    const itemKey = key(item);
+    if (!index.has(itemKey)) {
+      index.set(itemKey, item);
+    }
+  }
+  return index;
+}
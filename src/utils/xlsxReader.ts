@@ -0,0 +1,145 @@
+// Minimal reader for .xlsx workbooks: the cell values of the first worksheet, as text.
+// An .xlsx file is a ZIP of XML parts, read here with zipStream. Formatting, formulas and
+// other sheets are ignored; dates come back as the serial numbers spreadsheets store.
+// Kept free of React Native imports so scripts/check-activity-import.js can run it in Node.
+import { bytesToUtf8 } from '@noble/ciphers/utils';
+import { ZipEntry, ZipInput, bytesZipInput, readZipEntries, readZipEntryBytes } from './zipStream';
+
+const WORKBOOK_PART = 'xl/workbook.xml';
+const WORKBOOK_RELS_PART = 'xl/_rels/workbook.xml.rels';
+const SHARED_STRINGS_PART = 'xl/sharedStrings.xml';
+const DEFAULT_SHEET_PART = 'xl/worksheets/sheet1.xml';
+
+/**
+ * Rows of the first worksheet, with empty cells as '' and trailing empty rows dropped
+ */
+export function readXlsxRows(bytes: Uint8Array): string[][] {
+  const input = bytesZipInput(bytes);
+  const entries = new Map(readZipEntries(input).map(entry => [entry.name, entry]));
+
+  if (!entries.has(WORKBOOK_PART)) {
+    throw new Error('Not an Excel workbook (.xlsx)');
+  }
+
+  const sheetPart = findFirstSheetPart(input, entries);
+  const sheetXml = readPart(input, entries, sheetPart);
+  if (sheetXml === null) {
+    throw new Error('The workbook has no worksheet');
+  }
+
+  const sharedStrings = readSharedStrings(readPart(input, entries, SHARED_STRINGS_PART));
+  const rows: string[][] = [];
+
+  for (const rowMatch of sheetXml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(getAttribute(rowMatch[1], 'r')) || rows.length + 1;
+    const cells: string[] = [];
+
+    for (const cellMatch of (rowMatch[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const reference = getAttribute(cellMatch[1], 'r');
+      const column = reference ? columnIndex(reference) : cells.length;
+      cells[column] = readCellValue(getAttribute(cellMatch[1], 't'), cellMatch[2] || '', sharedStrings);
+    }
+
+    rows[rowNumber - 1] = Array.from(cells, value => value ?? '');
+  }
+
+  const filled = Array.from(rows, row => row ?? []);
+  while (filled.length > 0 && filled[filled.length - 1].every(value => value.trim() === '')) {
+    filled.pop();
+  }
+  return filled;
+}
+
+function findFirstSheetPart(input: ZipInput, entries: Map<string, ZipEntry>): string {
+  const workbook = readPart(input, entries, WORKBOOK_PART) || '';
+  const sheet = workbook.match(/<sheet\b[^>]*>/);
+  const relationId = sheet ? getAttribute(sheet[0], 'r:id') : null;
+  const relations = readPart(input, entries, WORKBOOK_RELS_PART);
+
+  if (relationId && relations) {
+    for (const relation of relations.matchAll(/<Relationship\b[^>]*>/g)) {
+      if (getAttribute(relation[0], 'Id') === relationId) {
+        const target = getAttribute(relation[0], 'Target') || '';
+        return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+      }
+    }
+  }
+
+  return DEFAULT_SHEET_PART;
+}
+
+function readSharedStrings(xml: string | null): string[] {
+  if (!xml) {
+    return [];
+  }
+
+  return Array.from(xml.matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g), match => readText(match[1]));
+}
+
+function readCellValue(type: string | null, body: string, sharedStrings: string[]): string {
+  if (type === 'inlineStr') {
+    return readText(body);
+  }
+
+  const value = body.match(/<v\b[^>]*>([\s\S]*?)<\/v>/);
+  if (!value) {
+    return '';
+  }
+
+  const text = decodeXml(value[1]);
+  switch (type) {
+    case 's':
+      return sharedStrings[Number(text)] ?? '';
+    case 'b':
+      return text === '1' ? 'TRUE' : 'FALSE';
+    case 'e':
+      return '';
+    default:
+      return text;
+  }
+}
+
+// Text of a rich text run or inline string; phonetic hints are left out
+function readText(xml: string): string {
+  const withoutHints = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  return Array.from(withoutHints.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), match => decodeXml(match[1])).join('');
+}
+
+function readPart(input: ZipInput, entries: Map<string, ZipEntry>, name: string): string | null {
+  const entry = entries.get(name);
+  return entry ? bytesToUtf8(readZipEntryBytes(input, entry)) : null;
+}
+
+function getAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`(?:^|\\s)${name.replace(':', '\\:')}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : null;
+}
+
+// "AB12" -> 27
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case 'amp':
+        return '&';
+      case 'lt':
+        return '<';
+      case 'gt':
+        return '>';
+      case 'quot':
+        return '"';
+      case 'apos':
+        return "'";
+      default:
+        return String.fromCodePoint(code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : Number(code.slice(1)));
+    }
+  });
+}
@@ -0,0 +1,375 @@
+// Streaming ZIP writer and reader for backups.
+// Entries go to and from disk a chunk at a time through small I/O adapters, so neither
+// writing nor restoring a backup needs the whole archive or any whole certificate in memory.
+// Free of React Native imports so scripts/check-zip-stream.js can run it against real files in Node.
+import { Inflate, deflateRaw } from 'pako';
+import { bytesToUtf8, utf8ToBytes } from '@noble/ciphers/utils';
+
+export const ZIP_CHUNK_SIZE = 256 * 1024;
+
+/**
+ * Sequential sink for the archive being written
+ */
+export interface ZipOutput {
+  write(bytes: Uint8Array): void;
+}
+
+/**
+ * Random-access source for the archive being read
+ */
+export interface ZipInput {
+  readonly size: number;
+  read(offset: number, length: number): Uint8Array;
+}
+
+export interface ZipEntry {
+  name: string;
+  method: number; // 0 stored, 8 deflated
+  crc32: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const END_OF_CENTRAL_DIRECTORY_LENGTH = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8_NAME = 0x0800;
+const VERSION_NEEDED = 20;
+
+// Sizes and offsets are 32-bit without ZIP64, which backups don't need
+const MAX_ZIP_SIZE = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 of `bytes`, continuing from the CRC of the data before it
+ */
+export function crc32(bytes: Uint8Array, previous = 0): number {
+  let crc = previous ^ 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Writes a ZIP archive entry by entry. Nothing is held back between entries
+ * except the central directory, which is a few dozen bytes per entry.
+ */
+export class ZipStreamWriter {
+  private offset = 0;
+  private readonly entries: ZipEntry[] = [];
+  private readonly modified = toDosDateTime(new Date());
+
+  constructor(private readonly output: ZipOutput) {}
+
+  /**
+   * Adds a small entry already in memory, such as backup.json, deflated
+   */
+  addBytes(name: string, data: Uint8Array): void {
+    const compressed = deflateRaw(data);
+    const entry: ZipEntry = {
+      name,
+      method: METHOD_DEFLATED,
+      crc32: crc32(data),
+      compressedSize: compressed.length,
+      size: data.length,
+      localHeaderOffset: this.offset,
+    };
+
+    this.writeLocalHeader(entry, 0);
+    this.emit(compressed);
+    this.entries.push(entry);
+  }
+
+  /**
+   * Adds an entry read a chunk at a time until `readChunk` returns null. Stored without
+   * compression - certificates are images and PDFs that are already compressed.
+   * The CRC and sizes follow the data in a descriptor, so nothing is buffered.
+   */
+  addStream(name: string, readChunk: () => Uint8Array | null): void {
+    const entry: ZipEntry = {
+      name,
+      method: METHOD_STORED,
+      crc32: 0,
+      compressedSize: 0,
+      size: 0,
+      localHeaderOffset: this.offset,
+    };
+
+    this.writeLocalHeader(entry, FLAG_DATA_DESCRIPTOR);
+
+    for (let chunk = readChunk(); chunk !== null; chunk = readChunk()) {
+      entry.crc32 = crc32(chunk, entry.crc32);
+      entry.size += chunk.length;
+      this.emit(chunk);
+    }
+    entry.compressedSize = entry.size;
+
+    const descriptor = new ByteWriter(16);
+    descriptor.uint32(DATA_DESCRIPTOR_SIGNATURE);
+    descriptor.uint32(entry.crc32);
+    descriptor.uint32(entry.compressedSize);
+    descriptor.uint32(entry.size);
+    this.emit(descriptor.bytes);
+
+    this.entries.push(entry);
+  }
+
+  /**
+   * Writes the central directory. The archive is unreadable until this is called.
+   */
+  finish(): void {
+    if (this.entries.length > MAX_ZIP_ENTRIES) {
+      throw new Error(`Backups can hold at most ${MAX_ZIP_ENTRIES} files`);
+    }
+
+    const directoryOffset = this.offset;
+
+    for (const entry of this.entries) {
+      const name = utf8ToBytes(entry.name);
+      const header = new ByteWriter(46 + name.length);
+      header.uint32(CENTRAL_HEADER_SIGNATURE);
+      header.uint16(VERSION_NEEDED); // Version made by
+      header.uint16(VERSION_NEEDED);
+      header.uint16(FLAG_UTF8_NAME | (entry.method === METHOD_STORED ? FLAG_DATA_DESCRIPTOR : 0));
+      header.uint16(entry.method);
+      header.uint16(this.modified.time);
+      header.uint16(this.modified.date);
+      header.uint32(entry.crc32);
+      header.uint32(entry.compressedSize);
+      header.uint32(entry.size);
+      header.uint16(name.length);
+      header.uint16(0); // Extra field length
+      header.uint16(0); // Comment length
+      header.uint16(0); // Disk number
+      header.uint16(0); // Internal attributes
+      header.uint32(0); // External attributes
+      header.uint32(entry.localHeaderOffset);
+      header.bytes.set(name, 46);
+      this.emit(header.bytes);
+    }
+
+    const end = new ByteWriter(END_OF_CENTRAL_DIRECTORY_LENGTH);
+    end.uint32(END_OF_CENTRAL_DIRECTORY_SIGNATURE);
+    end.uint16(0); // This disk
+    end.uint16(0); // Disk with the central directory
+    end.uint16(this.entries.length);
+    end.uint16(this.entries.length);
+    end.uint32(this.offset - directoryOffset);
+    end.uint32(directoryOffset);
+    end.uint16(0); // Comment length
+    this.emit(end.bytes);
+  }
+
+  private writeLocalHeader(entry: ZipEntry, flags: number): void {
+    const name = utf8ToBytes(entry.name);
+    const header = new ByteWriter(30 + name.length);
+    header.uint32(LOCAL_HEADER_SIGNATURE);
+    header.uint16(VERSION_NEEDED);
+    header.uint16(FLAG_UTF8_NAME | flags);
+    header.uint16(entry.method);
+    header.uint16(this.modified.time);
+    header.uint16(this.modified.date);
+    header.uint32(entry.crc32);
+    header.uint32(entry.compressedSize);
+    header.uint32(entry.size);
+    header.uint16(name.length);
+    header.uint16(0); // Extra field length
+    header.bytes.set(name, 30);
+    this.emit(header.bytes);
+  }
+
+  private emit(bytes: Uint8Array): void {
+    if (this.offset + bytes.length > MAX_ZIP_SIZE) {
+      throw new Error('Backups larger than 4 GB are not supported');
+    }
+    this.output.write(bytes);
+    this.offset += bytes.length;
+  }
+}
+
+/**
+ * Lists an archive's entries from its central directory
+ */
+export function readZipEntries(input: ZipInput): ZipEntry[] {
+  const tailLength = Math.min(input.size, END_OF_CENTRAL_DIRECTORY_LENGTH + MAX_COMMENT_LENGTH);
+  const tail = input.read(input.size - tailLength, tailLength);
+
+  // The end record sits before an optional comment, so search backwards for it
+  let endOffset = -1;
+  for (let i = tail.length - END_OF_CENTRAL_DIRECTORY_LENGTH; i >= 0; i--) {
+    if (readUint32(tail, i) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  const entryCount = readUint16(tail, endOffset + 10);
+  const directorySize = readUint32(tail, endOffset + 12);
+  const directoryOffset = readUint32(tail, endOffset + 16);
+  if (directoryOffset === MAX_ZIP_SIZE || directoryOffset + directorySize > input.size) {
+    throw new Error('Unsupported or damaged ZIP archive');
+  }
+
+  const directory = input.read(directoryOffset, directorySize);
+  const entries: ZipEntry[] = [];
+  let position = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (readUint32(directory, position) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Damaged ZIP archive: central directory is corrupt');
+    }
+
+    const nameLength = readUint16(directory, position + 28);
+    const extraLength = readUint16(directory, position + 30);
+    const commentLength = readUint16(directory, position + 32);
+    const nameBytes = directory.subarray(position + 46, position + 46 + nameLength);
+
+    entries.push({
+      name: bytesToUtf8(nameBytes),
+      method: readUint16(directory, position + 10),
+      crc32: readUint32(directory, position + 16),
+      compressedSize: readUint32(directory, position + 20),
+      size: readUint32(directory, position + 24),
+      localHeaderOffset: readUint32(directory, position + 42),
+    });
+
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Streams an entry's contents to `onChunk`, inflating deflated entries as it goes.
+ * Throws if the contents don't match the entry's size and CRC.
+ */
+export function readZipEntry(
+  input: ZipInput,
+  entry: ZipEntry,
+  onChunk: (chunk: Uint8Array) => void,
+  chunkSize = ZIP_CHUNK_SIZE
+): void {
+  const header = input.read(entry.localHeaderOffset, 30);
+  if (readUint32(header, 0) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Damaged ZIP archive: ${entry.name} not found`);
+  }
+
+  const dataOffset = entry.localHeaderOffset + 30 + readUint16(header, 26) + readUint16(header, 28);
+  let crc = 0;
+  let size = 0;
+  const emit = (chunk: Uint8Array) => {
+    crc = crc32(chunk, crc);
+    size += chunk.length;
+    onChunk(chunk);
+  };
+
+  if (entry.method === METHOD_STORED) {
+    for (let read = 0; read < entry.compressedSize; read += chunkSize) {
+      emit(input.read(dataOffset + read, Math.min(chunkSize, entry.compressedSize - read)));
+    }
+  } else if (entry.method === METHOD_DEFLATED) {
+    const inflator = new Inflate({ raw: true, chunkSize });
+    inflator.onData = emit;
+
+    for (let read = 0; read < entry.compressedSize; read += chunkSize) {
+      const length = Math.min(chunkSize, entry.compressedSize - read);
+      inflator.push(input.read(dataOffset + read, length), read + length >= entry.compressedSize);
+      if (inflator.err) {
+        throw new Error(`${entry.name} is corrupt: ${inflator.msg}`);
+      }
+    }
+  } else {
+    throw new Error(`${entry.name} uses an unsupported compression method`);
+  }
+
+  if (size !== entry.size || crc !== entry.crc32) {
+    throw new Error(`${entry.name} is corrupt`);
+  }
+}
+
+/**
+ * Reads a small entry, such as backup.json, into memory
+ */
+export function readZipEntryBytes(input: ZipInput, entry: ZipEntry): Uint8Array {
+  const bytes = new Uint8Array(entry.size);
+  let offset = 0;
+  readZipEntry(input, entry, chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return bytes;
+}
+
+/**
+ * Wraps bytes already in memory, such as a decrypted backup, as a ZipInput
+ */
+export function bytesZipInput(bytes: Uint8Array): ZipInput {
+  return {
+    size: bytes.length,
+    read: (offset, length) => bytes.subarray(offset, offset + length),
+  };
+}
+
+/**
+ * Little-endian field writer for fixed-size headers
+ */
+class ByteWriter {
+  readonly bytes: Uint8Array;
+  private position = 0;
+
+  constructor(length: number) {
+    this.bytes = new Uint8Array(length);
+  }
+
+  uint16(value: number): void {
+    this.bytes[this.position++] = value & 0xff;
+    this.bytes[this.position++] = (value >>> 8) & 0xff;
+  }
+
+  uint32(value: number): void {
+    this.uint16(value & 0xffff);
+    this.uint16((value >>> 16) & 0xffff);
+  }
+}
+
+function readUint16(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8);
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return (readUint16(bytes, offset) | (readUint16(bytes, offset + 2) << 16)) >>> 0;
+}
+
+/**
+ * MS-DOS date and time fields, in local time with two-second resolution
+ */
+function toDosDateTime(date: Date): { date: number; time: number } {
+  return {
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  };
+}